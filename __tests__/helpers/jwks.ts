@@ -0,0 +1,54 @@
+// Local JWKS fixture: signing keys for test tokens, published as a JWKS file
+// the JwtAuthenticator reads through OAUTH_JWKS_FILE
+import { generateKeyPairSync, KeyObject, sign } from "node:crypto";
+import { writeFileSync } from "node:fs";
+
+export interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+export function createSigningKey(kid: string): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  return { kid, privateKey, publicKey };
+}
+
+/**
+ * Writes the public halves of the keys to a JWKS file
+ */
+export function writeJwks(file: string, keys: SigningKey[]): void {
+  const jwks = {
+    keys: keys.map((key) => ({
+      ...key.publicKey.export({ format: "jwk" }),
+      kid: key.kid,
+      use: "sig",
+      alg: "RS256",
+    })),
+  };
+  writeFileSync(file, JSON.stringify(jwks));
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Signs an RS256 access token. The header names the key's kid unless the
+ * header argument replaces it.
+ */
+export function signToken(
+  key: SigningKey,
+  payload: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: "RS256", kid: key.kid },
+): string {
+  const data = `${encodeSegment({ typ: "JWT", ...header })}.${encodeSegment(payload)}`;
+  const signature = sign("sha256", Buffer.from(data), key.privateKey);
+  return `${data}.${signature.toString("base64url")}`;
+}
+
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ApiKeyAuthenticator, hashApiKey } from "../../../src/auth/apiKeys.js";
+
+describe("ApiKeyAuthenticator", () => {
+  let dir: string;
+  let authenticator: ApiKeyAuthenticator;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "api-keys-"));
+    const keysFile = join(dir, "keys.json");
+    writeFileSync(
+      keysFile,
+      JSON.stringify({
+        keys: [
+          { id: "ci", hash: hashApiKey("ci-secret") },
+          {
+            id: "old",
+            hash: hashApiKey("old-secret"),
+            expiresAt: "2020-01-01T00:00:00Z",
+          },
+          {
+            id: "temp",
+            hash: hashApiKey("temp-secret"),
+            expiresAt: "2999-01-01T00:00:00Z",
+          },
+        ],
+      }),
+    );
+    authenticator = new ApiKeyAuthenticator(keysFile);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores keys as SHA-256 hashes", () => {
+    expect(hashApiKey("ci-secret")).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(hashApiKey("ci-secret")).not.toContain("ci-secret");
+  });
+
+  it("identifies the caller by the key's ID", async () => {
+    const authInfo = await authenticator.authenticate("ci-secret");
+
+    expect(authInfo.clientId).toBe("ci");
+    expect(authInfo.scopes).toEqual([]);
+    expect(authInfo.expiresAt).toBeUndefined();
+    expect(authInfo.extra).toEqual({ authMethod: "apiKey" });
+  });
+
+  it("reports the expiry of keys that have one", async () => {
+    const authInfo = await authenticator.authenticate("temp-secret");
+
+    expect(authInfo.expiresAt).toBe(
+      Math.floor(Date.parse("2999-01-01T00:00:00Z") / 1000),
+    );
+  });
+
+  it("rejects unknown keys", async () => {
+    await expect(authenticator.authenticate("guess")).rejects.toThrow(
+      "Invalid API key",
+    );
+  });
+
+  it("rejects the stored hash itself", async () => {
+    await expect(
+      authenticator.authenticate(hashApiKey("ci-secret")),
+    ).rejects.toThrow("Invalid API key");
+  });
+
+  it("rejects expired keys", async () => {
+    await expect(authenticator.authenticate("old-secret")).rejects.toThrow(
+      "API key has expired",
+    );
+  });
+
+  it("refuses to start with an invalid keys file", () => {
+    const badFile = join(dir, "bad.json");
+    writeFileSync(badFile, JSON.stringify({ keys: [{ id: "x" }] }));
+
+    expect(() => new ApiKeyAuthenticator(badFile)).toThrow();
+  });
+});
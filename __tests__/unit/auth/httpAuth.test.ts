@@ -0,0 +1,244 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import express, { Request, Response } from "express";
+import { configManager, ServerConfig } from "../../../src/config.js";
+import { createHttpAuth, HttpAuth } from "../../../src/auth/httpAuth.js";
+import { hashApiKey } from "../../../src/auth/apiKeys.js";
+import {
+  createSigningKey,
+  nowSeconds,
+  signToken,
+  writeJwks,
+} from "../../helpers/jwks.js";
+
+const ISSUER = "https://auth.example.com";
+const RESOURCE_URL = "https://mcp.example.com/mcp";
+
+function testConfig(overrides: Partial<ServerConfig>): ServerConfig {
+  return { ...configManager.getConfig(), ...overrides };
+}
+
+// Serves the auth middleware in front of an endpoint that echoes req.auth
+async function serve(auth: HttpAuth): Promise<{ url: string; server: Server }> {
+  const app = express();
+  app.use(auth.metadataRouter);
+  app.use("/mcp", auth.requireAuth);
+  app.get("/mcp", (req: Request, res: Response) => {
+    res.json({ clientId: req.auth?.clientId ?? null });
+  });
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, server };
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe("createHttpAuth", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "http-auth-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("refuses incomplete configurations", () => {
+    expect(() =>
+      createHttpAuth(
+        testConfig({ HTTP_AUTH_MODE: "apiKey", HTTP_API_KEYS_FILE: null }),
+      ),
+    ).toThrow("HTTP_API_KEYS_FILE");
+    expect(() =>
+      createHttpAuth(
+        testConfig({
+          HTTP_AUTH_MODE: "oauth",
+          OAUTH_RESOURCE_URL: RESOURCE_URL,
+          OAUTH_ISSUER: null,
+        }),
+      ),
+    ).toThrow("OAUTH_ISSUER");
+  });
+
+  describe("without authentication", () => {
+    let url: string;
+    let server: Server;
+
+    beforeAll(async () => {
+      ({ url, server } = await serve(
+        createHttpAuth(testConfig({ HTTP_AUTH_MODE: "none" })),
+      ));
+    });
+
+    afterAll(() => close(server));
+
+    it("lets every request through", async () => {
+      const response = await fetch(`${url}/mcp`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ clientId: null });
+    });
+  });
+
+  describe("with API keys", () => {
+    let url: string;
+    let server: Server;
+
+    beforeAll(async () => {
+      const keysFile = join(dir, "keys.json");
+      writeFileSync(
+        keysFile,
+        JSON.stringify({ keys: [{ id: "ci", hash: hashApiKey("ci-secret") }] }),
+      );
+      ({ url, server } = await serve(
+        createHttpAuth(
+          testConfig({
+            HTTP_AUTH_MODE: "apiKey",
+            HTTP_API_KEYS_FILE: keysFile,
+          }),
+        ),
+      ));
+    });
+
+    afterAll(() => close(server));
+
+    it("passes the key's ID on as the client ID", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: { Authorization: "Bearer ci-secret" },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ clientId: "ci" });
+    });
+
+    it("challenges requests without credentials", async () => {
+      const response = await fetch(`${url}/mcp`);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toContain(
+        'error="invalid_token"',
+      );
+      expect(await response.json()).toMatchObject({ error: "invalid_token" });
+    });
+
+    it("rejects other authorization schemes", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: { Authorization: "Basic Y2k6Y2ktc2VjcmV0" },
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("rejects unknown keys", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: { Authorization: "Bearer wrong" },
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("with OAuth", () => {
+    const key = createSigningKey("key-1");
+    let url: string;
+    let server: Server;
+
+    const token = (claims: Record<string, unknown> = {}) =>
+      signToken(key, {
+        iss: ISSUER,
+        aud: RESOURCE_URL,
+        client_id: "agent",
+        scope: "discord",
+        exp: nowSeconds() + 3600,
+        ...claims,
+      });
+
+    beforeAll(async () => {
+      const jwksFile = join(dir, "jwks.json");
+      writeJwks(jwksFile, [key]);
+      ({ url, server } = await serve(
+        createHttpAuth(
+          testConfig({
+            HTTP_AUTH_MODE: "oauth",
+            OAUTH_RESOURCE_URL: RESOURCE_URL,
+            OAUTH_ISSUER: ISSUER,
+            OAUTH_AUDIENCE: null,
+            OAUTH_JWKS_FILE: jwksFile,
+            OAUTH_JWKS_URI: null,
+            OAUTH_REQUIRED_SCOPES: ["discord"],
+          }),
+        ),
+      ));
+    });
+
+    afterAll(() => close(server));
+
+    it("publishes the protected resource metadata", async () => {
+      for (const path of [
+        "/.well-known/oauth-protected-resource",
+        "/.well-known/oauth-protected-resource/mcp",
+      ]) {
+        const response = await fetch(`${url}${path}`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({
+          resource: RESOURCE_URL,
+          authorization_servers: [ISSUER],
+          scopes_supported: ["discord"],
+        });
+      }
+    });
+
+    it("accepts a valid token for the resource URL", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: { Authorization: `Bearer ${token()}` },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ clientId: "agent" });
+    });
+
+    it("points failed requests at the resource metadata", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: {
+          Authorization: `Bearer ${token({ exp: nowSeconds() - 3600 })}`,
+        },
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toContain(
+        'resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource/mcp"',
+      );
+    });
+
+    it("rejects tokens without the required scope", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: { Authorization: `Bearer ${token({ scope: "other" })}` },
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get("www-authenticate")).toContain(
+        'error="insufficient_scope"',
+      );
+    });
+
+    it("rejects tokens for another audience", async () => {
+      const response = await fetch(`${url}/mcp`, {
+        headers: {
+          Authorization: `Bearer ${token({ aud: "https://other.example.com" })}`,
+        },
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JwtAuthenticator } from "../../../src/auth/jwt.js";
+import {
+  createSigningKey,
+  nowSeconds,
+  signToken,
+  writeJwks,
+} from "../../helpers/jwks.js";
+
+const ISSUER = "https://auth.example.com";
+const AUDIENCE = "https://mcp.example.com/mcp";
+
+describe("JwtAuthenticator", () => {
+  const currentKey = createSigningKey("key-1");
+  const nextKey = createSigningKey("key-2");
+  let dir: string;
+  let jwksFile: string;
+  let authenticator: JwtAuthenticator;
+
+  const validClaims = () => ({
+    iss: ISSUER,
+    aud: AUDIENCE,
+    sub: "user-1",
+    client_id: "client-1",
+    scope: "discord:read discord:write",
+    iat: nowSeconds(),
+    exp: nowSeconds() + 3600,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    jwksFile = join(dir, "jwks.json");
+    writeJwks(jwksFile, [currentKey]);
+    authenticator = new JwtAuthenticator({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksFile,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("accepts a valid token and returns its client and scopes", async () => {
+    const token = signToken(currentKey, validClaims());
+
+    const authInfo = await authenticator.authenticate(token);
+
+    expect(authInfo.clientId).toBe("client-1");
+    expect(authInfo.scopes).toEqual(["discord:read", "discord:write"]);
+    expect(authInfo.extra).toEqual({ authMethod: "oauth", subject: "user-1" });
+  });
+
+  it("accepts an audience list that includes this server", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      aud: ["https://other.example.com", AUDIENCE],
+    });
+
+    await expect(authenticator.authenticate(token)).resolves.toBeDefined();
+  });
+
+  it("rejects a token signed by a key outside the JWKS", async () => {
+    const forged = createSigningKey("key-1");
+    const token = signToken(forged, validClaims());
+
+    await expect(authenticator.authenticate(token)).rejects.toThrow(
+      "Invalid token signature",
+    );
+  });
+
+  it("rejects a token whose payload was changed after signing", async () => {
+    const [header, , signature] = signToken(currentKey, validClaims()).split(
+      ".",
+    );
+    const payload = Buffer.from(
+      JSON.stringify({ ...validClaims(), client_id: "admin" }),
+    ).toString("base64url");
+
+    await expect(
+      authenticator.authenticate(`${header}.${payload}.${signature}`),
+    ).rejects.toThrow("Invalid token signature");
+  });
+
+  it("rejects unsigned and HMAC tokens", async () => {
+    const none = signToken(currentKey, validClaims(), { alg: "none" });
+    const hmac = signToken(currentKey, validClaims(), {
+      alg: "HS256",
+      kid: "key-1",
+    });
+
+    await expect(authenticator.authenticate(none)).rejects.toThrow();
+    await expect(authenticator.authenticate(hmac)).rejects.toThrow();
+  });
+
+  it("rejects a token from another issuer", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      iss: "https://evil.example.com",
+    });
+
+    await expect(authenticator.authenticate(token)).rejects.toThrow(
+      "Token was not issued by the trusted issuer",
+    );
+  });
+
+  it("rejects a token for another audience", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      aud: "https://other.example.com",
+    });
+
+    await expect(authenticator.authenticate(token)).rejects.toThrow(
+      "Token audience does not include this server",
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      exp: nowSeconds() - 3600,
+    });
+
+    await expect(authenticator.authenticate(token)).rejects.toThrow(
+      "Token has expired",
+    );
+  });
+
+  it("tolerates a minute of clock skew on expiry", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      exp: nowSeconds() - 30,
+    });
+
+    await expect(authenticator.authenticate(token)).resolves.toBeDefined();
+  });
+
+  it("rejects a token without an expiry", async () => {
+    const { exp: _exp, ...claims } = validClaims();
+    const token = signToken(currentKey, claims);
+
+    await expect(authenticator.authenticate(token)).rejects.toThrow(
+      "Token has no expiration time",
+    );
+  });
+
+  it("rejects a token that is not valid yet", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      nbf: nowSeconds() + 3600,
+    });
+
+    await expect(authenticator.authenticate(token)).rejects.toThrow(
+      "Token is not valid yet",
+    );
+  });
+
+  it("accepts a token whose not-before time has passed", async () => {
+    const token = signToken(currentKey, {
+      ...validClaims(),
+      nbf: nowSeconds() - 10,
+    });
+
+    await expect(authenticator.authenticate(token)).resolves.toBeDefined();
+  });
+
+  it("rejects malformed tokens", async () => {
+    await expect(authenticator.authenticate("not-a-jwt")).rejects.toThrow(
+      "Malformed access token",
+    );
+    await expect(authenticator.authenticate("a.b.c")).rejects.toThrow(
+      "Malformed access token",
+    );
+  });
+
+  it("picks up a rotated key once the refresh cooldown has passed", async () => {
+    // Loads the JWKS with only the current key
+    await authenticator.authenticate(signToken(currentKey, validClaims()));
+
+    writeJwks(jwksFile, [nextKey]);
+    const rotatedToken = signToken(nextKey, validClaims());
+
+    // Within the cooldown the cached keys are kept
+    await expect(authenticator.authenticate(rotatedToken)).rejects.toThrow(
+      "No matching signing key",
+    );
+
+    const later = Date.now() + 60 * 1000;
+    jest.spyOn(Date, "now").mockReturnValue(later);
+
+    await expect(
+      authenticator.authenticate(rotatedToken),
+    ).resolves.toBeDefined();
+    // The retired key is gone from the refreshed JWKS
+    await expect(
+      authenticator.authenticate(signToken(currentKey, validClaims())),
+    ).rejects.toThrow("No matching signing key");
+  });
+
+  it("keeps the previous keys while the JWKS cannot be loaded", async () => {
+    await authenticator.authenticate(signToken(currentKey, validClaims()));
+    rmSync(jwksFile);
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 60 * 60 * 1000);
+
+    await expect(
+      authenticator.authenticate(signToken(currentKey, validClaims())),
+    ).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,356 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "discord.js";
+import { configManager, ServerConfig } from "../../src/config.js";
+import { BotPool } from "../../src/botPool.js";
+import {
+  cancelBulkOperationHandler,
+  getBulkOperationHandler,
+  listBulkOperationsHandler,
+  pauseBulkOperationHandler,
+  resumeBulkOperationHandler,
+  startBulkOperationHandler,
+} from "../../src/tools/bulkOperations.js";
+import {
+  BulkOperationsService,
+  getBulkOperationsService,
+  OperationProgress,
+} from "../../src/services/bulkOperationsService.js";
+import { ToolContext, ToolResponse } from "../../src/tools/types.js";
+
+const GUILD = "100000000000000001";
+const ROLE = "300000000000000001";
+const MEMBERS = ["500000000000000001", "500000000000000002"];
+const MEMBER_WITH_ROLE = "500000000000000003";
+
+// Members whose roles change when the operation adds the role
+function fakeMember(id: string, roleIds: string[] = []) {
+  const roles = new Set(roleIds);
+  return {
+    id,
+    roles: {
+      cache: { has: (roleId: string) => roles.has(roleId) },
+      add: jest.fn(async (role: { id: string }) => {
+        roles.add(role.id);
+      }),
+    },
+  };
+}
+
+let members: Map<string, ReturnType<typeof fakeMember>>;
+
+const guild = {
+  id: GUILD,
+  roles: { cache: new Map([[ROLE, { id: ROLE }]]) },
+  members: {
+    fetch: async (id: string) => {
+      const member = members.get(id);
+      if (!member) throw new Error("Unknown Member");
+      return member;
+    },
+  },
+};
+const client = {
+  isReady: () => true,
+  guilds: { fetch: async () => guild },
+} as unknown as Client;
+const bots = {
+  get: () => ({ client }),
+  hasAdditionalBots: () => false,
+} as unknown as BotPool;
+
+function context(overrides: Partial<ToolContext> = {}): ToolContext {
+  return { client, bots, ...overrides };
+}
+
+function useConfig(overrides: Partial<ServerConfig> = {}) {
+  jest.spyOn(configManager, "getConfig").mockReturnValue({
+    ...configManager.getConfig(),
+    ENABLE_USER_MANAGEMENT: true,
+    GUILD_OVERRIDES: {},
+    ...overrides,
+  });
+}
+
+function output(response: ToolResponse) {
+  expect(response.isError).toBeFalsy();
+  return response.structuredContent as Record<string, any>;
+}
+
+function resetMembers() {
+  members = new Map(
+    [
+      ...MEMBERS.map((id) => fakeMember(id)),
+      fakeMember(MEMBER_WITH_ROLE, [ROLE]),
+    ].map((member) => [member.id, member]),
+  );
+}
+
+// Resolves once the operation's progress matches
+function waitForProgress(
+  operationId: string,
+  matches: (progress: OperationProgress) => boolean,
+  service: BulkOperationsService = getBulkOperationsService(),
+): Promise<OperationProgress> {
+  return new Promise((resolve) => {
+    const check = (progress: OperationProgress) => {
+      if (progress.operation_id !== operationId || !matches(progress)) return;
+      service.off("progress_updated", check);
+      resolve(progress);
+    };
+    service.on("progress_updated", check);
+    check(service.getOperation(operationId)!);
+  });
+}
+
+const addRole = {
+  guildId: GUILD,
+  operation: "add_role",
+  roleId: ROLE,
+  memberIds: [...MEMBERS, MEMBER_WITH_ROLE],
+  batchSize: 1,
+  delayMs: 1,
+};
+
+describe("bulk operation tools", () => {
+  beforeAll(async () => {
+    await getBulkOperationsService().initialize(bots);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await getBulkOperationsService().shutdown();
+  });
+
+  it("lists the IDs a dry run would act on without changing anything", async () => {
+    useConfig();
+    resetMembers();
+
+    const result = output(
+      await startBulkOperationHandler({ ...addRole, dryRun: true }, context()),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.dryRun).toBe(true);
+    expect(result.affectedIds).toEqual(MEMBERS);
+    for (const member of members.values()) {
+      expect(member.roles.add).not.toHaveBeenCalled();
+    }
+  });
+
+  it("reports progress while it waits for the operation", async () => {
+    useConfig();
+    resetMembers();
+    const reportProgress = jest.fn(async () => {});
+
+    const result = output(
+      await startBulkOperationHandler(addRole, context({ reportProgress })),
+    );
+
+    expect(result).toMatchObject({
+      status: "completed",
+      totalItems: 2,
+      successfulItems: 2,
+      affectedIds: null,
+    });
+    expect(reportProgress.mock.calls.map((call) => call[0])).toEqual(
+      expect.arrayContaining([1, 2]),
+    );
+    expect(reportProgress).toHaveBeenLastCalledWith(
+      2,
+      2,
+      "2/2 items, batch 2/2",
+    );
+    expect(members.get(MEMBER_WITH_ROLE)!.roles.add).not.toHaveBeenCalled();
+  });
+
+  it("cancels an operation after its current batch", async () => {
+    useConfig();
+    resetMembers();
+    const started = output(
+      await startBulkOperationHandler(
+        { ...addRole, delayMs: 200, wait: false },
+        context(),
+      ),
+    );
+    await waitForProgress(
+      started.operationId,
+      (progress) => progress.processed_items === 1,
+    );
+
+    const cancelled = output(
+      await cancelBulkOperationHandler(
+        { operationId: started.operationId },
+        context(),
+      ),
+    );
+    // The batch delay ends and the operation sees the cancellation
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(cancelled.status).toBe("cancelled");
+    expect(
+      getBulkOperationsService().getOperation(started.operationId),
+    ).toMatchObject({ status: "cancelled", processed_items: 1 });
+    expect(members.get(MEMBERS[1])!.roles.add).not.toHaveBeenCalled();
+  });
+
+  it("applies the tool checks to every operation tool", async () => {
+    useConfig();
+    resetMembers();
+    const { operationId } = output(
+      await startBulkOperationHandler({ ...addRole, dryRun: true }, context()),
+    );
+    const corePolicy = context({
+      policy: { toolGroups: ["core"], readOnly: false },
+    });
+
+    const hidden = await getBulkOperationHandler({ operationId }, corePolicy);
+    const listed = output(await listBulkOperationsHandler({}, corePolicy));
+    const refused = await cancelBulkOperationHandler(
+      { operationId },
+      corePolicy,
+    );
+    useConfig({
+      GUILD_OVERRIDES: { [GUILD]: { ENABLE_USER_MANAGEMENT: false } },
+    });
+    const disabled = await cancelBulkOperationHandler(
+      { operationId },
+      context(),
+    );
+
+    expect(hidden.content[0].text).toMatch(/not found/);
+    expect(listed.operationCount).toBe(0);
+    expect(refused.content[0].text).toMatch(/not found/);
+    expect(disabled.isError).toBe(true);
+    expect(disabled.content[0].text).toMatch(/disabled for this server/);
+  });
+
+  it("pauses after the current batch and resumes with the remaining items", async () => {
+    useConfig();
+    resetMembers();
+    const started = output(
+      await startBulkOperationHandler(
+        { ...addRole, delayMs: 60000, wait: false },
+        context(),
+      ),
+    );
+    await waitForProgress(
+      started.operationId,
+      (progress) => progress.processed_items === 1,
+    );
+
+    // Returns once the operation has stopped, without waiting out the delay
+    const paused = output(
+      await pauseBulkOperationHandler(
+        { operationId: started.operationId },
+        context(),
+      ),
+    );
+    expect(paused).toMatchObject({ status: "paused", processedItems: 1 });
+    expect(members.get(MEMBERS[1])!.roles.add).not.toHaveBeenCalled();
+
+    const resumed = output(
+      await resumeBulkOperationHandler(
+        { operationId: started.operationId },
+        context(),
+      ),
+    );
+
+    expect(resumed).toMatchObject({
+      status: "completed",
+      processedItems: 2,
+      successfulItems: 2,
+    });
+    for (const id of MEMBERS) {
+      expect(members.get(id)!.roles.add).toHaveBeenCalledTimes(1);
+    }
+  });
+});
+
+describe("bulk operation checkpoints", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "bulk-operations-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resumes an operation stopped by a shutdown after a restart", async () => {
+    resetMembers();
+    const before = new BulkOperationsService();
+    await before.initialize(bots, dir);
+    const operationId = await before.bulkRoleOperation(
+      GUILD,
+      "add",
+      ROLE,
+      MEMBERS,
+      undefined,
+      { batch_size: 1, delay_ms: 60000 },
+    );
+    await waitForProgress(
+      operationId,
+      (progress) => progress.processed_items === 1,
+      before,
+    );
+    await before.shutdown();
+
+    const file = join(dir, `${operationId}.json`);
+    expect(before.getOperation(operationId)?.status).toBe("paused");
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+
+    const after = new BulkOperationsService();
+    await after.initialize(bots, dir);
+    expect(after.getOperation(operationId)).toMatchObject({
+      status: "paused",
+      processed_items: 1,
+    });
+    expect(after.resumeOperation(operationId)).toBe(true);
+    const done = await waitForProgress(
+      operationId,
+      (progress) => progress.status === "completed",
+      after,
+    );
+
+    expect(done).toMatchObject({ processed_items: 2, successful_items: 2 });
+    for (const id of MEMBERS) {
+      expect(members.get(id)!.roles.add).toHaveBeenCalledTimes(1);
+    }
+    expect(existsSync(file)).toBe(false);
+  });
+
+  it("skips checkpoint files that are not valid", async () => {
+    writeFileSync(
+      join(dir, "add_roles_1.json"),
+      JSON.stringify({ config: { id: "add_roles_1" }, item_ids: [] }),
+    );
+
+    const service = new BulkOperationsService();
+    await service.initialize(bots, dir);
+
+    expect(service.getAllOperations()).toEqual([]);
+    expect(readdirSync(dir)).toEqual(["add_roles_1.json"]);
+  });
+});
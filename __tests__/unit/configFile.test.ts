@@ -0,0 +1,258 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigManager } from "../../src/config.js";
+import { interpolateEnv, parseYaml } from "../../src/configFile.js";
+import { parseGuildSpecYaml } from "../../src/guildSpec.js";
+
+describe("parseYaml", () => {
+  it("reads nested mappings, lists and scalars", () => {
+    const source = [
+      "# Shared settings",
+      "HTTP_PORT: 3000",
+      "ENABLE_RBAC: true",
+      "OAUTH_AUDIENCE: ~",
+      "ALLOW_GUILD_IDS: ['123456789012345678', \"876543210987654321\"]",
+      "OAUTH_REQUIRED_SCOPES:",
+      "- discord # trailing comment",
+      "- admin",
+      "guilds:",
+      "  123456789012345678:",
+      "    ENABLE_VOICE_CHANNELS: false",
+    ].join("\n");
+
+    expect(parseYaml(source)).toEqual({
+      HTTP_PORT: 3000,
+      ENABLE_RBAC: true,
+      OAUTH_AUDIENCE: null,
+      ALLOW_GUILD_IDS: ["123456789012345678", "876543210987654321"],
+      OAUTH_REQUIRED_SCOPES: ["discord", "admin"],
+      guilds: { "123456789012345678": { ENABLE_VOICE_CHANNELS: false } },
+    });
+  });
+
+  it("keeps snowflakes too large for a number exact", () => {
+    expect(parseYaml("id: 1234567890123456789")).toEqual({
+      id: "1234567890123456789",
+    });
+  });
+
+  it("rejects syntax it does not support", () => {
+    expect(() => parseYaml("a: &anchor 1")).toThrow("unsupported YAML");
+    expect(() => parseYaml("a:\n\tb: 1")).toThrow("tabs are not allowed");
+    expect(() => parseYaml("a: 1\n   b: 2")).toThrow("unexpected indentation");
+  });
+
+  it("reads lists of mappings with nested blocks", () => {
+    const source = [
+      "categories:",
+      "  - name: Community",
+      "    channels:",
+      "      - name: announcements",
+      "        type: text",
+      "      -",
+      "        name: Lounge",
+      "        userLimit: 10",
+      "  - name: Archive",
+      "channels:",
+      "- name: rules # listed at key level",
+      "  type: text",
+      "tags: [bug, 'solved']",
+      "urls:",
+      "  - https://example.com",
+    ].join("\n");
+
+    expect(parseYaml(source)).toEqual({
+      categories: [
+        {
+          name: "Community",
+          channels: [
+            { name: "announcements", type: "text" },
+            { name: "Lounge", userLimit: 10 },
+          ],
+        },
+        { name: "Archive" },
+      ],
+      channels: [{ name: "rules", type: "text" }],
+      tags: ["bug", "solved"],
+      urls: ["https://example.com"],
+    });
+  });
+
+  it("names the line of a syntax error", () => {
+    expect(() => parseYaml("roles:\n  - name: a\n     hoist: true")).toThrow(
+      "line 3: unexpected indentation",
+    );
+  });
+});
+
+describe("interpolateEnv", () => {
+  afterEach(() => {
+    delete process.env.CONFIG_TEST_PORT;
+  });
+
+  it("replaces variables and falls back to defaults", () => {
+    process.env.CONFIG_TEST_PORT = "3000";
+
+    expect(
+      interpolateEnv({
+        port: "${CONFIG_TEST_PORT}",
+        list: ["${CONFIG_TEST_MISSING:-fallback}"],
+        count: 2,
+      }),
+    ).toEqual({ port: "3000", list: ["fallback"], count: 2 });
+  });
+
+  it("names the value that references an unset variable", () => {
+    expect(() =>
+      interpolateEnv({
+        profiles: { prod: { HTTP_PORT: "${CONFIG_TEST_PORT}" } },
+      }),
+    ).toThrow("profiles.prod.HTTP_PORT: environment variable CONFIG_TEST_PORT");
+  });
+});
+
+describe("ConfigManager with a config file", () => {
+  let dir: string;
+  const savedEnv = { ...process.env };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "config-file-"));
+  });
+
+  beforeEach(() => {
+    for (const name of ["HTTP_PORT", "PORT", "ENABLE_RBAC", "CONFIG_PROFILE"]) {
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfigFile(source: string) {
+    const file = join(dir, "discordmcp.config.yaml");
+    writeFileSync(file, source);
+    process.env.CONFIG_FILE = file;
+  }
+
+  function loadConfigFile(source: string, profile?: string) {
+    writeConfigFile(source);
+    if (profile) process.env.CONFIG_PROFILE = profile;
+    else delete process.env.CONFIG_PROFILE;
+    return new ConfigManager().getConfig();
+  }
+
+  const source = [
+    "defaultProfile: dev",
+    "HTTP_PORT: 3000",
+    "guilds:",
+    '  "123456789012345678":',
+    "    ENABLE_RBAC: true",
+    "profiles:",
+    "  dev:",
+    "    HTTP_PORT: 3001",
+    "  prod:",
+    "    HTTP_PORT: ${CONFIG_TEST_PROD_PORT}",
+    "    guilds:",
+    '      "123456789012345678":',
+    "        ENABLE_VOICE_CHANNELS: true",
+  ].join("\n");
+
+  it("applies the default profile over the shared settings", () => {
+    const config = loadConfigFile(source);
+
+    expect(config.HTTP_PORT).toBe(3001);
+    expect(config.GUILD_OVERRIDES).toEqual({
+      "123456789012345678": { ENABLE_RBAC: true },
+    });
+  });
+
+  it("merges the guild overrides of the selected profile", () => {
+    process.env.CONFIG_TEST_PROD_PORT = "4000";
+
+    const config = loadConfigFile(source, "prod");
+
+    expect(config.HTTP_PORT).toBe(4000);
+    expect(config.GUILD_OVERRIDES).toEqual({
+      "123456789012345678": { ENABLE_RBAC: true, ENABLE_VOICE_CHANNELS: true },
+    });
+  });
+
+  it("lets the environment win over the file", () => {
+    process.env.ENABLE_RBAC = "true";
+    const config = loadConfigFile("ENABLE_RBAC: false");
+
+    expect(config.ENABLE_RBAC).toBe(true);
+  });
+
+  it("keeps runtime updates over the environment and later file edits", () => {
+    process.env.ENABLE_RBAC = "false";
+    writeConfigFile('ENABLE_RBAC: false\nALLOW_GUILD_IDS: ["1"]');
+    const manager = new ConfigManager();
+
+    manager.update({ ENABLE_RBAC: "1" });
+    writeConfigFile('ENABLE_RBAC: false\nALLOW_GUILD_IDS: ["2"]');
+    manager.reload();
+
+    expect(manager.getConfig().ENABLE_RBAC).toBe(true);
+    expect(manager.getConfig().ALLOW_GUILD_IDS).toEqual(["2"]);
+    expect(process.env.ENABLE_RBAC).toBe("false");
+  });
+
+  it("refuses runtime updates that make the configuration invalid", () => {
+    writeConfigFile("TOOL_PIPELINE: [audit]");
+    const manager = new ConfigManager();
+
+    expect(() => manager.update({ TOOL_PIPELINE: "bogus" })).toThrow();
+    expect(manager.reload()).toEqual([]);
+    expect(manager.getConfig().TOOL_PIPELINE).toEqual(["audit"]);
+  });
+
+  it("reports unknown profiles and invalid values with their path", () => {
+    expect(() => loadConfigFile(source, "staging")).toThrow(
+      'Unknown config profile "staging"',
+    );
+    expect(() => loadConfigFile("HTTP_PORT: [1, 2]")).toThrow("HTTP_PORT");
+  });
+});
+
+describe("parseGuildSpecYaml", () => {
+  it("applies the spec defaults", () => {
+    const spec = parseGuildSpecYaml(
+      [
+        "roles:",
+        "  - name: Moderators",
+        '    color: "#e67e22"',
+        "    permissions: [KickMembers]",
+      ].join("\n"),
+    );
+
+    expect(spec).toEqual({
+      roles: [
+        { name: "Moderators", color: "#e67e22", permissions: ["KickMembers"] },
+      ],
+      categories: [],
+      channels: [],
+    });
+  });
+
+  it("reports the path of invalid values", () => {
+    expect(() =>
+      parseGuildSpecYaml("channels:\n  - name: lounge\n    type: stage"),
+    ).toThrow("channels.0.type");
+  });
+});
@@ -0,0 +1,347 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ChannelType, Collection, Guild, OverwriteType } from "discord.js";
+import {
+  ChannelBackup,
+  diffGuildBackup,
+  GuildBackup,
+  loadGuildBackup,
+  restoreGuildBackup,
+  RoleBackup,
+  saveGuildBackup,
+} from "../../src/guildBackup.js";
+
+const GUILD = "100000000000000001"; // Also the ID of @everyone
+const KEPT_ROLE = "300000000000000001";
+const LOST_ROLE = "300000000000000002";
+const LOST_LOW_ROLE = "300000000000000003";
+const BOT_ROLE = "300000000000000004"; // Managed, so never recreated
+const CATEGORY = "200000000000000001";
+const TEXT = "200000000000000002"; // In CATEGORY
+const VOICE = "200000000000000003"; // In a category that no longer exists
+const KEPT_CHANNEL = "200000000000000004";
+const GONE_CATEGORY = "200000000000000009";
+const MEMBER = "500000000000000001";
+
+function role(id: string, name: string, position = 0): RoleBackup {
+  return {
+    id,
+    name,
+    color: "#000000",
+    hoist: false,
+    mentionable: false,
+    position,
+    permissions: [],
+    managed: false,
+  };
+}
+
+function channel(
+  id: string,
+  name: string,
+  type: ChannelType,
+  extra: Partial<ChannelBackup> = {},
+): ChannelBackup {
+  return { id, name, type, position: 0, parentId: null, ...extra };
+}
+
+function backupOf(
+  roles: RoleBackup[],
+  channels: ChannelBackup[],
+  extra: Partial<GuildBackup> = {},
+): GuildBackup {
+  return {
+    guildId: GUILD,
+    name: "Guild",
+    description: null,
+    icon: null,
+    banner: null,
+    createdAt: new Date(0).toISOString(),
+    backupTimestamp: new Date().toISOString(),
+    settings: {},
+    roles,
+    channels,
+    emojis: [],
+    stickers: [],
+    webhooks: [],
+    welcomeScreen: null,
+    ...extra,
+  };
+}
+
+// A guild with the given roles and channels. Created items get IDs from 900
+// on and are not added to the caches.
+function fakeGuild(roles: RoleBackup[], channels: ChannelBackup[]) {
+  let nextId = 900;
+  const create = jest.fn(async (_options: Record<string, any>) => ({
+    id: String(nextId++),
+  }));
+  const guild = {
+    id: GUILD,
+    name: "Guild",
+    description: null,
+    features: [],
+    createdAt: new Date(0),
+    iconURL: () => null,
+    bannerURL: () => null,
+    roles: {
+      cache: new Collection(
+        roles.map((entry) => [
+          entry.id,
+          {
+            ...entry,
+            hexColor: entry.color,
+            permissions: { toArray: () => entry.permissions },
+          },
+        ]),
+      ),
+      create,
+    },
+    channels: {
+      cache: new Collection(
+        channels.map((entry) => [
+          entry.id,
+          {
+            ...entry,
+            isThread: () => false,
+            isVoiceBased: () => false,
+            permissionOverwrites: { cache: new Collection() },
+          },
+        ]),
+      ),
+      create,
+    },
+    emojis: { fetch: async () => new Collection() },
+    stickers: { fetch: async () => new Collection() },
+    fetchWebhooks: async () => new Collection(),
+  };
+  return { guild: guild as unknown as Guild, create };
+}
+
+const everyone = role(GUILD, "@everyone");
+const keptRole = role(KEPT_ROLE, "Members", 1);
+const keptChannel = channel(KEPT_CHANNEL, "general", ChannelType.GuildText);
+
+// What the restore tests back up: two lost roles, a lost category with a
+// text channel and a voice channel whose category was deleted before
+const backedUp = backupOf(
+  [
+    everyone,
+    keptRole,
+    role(LOST_LOW_ROLE, "Helpers", 2),
+    role(LOST_ROLE, "Moderators", 3),
+    { ...role(BOT_ROLE, "Bot", 4), managed: true },
+  ],
+  [
+    keptChannel,
+    channel(VOICE, "voice", ChannelType.GuildVoice, {
+      position: 2,
+      parentId: GONE_CATEGORY,
+    }),
+    channel(TEXT, "rules", ChannelType.GuildText, {
+      position: 1,
+      parentId: CATEGORY,
+      permissions: [
+        {
+          id: GUILD,
+          type: OverwriteType.Role,
+          allow: [],
+          deny: ["ViewChannel"],
+        },
+        {
+          id: KEPT_ROLE,
+          type: OverwriteType.Role,
+          allow: ["ViewChannel"],
+          deny: [],
+        },
+        {
+          id: LOST_ROLE,
+          type: OverwriteType.Role,
+          allow: ["ManageMessages"],
+          deny: [],
+        },
+        {
+          id: BOT_ROLE,
+          type: OverwriteType.Role,
+          allow: ["SendMessages"],
+          deny: [],
+        },
+        {
+          id: MEMBER,
+          type: OverwriteType.Member,
+          allow: ["SendMessages"],
+          deny: [],
+        },
+      ],
+    }),
+    channel(CATEGORY, "Info", ChannelType.GuildCategory, { position: 3 }),
+  ],
+);
+
+describe("diffGuildBackup", () => {
+  it("reports added, removed and changed items", () => {
+    const backup = backupOf(
+      [everyone, keptRole],
+      [keptChannel, channel(TEXT, "rules", ChannelType.GuildText)],
+      { settings: { verificationLevel: 1 } },
+    );
+    const current = backupOf(
+      [everyone, { ...keptRole, name: "Regulars" }],
+      [keptChannel, channel(VOICE, "voice", ChannelType.GuildVoice)],
+      { settings: { verificationLevel: 2 } },
+    );
+
+    const diff = diffGuildBackup(backup, current);
+
+    expect(diff.settings).toEqual([
+      { field: "verificationLevel", backup: 1, current: 2 },
+    ]);
+    expect(diff.roles).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ id: KEPT_ROLE, name: "Regulars", fields: ["name"] }],
+    });
+    expect(diff.channels).toEqual({
+      added: [{ id: VOICE, name: "voice" }],
+      removed: [{ id: TEXT, name: "rules" }],
+      changed: [],
+    });
+  });
+
+  it("compares recreated items with their replacement", () => {
+    const backup = backupOf(
+      [everyone],
+      [
+        channel(CATEGORY, "Info", ChannelType.GuildCategory),
+        channel(TEXT, "rules", ChannelType.GuildText, { parentId: CATEGORY }),
+      ],
+      { restoredIds: { [CATEGORY]: "900", [TEXT]: "901" } },
+    );
+    const current = backupOf(
+      [everyone],
+      [
+        channel("900", "Info", ChannelType.GuildCategory),
+        channel("901", "rules", ChannelType.GuildText, { parentId: "900" }),
+      ],
+    );
+
+    expect(diffGuildBackup(backup, current).channels).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+});
+
+describe("restoreGuildBackup", () => {
+  let dir: string;
+  let backupId: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "backups-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function restore(options: Parameters<typeof restoreGuildBackup>[3]) {
+    backupId = await saveGuildBackup(dir, {
+      ...backedUp,
+      backupTimestamp: new Date().toISOString(),
+    });
+    const fake = fakeGuild([everyone, keptRole], [keptChannel]);
+    const result = await restoreGuildBackup(fake.guild, dir, backupId, options);
+    return { ...fake, result };
+  }
+
+  it("plans the missing items in a dry run without creating them", async () => {
+    const { create, result } = await restore({ dryRun: true });
+
+    expect(result.steps).toEqual([
+      { action: "create_role", name: "Moderators", oldId: LOST_ROLE },
+      { action: "create_role", name: "Helpers", oldId: LOST_LOW_ROLE },
+      { action: "create_channel", name: "Info", oldId: CATEGORY },
+      { action: "create_channel", name: "rules", oldId: TEXT },
+      { action: "create_channel", name: "voice", oldId: VOICE },
+    ]);
+    expect(create).not.toHaveBeenCalled();
+    expect((await loadGuildBackup(dir, backupId)).restoredIds).toBeUndefined();
+  });
+
+  it("points recreated channels at the new IDs and saves the mapping", async () => {
+    const checkTool = jest.fn(
+      async (_toolName: string, _args: Record<string, unknown>) => {},
+    );
+
+    const { create, result } = await restore({ dryRun: false, checkTool });
+
+    const restoredIds = {
+      [LOST_ROLE]: "900",
+      [LOST_LOW_ROLE]: "901",
+      [CATEGORY]: "902",
+      [TEXT]: "903",
+      [VOICE]: "904",
+    };
+    expect(result.idMap).toEqual({ [GUILD]: GUILD, ...restoredIds });
+    expect((await loadGuildBackup(dir, backupId)).restoredIds).toEqual(
+      restoredIds,
+    );
+
+    const [, , categoryOptions, textOptions, voiceOptions] =
+      create.mock.calls.map((call) => call[0]);
+    expect(categoryOptions.parent).toBeUndefined();
+    expect(textOptions.parent).toBe("902");
+    expect(
+      textOptions.permissionOverwrites.map(
+        (overwrite: { id: string }) => overwrite.id,
+      ),
+    ).toEqual([GUILD, KEPT_ROLE, "900", MEMBER]);
+    expect(voiceOptions.parent).toBeUndefined();
+
+    expect(checkTool.mock.calls).toEqual([
+      ["discord_create_role", { guildId: GUILD, name: "Moderators" }],
+      ["discord_create_role", { guildId: GUILD, name: "Helpers" }],
+      ["discord_create_category", { guildId: GUILD, name: "Info" }],
+      [
+        "discord_create_channel_under_category",
+        {
+          guildId: GUILD,
+          channelName: "rules",
+          channelType: "text",
+          categoryId: "902",
+        },
+      ],
+      [
+        "discord_create_voice_channel",
+        { guildId: GUILD, channelName: "voice", categoryId: undefined },
+      ],
+    ]);
+  });
+
+  it("skips steps the caller may not make", async () => {
+    const checkTool = async (toolName: string) => {
+      if (toolName === "discord_create_category") {
+        throw new Error("Tool discord_create_category is not permitted");
+      }
+    };
+
+    const { create, result } = await restore({ dryRun: false, checkTool });
+
+    const category = result.steps.find((step) => step.oldId === CATEGORY);
+    expect(category?.error).toBe(
+      "Tool discord_create_category is not permitted",
+    );
+    expect(category?.newId).toBeUndefined();
+    // The channel is created outside the category that could not be
+    const textOptions = create.mock.calls
+      .map((call) => call[0])
+      .find((options) => options.name === "rules");
+    expect(textOptions?.parent).toBeUndefined();
+    expect(
+      (await loadGuildBackup(dir, backupId)).restoredIds?.[CATEGORY],
+    ).toBeUndefined();
+  });
+});
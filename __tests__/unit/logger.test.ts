@@ -0,0 +1,150 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  configureLogger,
+  error,
+  info,
+  logger,
+  LoggerOptions,
+  LogEntry,
+  onLogEntry,
+  warn,
+} from "../../src/logger.js";
+import { registerSecret } from "../../src/redact.js";
+
+const DEFAULT_OPTIONS: LoggerOptions = {
+  level: "info",
+  file: null,
+  maxFileBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+describe("logger", () => {
+  let dir: string;
+  let lines: string[];
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "logger-"));
+  });
+
+  beforeEach(() => {
+    lines = [];
+    jest
+      .spyOn(process.stderr, "write")
+      .mockImplementation((chunk: string | Uint8Array) => {
+        lines.push(String(chunk));
+        return true;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    configureLogger(DEFAULT_OPTIONS);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function written() {
+    return lines.map((line) => JSON.parse(line));
+  }
+
+  it("writes entries at or above LOG_LEVEL to stderr", () => {
+    configureLogger({ ...DEFAULT_OPTIONS, level: "warn" });
+
+    logger.debug("debug entry");
+    info("info entry");
+    warn("warn entry");
+    error("error entry");
+
+    expect(written().map((entry) => [entry.level, entry.message])).toEqual([
+      ["warn", "warn entry"],
+      ["error", "error entry"],
+    ]);
+  });
+
+  it("passes every level to entry listeners", () => {
+    configureLogger({ ...DEFAULT_OPTIONS, level: "error" });
+    const entries: LogEntry[] = [];
+    const stop = onLogEntry((entry) => entries.push(entry));
+
+    logger.debug("debug entry");
+    stop();
+    logger.debug("after stop");
+
+    expect(lines).toEqual([]);
+    expect(entries.map((entry) => entry.message)).toEqual(["debug entry"]);
+  });
+
+  it("adds the fields of child loggers to their entries", () => {
+    const child = logger.child({ toolName: "discord_send" });
+
+    child.child({ guildId: "123" }).info("sent", { channelId: "456" });
+    child.info("override", { toolName: "discord_read_messages" });
+
+    expect(written()).toEqual([
+      expect.objectContaining({
+        message: "sent",
+        toolName: "discord_send",
+        guildId: "123",
+        channelId: "456",
+      }),
+      expect.objectContaining({
+        message: "override",
+        toolName: "discord_read_messages",
+      }),
+    ]);
+  });
+
+  it("redacts secrets in messages and credential fields", () => {
+    registerSecret("logger-test-secret");
+
+    info("using logger-test-secret", {
+      webhookToken: "abc",
+      detail: "still logger-test-secret",
+    });
+
+    expect(written()[0]).toMatchObject({
+      message: "using [REDACTED]",
+      webhookToken: "[REDACTED]",
+      detail: "still [REDACTED]",
+    });
+  });
+
+  it("rotates LOG_FILE by size and keeps maxFiles rotated files", () => {
+    const file = join(dir, "server.log");
+    configureLogger({
+      ...DEFAULT_OPTIONS,
+      file,
+      maxFileBytes: 1,
+      maxFiles: 2,
+    });
+
+    for (let index = 1; index <= 4; index++) {
+      info(`entry ${index}`);
+    }
+
+    const messages = (path: string) =>
+      readFileSync(path, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).message.split(" ")[1]);
+    // Every entry exceeds the limit, so each file holds one
+    expect(messages(file)).toEqual(["4"]);
+    expect(messages(`${file}.1`)).toEqual(["3"]);
+    expect(messages(`${file}.2`)).toEqual(["2"]);
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+});
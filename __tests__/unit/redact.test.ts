@@ -0,0 +1,74 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  redactLogFields,
+  redactLogText,
+  redactSecrets,
+  redactValue,
+  registerSecret,
+} from "../../src/redact.js";
+
+// Registered secrets stay registered for the whole test file, as they do for
+// the process lifetime
+registerSecret("registered-secret-value");
+registerSecret("short");
+
+const BOT_TOKEN =
+  "MTIzNDU2Nzg5MDEyMzQ1Njc4.GaBcDe.abcdefghijklmnopqrstuvwxyz0123";
+
+describe("redactSecrets", () => {
+  it("replaces every occurrence of a registered secret", () => {
+    expect(
+      redactSecrets("a registered-secret-value and registered-secret-value"),
+    ).toBe("a [REDACTED] and [REDACTED]");
+  });
+
+  it("ignores values too short to be secrets", () => {
+    expect(redactSecrets("a short word")).toBe("a short word");
+  });
+});
+
+describe("redactValue", () => {
+  it("redacts nested strings and leaves other values alone", () => {
+    expect(
+      redactValue({
+        text: "token registered-secret-value",
+        items: ["registered-secret-value", 42],
+        ok: true,
+      }),
+    ).toEqual({
+      text: "token [REDACTED]",
+      items: ["[REDACTED]", 42],
+      ok: true,
+    });
+  });
+});
+
+describe("redactLogText", () => {
+  it("redacts webhook tokens and unregistered bot tokens", () => {
+    expect(
+      redactLogText(
+        `POST https://discord.com/api/webhooks/123456789012345678/abc-DEF_123 with ${BOT_TOKEN}`,
+      ),
+    ).toBe(
+      "POST https://discord.com/api/webhooks/123456789012345678/[REDACTED] with [REDACTED]",
+    );
+  });
+});
+
+describe("redactLogFields", () => {
+  it("redacts fields named like credentials and secrets in other fields", () => {
+    expect(
+      redactLogFields({
+        webhookToken: "anything",
+        passphrase: "anything",
+        nested: { message: "uses registered-secret-value", guildId: "123" },
+        error: new Error(`login failed for ${BOT_TOKEN}`),
+      }),
+    ).toEqual({
+      webhookToken: "[REDACTED]",
+      passphrase: "[REDACTED]",
+      nested: { message: "uses [REDACTED]", guildId: "123" },
+      error: "login failed for [REDACTED]",
+    });
+  });
+});
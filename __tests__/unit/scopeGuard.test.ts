@@ -0,0 +1,275 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { Client } from "discord.js";
+import { configManager, ServerConfig } from "../../src/config.js";
+import {
+  enforceToolScope,
+  isChannelInScope,
+  resolveToolScope,
+} from "../../src/scopeGuard.js";
+import { ToolContext } from "../../src/tools/types.js";
+import { BotPool } from "../../src/botPool.js";
+
+const GUILD = "100000000000000001";
+const OTHER_GUILD = "100000000000000002";
+const CATEGORY = "200000000000000001";
+const CHANNEL = "200000000000000002"; // In CATEGORY
+const OTHER_CHANNEL = "200000000000000003"; // In GUILD, no category
+const FOREIGN_CHANNEL = "200000000000000004"; // In OTHER_GUILD
+const DM_CHANNEL = "200000000000000005";
+const ROLE = "300000000000000001"; // In GUILD
+
+const channels: Record<
+  string,
+  { id: string; guildId?: string; parentId?: string | null }
+> = {
+  [CATEGORY]: { id: CATEGORY, guildId: GUILD, parentId: null },
+  [CHANNEL]: { id: CHANNEL, guildId: GUILD, parentId: CATEGORY },
+  [OTHER_CHANNEL]: { id: OTHER_CHANNEL, guildId: GUILD, parentId: null },
+  [FOREIGN_CHANNEL]: {
+    id: FOREIGN_CHANNEL,
+    guildId: OTHER_GUILD,
+    parentId: null,
+  },
+  [DM_CHANNEL]: { id: DM_CHANNEL },
+};
+
+// Resolves the channels above; fetching anything else fails like Discord's
+// API does for unknown IDs, or like a logged-out client
+function fakeClient(loggedIn = true): Client {
+  const guild = { id: GUILD, roles: { cache: new Map([[ROLE, {}]]) } };
+  return {
+    channels: {
+      fetch: async (id: string) => {
+        if (!loggedIn || !channels[id]) throw new Error("Unknown Channel");
+        return channels[id];
+      },
+    },
+    guilds: {
+      cache: {
+        find: (match: (g: typeof guild) => boolean) =>
+          match(guild) ? guild : undefined,
+      },
+    },
+    fetchWebhook: async () => {
+      throw new Error("Unknown Webhook");
+    },
+    fetchInvite: async () => {
+      throw new Error("Unknown Invite");
+    },
+  } as unknown as Client;
+}
+
+function context(
+  policy?: ToolContext["policy"],
+  client = fakeClient(),
+): ToolContext {
+  return { client, bots: {} as BotPool, policy };
+}
+
+function useConfig(overrides: Partial<ServerConfig>) {
+  jest.spyOn(configManager, "getConfig").mockReturnValue({
+    ...configManager.getConfig(),
+    ALLOW_GUILD_IDS: [],
+    ALLOW_CHANNEL_IDS: [],
+    GUILD_OVERRIDES: {},
+    BOTS: {},
+    ...overrides,
+  });
+}
+
+function violation(response: Awaited<ReturnType<typeof enforceToolScope>>) {
+  expect(response?.isError).toBe(true);
+  return JSON.parse(response!.content[0].text);
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("resolveToolScope", () => {
+  it("resolves guild, channel, list and role arguments", async () => {
+    const scope = await resolveToolScope(
+      {
+        guildIds: [OTHER_GUILD],
+        channelId: CHANNEL,
+        channelIds: [OTHER_CHANNEL],
+        welcomeChannels: [{ channelId: CATEGORY }],
+        roleId: ROLE,
+      },
+      fakeClient(),
+    );
+
+    expect(scope.guildIds).toEqual([OTHER_GUILD, GUILD]);
+    expect(scope.channels.map((channel) => channel.id)).toEqual([
+      CHANNEL,
+      OTHER_CHANNEL,
+      CATEGORY,
+    ]);
+    expect(scope.channels[0]).toEqual({
+      id: CHANNEL,
+      guildId: GUILD,
+      parentId: CATEGORY,
+    });
+    expect(scope.unresolved).toEqual([]);
+  });
+
+  it("reports targets it cannot resolve", async () => {
+    const scope = await resolveToolScope(
+      {
+        channelIds: [CHANNEL, "999"],
+        messageId: "400000000000000001",
+        memberIds: ["500000000000000001"],
+        roleId: "300000000000000009",
+      },
+      fakeClient(),
+    );
+
+    expect(scope.unresolved).toEqual([
+      "channelIds=999",
+      "memberIds",
+      "messageId=400000000000000001",
+      "roleId=300000000000000009",
+    ]);
+  });
+});
+
+describe("enforceToolScope", () => {
+  it("allows everything without allow-lists or a policy", async () => {
+    useConfig({});
+
+    expect(
+      await enforceToolScope("discord_send", { channelId: "999" }, context()),
+    ).toBeNull();
+  });
+
+  it("fails closed when a target cannot be resolved", async () => {
+    useConfig({ ALLOW_GUILD_IDS: [GUILD] });
+
+    const unknown = violation(
+      await enforceToolScope("discord_send", { channelId: "999" }, context()),
+    );
+    const loggedOut = violation(
+      await enforceToolScope(
+        "discord_send",
+        { channelId: CHANNEL },
+        context(undefined, fakeClient(false)),
+      ),
+    );
+
+    expect(unknown.unresolved).toEqual(["channelId=999"]);
+    expect(loggedOut.unresolved).toEqual([`channelId=${CHANNEL}`]);
+  });
+
+  it("checks every entry of list arguments", async () => {
+    useConfig({ ALLOW_GUILD_IDS: [GUILD] });
+
+    const result = violation(
+      await enforceToolScope(
+        "discord_add_auto_moderation_rule",
+        { exemptChannels: [CHANNEL, FOREIGN_CHANNEL] },
+        context(),
+      ),
+    );
+
+    expect(result).toMatchObject({
+      reason: "Guild is not in ALLOW_GUILD_IDS",
+      guildId: OTHER_GUILD,
+    });
+  });
+
+  it("narrows the allow-lists with the caller's policy", async () => {
+    useConfig({ ALLOW_GUILD_IDS: [GUILD, OTHER_GUILD] });
+    const policy = {
+      guildIds: [GUILD],
+      channelIds: [CATEGORY],
+      readOnly: false,
+    };
+
+    const inCategory = await enforceToolScope(
+      "discord_send",
+      { channelId: CHANNEL },
+      context(policy),
+    );
+    const outsideCategory = violation(
+      await enforceToolScope(
+        "discord_send",
+        { channelId: OTHER_CHANNEL },
+        context(policy),
+      ),
+    );
+    const otherGuild = violation(
+      await enforceToolScope(
+        "discord_list_roles",
+        { guildId: OTHER_GUILD },
+        context(policy),
+      ),
+    );
+
+    expect(inCategory).toBeNull();
+    expect(outsideCategory.reason).toBe(
+      "Channel is not allowed for this credential",
+    );
+    expect(otherGuild.reason).toBe("Guild is not allowed for this credential");
+  });
+
+  it("refuses calls without a guild under a guild-limited policy", async () => {
+    useConfig({});
+    const policy = { guildIds: [GUILD], readOnly: false };
+
+    const dm = violation(
+      await enforceToolScope(
+        "discord_send",
+        { channelId: DM_CHANNEL },
+        context(policy),
+      ),
+    );
+    const targetless = violation(
+      await enforceToolScope(
+        "discord_send_direct_message",
+        { userId: "500000000000000001" },
+        context(policy),
+      ),
+    );
+    const global = await enforceToolScope(
+      "discord_list_servers",
+      {},
+      context(policy),
+      { global: true },
+    );
+
+    expect(dm.reason).toMatch(/targets no guild/);
+    expect(targetless.reason).toMatch(/targets no guild/);
+    expect(global).toBeNull();
+  });
+
+  it("applies the feature flags of guild overrides", async () => {
+    useConfig({ ALLOW_GUILD_IDS: [GUILD] });
+
+    const result = violation(
+      await enforceToolScope(
+        "discord_list_roles",
+        { guildId: GUILD },
+        context(),
+        {
+          isEnabledForGuild: (guildId) => guildId !== GUILD,
+        },
+      ),
+    );
+
+    expect(result.reason).toBe(
+      "Tool is disabled for this guild by its override",
+    );
+  });
+});
+
+describe("isChannelInScope", () => {
+  it("lets a guild override replace ALLOW_CHANNEL_IDS", () => {
+    useConfig({
+      ALLOW_CHANNEL_IDS: [OTHER_CHANNEL],
+      GUILD_OVERRIDES: { [GUILD]: { ALLOW_CHANNEL_IDS: [CATEGORY] } },
+    });
+
+    expect(isChannelInScope(channels[CHANNEL])).toBe(true);
+    expect(isChannelInScope(channels[OTHER_CHANNEL])).toBe(false);
+  });
+});
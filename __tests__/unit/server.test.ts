@@ -0,0 +1,124 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+} from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client as McpClient } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Client } from "discord.js";
+import { DiscordMCPServer } from "../../src/server.js";
+import { MCPTransport } from "../../src/transport.js";
+import { loadAccessPolicies } from "../../src/auth/policy.js";
+
+// Tags every message the client sends with the caller's credential, like the
+// HTTP transport does after authentication
+class AuthenticatedTransport extends InMemoryTransport {
+  clientId?: string;
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const authInfo = this.clientId
+      ? { token: "token", clientId: this.clientId, scopes: [] }
+      : undefined;
+    return super.send(message, { authInfo });
+  }
+}
+
+const noTransport: MCPTransport = {
+  start: async () => {},
+  stop: async () => {},
+};
+
+describe("DiscordMCPServer lists", () => {
+  let dir: string;
+  let server: DiscordMCPServer;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "server-"));
+    server = new DiscordMCPServer(new Client({ intents: [] }), noTransport);
+  });
+
+  afterEach(() => {
+    loadAccessPolicies(null);
+  });
+
+  afterAll(async () => {
+    await server["toolPipeline"].shutdown();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function connect(clientId?: string) {
+    const session: Server = server["createSession"]();
+    const clientTransport = new AuthenticatedTransport();
+    const serverTransport = new InMemoryTransport();
+    clientTransport["_otherTransport"] = serverTransport;
+    serverTransport["_otherTransport"] = clientTransport;
+    clientTransport.clientId = clientId;
+
+    const client = new McpClient({ name: "test-client", version: "1.0.0" });
+    await session.connect(serverTransport);
+    await client.connect(clientTransport);
+    const tools = (await client.listTools()).tools.map((tool) => tool.name);
+    const prompts = (await client.listPrompts()).prompts.map(
+      (prompt) => prompt.name,
+    );
+    await client.close();
+    return { tools, prompts };
+  }
+
+  function usePolicies(policies: unknown) {
+    const file = join(dir, "policies.json");
+    writeFileSync(file, JSON.stringify(policies));
+    loadAccessPolicies(file);
+  }
+
+  it("lists everything to unauthenticated callers", async () => {
+    const { tools, prompts } = await connect();
+
+    expect(tools).toContain("discord_update_config");
+    expect(tools).toContain("discord_send");
+    expect(prompts).toContain("draft-moderation-report");
+  });
+
+  it("hides the admin tools from authenticated callers without policies", async () => {
+    const { tools, prompts } = await connect("alice");
+
+    expect(tools).not.toContain("discord_update_config");
+    expect(tools).not.toContain("discord_set_token");
+    expect(tools).toContain("discord_send");
+    expect(prompts).toContain("draft-moderation-report");
+  });
+
+  it("filters tools and prompts by each caller's policy", async () => {
+    usePolicies({
+      clients: {
+        reader: { toolGroups: ["core"], readOnly: true },
+        admin: { toolGroups: ["admin", "core", "userManagement"] },
+      },
+    });
+
+    const reader = await connect("reader");
+    const admin = await connect("admin");
+    const stranger = await connect("stranger");
+
+    expect(reader.tools).toContain("discord_get_server_info");
+    expect(reader.tools).not.toContain("discord_send");
+    expect(reader.tools).not.toContain("discord_update_config");
+    expect(reader.prompts).toContain("onboard-channel-category");
+    expect(reader.prompts).not.toContain("draft-moderation-report");
+
+    expect(admin.tools).toContain("discord_update_config");
+    expect(admin.tools).toContain("discord_send");
+    expect(admin.prompts).toContain("draft-moderation-report");
+
+    expect(stranger.tools).toEqual([]);
+    expect(stranger.prompts).toEqual([]);
+  });
+});
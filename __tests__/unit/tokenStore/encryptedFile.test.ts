@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EncryptedFileTokenStore } from "../../../src/tokenStore/encryptedFile.js";
+
+const TOKEN = "MTIzNDU2Nzg5MDEyMzQ1Njc4.GaBcDe.test-token-value";
+
+describe("EncryptedFileTokenStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "token-store-"));
+    path = join(dir, "token.json");
+    await new EncryptedFileTokenStore(path, "correct passphrase").save(TOKEN);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads back the saved token", async () => {
+    const store = new EncryptedFileTokenStore(path, "correct passphrase");
+
+    expect(await store.load()).toBe(TOKEN);
+  });
+
+  it("never writes the token in clear and keeps the file private", () => {
+    expect(readFileSync(path, "utf8")).not.toContain(TOKEN);
+    if (process.platform !== "win32") {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("has nothing to load before the first save", async () => {
+    const store = new EncryptedFileTokenStore(
+      join(dir, "missing.json"),
+      "correct passphrase",
+    );
+
+    expect(await store.load()).toBeNull();
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const store = new EncryptedFileTokenStore(path, "wrong passphrase");
+
+    await expect(store.load()).rejects.toThrow(
+      "wrong TOKEN_STORE_PASSPHRASE or corrupted file",
+    );
+  });
+
+  it("rejects a file whose ciphertext was changed", async () => {
+    const file = JSON.parse(readFileSync(path, "utf8"));
+    const ciphertext = Buffer.from(file.ciphertext, "base64");
+    ciphertext[0] ^= 1;
+    const tamperedPath = join(dir, "tampered.json");
+    writeFileSync(
+      tamperedPath,
+      JSON.stringify({ ...file, ciphertext: ciphertext.toString("base64") }),
+    );
+    const store = new EncryptedFileTokenStore(
+      tamperedPath,
+      "correct passphrase",
+    );
+
+    await expect(store.load()).rejects.toThrow(
+      "wrong TOKEN_STORE_PASSPHRASE or corrupted file",
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { handleNestedToolCall } from "../../src/toolHandler.js";
+import { runInRequestScope, ToolCallScope } from "../../src/requestContext.js";
+import { EnterpriseIntegrationService } from "../../src/services/enterpriseIntegrationService.js";
+import { ToolContext, ToolResponse } from "../../src/tools/types.js";
+
+describe("handleNestedToolCall", () => {
+  it("runs the nested call through the pipeline of the current call", async () => {
+    const response: ToolResponse = { content: [{ type: "text", text: "ok" }] };
+    const executeToolWithEnterpriseFeatures = jest.fn(async () => response);
+    const toolCall: ToolCallScope = {
+      toolName: "discord_apply_guild_spec",
+      userId: "ci-bot",
+      guildId: "100000000000000001",
+      ipAddress: "10.0.0.5",
+      enterpriseService: {
+        executeToolWithEnterpriseFeatures,
+      } as unknown as EnterpriseIntegrationService,
+    };
+
+    const result = await runInRequestScope(
+      { requestId: "request", traceId: "trace", spanId: null, toolCall },
+      () =>
+        handleNestedToolCall(
+          "discord_create_category",
+          { guildId: "100000000000000001", name: "General" },
+          {} as ToolContext,
+        ),
+    );
+
+    expect(result).toBe(response);
+    expect(executeToolWithEnterpriseFeatures).toHaveBeenCalledWith(
+      "discord_create_category",
+      { guildId: "100000000000000001", name: "General" },
+      {
+        userId: "ci-bot",
+        guildId: "100000000000000001",
+        channelId: undefined,
+        ipAddress: "10.0.0.5",
+        userAgent: undefined,
+      },
+      expect.any(Function),
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "@jest/globals";
+import { getToolEntry, isToolPermitted } from "../../src/toolRegistry.js";
+
+describe("isToolPermitted", () => {
+  const updateConfig = getToolEntry("discord_update_config")!;
+  const send = getToolEntry("discord_send")!;
+
+  it("permits every tool without a policy", () => {
+    expect(isToolPermitted(updateConfig, undefined)).toBe(true);
+    expect(isToolPermitted(send, undefined)).toBe(true);
+  });
+
+  it("only grants admin tools to policies that list the group", () => {
+    expect(isToolPermitted(updateConfig, { readOnly: false })).toBe(false);
+    expect(isToolPermitted(send, { readOnly: false })).toBe(true);
+    expect(
+      isToolPermitted(updateConfig, { toolGroups: ["core"], readOnly: false }),
+    ).toBe(false);
+    expect(
+      isToolPermitted(updateConfig, {
+        toolGroups: ["admin"],
+        readOnly: false,
+      }),
+    ).toBe(true);
+  });
+
+  it("limits read-only policies to read-only tools", () => {
+    const listServers = getToolEntry("discord_list_servers")!;
+
+    expect(isToolPermitted(send, { readOnly: true })).toBe(false);
+    expect(isToolPermitted(listServers, { readOnly: true })).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+// Golden-file test of the JSON Schemas generated for every registered tool.
+// A change to a tool schema or to the converter shows up as a diff of
+// golden/toolSchemas.json. After an intended change, regenerate it with
+// UPDATE_GOLDEN=1 bun run test:unit and commit the result.
+import { describe, it, expect } from "@jest/globals";
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { toolRegistry } from "../../src/toolRegistry.js";
+import { convertZodToJsonSchema } from "../../src/zodJsonSchema.js";
+
+const GOLDEN_FILE = join(__dirname, "golden", "toolSchemas.json");
+
+function generateToolSchemas() {
+  return Object.fromEntries(
+    toolRegistry.map((entry) => [
+      entry.name,
+      {
+        inputSchema: convertZodToJsonSchema(entry.schema),
+        outputSchema: entry.outputSchema
+          ? convertZodToJsonSchema(entry.outputSchema)
+          : null,
+      },
+    ]),
+  );
+}
+
+describe("tool JSON Schemas", () => {
+  const schemas = generateToolSchemas();
+
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(GOLDEN_FILE, `${JSON.stringify(schemas, null, 2)}\n`);
+  }
+
+  it("matches the golden file for every tool", () => {
+    const golden = JSON.parse(readFileSync(GOLDEN_FILE, "utf8"));
+    expect(Object.keys(schemas)).toEqual(Object.keys(golden));
+    for (const [name, schema] of Object.entries(schemas)) {
+      expect({ name, ...schema }).toEqual({ name, ...golden[name] });
+    }
+  });
+
+  it("describes every input as an object", () => {
+    for (const [name, { inputSchema }] of Object.entries(schemas)) {
+      expect({ name, type: inputSchema.type }).toEqual({
+        name,
+        type: "object",
+      });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { configManager } from "../../src/config.js";
+import { hashApiKey } from "../../src/auth/apiKeys.js";
+import { StreamableHttpTransport } from "../../src/transport.js";
+
+const MCP_HEADERS = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+};
+
+describe("StreamableHttpTransport", () => {
+  let dir: string;
+  let transport: StreamableHttpTransport;
+  let url: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "transport-"));
+    const keysFile = join(dir, "keys.json");
+    writeFileSync(
+      keysFile,
+      JSON.stringify({
+        keys: [
+          { id: "alice", hash: hashApiKey("alice-secret") },
+          { id: "bob", hash: hashApiKey("bob-secret") },
+        ],
+      }),
+    );
+    const config = {
+      ...configManager.getConfig(),
+      HTTP_AUTH_MODE: "apiKey" as const,
+      HTTP_API_KEYS_FILE: keysFile,
+    };
+    jest.spyOn(configManager, "getConfig").mockReturnValue(config);
+
+    transport = new StreamableHttpTransport(0);
+    await transport.start(
+      () =>
+        new Server({ name: "test", version: "1.0.0" }, { capabilities: {} }),
+    );
+    const { port } = transport["httpServer"].address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await transport.stop();
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function openSession(apiKey: string): Promise<string> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...MCP_HEADERS, Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      }),
+    });
+    await response.text();
+    expect(response.status).toBe(200);
+    return response.headers.get("mcp-session-id")!;
+  }
+
+  function sessionRequest(
+    method: "POST" | "DELETE",
+    sessionId: string,
+    apiKey: string,
+  ) {
+    return fetch(url, {
+      method,
+      headers: {
+        ...MCP_HEADERS,
+        Authorization: `Bearer ${apiKey}`,
+        "Mcp-Session-Id": sessionId,
+        "Mcp-Protocol-Version": "2025-06-18",
+      },
+      ...(method === "POST" && {
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          method: "notifications/initialized",
+        }),
+      }),
+    });
+  }
+
+  it("lets the credential that opened a session use it", async () => {
+    const sessionId = await openSession("alice-secret");
+
+    const response = await sessionRequest("POST", sessionId, "alice-secret");
+
+    expect(response.status).toBe(202);
+  });
+
+  it("rejects requests for a session with another credential", async () => {
+    const sessionId = await openSession("alice-secret");
+
+    const post = await sessionRequest("POST", sessionId, "bob-secret");
+    const del = await sessionRequest("DELETE", sessionId, "bob-secret");
+
+    expect(post.status).toBe(403);
+    expect(del.status).toBe(403);
+    // The session survives the foreign DELETE
+    const own = await sessionRequest("POST", sessionId, "alice-secret");
+    expect(own.status).toBe(202);
+  });
+});
@@ -0,0 +1,60 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { ApiKeysFileSchema } from "../schemas.js";
+import { info } from "../logger.js";
+import { HttpAuthenticator } from "./types.js";
+
+type ApiKeyEntry = z.infer<typeof ApiKeysFileSchema>["keys"][number];
+
+/**
+ * Hashes an API key into the `sha256:<hex>` form stored in HTTP_API_KEYS_FILE
+ */
+export function hashApiKey(apiKey: string): string {
+  return "sha256:" + createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Static API keys presented as bearer tokens. The keys file only holds
+ * SHA-256 hashes, so leaking it does not leak the keys; keys should be long
+ * random strings, e.g. from `openssl rand -hex 32`.
+ */
+export class ApiKeyAuthenticator implements HttpAuthenticator {
+  private keys: ApiKeyEntry[];
+
+  constructor(keysFile: string) {
+    const raw = JSON.parse(readFileSync(keysFile, "utf8"));
+    this.keys = ApiKeysFileSchema.parse(raw).keys;
+    info(`Loaded ${this.keys.length} API key(s) from ${keysFile}`);
+  }
+
+  async authenticate(token: string): Promise<AuthInfo> {
+    const presented = Buffer.from(hashApiKey(token));
+    const key = this.keys.find((entry) => {
+      const stored = Buffer.from(entry.hash);
+      return (
+        stored.length === presented.length && timingSafeEqual(stored, presented)
+      );
+    });
+    if (!key) {
+      throw new InvalidTokenError("Invalid API key");
+    }
+
+    const expiresAt = key.expiresAt
+      ? Math.floor(Date.parse(key.expiresAt) / 1000)
+      : undefined;
+    if (expiresAt !== undefined && expiresAt < Date.now() / 1000) {
+      throw new InvalidTokenError("API key has expired");
+    }
+
+    return {
+      token,
+      clientId: key.id,
+      scopes: [],
+      expiresAt,
+      extra: { authMethod: "apiKey" },
+    };
+  }
+}
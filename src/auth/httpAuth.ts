@@ -0,0 +1,193 @@
+/**
+ * @fileoverview HTTP transport authentication
+ * @description Builds the middleware that guards the HTTP endpoints according
+ * to HTTP_AUTH_MODE: static API keys, or an OAuth 2.1 protected resource that
+ * accepts JWT access tokens from a trusted issuer and publishes its metadata
+ * at /.well-known/oauth-protected-resource (RFC 9728).
+ */
+
+import express, {
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+} from "express";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+  OAuthError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthProtectedResourceMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { ServerConfig } from "../config.js";
+import { info, error } from "../logger.js";
+import { HttpAuthenticator } from "./types.js";
+import { ApiKeyAuthenticator } from "./apiKeys.js";
+import { JwtAuthenticator } from "./jwt.js";
+import { loadAccessPolicies } from "./policy.js";
+
+// The SDK transport passes req.auth on to request handlers as authInfo
+declare module "express-serve-static-core" {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+export interface HttpAuth {
+  // Rejects requests without valid credentials; a no-op when auth is off
+  requireAuth: RequestHandler;
+  // Serves the protected resource metadata; empty outside OAuth mode
+  metadataRouter: express.Router;
+}
+
+/**
+ * Middleware that authenticates `Authorization: Bearer <token>` and answers
+ * failures with a WWW-Authenticate challenge pointing at the resource
+ * metadata, as the MCP authorization spec requires
+ */
+function requireBearer(
+  authenticator: HttpAuthenticator,
+  requiredScopes: string[],
+  resourceMetadataUrl: string | null,
+): RequestHandler {
+  const challenge = (err: OAuthError) => {
+    const params = [
+      `error="${err.errorCode}"`,
+      `error_description="${err.message}"`,
+    ];
+    if (resourceMetadataUrl) {
+      params.push(`resource_metadata="${resourceMetadataUrl}"`);
+    }
+    if (requiredScopes.length > 0) {
+      params.push(`scope="${requiredScopes.join(" ")}"`);
+    }
+    return `Bearer ${params.join(", ")}`;
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const header = req.headers.authorization;
+      const match = /^Bearer\s+(\S+)$/i.exec(header ?? "");
+      if (!match) {
+        throw new InvalidTokenError(
+          header
+            ? "Invalid Authorization header format, expected 'Bearer TOKEN'"
+            : "Missing Authorization header",
+        );
+      }
+
+      const authInfo = await authenticator.authenticate(match[1]);
+      if (!requiredScopes.every((scope) => authInfo.scopes.includes(scope))) {
+        throw new InsufficientScopeError("Insufficient scope");
+      }
+
+      req.auth = authInfo;
+      next();
+    } catch (err) {
+      if (err instanceof InvalidTokenError) {
+        res.set("WWW-Authenticate", challenge(err));
+        res.status(401).json(err.toResponseObject());
+      } else if (err instanceof InsufficientScopeError) {
+        res.set("WWW-Authenticate", challenge(err));
+        res.status(403).json(err.toResponseObject());
+      } else if (err instanceof OAuthError && !(err instanceof ServerError)) {
+        res.status(400).json(err.toResponseObject());
+      } else {
+        error(
+          `Authentication error: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        res
+          .status(500)
+          .json(new ServerError("Internal Server Error").toResponseObject());
+      }
+    }
+  };
+}
+
+function createOAuthAuth(config: ServerConfig): HttpAuth {
+  if (!config.OAUTH_RESOURCE_URL || !config.OAUTH_ISSUER) {
+    throw new Error(
+      "HTTP_AUTH_MODE=oauth requires OAUTH_RESOURCE_URL and OAUTH_ISSUER",
+    );
+  }
+
+  const resourceUrl = new URL(config.OAUTH_RESOURCE_URL);
+  // RFC 9728 inserts the well-known segment before the resource path
+  const resourcePath = resourceUrl.pathname.replace(/\/$/, "");
+  const metadataPath = `/.well-known/oauth-protected-resource${resourcePath}`;
+  const metadataUrl = new URL(metadataPath, resourceUrl).href;
+  const metadata: OAuthProtectedResourceMetadata = {
+    resource: resourceUrl.href,
+    authorization_servers: [config.OAUTH_ISSUER],
+    bearer_methods_supported: ["header"],
+    resource_name: "MCP-Discord",
+    ...(config.OAUTH_REQUIRED_SCOPES.length > 0 && {
+      scopes_supported: config.OAUTH_REQUIRED_SCOPES,
+    }),
+  };
+
+  // Also served at the root for clients that ignore the resource path
+  const metadataRouter = express.Router();
+  const metadataPaths = ["/.well-known/oauth-protected-resource", metadataPath];
+  metadataRouter.get(metadataPaths, (_req: Request, res: Response) => {
+    res.json(metadata);
+  });
+
+  const authenticator = new JwtAuthenticator({
+    issuer: config.OAUTH_ISSUER,
+    audience: config.OAUTH_AUDIENCE ?? resourceUrl.href,
+    jwksFile: config.OAUTH_JWKS_FILE,
+    jwksUri: config.OAUTH_JWKS_URI,
+  });
+
+  info(`HTTP authentication: OAuth access tokens from ${config.OAUTH_ISSUER}`);
+  return {
+    requireAuth: requireBearer(
+      authenticator,
+      config.OAUTH_REQUIRED_SCOPES,
+      metadataUrl,
+    ),
+    metadataRouter,
+  };
+}
+
+/**
+ * Creates the authentication for the HTTP transport. Throws on incomplete
+ * configuration so a misconfigured server never starts unprotected.
+ */
+export function createHttpAuth(config: ServerConfig): HttpAuth {
+  if (config.HTTP_AUTH_MODE !== "none") {
+    loadAccessPolicies(config.HTTP_POLICIES_FILE);
+  }
+
+  switch (config.HTTP_AUTH_MODE) {
+    case "apiKey": {
+      if (!config.HTTP_API_KEYS_FILE) {
+        throw new Error("HTTP_AUTH_MODE=apiKey requires HTTP_API_KEYS_FILE");
+      }
+      info("HTTP authentication: API keys");
+      return {
+        requireAuth: requireBearer(
+          new ApiKeyAuthenticator(config.HTTP_API_KEYS_FILE),
+          [],
+          null,
+        ),
+        metadataRouter: express.Router(),
+      };
+    }
+
+    case "oauth":
+      return createOAuthAuth(config);
+
+    default:
+      error(
+        "HTTP authentication is disabled: anyone who can reach the port can use every enabled tool. Set HTTP_AUTH_MODE to apiKey or oauth.",
+      );
+      return {
+        requireAuth: (_req: Request, _res: Response, next: NextFunction) =>
+          next(),
+        metadataRouter: express.Router(),
+      };
+  }
+}
@@ -0,0 +1,287 @@
+import {
+  constants,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  verify,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InvalidTokenError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { JwksSchema } from "../schemas.js";
+import { info, error } from "../logger.js";
+import { HttpAuthenticator } from "./types.js";
+
+type Jwk = z.infer<typeof JwksSchema>["keys"][number];
+
+export interface JwtAuthenticatorOptions {
+  issuer: string;
+  audience: string;
+  // Local JWKS file; takes precedence over jwksUri
+  jwksFile?: string | null;
+  // Remote JWKS; discovered from the issuer's metadata when neither is set
+  jwksUri?: string | null;
+}
+
+// Tolerated difference between our clock and the issuer's
+const CLOCK_SKEW_SECONDS = 60;
+
+// How long a fetched JWKS is used before it is fetched again
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+
+// Minimum time between refetches triggered by an unknown `kid`
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * Checks a JWS signature with the algorithm named in the token header. Only
+ * asymmetric algorithms are accepted, so `none` and HMAC tokens are rejected.
+ */
+function verifySignature(
+  alg: string,
+  key: KeyObject,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  const match = /^(RS|PS|ES)(256|384|512)$/.exec(alg);
+  if (alg !== "EdDSA" && !match) {
+    throw new InvalidTokenError(`Unsupported signing algorithm: ${alg}`);
+  }
+
+  try {
+    if (!match) {
+      return verify(null, data, key, signature);
+    }
+
+    const digest = `sha${match[2]}`;
+    switch (match[1]) {
+      case "RS":
+        return verify(digest, data, key, signature);
+      case "PS":
+        return verify(
+          digest,
+          data,
+          {
+            key,
+            padding: constants.RSA_PKCS1_PSS_PADDING,
+            saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+          },
+          signature,
+        );
+      default:
+        return verify(
+          digest,
+          data,
+          { key, dsaEncoding: "ieee-p1363" },
+          signature,
+        );
+    }
+  } catch {
+    // Key type does not fit the algorithm
+    return false;
+  }
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const decoded = JSON.parse(
+    Buffer.from(segment, "base64url").toString("utf8"),
+  );
+  if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) {
+    throw new Error("JWT segment is not a JSON object");
+  }
+  return decoded;
+}
+
+function getScopes(payload: Record<string, unknown>): string[] {
+  if (typeof payload.scope === "string") {
+    return payload.scope.split(" ").filter((scope) => scope.length > 0);
+  }
+  // Some issuers (e.g. Azure AD) use a `scp` array instead
+  if (Array.isArray(payload.scp)) {
+    return payload.scp.filter((scope) => typeof scope === "string");
+  }
+  return [];
+}
+
+/**
+ * Validates JWT access tokens as an OAuth 2.1 resource server: signature
+ * against the issuer's JWKS, issuer, audience, expiry and not-before.
+ */
+export class JwtAuthenticator implements HttpAuthenticator {
+  private jwks: Jwk[] | null = null;
+  private jwksFetchedAt = 0;
+  private jwksUri: string | null;
+
+  constructor(private options: JwtAuthenticatorOptions) {
+    this.jwksUri = options.jwksUri ?? null;
+  }
+
+  async authenticate(token: string): Promise<AuthInfo> {
+    const segments = token.split(".");
+    if (segments.length !== 3) {
+      throw new InvalidTokenError("Malformed access token");
+    }
+
+    let header: Record<string, unknown>;
+    let payload: Record<string, unknown>;
+    try {
+      header = decodeSegment(segments[0]);
+      payload = decodeSegment(segments[1]);
+    } catch {
+      throw new InvalidTokenError("Malformed access token");
+    }
+
+    const alg = String(header.alg);
+    const kid = typeof header.kid === "string" ? header.kid : undefined;
+    const data = Buffer.from(`${segments[0]}.${segments[1]}`);
+    const signature = Buffer.from(segments[2], "base64url");
+
+    const keys = await this.findKeys(alg, kid);
+    if (keys.length === 0) {
+      throw new InvalidTokenError("No matching signing key");
+    }
+    if (!keys.some((key) => verifySignature(alg, key, data, signature))) {
+      throw new InvalidTokenError("Invalid token signature");
+    }
+
+    this.checkClaims(payload);
+
+    return {
+      token,
+      clientId: String(
+        payload.client_id ?? payload.azp ?? payload.sub ?? "unknown",
+      ),
+      scopes: getScopes(payload),
+      expiresAt: payload.exp as number,
+      extra: {
+        authMethod: "oauth",
+        subject: typeof payload.sub === "string" ? payload.sub : null,
+      },
+    };
+  }
+
+  private checkClaims(payload: Record<string, unknown>) {
+    const now = Date.now() / 1000;
+
+    if (payload.iss !== this.options.issuer) {
+      throw new InvalidTokenError(
+        "Token was not issued by the trusted issuer",
+      );
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(this.options.audience)) {
+      throw new InvalidTokenError(
+        "Token audience does not include this server",
+      );
+    }
+
+    if (typeof payload.exp !== "number") {
+      throw new InvalidTokenError("Token has no expiration time");
+    }
+    if (payload.exp < now - CLOCK_SKEW_SECONDS) {
+      throw new InvalidTokenError("Token has expired");
+    }
+    if (
+      typeof payload.nbf === "number" &&
+      payload.nbf > now + CLOCK_SKEW_SECONDS
+    ) {
+      throw new InvalidTokenError("Token is not valid yet");
+    }
+  }
+
+  private async findKeys(alg: string, kid: string | undefined) {
+    const select = (jwks: Jwk[]) =>
+      jwks.filter(
+        (jwk) =>
+          (!kid || jwk.kid === kid) &&
+          (!jwk.use || jwk.use === "sig") &&
+          (!jwk.alg || jwk.alg === alg),
+      );
+
+    let candidates = select(await this.getJwks(false));
+    // The issuer may have rotated its keys since the last fetch
+    if (candidates.length === 0 && kid) {
+      candidates = select(await this.getJwks(true));
+    }
+
+    return candidates.flatMap((jwk) => {
+      try {
+        return [createPublicKey({ key: jwk as JsonWebKey, format: "jwk" })];
+      } catch {
+        // Not a public key node:crypto can import
+        return [];
+      }
+    });
+  }
+
+  private async getJwks(refresh: boolean): Promise<Jwk[]> {
+    const age = Date.now() - this.jwksFetchedAt;
+    const isStale = age > JWKS_CACHE_MS;
+    const mayRefresh = refresh && age > JWKS_REFRESH_COOLDOWN_MS;
+    if (this.jwks && !isStale && !mayRefresh) {
+      return this.jwks;
+    }
+
+    try {
+      const raw = this.options.jwksFile
+        ? JSON.parse(await readFile(this.options.jwksFile, "utf8"))
+        : await this.fetchJson(await this.getJwksUri());
+      this.jwks = JwksSchema.parse(raw).keys;
+      this.jwksFetchedAt = Date.now();
+      info(`Loaded ${this.jwks.length} signing key(s) for OAuth validation`);
+      return this.jwks;
+    } catch (err) {
+      error(
+        `Failed to load JWKS: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      // Keep validating with the previous keys while the issuer is
+      // unreachable, and retry once the refresh cooldown has passed
+      if (this.jwks) {
+        this.jwksFetchedAt =
+          Date.now() - JWKS_CACHE_MS + JWKS_REFRESH_COOLDOWN_MS;
+        return this.jwks;
+      }
+      throw new ServerError("Unable to load token signing keys");
+    }
+  }
+
+  private async getJwksUri(): Promise<string> {
+    if (this.jwksUri) return this.jwksUri;
+
+    // RFC 8414 metadata first, then OpenID Connect discovery
+    const issuer = new URL(this.options.issuer);
+    const issuerPath = issuer.pathname.replace(/\/$/, "");
+    const metadataUrls = [
+      new URL(`/.well-known/oauth-authorization-server${issuerPath}`, issuer),
+      new URL(`${issuerPath}/.well-known/openid-configuration`, issuer),
+    ];
+
+    for (const url of metadataUrls) {
+      try {
+        const metadata = await this.fetchJson(url.href);
+        if (typeof metadata.jwks_uri === "string") {
+          this.jwksUri = metadata.jwks_uri;
+          return metadata.jwks_uri;
+        }
+      } catch {
+        // Try the next discovery document
+      }
+    }
+
+    throw new Error(
+      `No jwks_uri found in the metadata of ${this.options.issuer}; set OAUTH_JWKS_URI`,
+    );
+  }
+
+  private async fetchJson(url: string): Promise<any> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      throw new Error(`GET ${url} returned ${response.status}`);
+    }
+    return response.json();
+  }
+}
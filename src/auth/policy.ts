@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Per-credential access policies
+ * @description Maps authenticated HTTP callers, identified by API key ID or
+ * OAuth client ID, to the tool groups, guilds and channels they may use and
+ * whether they may make changes. Policies only narrow the global feature
+ * flags and allow-lists; they never widen them.
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { AccessPoliciesFileSchema, AccessPolicySchema } from "../schemas.js";
+import { info } from "../logger.js";
+
+export type AccessPolicy = z.infer<typeof AccessPolicySchema>;
+
+// Applies to callers a policies file has no entry for and no default
+const DENY_ALL_POLICY: AccessPolicy = { toolGroups: [], readOnly: true };
+
+// Applies to every authenticated caller when there is no policies file. It
+// allows all groups except admin, which a policy has to grant explicitly.
+const NO_ADMIN_POLICY: AccessPolicy = { readOnly: false };
+
+let accessPolicies: z.infer<typeof AccessPoliciesFileSchema> | null = null;
+
+/**
+ * Loads HTTP_POLICIES_FILE. Without a file, authenticated callers are only
+ * limited by the global configuration, except that they cannot use the admin
+ * tools.
+ */
+export function loadAccessPolicies(policiesFile: string | null): void {
+  if (!policiesFile) {
+    accessPolicies = null;
+    return;
+  }
+
+  const raw = JSON.parse(readFileSync(policiesFile, "utf8"));
+  accessPolicies = AccessPoliciesFileSchema.parse(raw);
+  info(
+    `Loaded access policies for ${Object.keys(accessPolicies.clients).length} client(s) from ${policiesFile}`,
+  );
+}
+
+/**
+ * Returns the policy of the authenticated caller, or undefined when the
+ * request is unauthenticated (stdio, or HTTP with auth disabled)
+ */
+export function getAccessPolicy(
+  authInfo: AuthInfo | undefined,
+): AccessPolicy | undefined {
+  if (!authInfo) return undefined;
+  if (!accessPolicies) return NO_ADMIN_POLICY;
+
+  return (
+    accessPolicies.clients[authInfo.clientId] ??
+    accessPolicies.default ??
+    DENY_ALL_POLICY
+  );
+}
@@ -0,0 +1,10 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+/**
+ * Verifies the bearer credential of an HTTP request. Implementations throw
+ * the SDK's OAuth errors (e.g. InvalidTokenError) so the middleware can turn
+ * them into the matching status code and WWW-Authenticate challenge.
+ */
+export interface HttpAuthenticator {
+  authenticate(token: string): Promise<AuthInfo>;
+}
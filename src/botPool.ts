@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Named pool of Discord clients
+ * @description The default bot is the client created by the entry point and
+ * configured by the top-level settings. Every entry of the config file's
+ * `bots` section adds a client with its own token, intents and allow-lists.
+ * Tools select a bot with their optional `bot` argument.
+ *
+ * Bots are created at startup; changes to `bots` apply after a restart.
+ */
+
+import { Client } from "discord.js";
+import { configManager, DEFAULT_BOT_NAME, ServerConfig } from "./config.js";
+import { getBotGatewayIntents } from "./gatewayIntents.js";
+import { registerSecret } from "./redact.js";
+import { info, error } from "./logger.js";
+import { instrumentDiscordRest } from "./tracing.js";
+import { trackRestQueue } from "./metrics.js";
+import { ToolContext } from "./tools/types.js";
+
+export interface DiscordBot {
+  name: string;
+  client: Client;
+}
+
+export class BotPool {
+  private bots = new Map<string, DiscordBot>();
+
+  constructor(
+    defaultClient: Client,
+    config: ServerConfig = configManager.getConfig(),
+  ) {
+    this.bots.set(DEFAULT_BOT_NAME, {
+      name: DEFAULT_BOT_NAME,
+      client: defaultClient,
+    });
+    instrumentDiscordRest(defaultClient.rest, DEFAULT_BOT_NAME);
+    trackRestQueue(defaultClient.rest, DEFAULT_BOT_NAME);
+
+    for (const [name, settings] of Object.entries(config.BOTS)) {
+      registerSecret(settings.DISCORD_TOKEN);
+      const client = new Client({
+        intents: getBotGatewayIntents(name, settings, config),
+      });
+      // Kept on the client so discord_login works without a token argument
+      if (settings.DISCORD_TOKEN) {
+        client.token = settings.DISCORD_TOKEN;
+      }
+      instrumentDiscordRest(client.rest, name);
+      trackRestQueue(client.rest, name);
+      this.bots.set(name, { name, client });
+    }
+  }
+
+  /**
+   * Returns the named bot, or the default bot without a name. Throws for
+   * names that are not configured.
+   */
+  get(name: string = DEFAULT_BOT_NAME): DiscordBot {
+    const bot = this.bots.get(name);
+    if (!bot) {
+      throw new Error(
+        `Unknown bot "${name}". Configured bots: ${this.names().join(", ")}`,
+      );
+    }
+    return bot;
+  }
+
+  list(): DiscordBot[] {
+    return [...this.bots.values()];
+  }
+
+  names(): string[] {
+    return [...this.bots.keys()];
+  }
+
+  /** True when bots besides the default one are configured */
+  hasAdditionalBots(): boolean {
+    return this.bots.size > 1;
+  }
+
+  /**
+   * Logs in every additional bot that has a token. The default bot is logged
+   * in by the entry point. Failures are logged; the bot stays available for
+   * discord_login.
+   */
+  async loginAdditionalBots(): Promise<void> {
+    await Promise.all(
+      this.list()
+        .filter((bot) => bot.name !== DEFAULT_BOT_NAME && bot.client.token)
+        .map(async ({ name, client }) => {
+          try {
+            await client.login(client.token!);
+            info(`Bot ${name} logged in as ${client.user?.tag}`);
+          } catch (err) {
+            error(
+              `Bot ${name} failed to log in: ${err instanceof Error ? err.message : String(err)}`,
+            );
+          }
+        }),
+    );
+  }
+
+  /**
+   * Disconnects the additional bots; the default client belongs to the
+   * entry point
+   */
+  async destroyAdditionalBots(): Promise<void> {
+    for (const bot of this.list()) {
+      if (bot.name !== DEFAULT_BOT_NAME) {
+        await bot.client.destroy();
+      }
+    }
+  }
+}
+
+/**
+ * Returns the context for a call made with the named bot. Without a name the
+ * context is returned unchanged, so it keeps using the default bot.
+ */
+export function selectBot(context: ToolContext, name: unknown): ToolContext {
+  if (name === undefined || name === null) return context;
+  if (typeof name !== "string") {
+    throw new Error("The bot argument must be a bot name");
+  }
+  const bot = context.bots.get(name);
+  return { ...context, client: bot.client, bot: bot.name };
+}
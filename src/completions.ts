@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Argument completion
+ * @description Implements completion/complete so clients can pick guilds,
+ * channels, roles and users by name instead of guessing snowflake IDs. IDs
+ * are completed from the discord.js caches, restricted to the configured
+ * allow-lists and the caller's access policy, and matched against both the
+ * ID prefix and the name.
+ *
+ * Besides the standard prompt and resource template references, a
+ * `{ type: "ref/tool", name }` reference completes tool arguments. Because
+ * completion values must be plain strings, the human-readable name of each
+ * value is returned in `_meta.labels`, keyed by ID.
+ */
+
+import { ChannelType, GuildBasedChannel } from "discord.js";
+import { z } from "zod";
+import {
+  CompleteRequestSchema,
+  CompleteResult,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "./tools/types.js";
+import { isChannelInScope, isGuildInScope } from "./scopeGuard.js";
+
+// Non-standard reference to a registered tool
+const ToolReferenceSchema = z
+  .object({
+    type: z.literal("ref/tool"),
+    name: z.string(),
+  })
+  .passthrough();
+
+export const CompleteRequestWithToolsSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([
+      PromptReferenceSchema,
+      ResourceTemplateReferenceSchema,
+      ToolReferenceSchema,
+    ]),
+  }),
+});
+
+export type CompletionRequestParams = z.infer<
+  typeof CompleteRequestWithToolsSchema
+>["params"];
+
+// The protocol caps a completion response at 100 values
+const MAX_COMPLETION_VALUES = 100;
+
+const TEXT_CHANNEL_TYPES = [
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+];
+const VOICE_CHANNEL_TYPES = [
+  ChannelType.GuildVoice,
+  ChannelType.GuildStageVoice,
+];
+const FORUM_CHANNEL_TYPES = [ChannelType.GuildForum];
+const CATEGORY_CHANNEL_TYPES = [ChannelType.GuildCategory];
+
+// Channel types offered for each channel argument, unless a tool overrides it
+const CHANNEL_ARGUMENT_TYPES: Record<string, ChannelType[] | undefined> = {
+  channelId: undefined, // Any channel except categories
+  forumChannelId: FORUM_CHANNEL_TYPES,
+  categoryId: CATEGORY_CHANNEL_TYPES,
+  targetChannelId: VOICE_CHANNEL_TYPES,
+};
+
+// Tools whose channelId only accepts specific channel types
+const TOOL_CHANNEL_TYPES: Record<string, ChannelType[]> = {
+  discord_send: TEXT_CHANNEL_TYPES,
+  discord_read_messages: TEXT_CHANNEL_TYPES,
+  discord_search_messages: TEXT_CHANNEL_TYPES,
+  discord_bulk_delete_messages: TEXT_CHANNEL_TYPES,
+  discord_edit_message: TEXT_CHANNEL_TYPES,
+  discord_delete_message: TEXT_CHANNEL_TYPES,
+  discord_pin_message: TEXT_CHANNEL_TYPES,
+  discord_unpin_message: TEXT_CHANNEL_TYPES,
+  discord_list_pins: TEXT_CHANNEL_TYPES,
+  discord_create_webhook: TEXT_CHANNEL_TYPES,
+  discord_edit_channel: TEXT_CHANNEL_TYPES,
+  discord_move_channel_to_category: TEXT_CHANNEL_TYPES,
+  discord_edit_voice_channel: VOICE_CHANNEL_TYPES,
+  discord_delete_voice_channel: VOICE_CHANNEL_TYPES,
+  discord_get_voice_channel_info: VOICE_CHANNEL_TYPES,
+};
+
+interface CompletionCandidate {
+  id: string;
+  label: string;
+}
+
+function matches(candidate: CompletionCandidate, value: string): boolean {
+  if (!value) return true;
+  return (
+    candidate.id.startsWith(value) ||
+    candidate.label.toLowerCase().includes(value.toLowerCase())
+  );
+}
+
+// Guilds to search: the one already chosen in another argument, else all
+function getCandidateGuilds(
+  context: ToolContext,
+  guildId: string | undefined,
+) {
+  const guilds = [...context.client.guilds.cache.values()].filter((guild) =>
+    isGuildInScope(guild.id, context),
+  );
+  return guildId ? guilds.filter((guild) => guild.id === guildId) : guilds;
+}
+
+function completeGuilds(context: ToolContext): CompletionCandidate[] {
+  return getCandidateGuilds(context, undefined).map((guild) => ({
+    id: guild.id,
+    label: guild.name,
+  }));
+}
+
+function completeChannels(
+  context: ToolContext,
+  guildId: string | undefined,
+  types: ChannelType[] | undefined,
+): CompletionCandidate[] {
+  const isWanted = (channel: GuildBasedChannel) =>
+    types
+      ? types.includes(channel.type)
+      : channel.type !== ChannelType.GuildCategory && !channel.isThread();
+
+  return getCandidateGuilds(context, guildId).flatMap((guild) =>
+    [...guild.channels.cache.values()]
+      .filter(
+        (channel) =>
+          isWanted(channel) && isChannelInScope(channel, context),
+      )
+      .sort((a, b) =>
+        "position" in a && "position" in b ? a.position - b.position : 0,
+      )
+      .map((channel) => ({
+        id: channel.id,
+        label: `#${channel.name} (${guild.name})`,
+      })),
+  );
+}
+
+function completeRoles(
+  context: ToolContext,
+  guildId: string | undefined,
+): CompletionCandidate[] {
+  return getCandidateGuilds(context, guildId).flatMap((guild) =>
+    [...guild.roles.cache.values()]
+      .sort((a, b) => b.position - a.position)
+      .map((role) => ({
+        id: role.id,
+        label: `@${role.name} (${guild.name})`,
+      })),
+  );
+}
+
+function completeUsers(
+  context: ToolContext,
+  guildId: string | undefined,
+): CompletionCandidate[] {
+  const seen = new Set<string>();
+  return getCandidateGuilds(context, guildId).flatMap((guild) =>
+    [...guild.members.cache.values()]
+      .filter((member) => !seen.has(member.id) && seen.add(member.id))
+      .map((member) => ({
+        id: member.id,
+        label:
+          member.displayName === member.user.username
+            ? member.user.username
+            : `${member.displayName} (${member.user.username})`,
+      })),
+  );
+}
+
+function getCandidates(
+  context: ToolContext,
+  refName: string | undefined,
+  argumentName: string,
+  contextArgs: Record<string, string>,
+): CompletionCandidate[] {
+  const guildId = contextArgs.guildId || undefined;
+
+  if (argumentName === "guildId") {
+    return completeGuilds(context);
+  }
+  if (argumentName in CHANNEL_ARGUMENT_TYPES) {
+    const types =
+      (argumentName === "channelId" && refName
+        ? TOOL_CHANNEL_TYPES[refName]
+        : undefined) ?? CHANNEL_ARGUMENT_TYPES[argumentName];
+    return completeChannels(context, guildId, types);
+  }
+  if (argumentName === "roleId") {
+    return completeRoles(context, guildId);
+  }
+  if (argumentName === "userId") {
+    return completeUsers(context, guildId);
+  }
+  return [];
+}
+
+/**
+ * Completes a tool, prompt or resource template argument holding a Discord ID
+ */
+export function completeArgument(
+  params: CompletionRequestParams,
+  context: ToolContext,
+): CompleteResult {
+  if (!context.client.isReady()) {
+    return { completion: { values: [], total: 0, hasMore: false } };
+  }
+
+  const refName =
+    params.ref.type === "ref/resource" ? undefined : params.ref.name;
+  const candidates = getCandidates(
+    context,
+    refName,
+    params.argument.name,
+    params.context?.arguments ?? {},
+  ).filter((candidate) => matches(candidate, params.argument.value));
+
+  const returned = candidates.slice(0, MAX_COMPLETION_VALUES);
+  return {
+    completion: {
+      values: returned.map((candidate) => candidate.id),
+      total: candidates.length,
+      hasMore: candidates.length > returned.length,
+    },
+    _meta: {
+      labels: Object.fromEntries(
+        returned.map((candidate) => [candidate.id, candidate.label]),
+      ),
+    },
+  };
+}
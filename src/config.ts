@@ -1,9 +1,89 @@
+import { unwatchFile, watchFile } from "node:fs";
 import { z } from "zod";
-import { info, error } from "./logger.js";
+import { configureLogger, info, error, LOG_LEVELS } from "./logger.js";
+import { configureTracing } from "./tracing.js";
+import {
+  findDefaultConfigFile,
+  interpolateEnv,
+  readConfigFile,
+} from "./configFile.js";
+
+/**
+ * Per-guild replacements for the feature flags and ALLOW_CHANNEL_IDS, applied
+ * to tool calls that target the guild
+ */
+const guildOverrideShape = {
+  ALLOW_CHANNEL_IDS: z.array(z.string()),
+  ENABLE_USER_MANAGEMENT: z.boolean(),
+  ENABLE_VOICE_CHANNELS: z.boolean(),
+  ENABLE_DIRECT_MESSAGES: z.boolean(),
+  ENABLE_SERVER_MANAGEMENT: z.boolean(),
+  ENABLE_RBAC: z.boolean(),
+  ENABLE_CONTENT_MANAGEMENT: z.boolean(),
+};
 
-// Configuration schema for validation
-export const ServerConfigSchema = z.object({
+export const GuildOverrideSchema = z
+  .object(guildOverrideShape)
+  .partial()
+  .strict();
+
+export type GuildOverride = z.infer<typeof GuildOverrideSchema>;
+
+// Flag that enables a tool group, globally or for one guild
+export type FeatureFlag = Exclude<keyof GuildOverride, "ALLOW_CHANNEL_IDS">;
+
+/**
+ * Additional bot accounts served next to the default one. Allow-lists that are
+ * set replace the global ones for calls made with the bot; GATEWAY_INTENTS
+ * adds intents to the ones every client requests.
+ */
+const botShape = {
+  DISCORD_TOKEN: z.string(),
+  ALLOW_GUILD_IDS: z.array(z.string()),
+  ALLOW_CHANNEL_IDS: z.array(z.string()),
+  GATEWAY_INTENTS: z.array(z.string()),
+};
+
+export const BotSettingsSchema = z.object(botShape).partial().strict();
+
+export type BotSettings = z.infer<typeof BotSettingsSchema>;
+
+// Name of the bot configured by the top-level settings
+export const DEFAULT_BOT_NAME = "default";
+
+const BotNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, "Bot names may only contain A-Z, 0-9, _ and -")
+  .refine((name) => name !== DEFAULT_BOT_NAME, {
+    message: `"${DEFAULT_BOT_NAME}" is reserved for the top-level token`,
+  });
+
+// Stages of the middleware chain every tool call runs through
+export const TOOL_PIPELINE_STAGES = [
+  "rateLimit",
+  "circuitBreaker",
+  "retry",
+  "audit",
+  "metrics",
+  "ipAllowlist",
+] as const;
+
+export type ToolPipelineStage = (typeof TOOL_PIPELINE_STAGES)[number];
+
+const DEFAULT_TOOL_PIPELINE: ToolPipelineStage[] = [
+  "rateLimit",
+  "circuitBreaker",
+  "audit",
+  "metrics",
+];
+
+// Settings read from the environment or the config file
+const ServerSettingsSchema = z.object({
   DISCORD_TOKEN: z.string().nullable(),
+  TOKEN_STORE: z.enum(["memory", "encryptedFile", "command"]),
+  TOKEN_STORE_FILE: z.string().nullable(),
+  TOKEN_STORE_PASSPHRASE: z.string().nullable(),
+  TOKEN_COMMAND: z.string().nullable(),
   ALLOW_GUILD_IDS: z.array(z.string()),
   ALLOW_CHANNEL_IDS: z.array(z.string()),
   ENABLE_USER_MANAGEMENT: z.boolean(),
@@ -12,26 +92,310 @@ export const ServerConfigSchema = z.object({
   ENABLE_SERVER_MANAGEMENT: z.boolean(),
   ENABLE_RBAC: z.boolean(),
   ENABLE_CONTENT_MANAGEMENT: z.boolean(),
+  ENABLE_MEMBER_EVENTS: z.boolean(),
   TRANSPORT: z.enum(["stdio", "http"]),
   HTTP_PORT: z.number().min(1).max(65535),
+  HTTP_SESSION_TIMEOUT_MS: z.number().int().min(1000),
+  HTTP_MAX_SESSIONS: z.number().int().min(1),
+  HTTP_AUTH_MODE: z.enum(["none", "apiKey", "oauth"]),
+  HTTP_API_KEYS_FILE: z.string().nullable(),
+  HTTP_POLICIES_FILE: z.string().nullable(),
+  OAUTH_RESOURCE_URL: z.string().url().nullable(),
+  OAUTH_ISSUER: z.string().url().nullable(),
+  OAUTH_AUDIENCE: z.string().nullable(),
+  OAUTH_JWKS_URI: z.string().url().nullable(),
+  OAUTH_JWKS_FILE: z.string().nullable(),
+  OAUTH_REQUIRED_SCOPES: z.array(z.string()),
   HEALTH_CHECK_ENABLED: z.boolean(),
   CONFIG_ENDPOINT_ENABLED: z.boolean(),
+  LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]),
+  LOG_FILE: z.string().nullable(),
+  LOG_FILE_MAX_BYTES: z.number().int().min(1024),
+  LOG_FILE_MAX_FILES: z.number().int().min(1),
+  TRACE_EXPORTER: z.enum(["none", "otlp", "file"]),
+  TRACE_FILE: z.string().nullable(),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url(),
+  OTEL_SERVICE_NAME: z.string().min(1),
+  TOOL_PIPELINE: z.array(z.enum(TOOL_PIPELINE_STAGES)),
+  TOOL_TIMEOUT_MS: z.number().int().min(1000),
+  AUDIT_LOG_FILE: z.string(),
+  IP_ALLOWLIST: z.array(z.string()),
+  BULK_OPERATIONS_DIR: z.string(),
+  BACKUP_DIR: z.string(),
+});
+
+// Configuration schema for validation
+export const ServerConfigSchema = ServerSettingsSchema.extend({
+  GUILD_OVERRIDES: z.record(GuildOverrideSchema),
+  BOTS: z.record(BotNameSchema, BotSettingsSchema),
 });
 
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 
+// `${VAR}` interpolation yields strings, so booleans and numbers in the config
+// file also accept their string form
+function acceptStringForm(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodBoolean) {
+    return z.preprocess(
+      (value) =>
+        value === "true" || value === "1"
+          ? true
+          : value === "false" || value === "0"
+            ? false
+            : value,
+      schema,
+    );
+  }
+  if (schema instanceof z.ZodNumber) {
+    return z.preprocess(
+      (value) =>
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value,
+      schema,
+    );
+  }
+  return schema;
+}
+
+function fileShapeOf(shape: z.ZodRawShape): Record<string, z.ZodTypeAny> {
+  return Object.fromEntries(
+    Object.entries(shape).map(([key, schema]) => [
+      key,
+      acceptStringForm(schema).optional(),
+    ]),
+  );
+}
+
+// A profile, or the shared top level of the config file
+const ConfigProfileSchema = z
+  .object({
+    ...fileShapeOf(ServerSettingsSchema.shape),
+    guilds: z
+      .record(z.object(fileShapeOf(guildOverrideShape)).strict())
+      .optional(),
+    bots: z
+      .record(BotNameSchema, z.object(fileShapeOf(botShape)).strict())
+      .optional(),
+  })
+  .strict();
+
+const ConfigFileSchema = ConfigProfileSchema.extend({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(ConfigProfileSchema).optional(),
+}).strict();
+
+type ConfigProfile = z.infer<typeof ConfigProfileSchema>;
+
+// Value of a `--name value` command line flag
+function getCliFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 && index + 1 < process.argv.length
+    ? process.argv[index + 1]
+    : undefined;
+}
+
+// `--config` also accepts a token or inline JSON for backwards compatibility
+function isConfigFilePath(value: string): boolean {
+  return /\.(json|ya?ml)$/i.test(value) && !value.trim().startsWith("{");
+}
+
+// Settings applied once at startup; reloading only records the new value
+export const RESTART_REQUIRED_KEYS: (keyof ServerConfig)[] = [
+  "TOKEN_STORE",
+  "TOKEN_STORE_FILE",
+  "TOKEN_STORE_PASSPHRASE",
+  "TOKEN_COMMAND",
+  "ENABLE_MEMBER_EVENTS",
+  "BOTS",
+  "TRANSPORT",
+  "HTTP_PORT",
+  "HTTP_AUTH_MODE",
+  "HTTP_API_KEYS_FILE",
+  "HTTP_POLICIES_FILE",
+  "OAUTH_RESOURCE_URL",
+  "OAUTH_ISSUER",
+  "OAUTH_AUDIENCE",
+  "OAUTH_JWKS_URI",
+  "OAUTH_JWKS_FILE",
+  "OAUTH_REQUIRED_SCOPES",
+  "TOOL_PIPELINE",
+  "TOOL_TIMEOUT_MS",
+  "AUDIT_LOG_FILE",
+  "IP_ALLOWLIST",
+  "BULK_OPERATIONS_DIR",
+];
+
+// How often CONFIG_FILE is polled for changes
+const CONFIG_FILE_POLL_INTERVAL_MS = 2000;
+
+export type ConfigChangeListener = (
+  config: ServerConfig,
+  changedKeys: (keyof ServerConfig)[],
+) => void;
+
 // Configuration validation and management
 export class ConfigManager {
   private config: ServerConfig;
+  private configFile: string | null;
+  private profile: string | null;
+  // Values from the config file as strings; the environment takes precedence
+  private fileValues: Record<string, string> = {};
+  // Values set with discord_update_config; they take precedence over both
+  private runtimeValues: Record<string, string> = {};
+  private guildOverrides: Record<string, GuildOverride> = {};
+  private botSettings: Record<string, BotSettings> = {};
+  private changeListeners = new Set<ConfigChangeListener>();
+  private watching = false;
 
   constructor() {
+    // Priority: --config > CONFIG_FILE > discordmcp.config.* in the cwd
+    const configArg = getCliFlag("--config");
+    this.configFile =
+      (configArg && isConfigFilePath(configArg) ? configArg : null) ||
+      process.env.CONFIG_FILE?.trim() ||
+      findDefaultConfigFile();
+    this.profile =
+      getCliFlag("--profile") || process.env.CONFIG_PROFILE?.trim() || null;
+
+    this.loadConfigFile();
     this.config = this.loadConfig();
     this.validateConfig();
+    this.applyLogSettings();
+    this.applyTracingSettings();
+  }
+
+  private applyLogSettings(): void {
+    configureLogger({
+      level: this.config.LOG_LEVEL,
+      file: this.config.LOG_FILE,
+      maxFileBytes: this.config.LOG_FILE_MAX_BYTES,
+      maxFiles: this.config.LOG_FILE_MAX_FILES,
+    });
+  }
+
+  private applyTracingSettings(): void {
+    configureTracing({
+      exporter: this.config.TRACE_EXPORTER,
+      otlpEndpoint: this.config.OTEL_EXPORTER_OTLP_ENDPOINT,
+      file: this.config.TRACE_FILE,
+      serviceName: this.config.OTEL_SERVICE_NAME,
+    });
+  }
+
+  /**
+   * Reads the config file and applies the selected profile on top of its
+   * shared settings. Throws with the path of every invalid value.
+   */
+  private loadConfigFile(): void {
+    if (!this.configFile) return;
+
+    const raw = readConfigFile(this.configFile);
+    const profileName =
+      this.profile ??
+      (typeof raw.defaultProfile === "string" ? raw.defaultProfile : null);
+
+    // Only the selected profile is interpolated and validated, so the others
+    // may reference variables that are only set where they are used
+    let rawProfiles: Record<string, unknown> | undefined;
+    if (profileName) {
+      const profiles = (
+        raw.profiles && typeof raw.profiles === "object" ? raw.profiles : {}
+      ) as Record<string, unknown>;
+      if (!(profileName in profiles)) {
+        const available = Object.keys(profiles).join(", ") || "none";
+        throw new Error(
+          `Unknown config profile "${profileName}" in ${this.configFile} (available: ${available})`,
+        );
+      }
+      rawProfiles = { [profileName]: profiles[profileName] };
+    }
+
+    let interpolated: unknown;
+    try {
+      interpolated = interpolateEnv({ ...raw, profiles: rawProfiles });
+    } catch (err) {
+      throw new Error(
+        `Invalid config file ${this.configFile}:\n  ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    const parsed = ConfigFileSchema.safeParse(interpolated);
+    if (!parsed.success) {
+      const problems = parsed.error.errors.map(
+        (issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+      );
+      throw new Error(
+        `Invalid config file ${this.configFile}:\n${problems.join("\n")}`,
+      );
+    }
+
+    const { profiles, ...shared } = parsed.data;
+    delete shared.defaultProfile;
+    const profile: ConfigProfile =
+      (profileName && profiles?.[profileName]) || {};
+
+    const {
+      guilds: sharedGuilds = {},
+      bots: sharedBots = {},
+      ...sharedSettings
+    } = shared;
+    const {
+      guilds: profileGuilds = {},
+      bots: profileBots = {},
+      ...profileSettings
+    } = profile;
+
+    this.fileValues = {};
+    const settings = { ...sharedSettings, ...profileSettings };
+    for (const [key, value] of Object.entries(settings)) {
+      if (value === undefined || value === null) continue;
+      this.fileValues[key] = Array.isArray(value)
+        ? value.join(",")
+        : String(value);
+    }
+
+    this.guildOverrides = {};
+    for (const guildId of new Set([
+      ...Object.keys(sharedGuilds),
+      ...Object.keys(profileGuilds),
+    ])) {
+      this.guildOverrides[guildId] = GuildOverrideSchema.parse({
+        ...sharedGuilds[guildId],
+        ...profileGuilds[guildId],
+      });
+    }
+
+    this.botSettings = {};
+    for (const name of new Set([
+      ...Object.keys(sharedBots),
+      ...Object.keys(profileBots),
+    ])) {
+      this.botSettings[name] = BotSettingsSchema.parse({
+        ...sharedBots[name],
+        ...profileBots[name],
+      });
+    }
+
+    info(
+      `Loaded config file ${this.configFile}${profileName ? ` (profile: ${profileName})` : ""}`,
+    );
+  }
+
+  // Runtime updates first, then the environment, then CONFIG_FILE
+  private readValue(name: string): string | undefined {
+    return (
+      this.runtimeValues[name] ?? process.env[name] ?? this.fileValues[name]
+    );
   }
 
   private loadConfig(): ServerConfig {
     const config: ServerConfig = {
       DISCORD_TOKEN: this.loadDiscordToken(),
+      TOKEN_STORE: this.loadTokenStore(),
+      TOKEN_STORE_FILE: this.loadStringConfig("TOKEN_STORE_FILE"),
+      TOKEN_STORE_PASSPHRASE: this.loadStringConfig("TOKEN_STORE_PASSPHRASE"),
+      TOKEN_COMMAND: this.loadStringConfig("TOKEN_COMMAND"),
       ALLOW_GUILD_IDS: this.loadGuildIds(),
       ALLOW_CHANNEL_IDS: this.loadChannelIds(),
       ENABLE_USER_MANAGEMENT: this.loadBooleanConfig("ENABLE_USER_MANAGEMENT", false),
@@ -40,10 +404,51 @@ export class ConfigManager {
       ENABLE_SERVER_MANAGEMENT: this.loadBooleanConfig("ENABLE_SERVER_MANAGEMENT", false),
       ENABLE_RBAC: this.loadBooleanConfig("ENABLE_RBAC", false),
       ENABLE_CONTENT_MANAGEMENT: this.loadBooleanConfig("ENABLE_CONTENT_MANAGEMENT", false),
+      ENABLE_MEMBER_EVENTS: this.loadBooleanConfig("ENABLE_MEMBER_EVENTS", false),
       TRANSPORT: this.loadTransport(),
       HTTP_PORT: this.loadPort(),
+      HTTP_SESSION_TIMEOUT_MS: this.loadIntegerConfig(
+        "HTTP_SESSION_TIMEOUT_MS",
+        30 * 60 * 1000,
+        1000,
+      ),
+      HTTP_MAX_SESSIONS: this.loadIntegerConfig("HTTP_MAX_SESSIONS", 100, 1),
+      HTTP_AUTH_MODE: this.loadHttpAuthMode(),
+      HTTP_API_KEYS_FILE: this.loadStringConfig("HTTP_API_KEYS_FILE"),
+      HTTP_POLICIES_FILE: this.loadStringConfig("HTTP_POLICIES_FILE"),
+      OAUTH_RESOURCE_URL: this.loadStringConfig("OAUTH_RESOURCE_URL"),
+      OAUTH_ISSUER: this.loadStringConfig("OAUTH_ISSUER"),
+      OAUTH_AUDIENCE: this.loadStringConfig("OAUTH_AUDIENCE"),
+      OAUTH_JWKS_URI: this.loadStringConfig("OAUTH_JWKS_URI"),
+      OAUTH_JWKS_FILE: this.loadStringConfig("OAUTH_JWKS_FILE"),
+      OAUTH_REQUIRED_SCOPES: this.loadListConfig("OAUTH_REQUIRED_SCOPES"),
       HEALTH_CHECK_ENABLED: this.loadBooleanConfig("HEALTH_CHECK_ENABLED", true),
       CONFIG_ENDPOINT_ENABLED: this.loadBooleanConfig("CONFIG_ENDPOINT_ENABLED", true),
+      LOG_LEVEL: this.loadLogLevel(),
+      LOG_FILE: this.loadStringConfig("LOG_FILE"),
+      LOG_FILE_MAX_BYTES: this.loadIntegerConfig(
+        "LOG_FILE_MAX_BYTES",
+        10 * 1024 * 1024,
+        1024,
+      ),
+      LOG_FILE_MAX_FILES: this.loadIntegerConfig("LOG_FILE_MAX_FILES", 5, 1),
+      TRACE_EXPORTER: this.loadTraceExporter(),
+      TRACE_FILE: this.loadStringConfig("TRACE_FILE"),
+      OTEL_EXPORTER_OTLP_ENDPOINT:
+        this.loadStringConfig("OTEL_EXPORTER_OTLP_ENDPOINT") ||
+        "http://localhost:4318",
+      OTEL_SERVICE_NAME:
+        this.loadStringConfig("OTEL_SERVICE_NAME") || "mcp-discord",
+      TOOL_PIPELINE: this.loadToolPipeline(),
+      TOOL_TIMEOUT_MS: this.loadIntegerConfig("TOOL_TIMEOUT_MS", 60000, 1000),
+      AUDIT_LOG_FILE:
+        this.loadStringConfig("AUDIT_LOG_FILE") || "./logs/audit.log",
+      IP_ALLOWLIST: this.loadListConfig("IP_ALLOWLIST"),
+      BULK_OPERATIONS_DIR:
+        this.loadStringConfig("BULK_OPERATIONS_DIR") || "./bulk-operations",
+      BACKUP_DIR: this.loadStringConfig("BACKUP_DIR") || "./backups",
+      GUILD_OVERRIDES: this.guildOverrides,
+      BOTS: this.botSettings,
     };
 
     return config;
@@ -54,7 +459,7 @@ export class ConfigManager {
     const configIndex = process.argv.indexOf("--config");
     if (configIndex !== -1 && configIndex + 1 < process.argv.length) {
       const configArg = process.argv[configIndex + 1];
-      if (typeof configArg === "string") {
+      if (typeof configArg === "string" && !isConfigFilePath(configArg)) {
         try {
           const parsedConfig = JSON.parse(configArg);
           return parsedConfig.DISCORD_TOKEN || parsedConfig.token || null;
@@ -64,8 +469,8 @@ export class ConfigManager {
       }
     }
 
-    // Check environment variable (primary method)
-    const envToken = process.env.DISCORD_TOKEN;
+    // Check environment variable (primary method), then CONFIG_FILE
+    const envToken = this.readValue("DISCORD_TOKEN");
     if (envToken) {
       // Only log basic info without exposing token details
       info("Discord token found in environment variables");
@@ -107,7 +512,7 @@ export class ConfigManager {
   }
 
   private loadGuildIds(): string[] {
-    const guilds = process.env.ALLOW_GUILD_IDS || "";
+    const guilds = this.readValue("ALLOW_GUILD_IDS") || "";
     return guilds
       ? guilds
           .split(",")
@@ -117,7 +522,7 @@ export class ConfigManager {
   }
 
   private loadChannelIds(): string[] {
-    const channels = process.env.ALLOW_CHANNEL_IDS || "";
+    const channels = this.readValue("ALLOW_CHANNEL_IDS") || "";
     return channels
       ? channels
           .split(",")
@@ -132,7 +537,7 @@ export class ConfigManager {
   ): boolean {
     // Check multiple environment variable formats for Smithery compatibility
     const envValue =
-      process.env[envVarName] ||
+      this.readValue(envVarName) ||
       process.env[envVarName.toLowerCase()] ||
       process.env[envVarName.toUpperCase()];
 
@@ -156,7 +561,7 @@ export class ConfigManager {
         return transport as "http" | "stdio";
       }
     }
-    return (process.env.TRANSPORT === "http" ? "http" : "stdio") as
+    return (this.readValue("TRANSPORT") === "http" ? "http" : "stdio") as
       | "http"
       | "stdio";
   }
@@ -170,11 +575,63 @@ export class ConfigManager {
       }
     }
     const envPort = parseInt(
-      process.env.PORT || process.env.HTTP_PORT || "8080",
+      process.env.PORT || this.readValue("HTTP_PORT") || "8080",
     );
     return isNaN(envPort) ? 8080 : Math.max(1, Math.min(65535, envPort));
   }
 
+  private loadTokenStore(): "memory" | "encryptedFile" | "command" {
+    const store = this.readValue("TOKEN_STORE");
+    return store === "encryptedFile" || store === "command" ? store : "memory";
+  }
+
+  private loadLogLevel(): ServerConfig["LOG_LEVEL"] {
+    const level = this.readValue("LOG_LEVEL")?.trim().toLowerCase();
+    return LOG_LEVELS.find((name) => name === level) ?? "info";
+  }
+
+  // Unset means the default stages and "none" disables the chain. Unknown
+  // stage names are kept so validation reports them.
+  private loadToolPipeline(): ToolPipelineStage[] {
+    if (this.readValue("TOOL_PIPELINE") === undefined) {
+      return [...DEFAULT_TOOL_PIPELINE];
+    }
+    const stages = this.loadListConfig("TOOL_PIPELINE");
+    return (
+      stages.length === 1 && stages[0] === "none" ? [] : stages
+    ) as ToolPipelineStage[];
+  }
+
+  private loadTraceExporter(): "none" | "otlp" | "file" {
+    const exporter = this.readValue("TRACE_EXPORTER");
+    return exporter === "otlp" || exporter === "file" ? exporter : "none";
+  }
+
+  private loadHttpAuthMode(): "none" | "apiKey" | "oauth" {
+    const mode = this.readValue("HTTP_AUTH_MODE");
+    return mode === "apiKey" || mode === "oauth" ? mode : "none";
+  }
+
+  private loadStringConfig(envVarName: string): string | null {
+    return this.readValue(envVarName)?.trim() || null;
+  }
+
+  private loadListConfig(envVarName: string): string[] {
+    return (this.readValue(envVarName) || "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0);
+  }
+
+  private loadIntegerConfig(
+    envVarName: string,
+    defaultValue: number,
+    minValue: number,
+  ): number {
+    const value = parseInt(this.readValue(envVarName) || "");
+    return isNaN(value) ? defaultValue : Math.max(minValue, value);
+  }
+
   private parseBoolean(
     value: string | undefined,
     defaultValue: boolean = false,
@@ -236,13 +693,148 @@ export class ConfigManager {
     return { ...this.config };
   }
 
+  /**
+   * Re-reads CONFIG_FILE and the environment, then notifies change listeners.
+   * The Discord token and the RESTART_REQUIRED_KEYS settings keep their
+   * current value. Throws, leaving the configuration unchanged, when the new
+   * values are invalid. Returns the keys whose value changed.
+   */
+  public reload(): (keyof ServerConfig)[] {
+    const previous = this.config;
+    this.loadConfigFile();
+    const loaded = ServerConfigSchema.parse(this.loadConfig());
+
+    const next: ServerConfig = {
+      ...loaded,
+      DISCORD_TOKEN: previous.DISCORD_TOKEN,
+    };
+    const pendingRestart: string[] = [];
+    for (const key of RESTART_REQUIRED_KEYS) {
+      if (JSON.stringify(loaded[key]) !== JSON.stringify(previous[key])) {
+        pendingRestart.push(key);
+      }
+      Object.assign(next, { [key]: previous[key] });
+    }
+    if (pendingRestart.length > 0) {
+      info(`Restart required to apply: ${pendingRestart.join(", ")}`);
+    }
+
+    const changedKeys = (Object.keys(next) as (keyof ServerConfig)[]).filter(
+      (key) => JSON.stringify(next[key]) !== JSON.stringify(previous[key]),
+    );
+    this.config = next;
+    if (changedKeys.length === 0) return [];
+    this.applyLogSettings();
+    this.applyTracingSettings();
+
+    info(`Configuration reloaded: ${changedKeys.join(", ")} changed`);
+    for (const listener of this.changeListeners) {
+      try {
+        listener(this.getConfig(), changedKeys);
+      } catch (err) {
+        error(
+          `Configuration change listener failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+    return changedKeys;
+  }
+
+  /**
+   * Sets configuration values at runtime, in the string form of environment
+   * variables, and reloads. They take precedence over the environment and
+   * CONFIG_FILE until the server restarts; the process environment is left
+   * unchanged. Throws, keeping the previous values, when the new
+   * configuration is invalid. Returns the keys whose value changed.
+   */
+  public update(values: Record<string, string>): (keyof ServerConfig)[] {
+    const previous = this.runtimeValues;
+    this.runtimeValues = { ...previous, ...values };
+    try {
+      return this.reload();
+    } catch (err) {
+      this.runtimeValues = previous;
+      throw err;
+    }
+  }
+
+  /**
+   * Registers a listener called after a reload changed the configuration.
+   * Returns a function that removes it again.
+   */
+  public onChange(listener: ConfigChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Reloads when CONFIG_FILE changes or the process receives SIGHUP
+   */
+  public startWatching(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    process.on("SIGHUP", this.onReloadSignal);
+    if (this.configFile) {
+      watchFile(
+        this.configFile,
+        { interval: CONFIG_FILE_POLL_INTERVAL_MS },
+        this.onConfigFileChange,
+      );
+      info(`Watching ${this.configFile} for configuration changes`);
+    }
+  }
+
+  public stopWatching(): void {
+    if (!this.watching) return;
+    this.watching = false;
+
+    process.off("SIGHUP", this.onReloadSignal);
+    if (this.configFile) {
+      unwatchFile(this.configFile, this.onConfigFileChange);
+    }
+  }
+
+  private onReloadSignal = () => {
+    info("Received SIGHUP. Reloading configuration...");
+    this.tryReload();
+  };
+
+  private onConfigFileChange = (
+    current: { mtimeMs: number },
+    previous: { mtimeMs: number },
+  ) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      this.tryReload();
+    }
+  };
+
+  private tryReload() {
+    try {
+      this.reload();
+    } catch (err) {
+      error(
+        `Configuration reload failed, keeping the current settings: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
   public getConfigSummary(): Record<string, any> {
     const summary = { ...this.config };
 
-    // Mask sensitive information
+    // Mask sensitive information; even a token prefix identifies the bot
     if (summary.DISCORD_TOKEN) {
-      summary.DISCORD_TOKEN = summary.DISCORD_TOKEN.substring(0, 10) + "...";
+      summary.DISCORD_TOKEN = "[configured]";
+    }
+    if (summary.TOKEN_STORE_PASSPHRASE) {
+      summary.TOKEN_STORE_PASSPHRASE = "[configured]";
     }
+    summary.BOTS = Object.fromEntries(
+      Object.entries(summary.BOTS).map(([name, bot]) => [
+        name,
+        bot.DISCORD_TOKEN ? { ...bot, DISCORD_TOKEN: "[configured]" } : bot,
+      ]),
+    );
 
     return summary;
   }
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Configuration file reader
+ * @description Finds and reads the config file consumed by ConfigManager.
+ * Files ending in `.json` are parsed as JSON; anything else as the subset of
+ * YAML a settings file needs: nested mappings, `- item` and `[a, b]` lists,
+ * lists of mappings, quoted and plain scalars, and `#` comments. Anchors,
+ * multi-line strings and flow mappings are rejected rather than misread.
+ * Guild specs written in YAML are read with the same parser.
+ *
+ * String values may reference environment variables as `${NAME}` or
+ * `${NAME:-default}`.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { extname, resolve } from "node:path";
+
+// Looked up in the working directory when no file is given explicitly
+const DEFAULT_CONFIG_FILES = [
+  "discordmcp.config.json",
+  "discordmcp.config.yaml",
+  "discordmcp.config.yml",
+];
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNumber: number;
+}
+
+// `key: value`, `key:` before a nested block, or a quoted key
+const KEY_PATTERN = /^("[^"]*"|'[^']*'|[^:\s][^:]*?)\s*:(?:\s+(.*))?$/;
+
+function yamlError(line: YamlLine, message: string): Error {
+  return new Error(`line ${line.lineNumber}: ${message}`);
+}
+
+// Removes a trailing `# comment` that is not inside quotes
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+// Splits the body of an inline `[a, b]` list on commas outside quotes
+function splitInlineList(body: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = "";
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim().length > 0) items.push(current.trim());
+  return items;
+}
+
+function parseScalar(raw: string, line: YamlLine): unknown {
+  const value = raw.trim();
+
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw yamlError(line, `invalid double-quoted string: ${value}`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw yamlError(line, `unterminated single-quoted string: ${value}`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith("[")) {
+    if (!value.endsWith("]")) {
+      throw yamlError(line, `unterminated list: ${value}`);
+    }
+    return splitInlineList(value.slice(1, -1)).map((item) =>
+      parseScalar(item, line),
+    );
+  }
+  if (/^[{&*|>!]/.test(value)) {
+    throw yamlError(line, `unsupported YAML syntax: ${value}`);
+  }
+
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    // Keep Discord snowflakes exact instead of rounding them
+    return Number.isSafeInteger(number) || value.includes(".")
+      ? number
+      : value;
+  }
+  return value;
+}
+
+// Whether a list item starts a mapping, as in `- name: general`
+function isMappingEntry(text: string): boolean {
+  if (/^["']/.test(text)) return /^("[^"]*"|'[^']*')\s*:(\s|$)/.test(text);
+  return !text.startsWith("[") && KEY_PATTERN.test(text);
+}
+
+function parseBlock(
+  lines: YamlLine[],
+  start: number,
+  indent: number,
+): [unknown, number] {
+  const first = lines[start];
+
+  if (first.text === "-" || first.text.startsWith("- ")) {
+    const items: unknown[] = [];
+    let index = start;
+    while (index < lines.length && lines[index].indent === indent) {
+      const line = lines[index];
+      if (line.text !== "-" && !line.text.startsWith("- ")) break;
+      const rest = line.text.slice(1);
+      const item = rest.trim();
+
+      if (isMappingEntry(item)) {
+        // The item's keys line up with the first key after the dash
+        lines[index] = {
+          ...line,
+          indent: indent + 1 + rest.length - rest.trimStart().length,
+          text: item,
+        };
+        let value: unknown;
+        [value, index] = parseBlock(lines, index, lines[index].indent);
+        items.push(value);
+      } else if (item === "" && (lines[index + 1]?.indent ?? 0) > indent) {
+        // A bare dash with the item's block indented below it
+        let value: unknown;
+        [value, index] = parseBlock(lines, index + 1, lines[index + 1].indent);
+        items.push(value);
+      } else {
+        items.push(parseScalar(rest, line));
+        index++;
+      }
+    }
+    return [items, index];
+  }
+
+  const mapping: Record<string, unknown> = {};
+  let index = start;
+  while (index < lines.length && lines[index].indent >= indent) {
+    const line = lines[index];
+    if (line.indent > indent) {
+      throw yamlError(line, "unexpected indentation");
+    }
+
+    const match = KEY_PATTERN.exec(line.text);
+    if (!match) {
+      throw yamlError(line, `expected "key: value", got: ${line.text}`);
+    }
+    const key = String(parseScalar(match[1], line));
+    index++;
+
+    if (match[2] !== undefined && match[2].trim().length > 0) {
+      mapping[key] = parseScalar(match[2], line);
+      continue;
+    }
+
+    // A nested block is indented deeper; a list may also sit at key level
+    const next = lines[index];
+    const hasBlock =
+      next &&
+      (next.indent > indent ||
+        (next.indent === indent && /^-(\s|$)/.test(next.text)));
+    if (hasBlock) {
+      [mapping[key], index] = parseBlock(lines, index, next.indent);
+    } else {
+      mapping[key] = null;
+    }
+  }
+  return [mapping, index];
+}
+
+/**
+ * Parses YAML limited to the constructs listed in the file overview. Errors
+ * name the offending line.
+ */
+export function parseYaml(source: string): Record<string, unknown> {
+  const lines: YamlLine[] = [];
+  source.split(/\r?\n/).forEach((rawLine, i) => {
+    const lineNumber = i + 1;
+    if (/^\s*\t/.test(rawLine)) {
+      throw new Error(`line ${lineNumber}: tabs are not allowed`);
+    }
+    const text = stripComment(rawLine).trimEnd();
+    if (text.trim().length === 0 || text.trim() === "---") return;
+    lines.push({
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+      lineNumber,
+    });
+  });
+
+  if (lines.length === 0) return {};
+
+  const [value, end] = parseBlock(lines, 0, lines[0].indent);
+  if (end < lines.length) {
+    throw yamlError(lines[end], "unexpected indentation");
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("the document must be a mapping");
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Reads a JSON or YAML config file into a plain object
+ */
+export function readConfigFile(path: string): Record<string, unknown> {
+  const source = readFileSync(path, "utf8");
+  if (extname(path).toLowerCase() === ".json") {
+    const parsed = JSON.parse(source);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Config file must contain a JSON object");
+    }
+    return parsed;
+  }
+  try {
+    return parseYaml(source);
+  } catch (err) {
+    throw new Error(
+      `Config file ${path}, ${err instanceof Error ? err.message : err}`,
+    );
+  }
+}
+
+/**
+ * Returns the path of the first default config file in the working directory
+ */
+export function findDefaultConfigFile(): string | null {
+  for (const name of DEFAULT_CONFIG_FILES) {
+    const path = resolve(name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/**
+ * Replaces `${NAME}` and `${NAME:-default}` in every string of a parsed config
+ * file. `path` names the value in error messages, e.g.
+ * `profiles.prod.HTTP_PORT`.
+ */
+export function interpolateEnv(value: unknown, path: string = ""): unknown {
+  if (typeof value === "string") {
+    return value.replace(
+      /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+      (_match, name: string, fallback: string | undefined) => {
+        const envValue = process.env[name];
+        if (envValue !== undefined && envValue !== "") return envValue;
+        if (fallback !== undefined) return fallback;
+        throw new Error(
+          `${path || "(root)"}: environment variable ${name} is not set`,
+        );
+      },
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolateEnv(item, `${path}[${i}]`));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, path ? `${path}.${key}` : key),
+      ]),
+    );
+  }
+  return value;
+}
@@ -2,13 +2,19 @@
 import { ToolResponse } from "./tools/types.js";
 import { EnterpriseIntegrationService } from "./services/enterpriseIntegrationService.js";
 import { SecurityEventType } from "./services/securityService.js";
+import { warn } from "./logger.js";
+import { getRequestScope } from "./requestContext.js";
+import { getMonitoringService } from "./services/monitoringService.js";
+import { categorizeError } from "./services/errorHandlingService.js";
 
 /**
  * Enhanced error handler with enterprise integration
  * @param error - The error object from Discord API calls
  * @param clientId - Optional Discord Client ID for custom invite links
- * @param context - Additional context for error tracking
- * @param enterpriseService - Enterprise integration service instance
+ * @param context - Additional context for error tracking; defaults to the
+ * current tool call
+ * @param enterpriseService - Enterprise integration service instance; defaults
+ * to the tool pipeline of the current tool call
  * @returns A standard tool response with error message and potential solution
  */
 export async function handleDiscordError(
@@ -28,6 +34,33 @@ export async function handleDiscordError(
     typeof error === "string" ? error : error?.message || String(error);
   const errorCode = error?.code;
 
+  // Inside a tool call the caller and the tool pipeline come from the scope
+  const toolCall = getRequestScope()?.toolCall;
+  if (toolCall) {
+    context ??= {
+      userId: toolCall.userId,
+      guildId: toolCall.guildId,
+      channelId: toolCall.channelId,
+      toolName: toolCall.toolName,
+    };
+    enterpriseService ??= toolCall.enterpriseService;
+  }
+
+  // Tagged with the request ID, so it matches the tool call's own log entries
+  warn("Discord API error", {
+    error: errorMessage,
+    errorCode,
+    toolName: context?.toolName,
+    guildId: context?.guildId,
+  });
+  getMonitoringService().recordError(
+    categorizeError(
+      error instanceof Error
+        ? error
+        : Object.assign(new Error(errorMessage), { code: errorCode }),
+    ).category,
+  );
+
   // Generate invite link based on client ID if provided
   const inviteLink = clientId
     ? `https://discord.com/oauth2/authorize?client_id=${clientId}&scope=bot&permissions=8`
@@ -56,20 +89,10 @@ export async function handleDiscordError(
           context.guildId,
         );
       }
-
-      // Log to monitoring service
-      const monitoringService = (enterpriseService as any).services?.monitoring;
-      if (monitoringService && context.toolName) {
-        monitoringService.recordToolUsage(
-          context.toolName,
-          context.userId,
-          context.guildId,
-          false,
-        );
-      }
+      // The tool pipeline records the failed call in the monitoring service
     } catch (serviceError) {
       // Don't let service errors affect the main error handling
-      console.error("Enterprise service error logging failed:", serviceError);
+      warn("Enterprise service error logging failed", { error: serviceError });
     }
   }
 
@@ -258,7 +281,10 @@ The system will automatically handle retries with exponential backoff if enterpr
   const contextInfo = context?.toolName
     ? `\n**Tool**: ${context.toolName}`
     : "";
-  const errorId = `ERR_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  // Inside a tool call the request ID doubles as the Error ID
+  const errorId =
+    getRequestScope()?.requestId ||
+    `ERR_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
 
   return {
     content: [
@@ -0,0 +1,56 @@
+import { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// Events kept per session for replay; older events are dropped first
+const MAX_STORED_EVENTS = 1000;
+
+type SendEvent = (eventId: string, message: JSONRPCMessage) => Promise<void>;
+
+/**
+ * Keeps the most recent SSE events of one HTTP session in memory so a client
+ * that reconnects with `Last-Event-ID` receives the messages it missed.
+ * Event IDs embed their stream ID, and a Map preserves insertion order, so
+ * replay is a scan from the last seen event.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<
+    string,
+    { streamId: string; message: JSONRPCMessage }
+  >();
+  private nextEventNumber = 0;
+
+  async storeEvent(
+    streamId: string,
+    message: JSONRPCMessage,
+  ): Promise<string> {
+    const eventId = `${streamId}_${this.nextEventNumber++}`;
+    this.events.set(eventId, { streamId, message });
+
+    if (this.events.size > MAX_STORED_EVENTS) {
+      const oldestEventId = this.events.keys().next().value!;
+      this.events.delete(oldestEventId);
+    }
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: SendEvent },
+  ): Promise<string> {
+    const lastEvent = this.events.get(lastEventId);
+    // The event was never stored or has already been dropped
+    if (!lastEvent) return "";
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && streamId === lastEvent.streamId) {
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+}
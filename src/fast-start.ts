@@ -5,48 +5,34 @@
  * Prioritizes getting the HTTP server running quickly over Discord connection
  */
 
-import { Client, GatewayIntentBits } from "discord.js";
+import { Client } from "discord.js";
 import { config as dotenvConfig } from "dotenv";
 import { DiscordMCPServer } from "./server.js";
 import { StreamableHttpTransport } from "./transport.js";
-// import { info, error } from "./logger.js"; // Using console.log for faster startup
+import { getGatewayIntents } from "./gatewayIntents.js";
+import { loadBotToken } from "./tokenStore/botToken.js";
+import { debug, error, info, warn } from "./logger.js";
 
 // Quick startup sequence
-console.log("🚀 Starting MCP Discord Server (Fast Mode)...");
+info("🚀 Starting MCP Discord Server (Fast Mode)...");
 
 // Load environment variables (ignore errors)
 try {
   dotenvConfig();
 } catch (e) {
-  console.log("dotenv skipped");
+  debug("dotenv skipped");
 }
 
 // Get basic config
-const DISCORD_TOKEN =
-  process.env.DISCORD_TOKEN ||
-  process.env.discordToken ||
-  process.env.DISCORDTOKEN ||
-  process.env.token ||
-  process.env.BOT_TOKEN;
 const HTTP_PORT = parseInt(process.env.PORT || process.env.HTTP_PORT || "8080");
 
-console.log(`Discord token present: ${!!DISCORD_TOKEN}`);
-console.log(`HTTP port: ${HTTP_PORT}`);
+info(`HTTP port: ${HTTP_PORT}`);
 
 // Create Discord client with minimal intents
 const client = new Client({
-  intents: [
-    GatewayIntentBits.Guilds,
-    GatewayIntentBits.GuildMessages,
-    GatewayIntentBits.MessageContent,
-  ],
+  intents: getGatewayIntents(),
 });
 
-// Set token if available
-if (DISCORD_TOKEN) {
-  client.token = DISCORD_TOKEN;
-}
-
 // Create HTTP transport (fast startup)
 const transport = new StreamableHttpTransport(HTTP_PORT);
 
@@ -56,56 +42,60 @@ const mcpServer = new DiscordMCPServer(client, transport);
 // Start server immediately
 async function startServer() {
   try {
-    console.log("Starting HTTP server...");
+    info("Starting HTTP server...");
     await mcpServer.start();
-    console.log("✅ MCP server started successfully");
-    console.log(`✅ Server ready at http://0.0.0.0:${HTTP_PORT}`);
-    console.log("✅ Health check: /health");
-    console.log("✅ Config check: /config");
-
-    // Discord login in background (non-blocking)
-    if (DISCORD_TOKEN) {
-      console.log("Starting Discord connection in background...");
+    info("✅ MCP server started successfully");
+    info(`✅ Server ready at http://0.0.0.0:${HTTP_PORT}`);
+    info("✅ Health check: /health");
+    info("✅ Config check: /config");
+
+    // Discord login in background (non-blocking); the token comes from the
+    // configured token store or DISCORD_TOKEN
+    const discordToken = await loadBotToken();
+    info(`Discord token present: ${!!discordToken}`);
+    if (discordToken) {
+      client.token = discordToken;
+      info("Starting Discord connection in background...");
       setTimeout(async () => {
         try {
-          await client.login(DISCORD_TOKEN);
+          await client.login(discordToken);
           if (client.isReady()) {
-            console.log(`✅ Discord connected as: ${client.user?.tag}`);
+            info(`✅ Discord connected as: ${client.user?.tag}`);
           }
         } catch (err) {
-          console.log(
+          warn(
             `⚠️ Discord connection failed: ${err instanceof Error ? err.message : String(err)}`,
           );
         }
       }, 100); // Start after 100ms delay
     } else {
-      console.log(
-        "⚠️ No Discord token - server will work with limited functionality",
-      );
+      warn("⚠️ No Discord token - server will work with limited functionality");
     }
 
     // Keep alive
     setInterval(() => {
-      console.log("❤️ Server alive");
+      debug("❤️ Server alive");
     }, 60000);
   } catch (err) {
-    console.error("❌ Server startup failed:", err);
+    error(
+      `❌ Server startup failed: ${err instanceof Error ? err.message : String(err)}`,
+    );
     process.exit(1);
   }
 }
 
 // Handle shutdown
 process.on("SIGTERM", async () => {
-  console.log("Shutting down...");
+  info("Shutting down...");
   await mcpServer.stop();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
-  console.log("Shutting down...");
+  info("Shutting down...");
   await mcpServer.stop();
   process.exit(0);
 });
 
 // Start the server
-startServer();
\ No newline at end of file
+startServer();
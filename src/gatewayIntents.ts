@@ -0,0 +1,45 @@
+import { GatewayIntentBits } from "discord.js";
+import { BotSettings, configManager, ServerConfig } from "./config.js";
+
+/**
+ * Gateway intents requested when the Discord client is created. Privileged
+ * intents are only requested when a feature that needs them is enabled, since
+ * login fails if they are not also enabled in the Developer Portal.
+ */
+export function getGatewayIntents(
+  config: ServerConfig = configManager.getConfig(),
+): GatewayIntentBits[] {
+  const intents = [
+    GatewayIntentBits.Guilds, // Includes threadCreate
+    GatewayIntentBits.GuildMessages,
+    GatewayIntentBits.MessageContent,
+  ];
+
+  // guildMemberAdd events for discord://guild/{guildId} subscriptions
+  if (config.ENABLE_MEMBER_EVENTS) {
+    intents.push(GatewayIntentBits.GuildMembers);
+  }
+
+  return intents;
+}
+
+/**
+ * Gateway intents of an additional bot: the ones above plus the bot's
+ * GATEWAY_INTENTS, given by their GatewayIntentBits names
+ */
+export function getBotGatewayIntents(
+  name: string,
+  settings: BotSettings,
+  config: ServerConfig = configManager.getConfig(),
+): GatewayIntentBits[] {
+  const intents = getGatewayIntents(config);
+  for (const intentName of settings.GATEWAY_INTENTS ?? []) {
+    const intent =
+      GatewayIntentBits[intentName as keyof typeof GatewayIntentBits];
+    if (intent === undefined) {
+      throw new Error(`Unknown gateway intent "${intentName}" for bot ${name}`);
+    }
+    if (!intents.includes(intent)) intents.push(intent);
+  }
+  return intents;
+}
@@ -0,0 +1,996 @@
+/**
+ * @fileoverview Guild backups
+ * @description Snapshots a guild's settings, roles, channels with their
+ * permission overwrites and forum tags, emojis, stickers, webhooks and
+ * welcome screen as JSON files in BACKUP_DIR. A backup can be compared with
+ * the live guild and restored into it.
+ *
+ * Restore only creates what is missing: roles, channels, emojis, stickers,
+ * webhooks and forum tags that no longer exist, plus the welcome screen when
+ * it differs. Existing items are never edited or deleted. Recreated items
+ * get new IDs, so parents, permission overwrites, emoji role restrictions and
+ * welcome channels are remapped from the old IDs to the new ones. The mapping
+ * is saved in the backup file after each recreated item, which makes a second
+ * restore skip the items the first one recreated.
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  ChannelType,
+  Guild,
+  GuildChannelCreateOptions,
+  GuildForumTagData,
+  OverwriteType,
+  PermissionsString,
+  StickerFormatType,
+  WebhookType,
+} from "discord.js";
+import { warn } from "./logger.js";
+
+export interface PermissionOverwriteBackup {
+  id: string;
+  type: OverwriteType;
+  allow: string[];
+  deny: string[];
+}
+
+export interface RoleBackup {
+  id: string;
+  name: string;
+  color: string;
+  hoist: boolean;
+  mentionable: boolean;
+  position: number;
+  permissions: string[];
+  // Roles of integrations and bots cannot be created
+  managed?: boolean;
+}
+
+export interface ForumTagBackup {
+  id: string;
+  name: string;
+  moderated: boolean;
+  emoji: { id: string | null; name: string | null } | null;
+}
+
+export interface ChannelBackup {
+  id: string;
+  name: string;
+  type: ChannelType;
+  position: number;
+  parentId: string | null;
+  topic?: string | null;
+  nsfw?: boolean;
+  rateLimitPerUser?: number;
+  bitrate?: number;
+  userLimit?: number;
+  availableTags?: ForumTagBackup[];
+  permissions?: PermissionOverwriteBackup[];
+}
+
+export interface EmojiBackup {
+  id: string;
+  name: string;
+  // Discord CDN image; restore downloads it from there
+  url: string;
+  animated: boolean;
+  roles: string[];
+}
+
+export interface StickerBackup {
+  id: string;
+  name: string;
+  description: string | null;
+  tags: string | null;
+  url: string;
+  format: StickerFormatType;
+}
+
+export interface WebhookBackup {
+  id: string;
+  name: string;
+  channelId: string;
+  avatarUrl: string | null;
+}
+
+export interface WelcomeScreenBackup {
+  enabled: boolean;
+  description: string | null;
+  welcomeChannels: {
+    channelId: string;
+    description: string;
+    emoji: { id: string | null; name: string | null } | null;
+  }[];
+}
+
+export interface GuildBackup {
+  guildId: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  banner: string | null;
+  createdAt: string;
+  backupTimestamp: string;
+  settings: Record<string, unknown>;
+  roles: RoleBackup[];
+  channels: ChannelBackup[];
+  // Missing from backups made before these were covered
+  emojis?: EmojiBackup[];
+  stickers?: StickerBackup[];
+  webhooks?: WebhookBackup[];
+  welcomeScreen?: WelcomeScreenBackup | null;
+  // IDs of the items restores recreated, keyed by their ID in the backup
+  restoredIds?: Record<string, string>;
+}
+
+export interface BackupSummary {
+  backupId: string;
+  guildId: string;
+  guildName: string;
+  createdAt: string;
+  roles: number;
+  channels: number;
+  emojis: number;
+  stickers: number;
+  webhooks: number;
+  welcomeScreen: boolean;
+}
+
+export interface ItemDiff {
+  // In the guild but not in the backup
+  added: { id: string; name: string }[];
+  // In the backup but no longer in the guild
+  removed: { id: string; name: string }[];
+  changed: { id: string; name: string; fields: string[] }[];
+}
+
+export interface BackupDiff {
+  settings: { field: string; backup: unknown; current: unknown }[];
+  roles: ItemDiff;
+  channels: ItemDiff;
+  emojis: ItemDiff;
+  stickers: ItemDiff;
+  webhooks: ItemDiff;
+  welcomeScreenChanged: boolean;
+}
+
+export type RestoreAction =
+  | "create_role"
+  | "create_emoji"
+  | "create_sticker"
+  | "create_channel"
+  | "add_forum_tags"
+  | "create_webhook"
+  | "update_welcome_screen";
+
+export interface RestoreStep {
+  action: RestoreAction;
+  name: string;
+  // ID in the backup; null for the welcome screen
+  oldId: string | null;
+  // Set once the item was created
+  newId?: string;
+  error?: string;
+}
+
+export interface RestoreResult {
+  dryRun: boolean;
+  // The steps that were made, or all of them in a dry run
+  steps: RestoreStep[];
+  // Steps left for the next restore after the deadline passed
+  remainingSteps: number;
+  // Old IDs to the IDs of the items that replace them
+  idMap: Record<string, string>;
+}
+
+// Channel types restore can create; threads and directories are skipped
+const RESTORABLE_CHANNEL_TYPES = [
+  ChannelType.GuildCategory,
+  ChannelType.GuildText,
+  ChannelType.GuildVoice,
+  ChannelType.GuildAnnouncement,
+  ChannelType.GuildStageVoice,
+  ChannelType.GuildForum,
+  ChannelType.GuildMedia,
+];
+
+// Backup IDs are file names; anything else could escape BACKUP_DIR
+const BACKUP_ID_PATTERN = /^backup-[\w.-]+$/;
+
+/**
+ * Collects the restorable state of a guild. Without `permissions`, roles and
+ * permission overwrites are left out; without `settings`, guild settings are.
+ */
+export async function gatherGuildBackup(
+  guild: Guild,
+  options: { settings?: boolean; permissions?: boolean } = {},
+): Promise<GuildBackup> {
+  const includeSettings = options.settings ?? true;
+  const includePermissions = options.permissions ?? true;
+
+  const channels: ChannelBackup[] = [];
+  for (const channel of guild.channels.cache.values()) {
+    if (channel.isThread()) continue;
+    const data: ChannelBackup = {
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      position: channel.position,
+      parentId: channel.parentId,
+    };
+    if ("topic" in channel) data.topic = channel.topic;
+    if ("nsfw" in channel) data.nsfw = channel.nsfw;
+    if ("rateLimitPerUser" in channel && channel.rateLimitPerUser !== null) {
+      data.rateLimitPerUser = channel.rateLimitPerUser;
+    }
+    if (channel.isVoiceBased()) {
+      data.bitrate = channel.bitrate;
+      data.userLimit = channel.userLimit;
+    }
+    if ("availableTags" in channel) {
+      data.availableTags = channel.availableTags.map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        moderated: tag.moderated,
+        emoji: tag.emoji && { id: tag.emoji.id, name: tag.emoji.name },
+      }));
+    }
+    if (includePermissions) {
+      data.permissions = channel.permissionOverwrites.cache.map(
+        (overwrite) => ({
+          id: overwrite.id,
+          type: overwrite.type,
+          allow: overwrite.allow.toArray(),
+          deny: overwrite.deny.toArray(),
+        }),
+      );
+    }
+    channels.push(data);
+  }
+
+  const roles: RoleBackup[] = includePermissions
+    ? guild.roles.cache.map((role) => ({
+        id: role.id,
+        name: role.name,
+        color: role.hexColor,
+        hoist: role.hoist,
+        mentionable: role.mentionable,
+        position: role.position,
+        permissions: role.permissions.toArray(),
+        managed: role.managed,
+      }))
+    : [];
+
+  const emojis = await guild.emojis.fetch();
+  const stickers = await guild.stickers.fetch();
+
+  return {
+    guildId: guild.id,
+    name: guild.name,
+    description: guild.description,
+    icon: guild.iconURL(),
+    banner: guild.bannerURL(),
+    createdAt: guild.createdAt.toISOString(),
+    backupTimestamp: new Date().toISOString(),
+    settings: includeSettings
+      ? {
+          verificationLevel: guild.verificationLevel,
+          defaultMessageNotifications: guild.defaultMessageNotifications,
+          explicitContentFilter: guild.explicitContentFilter,
+          mfaLevel: guild.mfaLevel,
+          systemChannel: guild.systemChannelId,
+          rulesChannel: guild.rulesChannelId,
+          publicUpdatesChannel: guild.publicUpdatesChannelId,
+        }
+      : {},
+    roles,
+    channels,
+    emojis: emojis.map((emoji) => ({
+      id: emoji.id,
+      name: emoji.name ?? "",
+      url: emoji.imageURL(),
+      animated: emoji.animated ?? false,
+      roles: [...emoji.roles.cache.keys()],
+    })),
+    stickers: stickers.map((sticker) => ({
+      id: sticker.id,
+      name: sticker.name,
+      description: sticker.description,
+      tags: sticker.tags,
+      url: sticker.url,
+      format: sticker.format,
+    })),
+    webhooks: await gatherWebhooks(guild),
+    welcomeScreen: await gatherWelcomeScreen(guild),
+  };
+}
+
+// Incoming webhooks only; tokens are never stored
+async function gatherWebhooks(guild: Guild): Promise<WebhookBackup[]> {
+  try {
+    const webhooks = await guild.fetchWebhooks();
+    return webhooks
+      .filter((webhook) => webhook.type === WebhookType.Incoming)
+      .map((webhook) => ({
+        id: webhook.id,
+        name: webhook.name,
+        channelId: webhook.channelId,
+        avatarUrl: webhook.avatarURL(),
+      }));
+  } catch (err) {
+    warn(`Webhooks of guild ${guild.id} not backed up`, { error: err });
+    return [];
+  }
+}
+
+// Only Community guilds have a welcome screen
+async function gatherWelcomeScreen(
+  guild: Guild,
+): Promise<WelcomeScreenBackup | null> {
+  if (!guild.features.includes("COMMUNITY")) return null;
+  const screen = await guild.fetchWelcomeScreen();
+  return {
+    enabled: screen.enabled,
+    description: screen.description,
+    welcomeChannels: screen.welcomeChannels.map((channel) => ({
+      channelId: channel.channelId,
+      description: channel.description,
+      emoji: channel.emoji && {
+        id: channel.emoji.id,
+        name: channel.emoji.name,
+      },
+    })),
+  };
+}
+
+/**
+ * Writes a backup to `dir` and returns its ID
+ */
+export async function saveGuildBackup(
+  dir: string,
+  backup: GuildBackup,
+): Promise<string> {
+  const timestamp = backup.backupTimestamp.replace(/[:.]/g, "-");
+  const backupId = `backup-${backup.guildId}-${timestamp}`;
+  await writeBackupFile(dir, backupId, backup);
+  return backupId;
+}
+
+// Write then rename so a crash never leaves a half-written backup
+async function writeBackupFile(
+  dir: string,
+  backupId: string,
+  backup: GuildBackup,
+): Promise<void> {
+  const filePath = path.join(dir, `${backupId}.json`);
+  await mkdir(dir, { recursive: true });
+  await writeFile(`${filePath}.tmp`, JSON.stringify(backup, null, 2));
+  await rename(`${filePath}.tmp`, filePath);
+}
+
+/**
+ * Reads a backup by ID. Throws when the ID is invalid or the file is missing.
+ */
+export async function loadGuildBackup(
+  dir: string,
+  backupId: string,
+): Promise<GuildBackup> {
+  if (!BACKUP_ID_PATTERN.test(backupId)) {
+    throw new Error(`Invalid backup ID: ${backupId}`);
+  }
+  try {
+    return JSON.parse(
+      await readFile(path.join(dir, `${backupId}.json`), "utf8"),
+    );
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Backup not found: ${backupId}`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Lists the backups in `dir`, newest first. Unreadable files are skipped.
+ */
+export async function listGuildBackups(dir: string): Promise<BackupSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return []; // No backups yet
+  }
+
+  const summaries: BackupSummary[] = [];
+  for (const file of files) {
+    const backupId = file.replace(/\.json$/, "");
+    if (backupId === file || !BACKUP_ID_PATTERN.test(backupId)) continue;
+    try {
+      const backup = await loadGuildBackup(dir, backupId);
+      summaries.push(summarizeBackup(backupId, backup));
+    } catch (err) {
+      warn(`Skipping unreadable backup ${file}`, { error: err });
+    }
+  }
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function summarizeBackup(
+  backupId: string,
+  backup: GuildBackup,
+): BackupSummary {
+  return {
+    backupId,
+    guildId: backup.guildId,
+    guildName: backup.name,
+    createdAt: backup.backupTimestamp,
+    roles: backup.roles.length,
+    channels: backup.channels.length,
+    emojis: backup.emojis?.length ?? 0,
+    stickers: backup.stickers?.length ?? 0,
+    webhooks: backup.webhooks?.length ?? 0,
+    welcomeScreen: !!backup.welcomeScreen,
+  };
+}
+
+/**
+ * Compares a backup with the current state of its guild. Items a restore
+ * recreated are compared with their replacement.
+ */
+export function diffGuildBackup(
+  backup: GuildBackup,
+  current: GuildBackup,
+): BackupDiff {
+  const restoredIds = backup.restoredIds ?? {};
+  const diffItems = <T extends { id: string; name: string }>(
+    backupItems: T[],
+    currentItems: T[],
+    fields: (keyof T)[],
+  ) => diffById(backupItems, currentItems, fields, restoredIds);
+
+  return {
+    settings: Object.keys({ ...backup.settings, ...current.settings })
+      .filter(
+        (field) => !sameValue(backup.settings[field], current.settings[field]),
+      )
+      .map((field) => ({
+        field,
+        backup: backup.settings[field] ?? null,
+        current: current.settings[field] ?? null,
+      })),
+    roles: diffItems(backup.roles, current.roles, [
+      "name",
+      "color",
+      "hoist",
+      "mentionable",
+      "permissions",
+    ]),
+    channels: diffItems(
+      backup.channels.map((channel) => normalizeChannel(channel, restoredIds)),
+      current.channels.map((channel) => normalizeChannel(channel, {})),
+      [
+        "name",
+        "type",
+        "parentId",
+        "topic",
+        "nsfw",
+        "rateLimitPerUser",
+        "bitrate",
+        "userLimit",
+        "availableTags",
+        "permissions",
+      ],
+    ),
+    emojis: diffItems(backup.emojis ?? [], current.emojis ?? [], [
+      "name",
+      "roles",
+    ]),
+    stickers: diffItems(backup.stickers ?? [], current.stickers ?? [], [
+      "name",
+      "description",
+      "tags",
+    ]),
+    webhooks: diffItems(backup.webhooks ?? [], current.webhooks ?? [], [
+      "name",
+      "channelId",
+    ]),
+    welcomeScreenChanged: !sameValue(
+      remapWelcomeScreen(backup.welcomeScreen ?? null, restoredIds),
+      current.welcomeScreen ?? null,
+    ),
+  };
+}
+
+function diffById<T extends { id: string; name: string }>(
+  backupItems: T[],
+  currentItems: T[],
+  fields: (keyof T)[],
+  restoredIds: Record<string, string>,
+): ItemDiff {
+  const currentById = new Map(currentItems.map((item) => [item.id, item]));
+  const matchedIds = new Set<string>();
+  const diff: ItemDiff = { added: [], removed: [], changed: [] };
+
+  for (const item of backupItems) {
+    const currentId = restoredIds[item.id] ?? item.id;
+    const current = currentById.get(currentId);
+    if (!current) {
+      diff.removed.push({ id: item.id, name: item.name });
+      continue;
+    }
+    matchedIds.add(currentId);
+    const changedFields = fields.filter(
+      (field) => !sameValue(item[field], current[field]),
+    );
+    if (changedFields.length > 0) {
+      diff.changed.push({
+        id: current.id,
+        name: current.name,
+        fields: changedFields.map(String),
+      });
+    }
+  }
+  for (const item of currentItems) {
+    if (!matchedIds.has(item.id)) {
+      diff.added.push({ id: item.id, name: item.name });
+    }
+  }
+  return diff;
+}
+
+// Overwrites and tags in a stable order, IDs replaced by restored ones
+function normalizeChannel(
+  channel: ChannelBackup,
+  restoredIds: Record<string, string>,
+): ChannelBackup {
+  const mapId = (id: string) => restoredIds[id] ?? id;
+  return {
+    ...channel,
+    parentId: channel.parentId && mapId(channel.parentId),
+    permissions: channel.permissions
+      ?.map((overwrite) => ({ ...overwrite, id: mapId(overwrite.id) }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+    availableTags: channel.availableTags
+      ?.map((tag) => ({
+        name: tag.name,
+        moderated: tag.moderated,
+        emoji: tag.emoji && {
+          id: tag.emoji.id && mapId(tag.emoji.id),
+          name: tag.emoji.name,
+        },
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)) as ForumTagBackup[],
+  };
+}
+
+function remapWelcomeScreen(
+  screen: WelcomeScreenBackup | null,
+  idMap: Record<string, string>,
+): WelcomeScreenBackup | null {
+  return (
+    screen && {
+      ...screen,
+      welcomeChannels: screen.welcomeChannels.map((channel) => ({
+        ...channel,
+        channelId: idMap[channel.channelId] ?? channel.channelId,
+        emoji: channel.emoji && {
+          id: channel.emoji.id && (idMap[channel.emoji.id] ?? channel.emoji.id),
+          name: channel.emoji.name,
+        },
+      })),
+    }
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Recreates what the guild is missing compared with the backup. A dry run
+ * only lists the steps. In a real run, the ID mapping is saved into the
+ * backup file after each created item. `checkTool` is given the tool call
+ * each step stands for before it is made and throws to refuse it. `onStep` is
+ * called after each step that was attempted.
+ */
+export async function restoreGuildBackup(
+  guild: Guild,
+  dir: string,
+  backupId: string,
+  options: {
+    dryRun: boolean;
+    reason?: string;
+    checkTool?: (
+      toolName: string,
+      args: Record<string, unknown>,
+    ) => Promise<void>;
+    onStep?: (done: number, total: number) => void;
+    // Epoch milliseconds after which no further step is started
+    deadline?: number;
+  },
+): Promise<RestoreResult> {
+  const backup = await loadGuildBackup(dir, backupId);
+  const current = await gatherGuildBackup(guild);
+  const { dryRun, reason } = options;
+
+  // Replacements of earlier restores that still exist, and @everyone
+  const existingIds = new Set<string>([
+    ...current.roles.map((role) => role.id),
+    ...current.channels.map((channel) => channel.id),
+    ...(current.emojis ?? []).map((emoji) => emoji.id),
+    ...(current.stickers ?? []).map((sticker) => sticker.id),
+    ...(current.webhooks ?? []).map((webhook) => webhook.id),
+  ]);
+  const idMap: Record<string, string> = { [backup.guildId]: guild.id };
+  for (const [oldId, newId] of Object.entries(backup.restoredIds ?? {})) {
+    if (existingIds.has(newId)) idMap[oldId] = newId;
+  }
+  const exists = (id: string) => existingIds.has(idMap[id] ?? id);
+  const mapId = (id: string) => idMap[id] ?? id;
+
+  const missingRoles = backup.roles
+    .filter(
+      (role) => role.id !== backup.guildId && !role.managed && !exists(role.id),
+    )
+    // Each new role is placed at the bottom, so the highest goes first
+    .sort((a, b) => b.position - a.position);
+  const missingEmojis = (backup.emojis ?? []).filter(
+    (emoji) => !exists(emoji.id),
+  );
+  const missingStickers = (backup.stickers ?? []).filter(
+    (sticker) => !exists(sticker.id),
+  );
+  const missingChannels = backup.channels
+    .filter(
+      (channel) =>
+        RESTORABLE_CHANNEL_TYPES.includes(channel.type) && !exists(channel.id),
+    )
+    // Categories first, so channels can be created inside them
+    .sort(
+      (a, b) =>
+        Number(b.type === ChannelType.GuildCategory) -
+          Number(a.type === ChannelType.GuildCategory) ||
+        a.position - b.position,
+    );
+  const missingWebhooks = (backup.webhooks ?? []).filter(
+    (webhook) => !exists(webhook.id),
+  );
+
+  const steps: RestoreStep[] = [
+    ...missingRoles.map((role) => step("create_role", role)),
+    ...missingEmojis.map((emoji) => step("create_emoji", emoji)),
+    ...missingStickers.map((sticker) => step("create_sticker", sticker)),
+    ...missingChannels.map((channel) => step("create_channel", channel)),
+  ];
+  // Forum channels that exist but lost tags
+  const taggedChannels = backup.channels.filter(
+    (channel) =>
+      exists(channel.id) && missingTags(channel, current, idMap).length > 0,
+  );
+  steps.push(
+    ...taggedChannels.map((channel) => step("add_forum_tags", channel)),
+    ...missingWebhooks.map((webhook) => step("create_webhook", webhook)),
+  );
+  const welcomeScreen = backup.welcomeScreen ?? null;
+  const welcomeScreenStep =
+    welcomeScreen &&
+    guild.features.includes("COMMUNITY") &&
+    !sameValue(
+      remapWelcomeScreen(welcomeScreen, idMap),
+      current.welcomeScreen ?? null,
+    )
+      ? step("update_welcome_screen", { id: null, name: "Welcome screen" })
+      : null;
+  if (welcomeScreenStep) steps.push(welcomeScreenStep);
+
+  if (dryRun) {
+    return { dryRun, steps, remainingSteps: 0, idMap };
+  }
+
+  let done = 0;
+  const madeSteps = new Set<RestoreStep>();
+  // Later restores and diffs match the recreated items by these IDs
+  const restoredIds = { ...backup.restoredIds };
+  const run = async (
+    restoreStep: RestoreStep,
+    // The tool that would make the same change, and its arguments
+    toolCall: () => [string, Record<string, unknown>],
+    create: () => Promise<{ id: string } | void>,
+  ) => {
+    // Steps after the deadline are left for the next restore, which skips
+    // what this one created
+    if (options.deadline !== undefined && Date.now() >= options.deadline) {
+      return;
+    }
+    madeSteps.add(restoreStep);
+    try {
+      await options.checkTool?.(...toolCall());
+      const created = await create();
+      if (created && restoreStep.oldId) {
+        restoreStep.newId = created.id;
+        idMap[restoreStep.oldId] = created.id;
+        existingIds.add(created.id);
+        // Saved right away, so a restore that is interrupted later does not
+        // create the item again
+        restoredIds[restoreStep.oldId] = created.id;
+        await writeBackupFile(dir, backupId, { ...backup, restoredIds });
+      }
+    } catch (err) {
+      restoreStep.error = err instanceof Error ? err.message : String(err);
+    }
+    options.onStep?.(++done, steps.length);
+  };
+  const stepFor = (action: RestoreAction, oldId: string) =>
+    steps.find((entry) => entry.action === action && entry.oldId === oldId)!;
+  const guildId = guild.id;
+
+  for (const role of missingRoles) {
+    await run(
+      stepFor("create_role", role.id),
+      () => ["discord_create_role", { guildId, name: role.name }],
+      () =>
+        guild.roles.create({
+          name: role.name,
+          color: role.color as `#${string}`,
+          hoist: role.hoist,
+          mentionable: role.mentionable,
+          permissions: role.permissions as PermissionsString[],
+          reason,
+        }),
+    );
+  }
+
+  for (const emoji of missingEmojis) {
+    const roles = emoji.roles.filter(exists).map(mapId);
+    await run(
+      stepFor("create_emoji", emoji.id),
+      () => [
+        "discord_create_emoji",
+        { guildId, name: emoji.name, image: emoji.url, roles },
+      ],
+      () =>
+        guild.emojis.create({
+          attachment: emoji.url,
+          name: emoji.name,
+          roles,
+          reason,
+        }),
+    );
+  }
+
+  for (const sticker of missingStickers) {
+    const tags = sticker.tags ?? sticker.name;
+    await run(
+      stepFor("create_sticker", sticker.id),
+      () => [
+        "discord_create_sticker",
+        { guildId, name: sticker.name, tags, file: sticker.url },
+      ],
+      async () => {
+        if (sticker.format === StickerFormatType.Lottie) {
+          throw new Error("Lottie stickers cannot be uploaded by bots");
+        }
+        return guild.stickers.create({
+          file: sticker.url,
+          name: sticker.name,
+          tags,
+          description: sticker.description,
+          reason,
+        });
+      },
+    );
+  }
+
+  for (const channel of missingChannels) {
+    await run(
+      stepFor("create_channel", channel.id),
+      () => createChannelToolCall(guildId, channel, exists, mapId),
+      () =>
+        guild.channels.create(
+          toChannelCreateOptions(channel, exists, mapId, reason),
+        ),
+    );
+  }
+
+  // No tool adds forum tags, so they need what editing the channel needs
+  for (const channel of taggedChannels) {
+    await run(
+      stepFor("add_forum_tags", channel.id),
+      () => ["discord_edit_channel", { channelId: mapId(channel.id) }],
+      async () => {
+        const target = guild.channels.cache.get(mapId(channel.id));
+        if (!target || !("availableTags" in target)) {
+          throw new Error("Channel has no forum tags");
+        }
+        await target.setAvailableTags(
+          [
+            ...target.availableTags,
+            ...missingTags(channel, current, idMap).map((tag) =>
+              toForumTagData(tag, mapId),
+            ),
+          ],
+          reason,
+        );
+      },
+    );
+  }
+
+  for (const webhook of missingWebhooks) {
+    await run(
+      stepFor("create_webhook", webhook.id),
+      () => [
+        "discord_create_webhook",
+        { channelId: mapId(webhook.channelId), name: webhook.name },
+      ],
+      async () => {
+        const channel = guild.channels.cache.get(mapId(webhook.channelId));
+        if (!channel || !("createWebhook" in channel)) {
+          throw new Error(`Channel ${webhook.channelId} not found`);
+        }
+        return channel.createWebhook({
+          name: webhook.name,
+          avatar: webhook.avatarUrl,
+          reason,
+        });
+      },
+    );
+  }
+
+  if (welcomeScreenStep && welcomeScreen) {
+    // Remapped when the step runs, after the channels were recreated
+    const welcomeChannels = () =>
+      remapWelcomeScreen(welcomeScreen, idMap)!.welcomeChannels.filter(
+        (channel) => guild.channels.cache.has(channel.channelId),
+      );
+    await run(
+      welcomeScreenStep,
+      () => [
+        "discord_update_welcome_screen",
+        {
+          guildId,
+          welcomeChannels: welcomeChannels().map((channel) => ({
+            channelId: channel.channelId,
+            description: channel.description,
+          })),
+        },
+      ],
+      async () => {
+        await guild.editWelcomeScreen({
+          enabled: welcomeScreen.enabled,
+          description: welcomeScreen.description ?? "",
+          welcomeChannels: welcomeChannels().map((channel) => ({
+            channel: channel.channelId,
+            description: channel.description,
+            emoji: channel.emoji?.id ?? channel.emoji?.name ?? undefined,
+          })),
+        });
+      },
+    );
+  }
+
+  return {
+    dryRun,
+    steps: steps.filter((restoreStep) => madeSteps.has(restoreStep)),
+    remainingSteps: steps.length - madeSteps.size,
+    idMap,
+  };
+}
+
+function step(
+  action: RestoreAction,
+  item: { id: string | null; name: string },
+): RestoreStep {
+  return { action, name: item.name, oldId: item.id };
+}
+
+// Tags of a backed-up channel that its current version lacks, by name
+function missingTags(
+  channel: ChannelBackup,
+  current: GuildBackup,
+  idMap: Record<string, string>,
+): ForumTagBackup[] {
+  if (!channel.availableTags?.length) return [];
+  const currentId = idMap[channel.id] ?? channel.id;
+  const currentChannel = current.channels.find(
+    (entry) => entry.id === currentId,
+  );
+  if (!currentChannel?.availableTags) return [];
+  const names = new Set(currentChannel.availableTags.map((tag) => tag.name));
+  return channel.availableTags.filter((tag) => !names.has(tag.name));
+}
+
+function toForumTagData(
+  tag: ForumTagBackup,
+  mapId: (id: string) => string,
+): GuildForumTagData {
+  return {
+    name: tag.name,
+    moderated: tag.moderated,
+    emoji: tag.emoji && {
+      id: tag.emoji.id && mapId(tag.emoji.id),
+      name: tag.emoji.name,
+    },
+  };
+}
+
+// The tool that creates a channel of this type, with the channel's category
+// when it exists
+function createChannelToolCall(
+  guildId: string,
+  channel: ChannelBackup,
+  exists: (id: string) => boolean,
+  mapId: (id: string) => string,
+): [string, Record<string, unknown>] {
+  const channelName = channel.name;
+  const categoryId = toParentId(channel, exists, mapId);
+  switch (channel.type) {
+    case ChannelType.GuildCategory:
+      return ["discord_create_category", { guildId, name: channelName }];
+    case ChannelType.GuildVoice:
+    case ChannelType.GuildStageVoice:
+      return [
+        "discord_create_voice_channel",
+        { guildId, channelName, categoryId },
+      ];
+    case ChannelType.GuildForum:
+    case ChannelType.GuildMedia:
+      return [
+        "discord_create_forum_channel",
+        { guildId, channelName, categoryId },
+      ];
+    default:
+      return categoryId
+        ? [
+            "discord_create_channel_under_category",
+            { guildId, channelName, channelType: "text", categoryId },
+          ]
+        : ["discord_create_text_channel", { guildId, channelName }];
+  }
+}
+
+// A parent that is gone and was not recreated is left out
+function toParentId(
+  channel: ChannelBackup,
+  exists: (id: string) => boolean,
+  mapId: (id: string) => string,
+): string | undefined {
+  return channel.parentId && exists(channel.parentId)
+    ? mapId(channel.parentId)
+    : undefined;
+}
+
+function toChannelCreateOptions(
+  channel: ChannelBackup,
+  exists: (id: string) => boolean,
+  mapId: (id: string) => string,
+  reason: string | undefined,
+): GuildChannelCreateOptions {
+  return {
+    name: channel.name,
+    type: channel.type as GuildChannelCreateOptions["type"],
+    position: channel.position,
+    parent: toParentId(channel, exists, mapId),
+    topic: channel.topic ?? undefined,
+    nsfw: channel.nsfw,
+    rateLimitPerUser: channel.rateLimitPerUser,
+    bitrate: channel.bitrate,
+    userLimit: channel.userLimit,
+    availableTags: channel.availableTags?.map((tag) =>
+      toForumTagData(tag, mapId),
+    ),
+    // Overwrites of roles that are gone and were not recreated are dropped
+    permissionOverwrites: channel.permissions
+      ?.filter(
+        (overwrite) =>
+          overwrite.type === OverwriteType.Member || exists(overwrite.id),
+      )
+      .map((overwrite) => ({
+        id: mapId(overwrite.id),
+        type: overwrite.type,
+        allow: overwrite.allow as PermissionsString[],
+        deny: overwrite.deny as PermissionsString[],
+      })),
+    reason,
+  };
+}
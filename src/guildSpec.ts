@@ -0,0 +1,581 @@
+/**
+ * @fileoverview Guild specs
+ * @description A guild spec describes the roles, categories, text, voice and
+ * forum channels, permission overwrites, forum tags and welcome screen of a
+ * guild as JSON or YAML, so server setups can be reviewed in git and stamped onto
+ * new servers. planGuildSpec lists the changes that make a guild match a
+ * spec; the apply tool carries them out with the existing tool handlers.
+ *
+ * Items are matched by name. Items the spec does not mention, and fields it
+ * leaves out, are not managed: a plan never deletes roles or channels. Once
+ * a spec was applied, planning it again returns no changes.
+ */
+
+import {
+  ChannelType,
+  Guild,
+  GuildBasedChannel,
+  OverwriteType,
+  PermissionFlagsBits,
+  PermissionsBitField,
+  PermissionsString,
+  Role,
+} from "discord.js";
+import { z } from "zod";
+import {
+  GuildSpecSchema,
+  SpecChannelSchema,
+  SpecForumTagSchema,
+  SpecPermissionOverwriteSchema,
+} from "./schemas.js";
+import { parseYaml } from "./configFile.js";
+
+export type GuildSpec = z.infer<typeof GuildSpecSchema>;
+export type SpecRole = GuildSpec["roles"][number];
+export type SpecChannel = z.infer<typeof SpecChannelSchema>;
+export type SpecForumTag = z.infer<typeof SpecForumTagSchema>;
+export type SpecPermissionOverwrite = z.infer<
+  typeof SpecPermissionOverwriteSchema
+>;
+export type SpecWelcomeScreen = NonNullable<GuildSpec["welcomeScreen"]>;
+
+const CHANNEL_TYPES = {
+  category: ChannelType.GuildCategory,
+  text: ChannelType.GuildText,
+  voice: ChannelType.GuildVoice,
+  forum: ChannelType.GuildForum,
+} as const;
+
+export type ChannelKind = keyof typeof CHANNEL_TYPES;
+
+// Identifies a category or channel of a spec in the guild
+export interface ChannelRef {
+  name: string;
+  kind: ChannelKind;
+  // Category name; null outside categories
+  parent: string | null;
+}
+
+export type SpecAction =
+  | "create_role"
+  | "update_role"
+  | "create_category"
+  | "create_channel"
+  | "update_channel"
+  | "set_permission_overwrites"
+  | "set_forum_tags"
+  | "update_welcome_screen";
+
+export interface SpecChange {
+  action: SpecAction;
+  // Role, category or "category/channel" name
+  target: string;
+  // What differs; empty for creations
+  fields: string[];
+  role?: SpecRole;
+  channel?: ChannelRef;
+  channelSpec?: SpecChannel;
+  overwrites?: SpecPermissionOverwrite[];
+  welcomeScreen?: SpecWelcomeScreen;
+}
+
+// Discord lower-cases text and forum channel names and replaces spaces
+export function toChannelName(name: string, kind: ChannelKind): string {
+  return kind === "text" || kind === "forum"
+    ? name.toLowerCase().replace(/\s+/g, "-")
+    : name;
+}
+
+/**
+ * Finds the channel a spec describes, preferring one in the spec's category
+ */
+export function findChannel(
+  guild: Guild,
+  ref: ChannelRef,
+): GuildBasedChannel | undefined {
+  const name = toChannelName(ref.name, ref.kind);
+  const candidates = guild.channels.cache.filter(
+    (channel) =>
+      channel.type === CHANNEL_TYPES[ref.kind] &&
+      (channel.name === name || channel.name === ref.name),
+  );
+  return (
+    candidates.find(
+      (channel) => (channel.parent?.name ?? null) === ref.parent,
+    ) ?? candidates.first()
+  );
+}
+
+// Roles of bots and integrations are never matched
+export function findRole(guild: Guild, name: string): Role | undefined {
+  return guild.roles.cache.find((role) => role.name === name && !role.managed);
+}
+
+// Emojis are named in specs; server emojis by their name
+export function findEmoji(
+  guild: Guild,
+  emoji: string | undefined,
+): { id: string | null; name: string | null } | null {
+  if (!emoji) return null;
+  const guildEmoji = guild.emojis.cache.find((entry) => entry.name === emoji);
+  return guildEmoji
+    ? { id: guildEmoji.id, name: null }
+    : { id: null, name: emoji };
+}
+
+function emojiName(
+  guild: Guild,
+  emoji: { id: string | null; name: string | null } | null,
+): string | undefined {
+  if (emoji?.id) return guild.emojis.cache.get(emoji.id)?.name ?? emoji.id;
+  return emoji?.name ?? undefined;
+}
+
+export function toPermissions(
+  names: string[],
+  where: string,
+): PermissionsBitField {
+  const unknown = names.filter((name) => !(name in PermissionFlagsBits));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown permission in ${where}: ${unknown.join(", ")}`);
+  }
+  return new PermissionsBitField(names as PermissionsString[]);
+}
+
+function channelTarget(ref: ChannelRef): string {
+  return ref.parent ? `${ref.parent}/${ref.name}` : ref.name;
+}
+
+// Channels of a spec with the category they belong to
+function specChannels(spec: GuildSpec): [ChannelRef, SpecChannel][] {
+  const entry = (
+    channel: SpecChannel,
+    parent: string | null,
+  ): [ChannelRef, SpecChannel] => [
+    { name: channel.name, kind: channel.type, parent },
+    channel,
+  ];
+  return [
+    ...spec.categories.flatMap((category) =>
+      category.channels.map((channel) => entry(channel, category.name)),
+    ),
+    ...spec.channels.map((channel) => entry(channel, null)),
+  ];
+}
+
+/**
+ * Reads a spec written in YAML, in the subset config files use. Throws with
+ * the line of a syntax error or the path of every invalid value.
+ */
+export function parseGuildSpecYaml(source: string): GuildSpec {
+  const result = GuildSpecSchema.safeParse(parseYaml(source));
+  if (!result.success) {
+    throw new Error(
+      result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", "),
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Throws when the spec names unknown permissions, or roles and channels that
+ * neither the spec nor the guild has. Call before planGuildSpec.
+ */
+export function validateGuildSpec(guild: Guild, spec: GuildSpec): void {
+  if (spec.welcomeScreen && !guild.features.includes("COMMUNITY")) {
+    throw new Error("The welcome screen requires a Community server");
+  }
+  const roleNames = new Set([
+    "@everyone",
+    ...spec.roles.map((role) => role.name),
+  ]);
+  for (const role of spec.roles) {
+    toPermissions(role.permissions ?? [], `role "${role.name}"`);
+  }
+
+  const checkOverwrites = (
+    overwrites: SpecPermissionOverwrite[] | undefined,
+    target: string,
+  ) => {
+    for (const overwrite of overwrites ?? []) {
+      if (!roleNames.has(overwrite.role) && !findRole(guild, overwrite.role)) {
+        throw new Error(
+          `Unknown role "${overwrite.role}" in permission overwrites of "${target}"`,
+        );
+      }
+      toPermissions(
+        [...overwrite.allow, ...overwrite.deny],
+        `permission overwrites of "${target}"`,
+      );
+    }
+  };
+  for (const category of spec.categories) {
+    checkOverwrites(category.permissionOverwrites, category.name);
+  }
+  for (const [ref, channel] of specChannels(spec)) {
+    checkOverwrites(channel.permissionOverwrites, channelTarget(ref));
+  }
+
+  for (const entry of spec.welcomeScreen?.channels ?? []) {
+    const inSpec = specChannels(spec).some(
+      ([ref]) => ref.name === entry.channel,
+    );
+    if (!inSpec && !findChannelByName(guild, entry.channel)) {
+      throw new Error(`Unknown welcome screen channel "${entry.channel}"`);
+    }
+  }
+}
+
+// Welcome screen channels are named without type or category
+export function findChannelByName(
+  guild: Guild,
+  name: string,
+): GuildBasedChannel | undefined {
+  return guild.channels.cache.find(
+    (channel) =>
+      channel.name === name || channel.name === toChannelName(name, "text"),
+  );
+}
+
+/**
+ * Lists the changes that make the guild match the spec, in the order they
+ * have to be made: roles, categories, channels, then the welcome screen.
+ */
+export async function planGuildSpec(
+  guild: Guild,
+  spec: GuildSpec,
+): Promise<SpecChange[]> {
+  const changes: SpecChange[] = [];
+
+  for (const role of spec.roles) {
+    const live = findRole(guild, role.name);
+    if (!live) {
+      changes.push({
+        action: "create_role",
+        target: role.name,
+        fields: [],
+        role,
+      });
+      continue;
+    }
+    const fields = diffRole(live, role);
+    if (fields.length > 0) {
+      changes.push({ action: "update_role", target: role.name, fields, role });
+    }
+  }
+
+  for (const category of spec.categories) {
+    const ref: ChannelRef = {
+      name: category.name,
+      kind: "category",
+      parent: null,
+    };
+    const live = findChannel(guild, ref);
+    if (!live) {
+      changes.push({
+        action: "create_category",
+        target: category.name,
+        fields: [],
+        channel: ref,
+      });
+    }
+    planOverwrites(changes, guild, ref, live, category.permissionOverwrites);
+  }
+
+  for (const [ref, channelSpec] of specChannels(spec)) {
+    const live = findChannel(guild, ref);
+    const target = channelTarget(ref);
+    if (!live) {
+      changes.push({
+        action: "create_channel",
+        target,
+        fields: [],
+        channel: ref,
+        channelSpec,
+      });
+    } else {
+      const fields = diffChannel(live, ref, channelSpec);
+      if (fields.length > 0) {
+        changes.push({
+          action: "update_channel",
+          target,
+          fields,
+          channel: ref,
+          channelSpec,
+        });
+      }
+    }
+    planOverwrites(changes, guild, ref, live, channelSpec.permissionOverwrites);
+    if (
+      channelSpec.type === "forum" &&
+      channelSpec.tags &&
+      !sameValue(liveTags(guild, live), specTags(channelSpec.tags))
+    ) {
+      changes.push({
+        action: "set_forum_tags",
+        target,
+        fields: ["tags"],
+        channel: ref,
+        channelSpec,
+      });
+    }
+  }
+
+  if (spec.welcomeScreen) {
+    const live = await exportWelcomeScreen(guild);
+    const fields = (["enabled", "description", "channels"] as const).filter(
+      (field) => !sameValue(live[field], spec.welcomeScreen![field]),
+    );
+    if (fields.length > 0) {
+      changes.push({
+        action: "update_welcome_screen",
+        target: "welcome screen",
+        fields: [...fields],
+        welcomeScreen: spec.welcomeScreen,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function diffRole(live: Role, role: SpecRole): string[] {
+  const fields: string[] = [];
+  if (role.color && role.color.toLowerCase() !== live.hexColor.toLowerCase()) {
+    fields.push("color");
+  }
+  if (role.hoist !== undefined && role.hoist !== live.hoist) {
+    fields.push("hoist");
+  }
+  if (role.mentionable !== undefined && role.mentionable !== live.mentionable) {
+    fields.push("mentionable");
+  }
+  if (
+    role.permissions &&
+    toPermissions(role.permissions, `role "${role.name}"`).bitfield !==
+      live.permissions.bitfield
+  ) {
+    fields.push("permissions");
+  }
+  return fields;
+}
+
+function diffChannel(
+  live: GuildBasedChannel,
+  ref: ChannelRef,
+  channel: SpecChannel,
+): string[] {
+  const fields: string[] = [];
+  if ((live.parent?.name ?? null) !== ref.parent) fields.push("category");
+  if (
+    channel.topic !== undefined &&
+    "topic" in live &&
+    (live.topic ?? "") !== channel.topic
+  ) {
+    fields.push("topic");
+  }
+  if (live.isVoiceBased()) {
+    if (channel.bitrate !== undefined && channel.bitrate !== live.bitrate) {
+      fields.push("bitrate");
+    }
+    if (
+      channel.userLimit !== undefined &&
+      channel.userLimit !== live.userLimit
+    ) {
+      fields.push("userLimit");
+    }
+  }
+  return fields;
+}
+
+// Records the roles whose overwrites differ from the spec's
+function planOverwrites(
+  changes: SpecChange[],
+  guild: Guild,
+  ref: ChannelRef,
+  live: GuildBasedChannel | undefined,
+  overwrites: SpecPermissionOverwrite[] | undefined,
+): void {
+  if (!overwrites) return;
+  const current = live ? liveOverwrites(guild, live) : {};
+  const wanted = Object.fromEntries(
+    overwrites.map((overwrite) => [
+      overwrite.role,
+      {
+        allow: new PermissionsBitField(
+          overwrite.allow as PermissionsString[],
+        ).toArray(),
+        deny: new PermissionsBitField(
+          overwrite.deny as PermissionsString[],
+        ).toArray(),
+      },
+    ]),
+  );
+  const fields = [
+    ...new Set([...Object.keys(current), ...Object.keys(wanted)]),
+  ].filter((role) => !sameValue(current[role], wanted[role]));
+  if (fields.length > 0) {
+    changes.push({
+      action: "set_permission_overwrites",
+      target: channelTarget(ref),
+      fields,
+      channel: ref,
+      overwrites,
+    });
+  }
+}
+
+// Role overwrites by role name; overwrites of deleted roles by ID
+function liveOverwrites(
+  guild: Guild,
+  channel: GuildBasedChannel,
+): Record<string, { allow: string[]; deny: string[] }> {
+  if (!("permissionOverwrites" in channel)) return {};
+  return Object.fromEntries(
+    channel.permissionOverwrites.cache
+      .filter((overwrite) => overwrite.type === OverwriteType.Role)
+      .map((overwrite) => [
+        guild.roles.cache.get(overwrite.id)?.name ?? overwrite.id,
+        { allow: overwrite.allow.toArray(), deny: overwrite.deny.toArray() },
+      ]),
+  );
+}
+
+function liveTags(
+  guild: Guild,
+  channel: GuildBasedChannel | undefined,
+): SpecForumTag[] {
+  if (!channel || !("availableTags" in channel)) return [];
+  return channel.availableTags.map((tag) => ({
+    name: tag.name,
+    emoji: emojiName(guild, tag.emoji),
+    moderated: tag.moderated,
+  }));
+}
+
+// Tags as liveTags reports them, for comparison
+function specTags(tags: SpecForumTag[]): SpecForumTag[] {
+  return tags.map((tag) => ({
+    name: tag.name,
+    emoji: tag.emoji,
+    moderated: tag.moderated,
+  }));
+}
+
+async function exportWelcomeScreen(guild: Guild): Promise<SpecWelcomeScreen> {
+  const screen = await guild.fetchWelcomeScreen();
+  return {
+    enabled: screen.enabled,
+    description: screen.description ?? "",
+    channels: screen.welcomeChannels.map((entry) => ({
+      channel:
+        guild.channels.cache.get(entry.channelId)?.name ?? entry.channelId,
+      description: entry.description,
+      emoji: emojiName(guild, entry.emoji),
+    })),
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Describes the guild as a spec. Channels of other types and overwrites of
+ * single members cannot be described and are listed in `skipped`.
+ */
+export async function exportGuildSpec(
+  guild: Guild,
+): Promise<{ spec: GuildSpec; skipped: string[] }> {
+  const skipped: string[] = [];
+  const byPosition = (a: GuildBasedChannel, b: GuildBasedChannel) =>
+    ("position" in a ? a.position : 0) - ("position" in b ? b.position : 0);
+
+  const exportOverwrites = (channel: GuildBasedChannel) => {
+    if (!("permissionOverwrites" in channel)) return undefined;
+    const overwrites: SpecPermissionOverwrite[] = [];
+    for (const overwrite of channel.permissionOverwrites.cache.values()) {
+      const role = guild.roles.cache.get(overwrite.id);
+      if (overwrite.type !== OverwriteType.Role || !role) {
+        skipped.push(
+          `Overwrite of ${overwrite.type === OverwriteType.Role ? "role" : "member"} ${overwrite.id} in "${channel.name}"`,
+        );
+        continue;
+      }
+      overwrites.push({
+        role: role.name,
+        allow: overwrite.allow.toArray(),
+        deny: overwrite.deny.toArray(),
+      });
+    }
+    return overwrites;
+  };
+
+  const exportChannel = (
+    channel: GuildBasedChannel,
+  ): SpecChannel | undefined => {
+    const kind = (Object.keys(CHANNEL_TYPES) as ChannelKind[]).find(
+      (key) => CHANNEL_TYPES[key] === channel.type && key !== "category",
+    ) as Exclude<ChannelKind, "category"> | undefined;
+    if (!kind) {
+      skipped.push(`Channel "${channel.name}" (${ChannelType[channel.type]})`);
+      return undefined;
+    }
+    const data: SpecChannel = { name: channel.name, type: kind };
+    if ("topic" in channel) data.topic = channel.topic ?? "";
+    if (channel.isVoiceBased()) {
+      data.bitrate = channel.bitrate;
+      data.userLimit = channel.userLimit;
+    }
+    if (kind === "forum") data.tags = liveTags(guild, channel);
+    data.permissionOverwrites = exportOverwrites(channel);
+    return data;
+  };
+
+  const channels = [...guild.channels.cache.values()]
+    .filter((channel) => !channel.isThread())
+    .sort(byPosition);
+  const categories = channels.filter(
+    (channel) => channel.type === ChannelType.GuildCategory,
+  );
+
+  return {
+    spec: {
+      roles: guild.roles.cache
+        .filter((role) => !role.managed)
+        .sort((a, b) => b.position - a.position)
+        .map((role) =>
+          role.id === guild.id
+            ? { name: role.name, permissions: role.permissions.toArray() }
+            : {
+                name: role.name,
+                color: role.hexColor,
+                hoist: role.hoist,
+                mentionable: role.mentionable,
+                permissions: role.permissions.toArray(),
+              },
+        ),
+      categories: categories.map((category) => ({
+        name: category.name,
+        permissionOverwrites: exportOverwrites(category),
+        channels: channels
+          .filter((channel) => channel.parentId === category.id)
+          .map(exportChannel)
+          .filter((channel) => channel !== undefined),
+      })),
+      channels: channels
+        .filter(
+          (channel) =>
+            !channel.parentId && channel.type !== ChannelType.GuildCategory,
+        )
+        .map(exportChannel)
+        .filter((channel) => channel !== undefined),
+      welcomeScreen: guild.features.includes("COMMUNITY")
+        ? await exportWelcomeScreen(guild)
+        : undefined,
+    },
+    skipped,
+  };
+}
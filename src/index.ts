@@ -19,12 +19,14 @@
  * @since 1.0.0
  */
 
-import { Client, GatewayIntentBits } from "discord.js";
+import { Client } from "discord.js";
 import { config as dotenvConfig } from "dotenv";
 import { DiscordMCPServer } from "./server.js";
 import { StdioTransport, StreamableHttpTransport } from "./transport.js";
 import { info, error } from "./logger.js";
 import { configManager } from "./config.js";
+import { getGatewayIntents } from "./gatewayIntents.js";
+import { loadBotToken } from "./tokenStore/botToken.js";
 
 // Load environment variables from .env file if exists
 dotenvConfig();
@@ -34,21 +36,13 @@ const config = configManager.getConfig();
 
 // Create Discord client
 const client = new Client({
-  intents: [
-    GatewayIntentBits.Guilds,
-    GatewayIntentBits.GuildMessages,
-    GatewayIntentBits.MessageContent,
-  ],
+  intents: getGatewayIntents(),
 });
 
-// Save token to client for login handler
-if (config.DISCORD_TOKEN) {
-  client.token = config.DISCORD_TOKEN;
-}
-
 // Enhanced auto-login with better error handling for Smithery deployment
 const autoLogin = async () => {
-  const token = config.DISCORD_TOKEN;
+  // The configured token store takes precedence over DISCORD_TOKEN
+  const token = await loadBotToken();
 
   if (!token) {
     info("=== DISCORD CONFIGURATION STATUS ===");
@@ -75,6 +69,9 @@ const autoLogin = async () => {
 
   info("Discord token configured");
 
+  // Save token to client for login handler
+  client.token = token;
+
   try {
     info("Attempting to log in to Discord...");
 
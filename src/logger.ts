@@ -1,19 +1,209 @@
-export function log(message: string, level: 'info' | 'error' = 'info') {
-    const logMessage = {
-        jsonrpc: '2.0',
-        method: 'log',
-        params: {
-            level,
-            message
-        }
-    };
-    process.stdout.write(JSON.stringify(logMessage) + '\n');
+/**
+ * @fileoverview Structured logger
+ * @description Writes one JSON object per line to stderr, never to stdout,
+ * where the stdio transport exchanges protocol messages. LOG_FILE adds a file
+ * sink that is rotated by size. Child loggers add fields such as toolName
+ * and guildId to every entry; entries written during a tool call also carry
+ * its requestId, traceId and spanId. MCP sessions that call
+ * `logging/setLevel` receive entries as `notifications/message`.
+ *
+ * Registered secrets, webhook URLs and token fields are redacted before an
+ * entry reaches any sink.
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { redactLogFields, redactLogText } from "./redact.js";
+import { getRequestScope } from "./requestContext.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+}
+
+export interface LoggerOptions {
+  // Minimum level written to stderr and LOG_FILE
+  level: LogLevel;
+  file: string | null;
+  // LOG_FILE is rotated to LOG_FILE.1 once it would exceed this size
+  maxFileBytes: number;
+  // Number of rotated files kept next to LOG_FILE
+  maxFiles: number;
+}
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+let options: LoggerOptions = {
+  level: "info",
+  file: null,
+  maxFileBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+// Size of LOG_FILE; null until it has been read
+let logFileSize: number | null = null;
+
+const entryListeners = new Set<(entry: LogEntry) => void>();
+
+// Set while listeners run, so entries they log are not sent back to them
+let notifyingListeners = false;
+
+/**
+ * Applies the LOG_* settings; called by ConfigManager on load and reload
+ */
+export function configureLogger(next: LoggerOptions): void {
+  if (next.file !== options.file) {
+    logFileSize = null;
+  }
+  options = { ...next };
+}
+
+/**
+ * Registers a listener that receives every entry, whatever LOG_LEVEL is.
+ * Returns a function that removes it again.
+ */
+export function onLogEntry(listener: (entry: LogEntry) => void): () => void {
+  entryListeners.add(listener);
+  return () => entryListeners.delete(listener);
+}
+
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+// LOG_FILE.1 is the newest rotated file; the one past maxFiles is dropped
+function rotateLogFile(file: string): void {
+  rmSync(`${file}.${options.maxFiles}`, { force: true });
+  for (let index = options.maxFiles - 1; index >= 1; index--) {
+    if (existsSync(`${file}.${index}`)) {
+      renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+    }
+  }
+  renameSync(file, `${file}.1`);
 }
 
-export function info(message: string) {
-    log(message, 'info');
+function writeToFile(file: string, line: string): void {
+  try {
+    if (logFileSize === null) {
+      logFileSize = existsSync(file) ? statSync(file).size : 0;
+    }
+    const bytes = Buffer.byteLength(line);
+    if (logFileSize > 0 && logFileSize + bytes > options.maxFileBytes) {
+      rotateLogFile(file);
+      logFileSize = 0;
+    }
+    appendFileSync(file, line);
+    logFileSize += bytes;
+  } catch (err) {
+    // Logging the failure through the file sink would fail again
+    process.stderr.write(
+      `Failed to write log file ${file}: ${err instanceof Error ? err.message : String(err)}\n`,
+    );
+  }
 }
 
-export function error(message: string) {
-    log(message, 'error');
-} 
\ No newline at end of file
+function writeEntry(level: LogLevel, message: string, fields: LogFields) {
+  // Entries written while a tool call runs are tagged with its IDs
+  const scope = getRequestScope();
+  const scopeFields = scope && {
+    requestId: scope.requestId || undefined,
+    traceId: scope.traceId,
+    spanId: scope.spanId ?? undefined,
+  };
+  const definedFields = Object.fromEntries(
+    Object.entries({ ...scopeFields, ...fields }).filter(
+      ([, value]) => value !== undefined,
+    ),
+  );
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    message: redactLogText(message),
+    fields: redactLogFields(definedFields),
+  };
+
+  if (isLevelEnabled(level, options.level)) {
+    const line =
+      JSON.stringify({
+        time: entry.time,
+        level: entry.level,
+        message: entry.message,
+        ...entry.fields,
+      }) + "\n";
+    process.stderr.write(line);
+    if (options.file) {
+      writeToFile(options.file, line);
+    }
+  }
+
+  if (notifyingListeners) return;
+  notifyingListeners = true;
+  try {
+    for (const listener of entryListeners) {
+      try {
+        listener(entry);
+      } catch {
+        // A failing session must not break logging for the others
+      }
+    }
+  } finally {
+    notifyingListeners = false;
+  }
+}
+
+/**
+ * Logger whose entries carry a fixed set of fields. `child` adds more, e.g.
+ * `logger.child({ toolName })` in the tool dispatcher.
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    writeEntry("debug", message, { ...this.bindings, ...fields });
+  }
+
+  info(message: string, fields?: LogFields): void {
+    writeEntry("info", message, { ...this.bindings, ...fields });
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    writeEntry("warn", message, { ...this.bindings, ...fields });
+  }
+
+  error(message: string, fields?: LogFields): void {
+    writeEntry("error", message, { ...this.bindings, ...fields });
+  }
+}
+
+export const logger = new Logger();
+
+export function debug(message: string, fields?: LogFields) {
+  logger.debug(message, fields);
+}
+
+export function info(message: string, fields?: LogFields) {
+  logger.info(message, fields);
+}
+
+export function warn(message: string, fields?: LogFields) {
+  logger.warn(message, fields);
+}
+
+export function error(message: string, fields?: LogFields) {
+  logger.error(message, fields);
+}
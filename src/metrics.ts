@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Discord gauges for the /metrics endpoint
+ * @description Registers gauges on the shared MonitoringService that are
+ * sampled on every scrape: gateway ping, REST requests waiting on Discord's
+ * rate limits and the sizes of the client caches, per bot.
+ */
+
+import { REST } from "discord.js";
+import { getMonitoringService } from "./services/monitoringService.js";
+import { BotPool } from "./botPool.js";
+
+// REST requests per bot that are queued or in flight
+const pendingRestRequests = new Map<string, number>();
+
+/**
+ * Counts the requests a bot's REST client has not answered yet. discord.js
+ * holds requests in its per-route queues while a rate limit applies, so this
+ * is the depth of the rate limiter queue plus the requests in flight.
+ */
+export function trackRestQueue(rest: REST, botName: string): void {
+  pendingRestRequests.set(botName, 0);
+  const queueRequest = rest.queueRequest.bind(rest);
+  rest.queueRequest = async (request) => {
+    pendingRestRequests.set(
+      botName,
+      (pendingRestRequests.get(botName) ?? 0) + 1,
+    );
+    try {
+      return await queueRequest(request);
+    } finally {
+      pendingRestRequests.set(
+        botName,
+        (pendingRestRequests.get(botName) ?? 1) - 1,
+      );
+    }
+  };
+}
+
+/**
+ * Registers the per-bot gauges. Returns a function that removes them again.
+ */
+export function registerBotMetrics(bots: BotPool): () => void {
+  const monitoring = getMonitoringService();
+  const unregister = [
+    monitoring.registerGauge({
+      name: "gateway_ping_seconds",
+      help: "Discord gateway heartbeat round trip of ready bots",
+      collect: () =>
+        bots
+          .list()
+          .filter(({ client }) => client.isReady() && client.ws.ping >= 0)
+          .map(({ name, client }) => ({
+            labels: { bot: name },
+            value: client.ws.ping / 1000,
+          })),
+    }),
+    monitoring.registerGauge({
+      name: "rest_queue_depth",
+      help: "Discord REST requests queued by the rate limiter or in flight",
+      collect: () =>
+        [...pendingRestRequests].map(([bot, value]) => ({
+          labels: { bot },
+          value,
+        })),
+    }),
+    monitoring.registerGauge({
+      name: "cache_entries",
+      help: "Entries in the Discord client caches",
+      collect: () =>
+        bots.list().flatMap(({ name, client }) => {
+          const guilds = [...client.guilds.cache.values()];
+          const sizes: Record<string, number> = {
+            guilds: guilds.length,
+            channels: client.channels.cache.size,
+            users: client.users.cache.size,
+            members: sum(guilds.map((guild) => guild.members.cache.size)),
+            roles: sum(guilds.map((guild) => guild.roles.cache.size)),
+          };
+          return Object.entries(sizes).map(([cache, value]) => ({
+            labels: { bot: name, cache },
+            value,
+          }));
+        }),
+    }),
+  ];
+  return () => unregister.forEach((remove) => remove());
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
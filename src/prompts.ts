@@ -0,0 +1,297 @@
+/**
+ * @fileoverview MCP prompts
+ * @description Ready-made community-management workflows exposed as MCP
+ * prompts. Each prompt pre-fetches the Discord context it needs through the
+ * registered tools and resources, so feature flags and allow-lists apply, and
+ * embeds that context in the returned messages together with instructions
+ * naming the tools to use for follow-up actions.
+ */
+
+import { z } from "zod";
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "./tools/types.js";
+import { readToolOutput } from "./toolHandler.js";
+import { readResource } from "./resources.js";
+import { getToolEntry, isToolPermitted } from "./toolRegistry.js";
+import { AccessPolicy } from "./auth/policy.js";
+import {
+  SummarizeChannelActivityPromptSchema,
+  DraftModerationReportPromptSchema,
+  OnboardChannelCategoryPromptSchema,
+  TriageForumPostsPromptSchema,
+  PermissionReviewPromptSchema,
+  ReadMessagesOutputSchema,
+  GetServerInfoOutputSchema,
+} from "./schemas.js";
+
+interface PromptEntry<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: S;
+  // Tools the prompt reads its context with; the caller's access policy has
+  // to permit all of them
+  backingTools: string[];
+  // Returns the text of the single user message the prompt expands to
+  build(args: z.infer<S>, context: ToolContext): Promise<string>;
+}
+
+// Types a prompt's build arguments from its argsSchema
+function definePrompt<S extends z.AnyZodObject>(
+  entry: PromptEntry<S>,
+): PromptEntry {
+  return entry;
+}
+
+/**
+ * Loads one piece of context and renders it as a titled JSON block. Failures
+ * (disabled tools, scope violations, logged-out client) are rendered inline
+ * so the prompt still works with whatever context is available.
+ */
+async function contextSection(
+  title: string,
+  load: () => Promise<unknown>,
+): Promise<string> {
+  try {
+    const data = await load();
+    return `## ${title}\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return `## ${title}\n\nCould not be loaded: ${reason}`;
+  }
+}
+
+async function readResourceJson(
+  uri: string,
+  context: ToolContext,
+): Promise<unknown> {
+  const result = await readResource(uri, context);
+  return JSON.parse(result.contents[0].text as string);
+}
+
+const promptRegistry: PromptEntry[] = [
+  definePrompt({
+    name: "summarize-channel-activity",
+    title: "Summarize Channel Activity",
+    description:
+      "Summarizes the recent discussion in a channel: topics, decisions, open questions and who is involved",
+    argsSchema: SummarizeChannelActivityPromptSchema,
+    backingTools: ["discord_read_messages"],
+    build: async ({ channelId, hours }, context) => {
+      const since = Date.now() - Number(hours) * 60 * 60 * 1000;
+      const messages = await contextSection(
+        `Messages in channel ${channelId} from the last ${hours} hours`,
+        async () => {
+          const history = ReadMessagesOutputSchema.parse(
+            await readToolOutput(
+              "discord_read_messages",
+              { channelId, limit: 100 },
+              context,
+            ),
+          );
+          return history.messages.filter(
+            (message) => Date.parse(message.timestamp) >= since,
+          );
+        },
+      );
+
+      return `Summarize the activity in Discord channel ${channelId} over the last ${hours} hours.
+
+Structure the summary as:
+1. Main topics discussed
+2. Decisions that were made
+3. Open questions or requests that still need an answer
+4. The most active participants
+
+Keep it short enough to post back into the channel. Only the 100 most recent messages were fetched; if the oldest one is still within the time window, say that the summary may be incomplete.
+
+${messages}`;
+    },
+  }),
+  definePrompt({
+    name: "draft-moderation-report",
+    title: "Draft Moderation Report",
+    description:
+      "Drafts a moderation report about a member from their profile, roles and recent messages",
+    argsSchema: DraftModerationReportPromptSchema,
+    backingTools: ["discord_get_user_info", "discord_get_guild_member"],
+    build: async ({ guildId, userId }, context) => {
+      const user = await contextSection("User", () =>
+        readToolOutput("discord_get_user_info", { userId }, context),
+      );
+      const member = await contextSection("Server membership", () =>
+        readToolOutput(
+          "discord_get_guild_member",
+          { guildId, userId },
+          context,
+        ),
+      );
+
+      return `Draft a moderation report about user ${userId} in server ${guildId}.
+
+Gather evidence before writing: use discord_search_messages with authorId "${userId}" in the channels where problems were reported, and discord_read_messages for surrounding context. Do not take any moderation action (timeout, kick, ban) yourself; recommend one instead.
+
+The report should contain:
+- Summary of the behaviour and why it breaks the rules
+- Evidence: message IDs, channels and timestamps
+- Prior context: account age, join date and roles
+- Recommended action and its duration, with reasoning
+
+${user}
+
+${member}`;
+    },
+  }),
+  definePrompt({
+    name: "onboard-channel-category",
+    title: "Onboard a New Channel Category",
+    description:
+      "Plans and creates a new category with its channels, following the server's existing conventions",
+    argsSchema: OnboardChannelCategoryPromptSchema,
+    backingTools: ["discord_get_server_info"],
+    build: async ({ guildId, categoryName, purpose }, context) => {
+      const server = await contextSection("Existing channels", async () => {
+        const serverInfo = GetServerInfoOutputSchema.parse(
+          await readToolOutput("discord_get_server_info", { guildId }, context),
+        );
+        return serverInfo.channels.details.all;
+      });
+
+      return `Set up a new channel category named "${categoryName}" in server ${guildId}.${purpose ? `\n\nPurpose of the category: ${purpose}` : ""}
+
+Steps:
+1. Look at the existing channels below and follow their naming conventions (case, separators, emoji prefixes).
+2. Propose the channels the category needs, each with a type (text, voice or forum) and a topic, and wait for confirmation.
+3. Create the category with discord_create_category, then each channel with discord_create_channel_under_category.
+4. Post a short welcome message explaining the category in its first text channel with discord_send.
+
+${server}`;
+    },
+  }),
+  definePrompt({
+    name: "triage-forum-posts",
+    title: "Triage Forum Posts",
+    description:
+      "Sorts forum posts into answered, needs-answer and stale, and proposes replies",
+    argsSchema: TriageForumPostsPromptSchema,
+    backingTools: ["discord_get_forum_post"],
+    build: async ({ forumChannelId }, context) => {
+      const posts = await contextSection("Forum posts", () =>
+        readResourceJson(`discord://forum/${forumChannelId}/posts`, context),
+      );
+
+      return `Triage the posts in forum channel ${forumChannelId}.
+
+For each open post, read it with discord_get_forum_post and classify it as:
+- Answered: the question has been resolved
+- Needs answer: nobody has replied helpfully yet
+- Stale: no activity for a long time and likely abandoned
+
+Then list the posts that need an answer, most urgent first, with a one-line summary and a suggested reply. Only reply with discord_reply_to_forum or delete with discord_delete_forum_post after confirmation.
+
+${posts}`;
+    },
+  }),
+  definePrompt({
+    name: "permission-review",
+    title: "Run a Permission Review",
+    description:
+      "Reviews the server's roles for risky or redundant permissions and proposes fixes",
+    argsSchema: PermissionReviewPromptSchema,
+    backingTools: ["discord_list_roles"],
+    build: async ({ guildId }, context) => {
+      const roles = await contextSection("Roles", () =>
+        readToolOutput("discord_list_roles", { guildId }, context),
+      );
+
+      return `Review the role permissions of server ${guildId}.
+
+Flag in particular:
+- Roles other than the owner's with Administrator
+- Dangerous permissions (ManageGuild, ManageRoles, ManageWebhooks, BanMembers, KickMembers, MentionEveryone) on broadly assigned roles
+- Managed (bot) roles with more permissions than their integration needs
+- Roles with identical permission sets that could be merged
+- Roles positioned above roles they should not be able to manage
+
+For each finding give the role, the risk and the recommended change. Apply changes with discord_edit_role only after confirmation.
+
+${roles}`;
+    },
+  }),
+];
+
+function toPromptArguments(schema: z.AnyZodObject): Prompt["arguments"] {
+  return Object.entries(schema.shape).map(([name, value]) => {
+    const argSchema = value as z.ZodTypeAny;
+    return {
+      name,
+      description: argSchema.description,
+      required: !argSchema.isOptional(),
+    };
+  });
+}
+
+function isPromptPermitted(
+  entry: PromptEntry,
+  policy: AccessPolicy | undefined,
+): boolean {
+  return entry.backingTools.every((name) => {
+    const tool = getToolEntry(name);
+    return !!tool && isToolPermitted(tool, policy);
+  });
+}
+
+/**
+ * Lists the prompts the caller's access policy permits, with their arguments
+ */
+export function listPrompts(policy?: AccessPolicy): Prompt[] {
+  return promptRegistry
+    .filter((entry) => isPromptPermitted(entry, policy))
+    .map((entry) => ({
+      name: entry.name,
+      title: entry.title,
+      description: entry.description,
+      arguments: toPromptArguments(entry.argsSchema),
+    }));
+}
+
+/**
+ * Expands a prompt, pre-fetching its Discord context
+ */
+export async function getPrompt(
+  name: string,
+  rawArgs: Record<string, string> | undefined,
+  context: ToolContext,
+): Promise<GetPromptResult> {
+  const entry = promptRegistry.find((prompt) => prompt.name === name);
+  if (!entry) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  if (!isPromptPermitted(entry, context.policy)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Prompt ${name} is not permitted for this credential`,
+    );
+  }
+
+  const parsed = entry.argsSchema.safeParse(rawArgs ?? {});
+  if (!parsed.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for prompt ${name}: ${parsed.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  const text = await entry.build(parsed.data, context);
+  return {
+    description: entry.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Secret redaction
+ * @description Secrets registered here, such as the bot token and the token
+ * store passphrase, are replaced by "[REDACTED]" in log lines and tool
+ * responses. Every token used during the process lifetime stays registered,
+ * so a rotated-out token is not leaked either. Log entries are additionally
+ * scanned for webhook and bot tokens that were never registered.
+ */
+
+const REDACTED = "[REDACTED]";
+
+// Shorter values would redact ordinary words
+const MIN_SECRET_LENGTH = 8;
+
+const secrets = new Set<string>();
+
+export function registerSecret(secret: string | null | undefined): void {
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    secrets.add(secret);
+  }
+}
+
+/**
+ * Replaces every registered secret in a string
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    if (redacted.includes(secret)) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Redacts the strings of a JSON-compatible value, e.g. structuredContent
+ */
+export function redactValue<T>(value: T): T {
+  if (secrets.size === 0) return value;
+  if (typeof value === "string") return redactSecrets(value) as T;
+  if (Array.isArray(value)) return value.map(redactValue) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+// Webhook URLs embed the webhook token after the webhook ID
+const WEBHOOK_URL_PATTERN =
+  /(discord(?:app)?\.com\/api\/(?:v\d+\/)?webhooks\/\d+\/)[\w-]+/gi;
+
+// Shape of a Discord bot token: user ID, timestamp and HMAC in base64
+const BOT_TOKEN_PATTERN = /\b[\w-]{23,28}\.[\w-]{6,7}\.[\w-]{27,}\b/g;
+
+// Log fields whose values are credentials, e.g. webhookToken or passphrase
+const SECRET_FIELD_PATTERN =
+  /(token|secret|passphrase|password|authorization)$/i;
+
+/**
+ * Redacts a log message: registered secrets, plus webhook tokens and
+ * unregistered bot tokens, which tool responses may legitimately contain
+ */
+export function redactLogText(text: string): string {
+  return redactSecrets(text)
+    .replace(WEBHOOK_URL_PATTERN, `$1${REDACTED}`)
+    .replace(BOT_TOKEN_PATTERN, REDACTED);
+}
+
+/**
+ * Redacts structured log fields like redactLogText, and every value of a
+ * field named like a credential
+ */
+export function redactLogFields<T>(value: T): T {
+  if (typeof value === "string") return redactLogText(value) as T;
+  // Errors have no enumerable fields and would be logged as {}
+  if (value instanceof Error) return redactLogText(value.message) as T;
+  if (Array.isArray(value)) return value.map(redactLogFields) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        item && SECRET_FIELD_PATTERN.test(key)
+          ? REDACTED
+          : redactLogFields(item),
+      ]),
+    ) as T;
+  }
+  return value;
+}
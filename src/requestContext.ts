@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Per-request async context
+ * @description Carries the request ID and the active trace span of a tool
+ * call through every await, so code that is not handed the ToolContext (the
+ * logger, handleDiscordError, Discord REST instrumentation) can still tag its
+ * output with the call it belongs to. During tools/call the scope also holds
+ * the caller and the tool pipeline that runs the call.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  EnterpriseIntegrationService,
+  ToolExecutionContext,
+} from "./services/enterpriseIntegrationService.js";
+
+// Tool call a request runs, for handleDiscordError
+export interface ToolCallScope extends ToolExecutionContext {
+  toolName: string;
+  enterpriseService: EnterpriseIntegrationService;
+}
+
+export interface RequestScope {
+  // Generated per JSON-RPC call; returned in error responses
+  requestId: string;
+  traceId: string;
+  // Span new spans become children of; null before the root span starts
+  spanId: string | null;
+  toolCall?: ToolCallScope;
+}
+
+const storage = new AsyncLocalStorage<RequestScope>();
+
+export function getRequestScope(): RequestScope | undefined {
+  return storage.getStore();
+}
+
+export function runInRequestScope<T>(scope: RequestScope, fn: () => T): T {
+  return storage.run(scope, fn);
+}
+
+/**
+ * Runs `fn` with the tool call added to the current request scope
+ */
+export function runInToolCall<T>(toolCall: ToolCallScope, fn: () => T): T {
+  const scope = getRequestScope();
+  if (!scope) return fn();
+  return storage.run({ ...scope, toolCall }, fn);
+}
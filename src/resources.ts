@@ -0,0 +1,321 @@
+/**
+ * @fileoverview MCP resources
+ * @description Exposes guilds, channels, roles, channel messages and forum
+ * posts as read-only MCP resources so clients can browse and attach Discord
+ * context without spending tool calls. Reads reuse the registered read tools,
+ * so feature flags, allow-lists and output schemas apply exactly as they do
+ * to the equivalent tool call.
+ */
+
+import { ChannelType, ForumChannel } from "discord.js";
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { ToolContext } from "./tools/types.js";
+import { readToolOutput } from "./toolHandler.js";
+import { GetServerInfoOutputSchema } from "./schemas.js";
+import {
+  getToolEntry,
+  isToolEnabled,
+  isToolPermitted,
+} from "./toolRegistry.js";
+import { AccessPolicy } from "./auth/policy.js";
+import {
+  enforceToolScope,
+  isChannelInScope,
+  isGuildInScope,
+} from "./scopeGuard.js";
+
+const RESOURCE_MIME_TYPE = "application/json";
+
+// Number of recent messages returned by discord://channel/{channelId}/messages
+const RESOURCE_MESSAGE_LIMIT = 50;
+
+export type ResourceVariables = Record<string, string>;
+
+interface ResourceTemplateEntry {
+  template: UriTemplate;
+  name: string;
+  title: string;
+  description: string;
+  // Tool whose feature flag and access policy gate the resource
+  backingTool: string;
+  read: (
+    variables: ResourceVariables,
+    context: ToolContext,
+  ) => Promise<Record<string, unknown>>;
+}
+
+const resourceTemplates: ResourceTemplateEntry[] = [
+  {
+    template: new UriTemplate("discord://guild/{guildId}"),
+    name: "guild",
+    title: "Discord Server",
+    description: "Server details, channel counts, features and boost status",
+    backingTool: "discord_get_server_info",
+    read: ({ guildId }, context) =>
+      readToolOutput("discord_get_server_info", { guildId }, context),
+  },
+  {
+    template: new UriTemplate("discord://guild/{guildId}/channels"),
+    name: "guild-channels",
+    title: "Discord Server Channels",
+    description:
+      "All channels of a server with their type, category and topic",
+    backingTool: "discord_get_server_info",
+    read: async ({ guildId }, context) => {
+      const serverInfo = GetServerInfoOutputSchema.parse(
+        await readToolOutput("discord_get_server_info", { guildId }, context),
+      );
+      const channels = serverInfo.channels.details.all;
+      return { guildId, channelCount: channels.length, channels };
+    },
+  },
+  {
+    template: new UriTemplate("discord://guild/{guildId}/roles"),
+    name: "guild-roles",
+    title: "Discord Server Roles",
+    description: "Roles of a server with their permissions, highest first",
+    backingTool: "discord_list_roles",
+    read: ({ guildId }, context) =>
+      readToolOutput("discord_list_roles", { guildId }, context),
+  },
+  {
+    template: new UriTemplate("discord://channel/{channelId}/messages"),
+    name: "channel-messages",
+    title: "Discord Channel Messages",
+    description: `The ${RESOURCE_MESSAGE_LIMIT} most recent messages of a channel, oldest first`,
+    backingTool: "discord_read_messages",
+    read: ({ channelId }, context) =>
+      readToolOutput(
+        "discord_read_messages",
+        { channelId, limit: RESOURCE_MESSAGE_LIMIT },
+        context,
+      ),
+  },
+  {
+    template: new UriTemplate("discord://forum/{forumChannelId}/posts"),
+    name: "forum-posts",
+    title: "Discord Forum Posts",
+    description: "Active and recently archived posts of a forum channel",
+    backingTool: "discord_get_forum_post",
+    read: ({ forumChannelId }, context) =>
+      readForumPosts(forumChannelId, context),
+  },
+];
+
+async function readForumPosts(
+  forumChannelId: string,
+  context: ToolContext,
+): Promise<Record<string, unknown>> {
+  const scopeViolation = await enforceToolScope(
+    "resources/read",
+    { forumChannelId },
+    context,
+  );
+  if (scopeViolation) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      scopeViolation.content[0].text,
+    );
+  }
+
+  const channel = await context.client.channels.fetch(forumChannelId);
+  if (!channel || channel.type !== ChannelType.GuildForum) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Channel ID ${forumChannelId} is not a forum channel.`,
+    );
+  }
+
+  const forumChannel = channel as ForumChannel;
+  const active = await forumChannel.threads.fetchActive();
+  const archived = await forumChannel.threads.fetchArchived({ limit: 50 });
+
+  // fetchActive returns active threads of the whole guild
+  const posts = [
+    ...active.threads.filter((t) => t.parentId === forumChannelId).values(),
+    ...archived.threads.values(),
+  ].map((thread) => ({
+    id: thread.id,
+    name: thread.name,
+    ownerId: thread.ownerId,
+    messageCount: thread.messageCount ?? 0,
+    createdAt: thread.createdAt?.toISOString() ?? null,
+    archived: thread.archived ?? false,
+    locked: thread.locked ?? false,
+    tags: forumChannel.availableTags
+      .filter((tag) => thread.appliedTags.includes(tag.id))
+      .map((tag) => tag.name),
+  }));
+
+  return {
+    forumChannelId,
+    name: forumChannel.name,
+    postCount: posts.length,
+    posts,
+  };
+}
+
+function isResourceEnabled(
+  entry: ResourceTemplateEntry,
+  policy?: AccessPolicy,
+): boolean {
+  const tool = getToolEntry(entry.backingTool);
+  return !!tool && isToolEnabled(tool) && isToolPermitted(tool, policy);
+}
+
+function getTemplate(name: string): ResourceTemplateEntry {
+  return resourceTemplates.find((entry) => entry.name === name)!;
+}
+
+function toResource(
+  name: string,
+  variables: ResourceVariables,
+  label: string,
+  policy: AccessPolicy | undefined,
+): Resource | null {
+  const entry = getTemplate(name);
+  if (!isResourceEnabled(entry, policy)) return null;
+
+  return {
+    uri: entry.template.expand(variables),
+    name: `${entry.name}:${Object.values(variables).join(":")}`,
+    title: `${entry.title}: ${label}`,
+    description: entry.description,
+    mimeType: RESOURCE_MIME_TYPE,
+  };
+}
+
+/**
+ * Resolves a URI to the name and variables of the enabled resource template
+ * it belongs to, or null when no template enabled for the policy matches
+ */
+export function matchResourceUri(
+  uri: string,
+  policy?: AccessPolicy,
+): { name: string; variables: ResourceVariables } | null {
+  for (const entry of resourceTemplates) {
+    const variables = entry.template.match(uri);
+    if (variables && isResourceEnabled(entry, policy)) {
+      return { name: entry.name, variables: variables as ResourceVariables };
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists the URI templates of every resource enabled by the feature flags and
+ * the caller's access policy
+ */
+export function listResourceTemplates(
+  policy?: AccessPolicy,
+): ResourceTemplate[] {
+  return resourceTemplates
+    .filter((entry) => isResourceEnabled(entry, policy))
+    .map((entry) => ({
+      uriTemplate: entry.template.toString(),
+      name: entry.name,
+      title: entry.title,
+      description: entry.description,
+      mimeType: RESOURCE_MIME_TYPE,
+    }));
+}
+
+/**
+ * Lists concrete resources for the guilds and channels the bot can see within
+ * the configured allow-lists. Returns nothing until the client has logged in.
+ */
+export function listResources(context: ToolContext): Resource[] {
+  if (!context.client.isReady()) return [];
+
+  const { policy } = context;
+  const resources: (Resource | null)[] = [];
+
+  for (const guild of context.client.guilds.cache.values()) {
+    if (!isGuildInScope(guild.id, context)) continue;
+
+    const guildId = guild.id;
+    resources.push(
+      toResource("guild", { guildId }, guild.name, policy),
+      toResource("guild-channels", { guildId }, guild.name, policy),
+      toResource("guild-roles", { guildId }, guild.name, policy),
+    );
+
+    for (const channel of guild.channels.cache.values()) {
+      if (!isChannelInScope(channel, context)) continue;
+
+      if (channel.type === ChannelType.GuildForum) {
+        resources.push(
+          toResource(
+            "forum-posts",
+            { forumChannelId: channel.id },
+            `${guild.name} #${channel.name}`,
+            policy,
+          ),
+        );
+      } else if (channel.isTextBased() && !channel.isThread()) {
+        resources.push(
+          toResource(
+            "channel-messages",
+            { channelId: channel.id },
+            `${guild.name} #${channel.name}`,
+            policy,
+          ),
+        );
+      }
+    }
+  }
+
+  return resources.filter((resource): resource is Resource => !!resource);
+}
+
+/**
+ * Reads the resource at the given URI as a JSON document
+ */
+export async function readResource(
+  uri: string,
+  context: ToolContext,
+): Promise<ReadResourceResult> {
+  for (const entry of resourceTemplates) {
+    const variables = entry.template.match(uri);
+    if (!variables) continue;
+
+    if (!isResourceEnabled(entry)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} is disabled by the feature flags of ${entry.backingTool}`,
+      );
+    }
+    if (!isResourceEnabled(entry, context.policy)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} is not permitted for this credential`,
+      );
+    }
+    if (!context.client.isReady()) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Discord client not logged in.",
+      );
+    }
+
+    const data = await entry.read(variables as ResourceVariables, context);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: RESOURCE_MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
@@ -8,12 +8,34 @@ export const SetTokenSchema = z.object({
   token: z.string(),
 });
 
+export const RotateTokenSchema = z.object({
+  token: z.string().optional(),
+});
+
 export const ValidateTokenSchema = z.object({});
 
 export const LoginStatusSchema = z.object({});
 
 export const LogoutSchema = z.object({});
 
+// Unknown keys are passed through so the handler can report them by name
+export const UpdateConfigSchema = z
+  .object({
+    ALLOW_GUILD_IDS: z.array(z.string()).optional(),
+    ALLOW_CHANNEL_IDS: z.array(z.string()).optional(),
+    ENABLE_USER_MANAGEMENT: z.boolean().optional(),
+    ENABLE_VOICE_CHANNELS: z.boolean().optional(),
+    ENABLE_DIRECT_MESSAGES: z.boolean().optional(),
+    ENABLE_SERVER_MANAGEMENT: z.boolean().optional(),
+    ENABLE_RBAC: z.boolean().optional(),
+    ENABLE_CONTENT_MANAGEMENT: z.boolean().optional(),
+    TRANSPORT: z.enum(["stdio", "http"]).optional(),
+    HTTP_PORT: z.number().min(1).max(65535).optional(),
+  })
+  .passthrough();
+
+export const HealthCheckSchema = z.object({});
+
 export const SendMessageSchema = z.object({
   channelId: z.string(),
   message: z.string(),
@@ -126,6 +148,47 @@ export const DeleteMessageSchema = z.object({
   reason: z.string().optional(),
 });
 
+// Message Management Schemas
+export const PinMessageSchema = z.object({
+  channelId: z.string(),
+  messageId: z.string(),
+  reason: z.string().optional(),
+});
+
+export const UnpinMessageSchema = z.object({
+  channelId: z.string(),
+  messageId: z.string(),
+  reason: z.string().optional(),
+});
+
+export const ListPinsSchema = z.object({
+  channelId: z.string(),
+  limit: z.number().min(1).max(50).optional().default(50),
+});
+
+export const EditMessageSchema = z.object({
+  channelId: z.string(),
+  messageId: z.string(),
+  newContent: z.string().min(1).max(2000),
+});
+
+export const BulkDeleteMessagesSchema = z.object({
+  channelId: z.string(),
+  amount: z.number().min(1).max(100),
+  authorId: z.string().optional(), // Only delete messages from this user
+  olderThanDays: z.number().min(0).optional(), // Only delete messages older than N days
+  contentContains: z.string().optional(), // Case-insensitive substring match
+});
+
+export const SearchMessagesSchema = z.object({
+  channelId: z.string(),
+  query: z.string().min(1),
+  limit: z.number().min(1).max(100).optional().default(50), // Messages scanned
+  authorId: z.string().optional(),
+  beforeDate: z.string().optional(), // ISO 8601 date
+  afterDate: z.string().optional(), // ISO 8601 date
+});
+
 export const CreateWebhookSchema = z.object({
   channelId: z.string(),
   name: z.string(),
@@ -262,6 +325,13 @@ export const GetVoiceChannelInfoSchema = z.object({
   channelId: z.string(),
 });
 
+export const MoveUserToVoiceChannelSchema = z.object({
+  guildId: z.string(),
+  userId: z.string(),
+  targetChannelId: z.string(),
+  reason: z.string().optional(),
+});
+
 // Server Management Schemas
 export const ListServersSchema = z.object({});
 
@@ -458,3 +528,956 @@ export const DeleteSoundboardSoundSchema = z.object({
 export const ListSoundboardSoundsSchema = z.object({
   guildId: z.string(),
 });
+
+// Bulk Operation Schemas
+export const BulkMessageFilterSchema = z.object({
+  authorId: z.string().optional(),
+  before: z.string().optional(), // Message ID
+  after: z.string().optional(), // Message ID
+  contentContains: z.string().optional(), // Case-insensitive substring match
+  hasAttachments: z.boolean().optional(),
+  hasEmbeds: z.boolean().optional(),
+  olderThanDays: z.number().min(0).optional(),
+  isBot: z.boolean().optional(),
+  isPinned: z.boolean().optional(),
+});
+
+export const BulkMemberFilterSchema = z.object({
+  joinedBefore: z.string().datetime().optional(),
+  joinedAfter: z.string().datetime().optional(),
+  hasRoles: z.array(z.string()).optional(), // Members with all of these roles
+  missingRoles: z.array(z.string()).optional(), // Members lacking any of these
+  isBot: z.boolean().optional(),
+  usernameContains: z.string().optional(), // Case-insensitive substring match
+  noAvatar: z.boolean().optional(),
+});
+
+export const StartBulkOperationSchema = z.object({
+  guildId: z.string(),
+  operation: z.enum([
+    "delete_messages",
+    "kick_members",
+    "ban_members",
+    "add_role",
+    "remove_role",
+    "send_dms",
+  ]),
+  channelId: z.string().optional(), // Required for delete_messages
+  roleId: z.string().optional(), // Required for add_role and remove_role
+  message: z.string().optional(), // Required for send_dms
+  // Member operations need memberIds or memberFilter
+  memberIds: z.array(z.string()).optional(),
+  memberFilter: BulkMemberFilterSchema.optional(),
+  messageFilter: BulkMessageFilterSchema.optional(),
+  reason: z.string().optional(),
+  deleteMessageDays: z.number().int().min(0).max(7).optional(), // ban_members
+  batchSize: z.number().int().min(1).max(100).optional(),
+  delayMs: z.number().int().min(0).optional(), // Pause between batches
+  dryRun: z.boolean().optional().default(false), // Only list affected IDs
+  wait: z.boolean().optional().default(true), // Report progress until done
+});
+
+export const GetBulkOperationSchema = z.object({
+  operationId: z.string(),
+});
+
+export const CancelBulkOperationSchema = z.object({
+  operationId: z.string(),
+});
+
+export const PauseBulkOperationSchema = z.object({
+  operationId: z.string(),
+});
+
+export const ResumeBulkOperationSchema = z.object({
+  operationId: z.string(),
+  wait: z.boolean().optional().default(true), // Report progress until done
+});
+
+export const ListBulkOperationsSchema = z.object({
+  guildId: z.string().optional(),
+  status: z
+    .enum(["pending", "running", "completed", "failed", "cancelled", "paused"])
+    .optional(),
+});
+
+// Checkpoint of an unfinished bulk operation in BULK_OPERATIONS_DIR; dates are
+// ISO 8601 strings in the file
+const BulkOperationTypeSchema = z.enum([
+  "delete_messages",
+  "kick_members",
+  "ban_members",
+  "add_roles",
+  "remove_roles",
+  "delete_channels",
+  "create_channels",
+  "send_dms",
+]);
+
+export const BulkOperationCheckpointSchema = z.object({
+  config: z.object({
+    id: z.string(),
+    type: BulkOperationTypeSchema,
+    guild_id: z.string(),
+    bot: z.string(),
+    target_ids: z.array(z.string()).optional(),
+    filters: z.record(z.unknown()).optional(),
+    options: z.record(z.unknown()).optional(),
+    batch_size: z.number().int().min(1),
+    delay_between_batches: z.number().int().min(0),
+    max_retries: z.number().int().min(1),
+    dry_run: z.boolean(),
+    created_by: z.string(),
+    created_at: z.coerce.date(),
+  }),
+  progress: z.object({
+    operation_id: z.string(),
+    type: BulkOperationTypeSchema,
+    guild_id: z.string(),
+    bot: z.string(),
+    dry_run: z.boolean(),
+    status: z.enum([
+      "pending",
+      "running",
+      "completed",
+      "failed",
+      "cancelled",
+      "paused",
+    ]),
+    total_items: z.number(),
+    processed_items: z.number(),
+    successful_items: z.number(),
+    failed_items: z.number(),
+    current_batch: z.number(),
+    total_batches: z.number(),
+    started_at: z.coerce.date(),
+    updated_at: z.coerce.date(),
+    errors: z.array(
+      z.object({
+        item_id: z.string(),
+        error: z.string(),
+        timestamp: z.coerce.date(),
+      }),
+    ),
+  }),
+  item_ids: z.array(z.string()), // Resolved once when the operation starts
+  completed_ids: z.array(z.string()), // Processed, whether or not they failed
+});
+
+// Guild Backup Schemas
+export const BackupGuildSchema = z.object({
+  guildId: z.string(),
+});
+
+export const ListBackupsSchema = z.object({
+  guildId: z.string().optional(),
+});
+
+export const DiffBackupSchema = z.object({
+  backupId: z.string(),
+});
+
+export const RestoreBackupSchema = z.object({
+  backupId: z.string(),
+  reason: z.string().optional(),
+  dryRun: z.boolean().optional().default(false), // Only list the steps
+});
+
+// Guild Spec Schemas
+// Roles, categories and channels are matched to the server by name. Fields
+// left out of the spec are not managed. Permissions use discord.js names
+// such as "SendMessages".
+export const SpecPermissionOverwriteSchema = z.object({
+  role: z.string(), // Role name; "@everyone" for the default role
+  allow: z.array(z.string()).optional().default([]),
+  deny: z.array(z.string()).optional().default([]),
+});
+
+export const SpecForumTagSchema = z.object({
+  name: z.string(),
+  emoji: z.string().optional(), // Unicode emoji or the name of a server emoji
+  moderated: z.boolean().optional().default(false),
+});
+
+export const SpecChannelSchema = z.object({
+  name: z.string(),
+  type: z.enum(["text", "voice", "forum"]),
+  topic: z.string().optional(), // text and forum
+  bitrate: z.number().int().min(8000).max(384000).optional(), // voice
+  userLimit: z.number().int().min(0).max(99).optional(), // voice
+  tags: z.array(SpecForumTagSchema).optional(), // forum
+  permissionOverwrites: z.array(SpecPermissionOverwriteSchema).optional(),
+});
+
+export const GuildSpecSchema = z.object({
+  roles: z
+    .array(
+      z.object({
+        name: z.string(), // "@everyone" manages the default role
+        color: z
+          .string()
+          .regex(/^#[0-9a-fA-F]{6}$/)
+          .optional(),
+        hoist: z.boolean().optional(),
+        mentionable: z.boolean().optional(),
+        permissions: z.array(z.string()).optional(),
+      }),
+    )
+    .optional()
+    .default([]),
+  categories: z
+    .array(
+      z.object({
+        name: z.string(),
+        permissionOverwrites: z.array(SpecPermissionOverwriteSchema).optional(),
+        channels: z.array(SpecChannelSchema).optional().default([]),
+      }),
+    )
+    .optional()
+    .default([]),
+  channels: z.array(SpecChannelSchema).optional().default([]), // No category
+  welcomeScreen: z
+    .object({
+      enabled: z.boolean(),
+      description: z.string().optional().default(""),
+      channels: z
+        .array(
+          z.object({
+            channel: z.string(), // Channel name
+            description: z.string(),
+            emoji: z.string().optional(),
+          }),
+        )
+        .optional()
+        .default([]),
+    })
+    .optional(),
+});
+
+export const ExportGuildSpecSchema = z.object({
+  guildId: z.string(),
+});
+
+export const PlanGuildSpecSchema = z.object({
+  guildId: z.string(),
+  // Either spec or specYaml, the same spec written in YAML
+  spec: GuildSpecSchema.optional(),
+  specYaml: z.string().optional(),
+});
+
+export const ApplyGuildSpecSchema = z.object({
+  guildId: z.string(),
+  // Either spec or specYaml, the same spec written in YAML
+  spec: GuildSpecSchema.optional(),
+  specYaml: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+// Prompt Argument Schemas
+// MCP prompt arguments are always strings; descriptions are shown to users
+export const SummarizeChannelActivityPromptSchema = z.object({
+  channelId: z.string().describe("Channel to summarize"),
+  hours: z
+    .string()
+    .regex(/^\d+$/)
+    .optional()
+    .default("24")
+    .describe("How many hours of activity to cover (default 24)"),
+});
+
+export const DraftModerationReportPromptSchema = z.object({
+  guildId: z.string().describe("Server the member belongs to"),
+  userId: z.string().describe("Member the report is about"),
+});
+
+export const OnboardChannelCategoryPromptSchema = z.object({
+  guildId: z.string().describe("Server to add the category to"),
+  categoryName: z.string().describe("Name of the new category"),
+  purpose: z
+    .string()
+    .optional()
+    .describe("What the category is for, used to propose channels"),
+});
+
+export const TriageForumPostsPromptSchema = z.object({
+  forumChannelId: z.string().describe("Forum channel to triage"),
+});
+
+export const PermissionReviewPromptSchema = z.object({
+  guildId: z.string().describe("Server whose roles should be reviewed"),
+});
+
+// Resource Subscription Schemas
+// Optional `filter` accepted alongside `uri` in resources/subscribe
+export const ResourceSubscriptionEventSchema = z.enum([
+  "messageCreate",
+  "messageUpdate",
+  "threadCreate",
+  "guildMemberAdd",
+]);
+
+export const ResourceSubscriptionFilterSchema = z.object({
+  events: z.array(ResourceSubscriptionEventSchema).min(1).optional(), // Default: all events
+  authorIds: z.array(z.string()).optional(), // Message author, thread owner or joining member
+  ignoreBots: z.boolean().optional().default(false),
+  contentContains: z.string().optional(), // Case-insensitive, messages only
+  minIntervalMs: z.number().int().min(100).max(60000).optional().default(1000), // Coalescing window
+});
+
+// HTTP Auth Schemas
+// Contents of HTTP_API_KEYS_FILE; only hashes of the keys are stored
+export const ApiKeysFileSchema = z.object({
+  keys: z.array(
+    z.object({
+      id: z.string().min(1), // Reported as the client ID
+      hash: z
+        .string()
+        .regex(/^sha256:[0-9a-fA-F]{64}$/)
+        .transform((hash) => hash.toLowerCase()),
+      expiresAt: z.string().datetime({ offset: true }).optional(),
+    }),
+  ),
+});
+
+// Access Policy Schemas
+// Contents of HTTP_POLICIES_FILE. An omitted list means no restriction beyond
+// the global feature flags and allow-lists; an empty list allows nothing.
+export const ToolGroupSchema = z.enum([
+  "core",
+  "admin",
+  "userManagement",
+  "voiceChannels",
+  "directMessages",
+  "serverManagement",
+  "rbac",
+  "contentManagement",
+]);
+
+export const AccessPolicySchema = z.object({
+  toolGroups: z.array(ToolGroupSchema).optional(),
+  guildIds: z.array(z.string()).optional(),
+  channelIds: z.array(z.string()).optional(), // A category includes its channels
+  readOnly: z.boolean().optional().default(false), // Only tools with readOnlyHint
+});
+
+export const AccessPoliciesFileSchema = z.object({
+  default: AccessPolicySchema.optional(), // Callers without their own entry
+  clients: z.record(AccessPolicySchema).optional().default({}), // Keyed by API key ID or OAuth client ID
+});
+
+// JSON Web Key Set from OAUTH_JWKS_FILE or OAUTH_JWKS_URI
+export const JwksSchema = z.object({
+  keys: z.array(
+    z
+      .object({
+        kty: z.string(),
+        kid: z.string().optional(),
+        alg: z.string().optional(),
+        use: z.string().optional(),
+      })
+      .passthrough(),
+  ),
+});
+
+// Token Store Schemas
+// Contents of TOKEN_STORE_FILE; binary fields are base64
+export const EncryptedTokenFileSchema = z.object({
+  version: z.literal(1),
+  kdf: z.object({
+    name: z.literal("scrypt"),
+    N: z.number().int().positive(),
+    r: z.number().int().positive(),
+    p: z.number().int().positive(),
+  }),
+  cipher: z.literal("aes-256-gcm"),
+  salt: z.string(),
+  iv: z.string(),
+  tag: z.string(),
+  ciphertext: z.string(),
+});
+
+// Output Schemas
+// Shapes of the structuredContent returned by read tools. Timestamps are ISO
+// 8601 strings and fields Discord may leave unset are nullable.
+const UserSummaryOutput = z.object({
+  id: z.string(),
+  username: z.string(),
+});
+
+const ChannelSummaryOutput = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  categoryId: z.string().nullable(),
+  position: z.number(),
+  topic: z.string().nullable(),
+});
+
+export const ReadMessagesOutputSchema = z.object({
+  channelId: z.string(),
+  messageCount: z.number(),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      content: z.string(),
+      author: UserSummaryOutput.extend({ bot: z.boolean() }),
+      timestamp: z.string(),
+      attachments: z.number(),
+      embeds: z.number(),
+      replyTo: z.string().nullable(),
+    }),
+  ),
+});
+
+export const ListPinsOutputSchema = z.object({
+  channelId: z.string(),
+  pinCount: z.number(),
+  hasMore: z.boolean(),
+  pins: z.array(
+    z.object({
+      id: z.string(),
+      content: z.string(),
+      author: UserSummaryOutput,
+      createdAt: z.string(),
+      pinnedAt: z.string(),
+    }),
+  ),
+});
+
+export const SearchMessagesOutputSchema = z.object({
+  channelId: z.string(),
+  query: z.string(),
+  matchCount: z.number(),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      content: z.string(),
+      author: UserSummaryOutput,
+      createdAt: z.string(),
+    }),
+  ),
+});
+
+export const GetForumChannelsOutputSchema = z.object({
+  guildId: z.string(),
+  forumCount: z.number(),
+  forums: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      topic: z.string().nullable(),
+    }),
+  ),
+});
+
+export const GetForumPostOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().nullable(),
+  messageCount: z.number(),
+  createdAt: z.string().nullable(),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      content: z.string(),
+      author: z.string(),
+      createdAt: z.string(),
+    }),
+  ),
+});
+
+export const GetServerInfoOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  icon: z.string().nullable(),
+  owner: z.string(),
+  createdAt: z.string(),
+  memberCount: z.number().nullable(),
+  channels: z.object({
+    count: z.object({
+      text: z.number(),
+      voice: z.number(),
+      category: z.number(),
+      forum: z.number(),
+      announcement: z.number(),
+      stage: z.number(),
+      total: z.number(),
+    }),
+    details: z.object({
+      text: z.array(ChannelSummaryOutput),
+      voice: z.array(ChannelSummaryOutput),
+      category: z.array(ChannelSummaryOutput),
+      forum: z.array(ChannelSummaryOutput),
+      announcement: z.array(ChannelSummaryOutput),
+      stage: z.array(ChannelSummaryOutput),
+      all: z.array(ChannelSummaryOutput),
+    }),
+  }),
+  features: z.array(z.string()),
+  premium: z.object({
+    tier: z.number(),
+    subscriptions: z.number().nullable(),
+  }),
+});
+
+export const ListServersOutputSchema = z.object({
+  serverCount: z.number(),
+  servers: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      memberCount: z.number(),
+      ownerId: z.string(),
+      createdAt: z.string(),
+      features: z.array(z.string()),
+      icon: z.string().nullable(),
+      // Names of the configured bots that are members of the server
+      bots: z.array(z.string()),
+    }),
+  ),
+});
+
+export const ListWebhooksOutputSchema = z.object({
+  guildId: z.string(),
+  channelId: z.string().nullable(),
+  webhookCount: z.number(),
+  webhooks: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      channelId: z.string(),
+      channelName: z.string(),
+      avatar: z.string().nullable(),
+      token: z.string().nullable(), // Always redacted
+      applicationId: z.string().nullable(),
+      user: z
+        .object({
+          id: z.string(),
+          username: z.string(),
+          discriminator: z.string(),
+        })
+        .nullable(),
+      createdAt: z.string(),
+      url: z.string(),
+    }),
+  ),
+});
+
+export const GetUserInfoOutputSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  discriminator: z.string(),
+  displayName: z.string(),
+  bot: z.boolean(),
+  createdAt: z.string(),
+  avatarUrl: z.string().nullable(),
+});
+
+export const GetGuildMemberOutputSchema = z.object({
+  guildId: z.string(),
+  user: z.object({
+    id: z.string(),
+    username: z.string(),
+    discriminator: z.string(),
+  }),
+  nickname: z.string().nullable(),
+  joinedAt: z.string().nullable(),
+  roles: z.array(z.object({ id: z.string(), name: z.string() })),
+  permissions: z.array(z.string()),
+});
+
+export const ListGuildMembersOutputSchema = z.object({
+  guildId: z.string(),
+  memberCount: z.number(),
+  members: z.array(
+    z.object({
+      id: z.string(),
+      username: z.string(),
+      discriminator: z.string(),
+      displayName: z.string(),
+      bot: z.boolean(),
+      roleIds: z.array(z.string()),
+    }),
+  ),
+});
+
+export const ListRolesOutputSchema = z.object({
+  guildName: z.string(),
+  roleCount: z.number(),
+  roles: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      color: z.number(),
+      position: z.number(),
+      permissions: z.array(z.string()),
+      mentionable: z.boolean(),
+      hoist: z.boolean(),
+      managed: z.boolean(),
+      createdAt: z.string(),
+    }),
+  ),
+});
+
+export const GetRolePermissionsOutputSchema = z.object({
+  roleId: z.string(),
+  roleName: z.string(),
+  guildId: z.string(),
+  permissions: z.array(z.string()),
+});
+
+export const GetDirectMessagesOutputSchema = z.object({
+  userId: z.string(),
+  username: z.string(),
+  messageCount: z.number(),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      content: z.string(),
+      author: UserSummaryOutput,
+      createdAt: z.string(),
+    }),
+  ),
+});
+
+export const ListEmojisOutputSchema = z.object({
+  guildName: z.string(),
+  emojiCount: z.number(),
+  emojis: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string().nullable(),
+      animated: z.boolean().nullable(),
+      available: z.boolean().nullable(),
+      managed: z.boolean().nullable(),
+      requiresColons: z.boolean().nullable(),
+      roles: z.array(z.string()),
+      createdAt: z.string(),
+      url: z.string(),
+    }),
+  ),
+});
+
+export const ListStickersOutputSchema = z.object({
+  guildName: z.string(),
+  stickerCount: z.number(),
+  stickers: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string().nullable(),
+      tags: z.string().nullable(),
+      type: z.number().nullable(),
+      format: z.number(),
+      available: z.boolean().nullable(),
+      createdAt: z.string(),
+      url: z.string(),
+    }),
+  ),
+});
+
+export const ListInvitesOutputSchema = z.object({
+  guildName: z.string(),
+  inviteCount: z.number(),
+  invites: z.array(
+    z.object({
+      code: z.string(),
+      url: z.string(),
+      channel: z.string(),
+      inviter: z.string(),
+      uses: z.number().nullable(),
+      maxUses: z.number().nullable(),
+      maxAge: z.number().nullable(),
+      temporary: z.boolean().nullable(),
+      createdAt: z.string().nullable(),
+      expiresAt: z.string().nullable(),
+    }),
+  ),
+});
+
+export const ListIntegrationsOutputSchema = z.object({
+  guildName: z.string(),
+  integrationCount: z.number(),
+  integrations: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(), // twitch, youtube, discord or guild_subscription
+      enabled: z.boolean().nullable(),
+      account: z.object({ id: z.string(), name: z.string() }),
+      applicationId: z.string().nullable(),
+      roleId: z.string().nullable(),
+      user: UserSummaryOutput.nullable(),
+      syncing: z.boolean().nullable(),
+      syncedAt: z.string().nullable(),
+    }),
+  ),
+});
+
+export const ListSoundboardSoundsOutputSchema = z.object({
+  guildName: z.string(),
+  soundCount: z.number(),
+  sounds: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      volume: z.number(),
+      emojiId: z.string().nullable(),
+      emojiName: z.string().nullable(),
+      available: z.boolean(),
+      user: UserSummaryOutput.nullable(),
+      createdAt: z.string(),
+      url: z.string(),
+    }),
+  ),
+});
+
+export const ListVoiceChannelsOutputSchema = z.object({
+  guildId: z.string(),
+  guildName: z.string(),
+  channelCount: z.number(),
+  channels: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      connectedUsers: z.number(),
+      userLimit: z.number(), // 0 means no limit
+      bitrate: z.number(),
+    }),
+  ),
+});
+
+export const GetVoiceChannelInfoOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  userLimit: z.number(), // 0 means no limit
+  bitrate: z.number(),
+  position: z.number(),
+  categoryId: z.string().nullable(),
+  categoryName: z.string().nullable(),
+  connectedUsers: z.array(UserSummaryOutput),
+});
+
+const HealthStatusOutput = z.enum(["healthy", "degraded", "unhealthy"]);
+
+export const LoginStatusOutputSchema = z.object({
+  bot: z.string().nullable(), // null for the default bot
+  tokenConfigured: z.boolean(),
+  loggedIn: z.boolean(),
+  botUser: z.string().nullable(),
+  guildCount: z.number().nullable(),
+  channelCount: z.number().nullable(),
+  uptimeMinutes: z.number().nullable(),
+  // Every configured bot; empty when a bot was named or only one exists
+  bots: z.array(
+    z.object({
+      name: z.string(),
+      loggedIn: z.boolean(),
+      tokenConfigured: z.boolean(),
+      botUser: z.string().nullable(),
+      guildCount: z.number().nullable(),
+    }),
+  ),
+  health: HealthStatusOutput,
+  issues: z.array(z.string()),
+  config: z.record(z.unknown()), // Secrets are masked
+});
+
+export const HealthCheckOutputSchema = z.object({
+  status: HealthStatusOutput,
+  checks: z.record(z.boolean()),
+  issues: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  discordConfigured: z.boolean(),
+});
+
+const ServiceStatusOutput = z.enum([
+  "healthy",
+  "warning",
+  "critical",
+  "offline",
+]);
+
+export const EnterpriseHealthCheckOutputSchema = z.object({
+  enterpriseEnabled: z.boolean(),
+  overall: ServiceStatusOutput.nullable(), // null without enterprise services
+  discord: z.object({
+    connected: z.boolean(),
+    guildCount: z.number(),
+    pingMs: z.number().nullable(),
+    uptimeSeconds: z.number(),
+  }),
+  summary: z
+    .object({
+      totalServices: z.number(),
+      healthyServices: z.number(),
+      warningServices: z.number(),
+      criticalServices: z.number(),
+    })
+    .nullable(),
+  // Only with detailed: true
+  services: z
+    .array(
+      z.object({
+        name: z.string(),
+        status: ServiceStatusOutput,
+        error: z.string().nullable(),
+      }),
+    )
+    .nullable(),
+});
+
+export const GetAnalyticsOutputSchema = z.object({
+  enterpriseEnabled: z.boolean(),
+  timeRange: z.string(),
+  guildCount: z.number(),
+  userCount: z.number(),
+  // Without a category, every category the services report; otherwise only
+  // the requested one. null when the service providing it is disabled.
+  performance: z.record(z.unknown()).nullable(),
+  security: z.record(z.unknown()).nullable(),
+  usage: z.record(z.unknown()).nullable(),
+  errors: z.record(z.unknown()).nullable(),
+  moderation: z.record(z.unknown()).nullable(),
+});
+
+export const RateLimiterStatusOutputSchema = z.object({
+  enabled: z.boolean(),
+  // null when enterprise rate limiting is not enabled
+  metrics: z
+    .object({
+      queueSize: z.number(),
+      activeRequests: z.number(),
+      totalRequests: z.number(),
+      rateLimitHits: z.number(),
+      retryAttempts: z.number(),
+      averageWaitTimeMs: z.number(),
+      memoryUsageMb: z.number(),
+      buckets: z.number(),
+      highQueue: z.boolean(), // More than 500 queued requests
+    })
+    .nullable(),
+});
+
+export const BulkOperationOutputSchema = z.object({
+  operationId: z.string(),
+  type: z.string(),
+  guildId: z.string(),
+  bot: z.string(),
+  dryRun: z.boolean(),
+  status: z.string(),
+  totalItems: z.number(),
+  processedItems: z.number(),
+  successfulItems: z.number(),
+  failedItems: z.number(),
+  currentBatch: z.number(),
+  totalBatches: z.number(),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+  estimatedCompletion: z.string().nullable(),
+  errors: z.array(
+    z.object({
+      itemId: z.string(),
+      error: z.string(),
+      timestamp: z.string(),
+    }),
+  ),
+  affectedIds: z.array(z.string()).nullable(), // Set by dry runs
+});
+
+export const ListBulkOperationsOutputSchema = z.object({
+  operationCount: z.number(),
+  operations: z.array(
+    BulkOperationOutputSchema.omit({ errors: true, affectedIds: true }),
+  ),
+});
+
+export const BackupSummaryOutputSchema = z.object({
+  backupId: z.string(),
+  guildId: z.string(),
+  guildName: z.string(),
+  createdAt: z.string(),
+  roles: z.number(),
+  channels: z.number(),
+  emojis: z.number(),
+  stickers: z.number(),
+  webhooks: z.number(),
+  welcomeScreen: z.boolean(),
+});
+
+export const ListBackupsOutputSchema = z.object({
+  backupCount: z.number(),
+  backups: z.array(BackupSummaryOutputSchema),
+});
+
+const BackupItemOutput = z.object({ id: z.string(), name: z.string() });
+
+const BackupItemDiffOutput = z.object({
+  added: z.array(BackupItemOutput), // In the guild, not in the backup
+  removed: z.array(BackupItemOutput), // In the backup, not in the guild
+  changed: z.array(BackupItemOutput.extend({ fields: z.array(z.string()) })),
+});
+
+export const DiffBackupOutputSchema = z.object({
+  backupId: z.string(),
+  guildId: z.string(),
+  settings: z.array(
+    z.object({
+      field: z.string(),
+      backup: z.unknown(),
+      current: z.unknown(),
+    }),
+  ),
+  roles: BackupItemDiffOutput,
+  channels: BackupItemDiffOutput,
+  emojis: BackupItemDiffOutput,
+  stickers: BackupItemDiffOutput,
+  webhooks: BackupItemDiffOutput,
+  welcomeScreenChanged: z.boolean(),
+});
+
+export const RestoreBackupOutputSchema = z.object({
+  backupId: z.string(),
+  guildId: z.string(),
+  dryRun: z.boolean(),
+  steps: z.array(
+    z.object({
+      action: z.string(),
+      name: z.string(),
+      oldId: z.string().nullable(),
+      newId: z.string().nullable(),
+      error: z.string().nullable(),
+    }),
+  ),
+  failedSteps: z.number(),
+  remainingSteps: z.number(), // Left for the next call when time ran out
+  idMap: z.record(z.string()), // Old IDs to the IDs that replace them
+});
+
+export const ExportGuildSpecOutputSchema = z.object({
+  guildId: z.string(),
+  spec: GuildSpecSchema,
+  // Channels of types specs cannot describe, and member overwrites
+  skipped: z.array(z.string()),
+});
+
+const SpecChangeOutput = z.object({
+  action: z.string(),
+  target: z.string(), // Name of the role, category or channel
+  fields: z.array(z.string()), // What differs; empty for creations
+});
+
+export const PlanGuildSpecOutputSchema = z.object({
+  guildId: z.string(),
+  changeCount: z.number(),
+  changes: z.array(SpecChangeOutput),
+});
+
+export const ApplyGuildSpecOutputSchema = z.object({
+  guildId: z.string(),
+  changeCount: z.number(),
+  failedChanges: z.number(),
+  remainingChanges: z.number(), // Left for the next call when time ran out
+  changes: z.array(SpecChangeOutput.extend({ error: z.string().nullable() })),
+});
@@ -0,0 +1,405 @@
+/**
+ * @fileoverview Guild and channel scope guard for tool calls
+ * @description Enforces the ALLOW_GUILD_IDS and ALLOW_CHANNEL_IDS allow-lists
+ * from the server configuration, narrowed by the guild and channel lists of
+ * the caller's access policy. Every tool call passes through
+ * enforceToolScope before its handler runs, and list handlers use the
+ * isGuildInScope/isChannelInScope helpers to hide out-of-scope entries.
+ *
+ * Guild overrides from the config file replace ALLOW_CHANNEL_IDS and the
+ * feature flags for calls that target that guild. A bot from the config
+ * file's `bots` section may replace both allow-lists for calls made with it.
+ *
+ * An empty allow-list means "no restriction" for that dimension; in a policy,
+ * an omitted list means "no restriction" and an empty one allows nothing. A
+ * policy limited to certain guilds or channels also refuses calls that target
+ * no guild, such as direct messages, unless the tool is registered as global.
+ */
+
+import { Client } from "discord.js";
+import { configManager } from "./config.js";
+import { ToolContext, ToolResponse } from "./tools/types.js";
+import { AccessPolicy } from "./auth/policy.js";
+import { info } from "./logger.js";
+
+/** Arguments that reference a channel, thread or category directly */
+const CHANNEL_ARG_KEYS = [
+  "channelId",
+  "threadId",
+  "forumChannelId",
+  "categoryId",
+  "targetChannelId",
+  "afkChannelId",
+  "systemChannelId",
+  "rulesChannelId",
+  "publicUpdatesChannelId",
+] as const;
+
+/** Arguments that list channels */
+const CHANNEL_LIST_ARG_KEYS = ["channelIds", "exemptChannels"] as const;
+
+/** Arguments that list members, which are looked up in the call's guild */
+const MEMBER_LIST_ARG_KEYS = ["memberIds"] as const;
+
+/**
+ * Minimal channel shape needed to evaluate scope
+ */
+export interface ScopedChannel {
+  id: string;
+  guildId: string | null;
+  parentId: string | null;
+}
+
+/**
+ * Guilds and channels a single tool call resolves to
+ */
+export interface ResolvedToolScope {
+  guildIds: string[];
+  channels: ScopedChannel[];
+  unresolved: string[];
+}
+
+/**
+ * How enforceToolScope treats the tool being called
+ */
+export interface ToolScopeOptions {
+  // Applies the feature flags of guild overrides to the guilds the call
+  // targets, or to null when it targets none
+  isEnabledForGuild?: (guildId: string | null) => boolean;
+  // The tool targets no guild by design, like the login and health tools,
+  // and may be called under a policy limited to certain guilds
+  global?: boolean;
+}
+
+/**
+ * Whose restrictions apply to a check: the allow-lists of the bot making the
+ * call and the caller's access policy. Both are optional.
+ */
+export interface ScopeSubject {
+  bot?: string;
+  policy?: AccessPolicy;
+}
+
+// The bot's own allow-lists where it sets them, otherwise the global ones
+function getAllowLists(bot?: string) {
+  const config = configManager.getConfig();
+  const botSettings = bot ? config.BOTS[bot] : undefined;
+  return {
+    guildIds: botSettings?.ALLOW_GUILD_IDS ?? config.ALLOW_GUILD_IDS,
+    channelIds: botSettings?.ALLOW_CHANNEL_IDS ?? config.ALLOW_CHANNEL_IDS,
+  };
+}
+
+/**
+ * Returns true when any allow-list or guild override is configured, globally,
+ * for the bot or by the policy
+ */
+export function isScopeRestricted({ bot, policy }: ScopeSubject = {}): boolean {
+  const allowLists = getAllowLists(bot);
+  return (
+    allowLists.guildIds.length > 0 ||
+    allowLists.channelIds.length > 0 ||
+    Object.keys(configManager.getConfig().GUILD_OVERRIDES).length > 0 ||
+    !!policy?.guildIds ||
+    !!policy?.channelIds
+  );
+}
+
+/**
+ * Checks a guild ID against ALLOW_GUILD_IDS and the policy's guildIds
+ */
+export function isGuildInScope(
+  guildId: string | null | undefined,
+  { bot, policy }: ScopeSubject = {},
+): boolean {
+  if (policy?.guildIds && !(guildId && policy.guildIds.includes(guildId))) {
+    return false;
+  }
+
+  const allowedGuilds = getAllowLists(bot).guildIds;
+  if (allowedGuilds.length === 0) return true;
+  return !!guildId && allowedGuilds.includes(guildId);
+}
+
+function isChannelListed(
+  channel: { id: string; parentId?: string | null },
+  channelIds: string[],
+): boolean {
+  return (
+    channelIds.includes(channel.id) ||
+    (!!channel.parentId && channelIds.includes(channel.parentId))
+  );
+}
+
+/**
+ * Checks a channel against both allow-lists and the policy. A channel is
+ * allowed by a channel list when either its own ID or its parent's ID
+ * (category for regular channels, parent channel for threads) is listed.
+ * The guild's override, if it has ALLOW_CHANNEL_IDS, replaces the global or
+ * bot list.
+ */
+export function isChannelInScope(
+  channel: {
+    id: string;
+    guildId?: string | null;
+    parentId?: string | null;
+  },
+  subject: ScopeSubject = {},
+): boolean {
+  const { bot, policy } = subject;
+  if (channel.guildId && !isGuildInScope(channel.guildId, subject)) {
+    return false;
+  }
+  if (policy?.channelIds && !isChannelListed(channel, policy.channelIds)) {
+    return false;
+  }
+
+  const allowedChannels =
+    (channel.guildId &&
+      configManager.getConfig().GUILD_OVERRIDES[channel.guildId]
+        ?.ALLOW_CHANNEL_IDS) ||
+    getAllowLists(bot).channelIds;
+  if (allowedChannels.length === 0) return true;
+
+  return isChannelListed(channel, allowedChannels);
+}
+
+// The string entries of an array argument
+function listArg(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((id): id is string => typeof id === "string")
+    : [];
+}
+
+async function resolveChannel(
+  client: Client,
+  channelId: string,
+): Promise<ScopedChannel | null> {
+  try {
+    const channel = await client.channels.fetch(channelId);
+    if (!channel) return null;
+
+    const guildId = "guildId" in channel ? channel.guildId : null;
+    const parentId = "parentId" in channel ? channel.parentId : null;
+    return { id: channel.id, guildId: guildId ?? null, parentId: parentId ?? null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves the guilds and channels referenced by a tool call's arguments.
+ * IDs that cannot be resolved are reported in `unresolved` so the caller can
+ * fail closed.
+ */
+export async function resolveToolScope(
+  args: Record<string, any>,
+  client: Client,
+): Promise<ResolvedToolScope> {
+  const scope: ResolvedToolScope = { guildIds: [], channels: [], unresolved: [] };
+
+  if (typeof args.guildId === "string") {
+    scope.guildIds.push(args.guildId);
+  }
+  scope.guildIds.push(...listArg(args.guildIds));
+
+  const channelRefs: [string, unknown][] = CHANNEL_ARG_KEYS.map((key) => [
+    key,
+    args[key],
+  ]);
+  for (const key of CHANNEL_LIST_ARG_KEYS) {
+    for (const channelId of listArg(args[key])) {
+      channelRefs.push([key, channelId]);
+    }
+  }
+  // Welcome screens list their channels
+  if (Array.isArray(args.welcomeChannels)) {
+    for (const entry of args.welcomeChannels) {
+      channelRefs.push(["welcomeChannels.channelId", entry?.channelId]);
+    }
+  }
+
+  for (const [key, channelId] of channelRefs) {
+    if (typeof channelId !== "string") continue;
+
+    const channel = await resolveChannel(client, channelId);
+    if (channel) {
+      scope.channels.push(channel);
+    } else {
+      scope.unresolved.push(`${key}=${channelId}`);
+    }
+  }
+
+  // Member IDs only mean something within the guild the call names
+  for (const key of MEMBER_LIST_ARG_KEYS) {
+    if (listArg(args[key]).length > 0 && typeof args.guildId !== "string") {
+      scope.unresolved.push(key);
+    }
+  }
+
+  // Messages are always addressed through their channel
+  if (typeof args.messageId === "string" && typeof args.channelId !== "string") {
+    scope.unresolved.push(`messageId=${args.messageId}`);
+  }
+
+  if (typeof args.webhookId === "string") {
+    try {
+      const webhook = await client.fetchWebhook(args.webhookId, args.webhookToken);
+      if (webhook.guildId) scope.guildIds.push(webhook.guildId);
+      const channel = await resolveChannel(client, webhook.channelId);
+      if (channel) {
+        scope.channels.push(channel);
+      } else {
+        scope.unresolved.push(`webhookId=${args.webhookId}`);
+      }
+    } catch {
+      scope.unresolved.push(`webhookId=${args.webhookId}`);
+    }
+  }
+
+  if (typeof args.roleId === "string" && typeof args.guildId !== "string") {
+    const guild = client.guilds.cache.find((g) => g.roles.cache.has(args.roleId));
+    if (guild) {
+      scope.guildIds.push(guild.id);
+    } else {
+      scope.unresolved.push(`roleId=${args.roleId}`);
+    }
+  }
+
+  if (typeof args.inviteCode === "string") {
+    try {
+      const invite = await client.fetchInvite(args.inviteCode);
+      if (invite.guild) scope.guildIds.push(invite.guild.id);
+      if (invite.channelId) {
+        const channel = await resolveChannel(client, invite.channelId);
+        if (channel) scope.channels.push(channel);
+      }
+    } catch {
+      scope.unresolved.push(`inviteCode=${args.inviteCode}`);
+    }
+  }
+
+  return scope;
+}
+
+function scopeViolation(
+  toolName: string,
+  reason: string,
+  details: Record<string, unknown>,
+): ToolResponse {
+  info(`Scope guard rejected ${toolName}: ${reason}`);
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            error: "SCOPE_VIOLATION",
+            tool: toolName,
+            reason,
+            ...details,
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Checks a tool call against the configured allow-lists and the caller's
+ * access policy
+ * @returns An error response when the call is out of scope, otherwise null
+ */
+export async function enforceToolScope(
+  toolName: string,
+  args: unknown,
+  context: ToolContext,
+  { isEnabledForGuild, global = false }: ToolScopeOptions = {},
+): Promise<ToolResponse | null> {
+  const { bot, policy } = context;
+  if (!isScopeRestricted(context)) return null;
+  if (!args || typeof args !== "object") return null;
+
+  // Without a logged-in client, channel, webhook, role and invite references
+  // cannot be resolved and are rejected as unresolved below
+  const scope = await resolveToolScope(args as Record<string, any>, context.client);
+
+  if (scope.unresolved.length > 0) {
+    return scopeViolation(
+      toolName,
+      "Could not resolve the target of this call to verify it is within the allowed scope",
+      { unresolved: scope.unresolved },
+    );
+  }
+
+  const guildIds = new Set([
+    ...scope.guildIds,
+    ...scope.channels
+      .map((c) => c.guildId)
+      .filter((id): id is string => !!id),
+  ]);
+  if (
+    guildIds.size === 0 &&
+    !global &&
+    (policy?.guildIds || policy?.channelIds)
+  ) {
+    return scopeViolation(
+      toolName,
+      "This call targets no guild, which is not allowed for this credential",
+      {},
+    );
+  }
+
+  if (isEnabledForGuild) {
+    const targets = guildIds.size > 0 ? [...guildIds] : [null];
+    for (const guildId of targets) {
+      if (!isEnabledForGuild(guildId)) {
+        return scopeViolation(
+          toolName,
+          guildId
+            ? "Tool is disabled for this guild by its override"
+            : "Tool is only enabled for specific guilds",
+          { guildId },
+        );
+      }
+    }
+  }
+
+  for (const guildId of guildIds) {
+    if (!isGuildInScope(guildId, { bot })) {
+      return scopeViolation(toolName, "Guild is not in ALLOW_GUILD_IDS", {
+        guildId,
+      });
+    }
+    if (!isGuildInScope(guildId, { bot, policy })) {
+      return scopeViolation(
+        toolName,
+        "Guild is not allowed for this credential",
+        { guildId },
+      );
+    }
+  }
+
+  for (const channel of scope.channels) {
+    const details = { channelId: channel.id, guildId: channel.guildId };
+    if (!isChannelInScope(channel, { bot })) {
+      return scopeViolation(
+        toolName,
+        "Channel is not in ALLOW_CHANNEL_IDS",
+        details,
+      );
+    }
+    if (!isChannelInScope(channel, { bot, policy })) {
+      return scopeViolation(
+        toolName,
+        "Channel is not allowed for this credential",
+        details,
+      );
+    }
+  }
+
+  return null;
+}
@@ -9,91 +9,71 @@
  * @license MIT
  */
 
+import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { Client } from "discord.js";
 import { z } from "zod";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  LoggingLevel,
+  SetLevelRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { toolList } from "./toolList.js";
+import { getToolList, onToolListChanged } from "./toolList.js";
 import {
   createToolContext,
-  loginHandler,
-  setTokenHandler,
-  validateTokenHandler,
-  loginStatusHandler,
-  logoutHandler,
-  updateConfigHandler,
-  healthCheckHandler,
-  sendMessageHandler,
-  getForumChannelsHandler,
-  createForumPostHandler,
-  getForumPostHandler,
-  replyToForumHandler,
-  deleteForumPostHandler,
-  createTextChannelHandler,
-  createForumChannelHandler,
-  editChannelHandler,
-  deleteChannelHandler,
-  readMessagesHandler,
-  getServerInfoHandler,
-  createCategoryHandler,
-  editCategoryHandler,
-  deleteCategoryHandler,
-  listServersHandler,
-  createChannelUnderCategoryHandler,
-  moveChannelToCategoryHandler,
-  updateServerSettingsHandler,
-  updateServerEngagementHandler,
-  updateWelcomeScreenHandler,
-  createEmojiHandler,
-  deleteEmojiHandler,
-  listEmojisHandler,
-  createStickerHandler,
-  deleteStickerHandler,
-  listStickersHandler,
-  createInviteHandler,
-  deleteInviteHandler,
-  listInvitesHandler,
-  listIntegrationsHandler,
-  deleteIntegrationHandler,
-  createSoundboardSoundHandler,
-  deleteSoundboardSoundHandler,
-  listSoundboardSoundsHandler,
-  getUserInfoHandler,
-  getGuildMemberHandler,
-  listGuildMembersHandler,
-  addRoleToMemberHandler,
-  removeRoleFromMemberHandler,
-  kickMemberHandler,
-  banMemberHandler,
-  unbanMemberHandler,
-  timeoutMemberHandler,
-  createRoleHandler,
-  editRoleHandler,
-  deleteRoleHandler,
-  listRolesHandler,
-  getRolePermissionsHandler,
-  addReactionHandler,
-  addMultipleReactionsHandler,
-  removeReactionHandler,
-  deleteMessageHandler,
-  createWebhookHandler,
-  sendWebhookMessageHandler,
-  editWebhookHandler,
-  deleteWebhookHandler,
-  listWebhooksHandler,
-  sendDirectMessageHandler,
-  getDirectMessagesHandler,
-  createVoiceChannelHandler,
-  deleteVoiceChannelHandler,
-  editVoiceChannelHandler,
-  listVoiceChannelsHandler,
-  getVoiceChannelInfoHandler,
+  ToolContext,
+  ToolResponse,
 } from "./tools/tools.js";
-import { MCPTransport } from "./transport.js";
-import { info } from "./logger.js";
+import { BotPool } from "./botPool.js";
+import { CLIENT_IP_HEADER, MCPTransport } from "./transport.js";
+import {
+  info,
+  error,
+  debug,
+  logger,
+  isLevelEnabled,
+  LogLevel,
+  onLogEntry,
+} from "./logger.js";
+import { isGuildInScope } from "./scopeGuard.js";
+import { handleToolCall } from "./toolHandler.js";
+import { redactSecrets } from "./redact.js";
+import { flushSpans, traceRequest } from "./tracing.js";
+import { registerBotMetrics } from "./metrics.js";
+import { createToolPipeline } from "./toolPipeline.js";
+import {
+  EnterpriseIntegrationService,
+  ToolExecutionContext,
+} from "./services/enterpriseIntegrationService.js";
+import { runInToolCall } from "./requestContext.js";
+import { getBulkOperationsService } from "./services/bulkOperationsService.js";
+import {
+  getToolEntry,
+  isToolPermitted,
+  validateToolRegistry,
+} from "./toolRegistry.js";
+import { getAccessPolicy } from "./auth/policy.js";
+import { configManager } from "./config.js";
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from "./resources.js";
+import { ResourceSubscriptionManager } from "./subscriptions.js";
+import { listPrompts, getPrompt } from "./prompts.js";
+import {
+  completeArgument,
+  CompleteRequestWithToolsSchema,
+} from "./completions.js";
 
 /**
  * @class DiscordMCPServer
@@ -111,533 +91,330 @@ import { info } from "./logger.js";
  * ```
  */
 export class DiscordMCPServer {
-  /** @private MCP server instance */
-  private server: Server;
-
   /** @private Tool execution context with Discord client */
   private toolContext: ReturnType<typeof createToolContext>;
 
   /** @private Interval for periodic client status logging */
   private clientStatusInterval: NodeJS.Timeout | null = null;
 
+  /** @private Default client plus the bots from the config file */
+  private bots: BotPool;
+
+  /** @private Middleware chain every tool call runs through */
+  private toolPipeline: EnterpriseIntegrationService;
+
+  /** @private Removes the bot gauges from the /metrics output */
+  private unregisterBotMetrics: (() => void) | null = null;
+
   /**
    * Creates a new Discord MCP server instance
-   * @param client - Discord.js client instance
+   * @param client - Discord.js client instance of the default bot
    * @param transport - MCP transport layer for communication
    */
   constructor(
     private client: Client,
     private transport: MCPTransport,
   ) {
-    this.server = new Server(
+    // Fail fast if a handler was added without a registry entry
+    validateToolRegistry();
+
+    this.bots = new BotPool(client);
+    this.toolContext = createToolContext(this.bots);
+    this.toolPipeline = createToolPipeline();
+  }
+
+  /**
+   * Creates the MCP server for one session. The stdio transport creates a
+   * single session; the HTTP transport creates one per `Mcp-Session-Id`. All
+   * sessions share the Discord client, while resource subscriptions belong to
+   * the session that made them.
+   */
+  private createSession(): Server {
+    const server = new Server(
       {
         name: "MCP-Discord",
         version: "1.0.0",
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
+          resources: { subscribe: true },
+          prompts: {},
+          completions: {},
+          logging: {},
         },
       },
     );
 
-    this.toolContext = createToolContext(client);
-    this.setupHandlers();
-  }
-
-  private setupHandlers() {
-    // Set up the tool list handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      // For Smithery compatibility, return all tools without pagination
-      return {
-        tools: toolList,
-      };
+    const subscriptions = new ResourceSubscriptionManager(
+      this.toolContext,
+      (uri) => server.sendResourceUpdated({ uri }),
+    );
+    // Feature flags changed by a configuration reload add or remove tools
+    const stopToolListUpdates = onToolListChanged(() => {
+      server.sendToolListChanged().catch((err) => {
+        error(
+          `Failed to send tool list update: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      });
     });
+    const stopLogForwarding = this.setupLogForwarding(server);
+    server.onclose = () => {
+      subscriptions.close();
+      stopToolListUpdates();
+      stopLogForwarding();
+    };
+    this.setupHandlers(server, subscriptions);
+
+    return server;
+  }
 
-    // Handle tool execution requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        let toolResponse;
-        switch (name) {
-          case "discord_create_category":
-            toolResponse = await createCategoryHandler(args, this.toolContext);
-            return toolResponse;
-          case "discord_edit_category":
-            toolResponse = await editCategoryHandler(args, this.toolContext);
-            return toolResponse;
-          case "discord_delete_category":
-            toolResponse = await deleteCategoryHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_login":
-            toolResponse = await loginHandler(args, this.toolContext);
-            this.logClientState("after discord_login handler");
-            return toolResponse;
-
-          case "discord_set_token":
-            toolResponse = await setTokenHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_validate_token":
-            toolResponse = await validateTokenHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_login_status":
-            toolResponse = await loginStatusHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_logout":
-            toolResponse = await logoutHandler(args, this.toolContext);
-            this.logClientState("after discord_logout handler");
-            return toolResponse;
-
-          case "discord_update_config":
-            toolResponse = await updateConfigHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_health_check":
-            toolResponse = await healthCheckHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_send":
-            this.logClientState("before discord_send handler");
-            toolResponse = await sendMessageHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_get_forum_channels":
-            this.logClientState("before discord_get_forum_channels handler");
-            toolResponse = await getForumChannelsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_create_forum_post":
-            this.logClientState("before discord_create_forum_post handler");
-            toolResponse = await createForumPostHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_get_forum_post":
-            this.logClientState("before discord_get_forum_post handler");
-            toolResponse = await getForumPostHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_reply_to_forum":
-            this.logClientState("before discord_reply_to_forum handler");
-            toolResponse = await replyToForumHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_forum_post":
-            this.logClientState("before discord_delete_forum_post handler");
-            toolResponse = await deleteForumPostHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_create_text_channel":
-            this.logClientState("before discord_create_text_channel handler");
-            toolResponse = await createTextChannelHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_create_forum_channel":
-            this.logClientState("before discord_create_forum_channel handler");
-            toolResponse = await createForumChannelHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_edit_channel":
-            this.logClientState("before discord_edit_channel handler");
-            toolResponse = await editChannelHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_channel":
-            this.logClientState("before discord_delete_channel handler");
-            toolResponse = await deleteChannelHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_read_messages":
-            this.logClientState("before discord_read_messages handler");
-            toolResponse = await readMessagesHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_get_server_info":
-            this.logClientState("before discord_get_server_info handler");
-            toolResponse = await getServerInfoHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_servers":
-            this.logClientState("before discord_list_servers handler");
-            toolResponse = await listServersHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_create_channel_under_category":
-            this.logClientState(
-              "before discord_create_channel_under_category handler",
-            );
-            toolResponse = await createChannelUnderCategoryHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_move_channel_to_category":
-            this.logClientState(
-              "before discord_move_channel_to_category handler",
-            );
-            toolResponse = await moveChannelToCategoryHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_add_reaction":
-            this.logClientState("before discord_add_reaction handler");
-            toolResponse = await addReactionHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_add_multiple_reactions":
-            this.logClientState(
-              "before discord_add_multiple_reactions handler",
-            );
-            toolResponse = await addMultipleReactionsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_remove_reaction":
-            this.logClientState("before discord_remove_reaction handler");
-            toolResponse = await removeReactionHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_message":
-            this.logClientState("before discord_delete_message handler");
-            toolResponse = await deleteMessageHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_create_webhook":
-            this.logClientState("before discord_create_webhook handler");
-            toolResponse = await createWebhookHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_send_webhook_message":
-            this.logClientState("before discord_send_webhook_message handler");
-            toolResponse = await sendWebhookMessageHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_edit_webhook":
-            this.logClientState("before discord_edit_webhook handler");
-            toolResponse = await editWebhookHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_webhook":
-            this.logClientState("before discord_delete_webhook handler");
-            toolResponse = await deleteWebhookHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_webhooks":
-            this.logClientState("before discord_list_webhooks handler");
-            toolResponse = await listWebhooksHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_get_user_info":
-            this.logClientState("before discord_get_user_info handler");
-            toolResponse = await getUserInfoHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_get_guild_member":
-            this.logClientState("before discord_get_guild_member handler");
-            toolResponse = await getGuildMemberHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_guild_members":
-            this.logClientState("before discord_list_guild_members handler");
-            toolResponse = await listGuildMembersHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_add_role_to_member":
-            this.logClientState("before discord_add_role_to_member handler");
-            toolResponse = await addRoleToMemberHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_remove_role_from_member":
-            this.logClientState(
-              "before discord_remove_role_from_member handler",
-            );
-            toolResponse = await removeRoleFromMemberHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_kick_member":
-            this.logClientState("before discord_kick_member handler");
-            toolResponse = await kickMemberHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_ban_member":
-            this.logClientState("before discord_ban_member handler");
-            toolResponse = await banMemberHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_unban_member":
-            this.logClientState("before discord_unban_member handler");
-            toolResponse = await unbanMemberHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_timeout_member":
-            this.logClientState("before discord_timeout_member handler");
-            toolResponse = await timeoutMemberHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_create_role":
-            this.logClientState("before discord_create_role handler");
-            toolResponse = await createRoleHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_edit_role":
-            this.logClientState("before discord_edit_role handler");
-            toolResponse = await editRoleHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_role":
-            this.logClientState("before discord_delete_role handler");
-            toolResponse = await deleteRoleHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_roles":
-            this.logClientState("before discord_list_roles handler");
-            toolResponse = await listRolesHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_get_role_permissions":
-            this.logClientState("before discord_get_role_permissions handler");
-            toolResponse = await getRolePermissionsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_send_direct_message":
-            this.logClientState("before discord_send_direct_message handler");
-            toolResponse = await sendDirectMessageHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_get_direct_messages":
-            this.logClientState("before discord_get_direct_messages handler");
-            toolResponse = await getDirectMessagesHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+  /**
+   * Sends log entries to the session as `notifications/message` once it calls
+   * `logging/setLevel`. Callers with an access policy only receive entries
+   * about guilds the policy allows. Returns a function that stops forwarding.
+   */
+  private setupLogForwarding(server: Server): () => void {
+    let stopForwarding = () => {};
+
+    server.setRequestHandler(SetLevelRequestSchema, async (request, extra) => {
+      const minimum = fromMcpLogLevel(request.params.level);
+      const policy = getAccessPolicy(extra.authInfo);
+
+      stopForwarding();
+      stopForwarding = onLogEntry((entry) => {
+        if (!isLevelEnabled(entry.level, minimum)) return;
+        const { guildId } = entry.fields;
+        if (
+          policy &&
+          !(typeof guildId === "string" && isGuildInScope(guildId, { policy }))
+        ) {
+          return;
+        }
 
-          case "discord_update_server_settings":
-            this.logClientState(
-              "before discord_update_server_settings handler",
-            );
-            toolResponse = await updateServerSettingsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+        server
+          .sendLoggingMessage({
+            level: entry.level === "warn" ? "warning" : entry.level,
+            logger: "mcp-discord",
+            data: { message: entry.message, time: entry.time, ...entry.fields },
+          })
+          .catch(() => {
+            // The session is closing; its forwarding stops with onclose
+          });
+      });
+      return {};
+    });
 
-          case "discord_update_server_engagement":
-            this.logClientState(
-              "before discord_update_server_engagement handler",
-            );
-            toolResponse = await updateServerEngagementHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    return () => stopForwarding();
+  }
 
-          case "discord_update_welcome_screen":
-            this.logClientState("before discord_update_welcome_screen handler");
-            toolResponse = await updateWelcomeScreenHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
-
-          case "discord_create_emoji":
-            this.logClientState("before discord_create_emoji handler");
-            toolResponse = await createEmojiHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_emoji":
-            this.logClientState("before discord_delete_emoji handler");
-            toolResponse = await deleteEmojiHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_emojis":
-            this.logClientState("before discord_list_emojis handler");
-            toolResponse = await listEmojisHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_create_sticker":
-            this.logClientState("before discord_create_sticker handler");
-            toolResponse = await createStickerHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_sticker":
-            this.logClientState("before discord_delete_sticker handler");
-            toolResponse = await deleteStickerHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_stickers":
-            this.logClientState("before discord_list_stickers handler");
-            toolResponse = await listStickersHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_create_invite":
-            this.logClientState("before discord_create_invite handler");
-            toolResponse = await createInviteHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_delete_invite":
-            this.logClientState("before discord_delete_invite handler");
-            toolResponse = await deleteInviteHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_invites":
-            this.logClientState("before discord_list_invites handler");
-            toolResponse = await listInvitesHandler(args, this.toolContext);
-            return toolResponse;
-
-          case "discord_list_integrations":
-            this.logClientState("before discord_list_integrations handler");
-            toolResponse = await listIntegrationsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+  private setupHandlers(
+    server: Server,
+    subscriptions: ResourceSubscriptionManager,
+  ) {
+    // Set up the tool list handler
+    server.setRequestHandler(
+      ListToolsRequestSchema,
+      async (_request, extra) => {
+        const { policy } = this.getRequestContext(extra);
+        // For Smithery compatibility, return all tools without pagination
+        return {
+          tools: getToolList().filter((tool) =>
+            isToolPermitted(getToolEntry(tool.name)!, policy),
+          ),
+        };
+      },
+    );
 
-          case "discord_delete_integration":
-            this.logClientState("before discord_delete_integration handler");
-            toolResponse = await deleteIntegrationHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    // Handle tool execution requests
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const guildId =
+        typeof args?.guildId === "string" ? args.guildId : undefined;
+      const headers = extra.requestInfo?.headers ?? {};
+      const executionContext: ToolExecutionContext = {
+        userId: extra.authInfo?.clientId,
+        guildId,
+        channelId:
+          typeof args?.channelId === "string" ? args.channelId : undefined,
+        ipAddress: firstHeaderValue(headers[CLIENT_IP_HEADER]),
+        userAgent: firstHeaderValue(headers["user-agent"]),
+      };
+      // Log entries written during the call carry the request ID and trace
+      const requestId = randomUUID();
+      const toolLogger = logger.child({
+        toolName: name,
+        guildId,
+        jsonRpcId: String(extra.requestId),
+        sessionId: extra.sessionId,
+      });
+      const startedAt = Date.now();
+
+      return traceRequest(
+        `tools/call ${name}`,
+        requestId,
+        {
+          "mcp.tool.name": name,
+          "mcp.session.id": extra.sessionId,
+          "jsonrpc.request.id": String(extra.requestId),
+          "discord.guild.id": guildId,
+        },
+        async (span) => {
+          try {
+            this.logClientState(`before ${name} handler`);
+            const progressToken = request.params._meta?.progressToken;
+            const toolContext: ToolContext = {
+              ...this.getRequestContext(extra),
+              requestId,
+              signal: extra.signal,
+              ...(progressToken !== undefined && {
+                reportProgress: (progress, total, message) =>
+                  extra.sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, progress, total, message },
+                  }),
+              }),
+            };
+            const toolResponse = await runInToolCall(
+              {
+                ...executionContext,
+                toolName: name,
+                enterpriseService: this.toolPipeline,
+              },
+              () =>
+                this.toolPipeline.executeToolWithEnterpriseFeatures(
+                  name,
+                  args ?? {},
+                  executionContext,
+                  () => handleToolCall(name, args, toolContext),
+                ),
+            );
+            if (name === "discord_login" || name === "discord_logout") {
+              this.logClientState(`after ${name} handler`);
+            }
+            toolLogger.info("Tool call completed", {
+              durationMs: Date.now() - startedAt,
+              isError: !!toolResponse.isError,
+            });
+            if (!toolResponse.isError) return toolResponse;
+            span.setError(toolResponse.content[0]?.text ?? "Tool error");
+            return withRequestId(toolResponse, requestId);
+          } catch (err) {
+            span.setError(err);
+            toolLogger.warn("Tool call failed", {
+              durationMs: Date.now() - startedAt,
+              error: err,
+            });
+            if (err instanceof z.ZodError) {
+              return withRequestId(
+                {
+                  content: [
+                    {
+                      type: "text",
+                      text: `Invalid arguments: ${err.errors
+                        .map(
+                          (e: z.ZodIssue) =>
+                            `${e.path.join(".")}: ${e.message}`,
+                        )
+                        .join(", ")}`,
+                    },
+                  ],
+                  isError: true,
+                },
+                requestId,
+              );
+            }
 
-          case "discord_create_soundboard_sound":
-            this.logClientState(
-              "before discord_create_soundboard_sound handler",
+            const errorMessage = redactSecrets(
+              err instanceof Error ? err.message : "Unknown error",
             );
-            toolResponse = await createSoundboardSoundHandler(
-              args,
-              this.toolContext,
+            return withRequestId(
+              {
+                content: [
+                  {
+                    type: "text",
+                    text: `Error executing tool: ${errorMessage}`,
+                  },
+                ],
+                isError: true,
+              },
+              requestId,
             );
-            return toolResponse;
+          }
+        },
+      );
+    });
 
-          case "discord_delete_soundboard_sound":
-            this.logClientState(
-              "before discord_delete_soundboard_sound handler",
-            );
-            toolResponse = await deleteSoundboardSoundHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    // Discord context exposed as browsable resources
+    server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async (_request, extra) => {
+        return { resources: listResources(this.getRequestContext(extra)) };
+      },
+    );
 
-          case "discord_list_soundboard_sounds":
-            this.logClientState(
-              "before discord_list_soundboard_sounds handler",
-            );
-            toolResponse = await listSoundboardSoundsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async (_request, extra) => {
+        const { policy } = this.getRequestContext(extra);
+        return { resourceTemplates: listResourceTemplates(policy) };
+      },
+    );
 
-          case "discord_create_voice_channel":
-            this.logClientState("before discord_create_voice_channel handler");
-            toolResponse = await createVoiceChannelHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request, extra) => {
+        const context = this.getRequestContext(extra);
+        return await readResource(request.params.uri, context);
+      },
+    );
 
-          case "discord_delete_voice_channel":
-            this.logClientState("before discord_delete_voice_channel handler");
-            toolResponse = await deleteVoiceChannelHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    // Besides `uri`, accepts an optional `filter` (ResourceSubscriptionFilterSchema)
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const { uri, filter } = request.params;
+      await subscriptions.subscribe(uri, filter, this.getRequestContext(extra));
+      return {};
+    });
 
-          case "discord_edit_voice_channel":
-            this.logClientState("before discord_edit_voice_channel handler");
-            toolResponse = await editVoiceChannelHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
 
-          case "discord_list_voice_channels":
-            this.logClientState("before discord_list_voice_channels handler");
-            toolResponse = await listVoiceChannelsHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    // Community-management workflows with pre-fetched context
+    server.setRequestHandler(
+      ListPromptsRequestSchema,
+      async (_request, extra) => {
+        const { policy } = this.getRequestContext(extra);
+        return { prompts: listPrompts(policy) };
+      },
+    );
 
-          case "discord_get_voice_channel_info":
-            this.logClientState(
-              "before discord_get_voice_channel_info handler",
-            );
-            toolResponse = await getVoiceChannelInfoHandler(
-              args,
-              this.toolContext,
-            );
-            return toolResponse;
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      return await getPrompt(name, args, this.getRequestContext(extra));
+    });
 
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (err) {
-        if (err instanceof z.ZodError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Invalid arguments: ${err.errors
-                  .map((e: z.ZodIssue) => `${e.path.join(".")}: ${e.message}`)
-                  .join(", ")}`,
-              },
-            ],
-            isError: true,
-          };
-        }
+    // Discord ID completion for tool, prompt and resource template arguments
+    server.setRequestHandler(
+      CompleteRequestWithToolsSchema,
+      async (request, extra) => {
+        return completeArgument(request.params, this.getRequestContext(extra));
+      },
+    );
+  }
 
-        const errorMessage =
-          err instanceof Error ? err.message : "Unknown error";
-        return {
-          content: [
-            { type: "text", text: `Error executing tool: ${errorMessage}` },
-          ],
-          isError: true,
-        };
-      }
-    });
+  /**
+   * Adds the access policy of the authenticated HTTP caller, if any, to the
+   * shared tool context
+   */
+  private getRequestContext(extra: { authInfo?: AuthInfo }): ToolContext {
+    const policy = getAccessPolicy(extra.authInfo);
+    return policy ? { ...this.toolContext, policy } : this.toolContext;
   }
 
   private logClientState(context: string) {
-    info(
+    debug(
       `Discord client state [${context}]: ${JSON.stringify({
         isReady: this.client.isReady(),
         hasToken: !!this.client.token,
@@ -652,16 +429,26 @@ export class DiscordMCPServer {
   }
 
   async start() {
-    // Add client to server context so transport can access it
-    (this.server as any)._context = { client: this.client };
-    (this.server as any).client = this.client;
-
     // Setup periodic client state logging
     this.clientStatusInterval = setInterval(() => {
       this.logClientState("periodic check");
     }, 10000);
 
-    await this.transport.start(this.server);
+    // Apply CONFIG_FILE edits and SIGHUP reloads while running
+    configManager.startWatching();
+    this.unregisterBotMetrics = registerBotMetrics(this.bots);
+    await this.toolPipeline.initialize(this.client);
+    await getBulkOperationsService().initialize(
+      this.bots,
+      configManager.getConfig().BULK_OPERATIONS_DIR,
+    );
+
+    // The default bot is logged in by the entry point
+    this.bots.loginAdditionalBots().catch((err) => {
+      error(`Bot login failed: ${String(err)}`);
+    });
+
+    await this.transport.start(() => this.createSession());
   }
 
   async stop() {
@@ -671,6 +458,52 @@ export class DiscordMCPServer {
       this.clientStatusInterval = null;
     }
 
+    configManager.stopWatching();
+    this.unregisterBotMetrics?.();
+    this.unregisterBotMetrics = null;
+
+    // Closing the transport closes every session and its subscriptions
     await this.transport.stop();
+    await this.bots.destroyAdditionalBots();
+    await this.toolPipeline.shutdown();
+    await getBulkOperationsService().shutdown();
+    await flushSpans();
+  }
+}
+
+function firstHeaderValue(
+  value: string | string[] | undefined,
+): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Error responses end with the request ID, which is also in the logs and trace
+function withRequestId(
+  response: ToolResponse,
+  requestId: string,
+): ToolResponse {
+  const text = response.content[0]?.text ?? "";
+  if (text.includes(requestId)) return response;
+  return {
+    ...response,
+    content: [
+      { type: "text", text: `${text}\n\n**Request ID**: ${requestId}` },
+      ...response.content.slice(1),
+    ],
+  };
+}
+
+// MCP has finer levels than the logger; the extra ones map to the nearest
+function fromMcpLogLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case "debug":
+      return "debug";
+    case "info":
+    case "notice":
+      return "info";
+    case "warning":
+      return "warn";
+    default:
+      return "error";
   }
 }
@@ -11,9 +11,13 @@ import {
   GuildScheduledEvent,
   GuildScheduledEventCreateOptions,
   Message,
-  ChannelType,
 } from "discord.js";
 import { info, error } from "../logger.js";
+import {
+  gatherGuildBackup,
+  GuildBackup,
+  saveGuildBackup,
+} from "../guildBackup.js";
 import fs from "fs/promises";
 import path from "path";
 
@@ -590,13 +594,13 @@ export class AdvancedFeaturesService extends EventEmitter {
       }
 
       const backupData = await this.gatherBackupData(guild);
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const filename = `backup-${guild.name}-${timestamp}.json`;
+      const backupId = await saveGuildBackup(
+        this.config.backupConfig.backupPath,
+        backupData,
+      );
+      const filename = `${backupId}.json`;
       const filepath = path.join(this.config.backupConfig.backupPath, filename);
 
-      await fs.mkdir(this.config.backupConfig.backupPath, { recursive: true });
-      await fs.writeFile(filepath, JSON.stringify(backupData, null, 2));
-
       // Clean up old backups
       await this.cleanupOldBackups();
 
@@ -613,83 +617,11 @@ export class AdvancedFeaturesService extends EventEmitter {
   /**
    * Gather backup data from guild
    */
-  private async gatherBackupData(guild: Guild): Promise<any> {
-    const backupData: any = {
-      guildId: guild.id,
-      name: guild.name,
-      description: guild.description,
-      icon: guild.iconURL(),
-      banner: guild.bannerURL(),
-      createdAt: guild.createdAt,
-      backupTimestamp: new Date().toISOString(),
-      channels: [],
-      roles: [],
-      settings: {},
-    };
-
-    // Guild settings
-    if (this.config.backupConfig.includeSettings) {
-      backupData.settings = {
-        verificationLevel: guild.verificationLevel,
-        defaultMessageNotifications: guild.defaultMessageNotifications,
-        explicitContentFilter: guild.explicitContentFilter,
-        mfaLevel: guild.mfaLevel,
-        systemChannel: guild.systemChannelId,
-        rulesChannel: guild.rulesChannelId,
-        publicUpdatesChannel: guild.publicUpdatesChannelId,
-      };
-    }
-
-    // Channels
-    for (const channel of guild.channels.cache.values()) {
-      const channelData: any = {
-        id: channel.id,
-        name: channel.name,
-        type: channel.type,
-        position: (channel as any).position,
-        parentId: channel.parentId,
-      };
-
-      if (channel.type === ChannelType.GuildText) {
-        const textChannel = channel as any;
-        channelData.topic = textChannel.topic;
-        channelData.nsfw = textChannel.nsfw;
-        channelData.rateLimitPerUser = textChannel.rateLimitPerUser;
-      }
-
-      if (
-        this.config.backupConfig.includePermissions &&
-        (channel as any).permissionOverwrites
-      ) {
-        channelData.permissions = (
-          channel as any
-        ).permissionOverwrites.cache.map((overwrite: any) => ({
-          id: overwrite.id,
-          type: overwrite.type,
-          allow: overwrite.allow.toArray(),
-          deny: overwrite.deny.toArray(),
-        }));
-      }
-
-      backupData.channels.push(channelData);
-    }
-
-    // Roles
-    if (this.config.backupConfig.includePermissions) {
-      for (const role of guild.roles.cache.values()) {
-        backupData.roles.push({
-          id: role.id,
-          name: role.name,
-          color: role.hexColor,
-          hoist: role.hoist,
-          mentionable: role.mentionable,
-          position: role.position,
-          permissions: role.permissions.toArray(),
-        });
-      }
-    }
-
-    return backupData;
+  private async gatherBackupData(guild: Guild): Promise<GuildBackup> {
+    return gatherGuildBackup(guild, {
+      settings: this.config.backupConfig.includeSettings,
+      permissions: this.config.backupConfig.includePermissions,
+    });
   }
 
   /**
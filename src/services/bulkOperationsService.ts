@@ -12,21 +12,34 @@
  * - Rate limit management
  * - Error recovery and retry logic
  *
+ * getBulkOperationsService() is the instance behind the bulk operation tools.
+ * Operations run with the client of the bot named in their config.
+ *
+ * Running operations can be paused and resumed between batches. With a
+ * checkpoint directory, the items of every operation and the IDs of the items
+ * already processed are saved after each item. Operations that were still
+ * running when the process stopped are loaded as paused on the next start,
+ * and resuming them skips the processed items.
+ *
  * @author MCP Discord Team
  * @version 1.0.0
  * @since 1.4.0
  */
 
 import { EventEmitter } from "events";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
 import {
-  Client,
   Guild,
   TextChannel,
   GuildMember,
   Message,
   Collection,
 } from "discord.js";
-import { info, error } from "../logger.js";
+import { info, error, warn } from "../logger.js";
+import { BotPool } from "../botPool.js";
+import { DEFAULT_BOT_NAME } from "../config.js";
+import { BulkOperationCheckpointSchema } from "../schemas.js";
 
 /**
  * Bulk operation types
@@ -92,6 +105,7 @@ export interface BulkOperationConfig {
   id: string;
   type: BulkOperationType;
   guild_id: string;
+  bot: string;
   target_ids?: string[]; // Channel IDs, User IDs, etc.
   filters?: MessageFilter | MemberFilter;
   options?: Record<string, any>;
@@ -108,6 +122,10 @@ export interface BulkOperationConfig {
  */
 export interface OperationProgress {
   operation_id: string;
+  type: BulkOperationType;
+  guild_id: string;
+  bot: string;
+  dry_run: boolean;
   status: OperationStatus;
   total_items: number;
   processed_items: number;
@@ -123,6 +141,8 @@ export interface OperationProgress {
     error: string;
     timestamp: Date;
   }>;
+  // Set by dry runs: the messages or members a real run would act on
+  affected_ids?: string[];
 }
 
 /**
@@ -143,29 +163,58 @@ export interface BulkOperationResult {
   summary: Record<string, any>;
 }
 
+/**
+ * Saved state of an operation that has not finished. Items are resolved once,
+ * so a resumed operation acts on the same IDs.
+ */
+interface OperationCheckpoint {
+  config: BulkOperationConfig;
+  progress: OperationProgress;
+  item_ids: string[];
+  completed_ids: string[];
+}
+
+// Why an operation's controller was aborted
+type StopReason = "cancel" | "pause" | "shutdown";
+
 /**
  * Bulk Operations Service
  */
 export class BulkOperationsService extends EventEmitter {
-  private client: Client | null = null;
+  private bots: BotPool | null = null;
   private operations: Map<string, OperationProgress> = new Map();
   private runningOperations: Map<
     string,
     {
       config: BulkOperationConfig;
       controller: AbortController;
+      run: Promise<void>;
     }
   > = new Map();
+  private checkpoints: Map<string, OperationCheckpoint> = new Map();
+  // Checkpoint writes of each operation, queued so a newer state is never
+  // overwritten by an older one
+  private checkpointWrites: Map<string, Promise<void>> = new Map();
+  private checkpointDir: string | null = null;
 
   constructor() {
     super();
   }
 
   /**
-   * Initialize the bulk operations service
+   * Initialize the bulk operations service and load the operations that were
+   * interrupted by the last shutdown. Without a checkpoint directory,
+   * progress is kept in memory only.
    */
-  initialize(client: Client): void {
-    this.client = client;
+  async initialize(
+    bots: BotPool,
+    checkpointDir: string | null = null,
+  ): Promise<void> {
+    this.bots = bots;
+    this.checkpointDir = checkpointDir;
+    if (checkpointDir) {
+      await this.loadCheckpoints(checkpointDir);
+    }
     info("Bulk operations service initialized");
   }
 
@@ -181,12 +230,14 @@ export class BulkOperationsService extends EventEmitter {
       delay_ms?: number;
       dry_run?: boolean;
       created_by?: string;
+      bot?: string;
     },
   ): Promise<string> {
     const config: BulkOperationConfig = {
       id: `delete_messages_${Date.now()}`,
       type: BulkOperationType.DELETE_MESSAGES,
       guild_id: guildId,
+      bot: options?.bot || DEFAULT_BOT_NAME,
       target_ids: [channelId],
       filters: filter,
       batch_size: options?.batch_size || 50,
@@ -216,6 +267,7 @@ export class BulkOperationsService extends EventEmitter {
       delay_ms?: number;
       dry_run?: boolean;
       created_by?: string;
+      bot?: string;
     },
   ): Promise<string> {
     const type =
@@ -227,6 +279,7 @@ export class BulkOperationsService extends EventEmitter {
       id: `${action}_members_${Date.now()}`,
       type,
       guild_id: guildId,
+      bot: options?.bot || DEFAULT_BOT_NAME,
       target_ids: memberIds,
       filters: filter,
       batch_size: options?.batch_size || 10,
@@ -256,6 +309,7 @@ export class BulkOperationsService extends EventEmitter {
       delay_ms?: number;
       dry_run?: boolean;
       created_by?: string;
+      bot?: string;
     },
   ): Promise<string> {
     const type =
@@ -267,6 +321,7 @@ export class BulkOperationsService extends EventEmitter {
       id: `${action}_roles_${Date.now()}`,
       type,
       guild_id: guildId,
+      bot: options?.bot || DEFAULT_BOT_NAME,
       target_ids: memberIds,
       filters: filter,
       batch_size: options?.batch_size || 15,
@@ -295,12 +350,14 @@ export class BulkOperationsService extends EventEmitter {
       delay_ms?: number;
       dry_run?: boolean;
       created_by?: string;
+      bot?: string;
     },
   ): Promise<string> {
     const config: BulkOperationConfig = {
       id: `send_dms_${Date.now()}`,
       type: BulkOperationType.SEND_DMS,
       guild_id: guildId,
+      bot: options?.bot || DEFAULT_BOT_NAME,
       target_ids: memberIds,
       filters: filter,
       batch_size: options?.batch_size || 5, // Conservative for DMs
@@ -319,12 +376,16 @@ export class BulkOperationsService extends EventEmitter {
    * Start a bulk operation
    */
   private async startOperation(config: BulkOperationConfig): Promise<string> {
-    if (!this.client) {
+    if (!this.bots) {
       throw new Error("Bulk operations service not initialized");
     }
 
     const progress: OperationProgress = {
       operation_id: config.id,
+      type: config.type,
+      guild_id: config.guild_id,
+      bot: config.bot,
+      dry_run: config.dry_run,
       status: OperationStatus.PENDING,
       total_items: 0,
       processed_items: 0,
@@ -338,13 +399,22 @@ export class BulkOperationsService extends EventEmitter {
     };
 
     this.operations.set(config.id, progress);
+    this.runInBackground(config);
+
+    return config.id;
+  }
 
-    // Start operation in background
+  /**
+   * Run an operation, or continue it from a checkpoint, without awaiting it
+   */
+  private runInBackground(
+    config: BulkOperationConfig,
+    checkpoint?: OperationCheckpoint,
+  ): void {
     const controller = new AbortController();
-    this.runningOperations.set(config.id, { config, controller });
 
     // Don't await - run in background
-    this.executeOperation(config, controller.signal)
+    const run = this.executeOperation(config, controller.signal, checkpoint)
       .catch((err) => {
         error(`Bulk operation ${config.id} failed: ${err}`);
         this.updateProgress(config.id, { status: OperationStatus.FAILED });
@@ -352,8 +422,7 @@ export class BulkOperationsService extends EventEmitter {
       .finally(() => {
         this.runningOperations.delete(config.id);
       });
-
-    return config.id;
+    this.runningOperations.set(config.id, { config, controller, run });
   }
 
   /**
@@ -362,77 +431,94 @@ export class BulkOperationsService extends EventEmitter {
   private async executeOperation(
     config: BulkOperationConfig,
     signal: AbortSignal,
+    checkpoint?: OperationCheckpoint,
   ): Promise<void> {
     const startTime = Date.now();
 
     try {
       this.updateProgress(config.id, { status: OperationStatus.RUNNING });
 
-      const guild = await this.client!.guilds.fetch(config.guild_id);
+      const client = this.bots!.get(config.bot).client;
+      const guild = await client.guilds.fetch(config.guild_id);
       if (!guild) {
         throw new Error(`Guild ${config.guild_id} not found`);
       }
 
-      let items: any[] = [];
-
-      // Get items to process based on operation type
-      switch (config.type) {
-        case BulkOperationType.DELETE_MESSAGES:
-          items = await this.getMessagesToDelete(guild, config);
-          break;
-        case BulkOperationType.KICK_MEMBERS:
-        case BulkOperationType.BAN_MEMBERS:
-        case BulkOperationType.ADD_ROLES:
-        case BulkOperationType.REMOVE_ROLES:
-        case BulkOperationType.SEND_DMS:
-          items = await this.getMembersToProcess(guild, config);
-          break;
-        default:
-          throw new Error(`Unsupported operation type: ${config.type}`);
-      }
-
-      const totalBatches = Math.ceil(items.length / config.batch_size);
-
-      this.updateProgress(config.id, {
-        total_items: items.length,
-        total_batches: totalBatches,
-      });
+      const itemIds = checkpoint
+        ? checkpoint.item_ids
+        : await this.resolveItems(guild, config);
+      const totalBatches = Math.ceil(itemIds.length / config.batch_size);
 
       if (config.dry_run) {
         info(
-          `DRY RUN: Would process ${items.length} items in ${totalBatches} batches`,
+          `DRY RUN: Would process ${itemIds.length} items in ${totalBatches} batches`,
         );
         this.updateProgress(config.id, {
           status: OperationStatus.COMPLETED,
-          processed_items: items.length,
-          successful_items: items.length,
+          total_items: itemIds.length,
+          total_batches: totalBatches,
+          processed_items: itemIds.length,
+          successful_items: itemIds.length,
+          affected_ids: itemIds,
         });
         return;
       }
 
-      // Process items in batches
-      for (let i = 0; i < items.length; i += config.batch_size) {
+      this.updateProgress(config.id, {
+        total_items: itemIds.length,
+        total_batches: totalBatches,
+      });
+      const completedIds = new Set(checkpoint?.completed_ids);
+      if (!checkpoint) {
+        await this.saveCheckpoint(config, itemIds, completedIds);
+      }
+
+      // Process items in batches, skipping those completed before a pause
+      const remainingIds = itemIds.filter((id) => !completedIds.has(id));
+      const remainingBatches = Math.ceil(
+        remainingIds.length / config.batch_size,
+      );
+      const completedBatches = totalBatches - remainingBatches;
+      for (let batchIndex = 0; batchIndex < remainingBatches; batchIndex++) {
         if (signal.aborted) {
-          this.updateProgress(config.id, { status: OperationStatus.CANCELLED });
+          await this.stopOperation(
+            config,
+            signal.reason,
+            itemIds,
+            completedIds,
+          );
           return;
         }
 
-        const batch = items.slice(i, i + config.batch_size);
-        const batchNumber = Math.floor(i / config.batch_size) + 1;
-
-        this.updateProgress(config.id, { current_batch: batchNumber });
+        const batch = remainingIds.slice(
+          batchIndex * config.batch_size,
+          (batchIndex + 1) * config.batch_size,
+        );
+        this.updateProgress(config.id, {
+          current_batch: completedBatches + batchIndex + 1,
+        });
 
-        await this.processBatch(guild, config, batch);
+        await this.processBatch(guild, config, batch, async (itemId) => {
+          completedIds.add(itemId);
+          await this.saveCheckpoint(config, itemIds, completedIds);
+        });
 
-        // Delay between batches
-        if (i + config.batch_size < items.length) {
-          await this.sleep(config.delay_between_batches);
+        // Delay between batches; a pause, cancel or shutdown ends it early
+        if (batchIndex + 1 < remainingBatches) {
+          await this.sleep(config.delay_between_batches, signal);
         }
       }
 
+      // Cancelled while the last batch ran
+      if (signal.aborted && signal.reason === "cancel") {
+        await this.stopOperation(config, signal.reason, itemIds, completedIds);
+        return;
+      }
+
       const duration = Date.now() - startTime;
       const progress = this.operations.get(config.id)!;
 
+      await this.deleteCheckpoint(config.id);
       this.updateProgress(config.id, {
         status: OperationStatus.COMPLETED,
         processed_items: progress.successful_items + progress.failed_items,
@@ -449,37 +535,130 @@ export class BulkOperationsService extends EventEmitter {
       });
     } catch (err) {
       error(`Bulk operation ${config.id} execution failed: ${err}`);
+      this.operations.get(config.id)?.errors.push({
+        item_id: config.id,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date(),
+      });
+      await this.deleteCheckpoint(config.id);
       this.updateProgress(config.id, { status: OperationStatus.FAILED });
     }
   }
 
   /**
-   * Process a batch of items
+   * Get the IDs of the messages or members an operation acts on
+   */
+  private async resolveItems(
+    guild: Guild,
+    config: BulkOperationConfig,
+  ): Promise<string[]> {
+    let items: any[] = [];
+
+    // Get items to process based on operation type
+    switch (config.type) {
+      case BulkOperationType.DELETE_MESSAGES:
+        items = await this.getMessagesToDelete(guild, config);
+        break;
+      case BulkOperationType.KICK_MEMBERS:
+      case BulkOperationType.BAN_MEMBERS:
+      case BulkOperationType.ADD_ROLES:
+      case BulkOperationType.REMOVE_ROLES:
+      case BulkOperationType.SEND_DMS:
+        items = await this.getMembersToProcess(guild, config);
+        break;
+      default:
+        throw new Error(`Unsupported operation type: ${config.type}`);
+    }
+
+    if (
+      (config.type === BulkOperationType.ADD_ROLES ||
+        config.type === BulkOperationType.REMOVE_ROLES) &&
+      !guild.roles.cache.has(config.options?.role_id)
+    ) {
+      throw new Error(`Role ${config.options?.role_id} not found`);
+    }
+
+    // Skip items the operation would not change, e.g. members that
+    // already have the role or cannot be kicked
+    return items
+      .filter((item) => this.isActionable(guild, config, item))
+      .map((item) => item.id);
+  }
+
+  /**
+   * Record a stopped operation. A paused operation, or one stopped by a
+   * shutdown, keeps its checkpoint so it can be resumed.
+   */
+  private async stopOperation(
+    config: BulkOperationConfig,
+    reason: StopReason,
+    itemIds: string[],
+    completedIds: Set<string>,
+  ): Promise<void> {
+    if (reason === "cancel") {
+      await this.deleteCheckpoint(config.id);
+      this.updateProgress(config.id, { status: OperationStatus.CANCELLED });
+      return;
+    }
+    this.updateProgress(config.id, { status: OperationStatus.PAUSED });
+    await this.saveCheckpoint(config, itemIds, completedIds);
+  }
+
+  /**
+   * Check whether processing an item would change anything. Mirrors the
+   * checks in processItem.
+   */
+  private isActionable(
+    guild: Guild,
+    config: BulkOperationConfig,
+    item: any,
+  ): boolean {
+    switch (config.type) {
+      case BulkOperationType.DELETE_MESSAGES:
+        return (item as Message).deletable;
+      case BulkOperationType.KICK_MEMBERS:
+        return (item as GuildMember).kickable;
+      case BulkOperationType.BAN_MEMBERS:
+        return (item as GuildMember).bannable;
+      case BulkOperationType.ADD_ROLES:
+        return !(item as GuildMember).roles.cache.has(config.options?.role_id);
+      case BulkOperationType.REMOVE_ROLES:
+        return (item as GuildMember).roles.cache.has(config.options?.role_id);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Process a batch of items, calling onItemDone once each item succeeded or
+   * ran out of retries
    */
   private async processBatch(
     guild: Guild,
     config: BulkOperationConfig,
-    batch: any[],
+    batch: string[],
+    onItemDone: (itemId: string) => Promise<void>,
   ): Promise<void> {
-    const promises = batch.map(async (item) => {
+    const promises = batch.map(async (itemId) => {
       let retryCount = 0;
 
       while (retryCount < config.max_retries) {
         try {
-          await this.processItem(guild, config, item);
+          await this.processItem(guild, config, itemId);
           this.incrementSuccess(config.id);
-          return;
+          break;
         } catch (err) {
           retryCount++;
           if (retryCount >= config.max_retries) {
-            this.incrementFailure(config.id, item.id || item, err);
-            return;
+            this.incrementFailure(config.id, itemId, err);
+            break;
           }
 
           // Wait before retry
           await this.sleep(1000 * retryCount);
         }
       }
+      await onItemDone(itemId);
     });
 
     await Promise.allSettled(promises);
@@ -491,24 +670,25 @@ export class BulkOperationsService extends EventEmitter {
   private async processItem(
     guild: Guild,
     config: BulkOperationConfig,
-    item: any,
+    itemId: string,
   ): Promise<void> {
     switch (config.type) {
       case BulkOperationType.DELETE_MESSAGES:
-        if (item.deletable) {
-          await item.delete();
-        }
+        const channel = guild.channels.cache.get(
+          config.target_ids![0],
+        ) as TextChannel;
+        await channel.messages.delete(itemId);
         break;
 
       case BulkOperationType.KICK_MEMBERS:
-        const memberToKick = await guild.members.fetch(item.id);
+        const memberToKick = await guild.members.fetch(itemId);
         if (memberToKick.kickable) {
           await memberToKick.kick(config.options?.reason || "Bulk operation");
         }
         break;
 
       case BulkOperationType.BAN_MEMBERS:
-        const memberToBan = await guild.members.fetch(item.id);
+        const memberToBan = await guild.members.fetch(itemId);
         if (memberToBan.bannable) {
           await memberToBan.ban({
             reason: config.options?.reason || "Bulk operation",
@@ -518,7 +698,7 @@ export class BulkOperationsService extends EventEmitter {
         break;
 
       case BulkOperationType.ADD_ROLES:
-        const memberToAddRole = await guild.members.fetch(item.id);
+        const memberToAddRole = await guild.members.fetch(itemId);
         const roleToAdd = guild.roles.cache.get(config.options?.role_id);
         if (roleToAdd && !memberToAddRole.roles.cache.has(roleToAdd.id)) {
           await memberToAddRole.roles.add(
@@ -529,7 +709,7 @@ export class BulkOperationsService extends EventEmitter {
         break;
 
       case BulkOperationType.REMOVE_ROLES:
-        const memberToRemoveRole = await guild.members.fetch(item.id);
+        const memberToRemoveRole = await guild.members.fetch(itemId);
         const roleToRemove = guild.roles.cache.get(config.options?.role_id);
         if (
           roleToRemove &&
@@ -543,7 +723,7 @@ export class BulkOperationsService extends EventEmitter {
         break;
 
       case BulkOperationType.SEND_DMS:
-        const memberToDM = await guild.members.fetch(item.id);
+        const memberToDM = await guild.members.fetch(itemId);
         const dmOptions: any = { content: config.options?.message };
         if (config.options?.embed) {
           dmOptions.embeds = [config.options.embed];
@@ -832,6 +1012,108 @@ export class BulkOperationsService extends EventEmitter {
     }
   }
 
+  /**
+   * Save an unfinished operation. Written to a temporary file first so a
+   * crash never leaves a half-written checkpoint.
+   */
+  private saveCheckpoint(
+    config: BulkOperationConfig,
+    itemIds: string[],
+    completedIds: Set<string>,
+  ): Promise<void> {
+    const progress = this.operations.get(config.id);
+    if (!progress) return Promise.resolve();
+
+    const checkpoint: OperationCheckpoint = {
+      config,
+      progress,
+      item_ids: itemIds,
+      completed_ids: [...completedIds],
+    };
+    this.checkpoints.set(config.id, checkpoint);
+    const checkpointDir = this.checkpointDir;
+    if (!checkpointDir) return Promise.resolve();
+
+    const filePath = path.join(checkpointDir, `${config.id}.json`);
+    const write = (this.checkpointWrites.get(config.id) ?? Promise.resolve())
+      .then(async () => {
+        await mkdir(checkpointDir, { recursive: true });
+        await writeFile(`${filePath}.tmp`, JSON.stringify(checkpoint), {
+          mode: 0o600,
+        });
+        await rename(`${filePath}.tmp`, filePath);
+      })
+      .catch((err) => {
+        // The operation continues; only resuming after a restart is affected
+        warn(`Failed to save checkpoint of bulk operation ${config.id}`, {
+          error: err,
+        });
+      });
+    this.checkpointWrites.set(config.id, write);
+    return write;
+  }
+
+  /**
+   * Remove the checkpoint of a finished operation
+   */
+  private async deleteCheckpoint(operationId: string): Promise<void> {
+    this.checkpoints.delete(operationId);
+    if (!this.checkpointDir) return;
+
+    // A queued write would bring the file back
+    await this.checkpointWrites.get(operationId);
+    this.checkpointWrites.delete(operationId);
+
+    await rm(path.join(this.checkpointDir, `${operationId}.json`), {
+      force: true,
+    }).catch((err) =>
+      warn(`Failed to delete checkpoint of bulk operation ${operationId}`, {
+        error: err,
+      }),
+    );
+  }
+
+  /**
+   * Load saved operations as paused. Operations that were running when the
+   * process stopped continue after the last completed batch.
+   */
+  private async loadCheckpoints(checkpointDir: string): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(checkpointDir);
+    } catch {
+      return; // Nothing saved yet
+    }
+
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      try {
+        const checkpoint = BulkOperationCheckpointSchema.parse(
+          JSON.parse(await readFile(path.join(checkpointDir, file), "utf8")),
+        ) as OperationCheckpoint;
+        const progress = checkpoint.progress;
+        progress.status = OperationStatus.PAUSED;
+
+        this.operations.set(progress.operation_id, progress);
+        this.checkpoints.set(progress.operation_id, checkpoint);
+      } catch (err) {
+        warn(`Failed to load bulk operation checkpoint ${file}`, {
+          error: err,
+        });
+      }
+    }
+
+    if (this.checkpoints.size > 0) {
+      info(`Loaded ${this.checkpoints.size} paused bulk operation(s)`);
+    }
+  }
+
+  /**
+   * Get the progress of an operation
+   */
+  getOperation(operationId: string): OperationProgress | undefined {
+    return this.operations.get(operationId);
+  }
+
   /**
    * Get all operations
    */
@@ -840,18 +1122,54 @@ export class BulkOperationsService extends EventEmitter {
   }
 
   /**
-   * Cancel a running operation
+   * Cancel a running or paused operation
    */
   cancelOperation(operationId: string): boolean {
     const running = this.runningOperations.get(operationId);
     if (running) {
-      running.controller.abort();
+      running.controller.abort("cancel" satisfies StopReason);
+      this.updateProgress(operationId, { status: OperationStatus.CANCELLED });
+      return true;
+    }
+    if (this.operations.get(operationId)?.status === OperationStatus.PAUSED) {
       this.updateProgress(operationId, { status: OperationStatus.CANCELLED });
+      void this.deleteCheckpoint(operationId);
       return true;
     }
     return false;
   }
 
+  /**
+   * Pause a running operation once its current batch is done. Resolves when
+   * the operation has stopped.
+   */
+  async pauseOperation(operationId: string): Promise<boolean> {
+    const running = this.runningOperations.get(operationId);
+    if (!running || running.config.dry_run) {
+      return false;
+    }
+    running.controller.abort("pause" satisfies StopReason);
+    await running.run;
+    return true;
+  }
+
+  /**
+   * Resume a paused operation after its last completed batch
+   */
+  resumeOperation(operationId: string): boolean {
+    const checkpoint = this.checkpoints.get(operationId);
+    if (
+      !this.bots ||
+      !checkpoint ||
+      this.runningOperations.has(operationId) ||
+      this.operations.get(operationId)?.status !== OperationStatus.PAUSED
+    ) {
+      return false;
+    }
+    this.runInBackground(checkpoint.config, checkpoint);
+    return true;
+  }
+
   /**
    * Clean up completed operations
    */
@@ -875,25 +1193,44 @@ export class BulkOperationsService extends EventEmitter {
   }
 
   /**
-   * Sleep utility
+   * Sleep utility, ended early when the signal is aborted
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) return resolve();
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener("abort", done, { once: true });
+    });
   }
 
   /**
-   * Shutdown the service
+   * Shutdown the service. Running operations stop after their current batch
+   * and are saved as paused, so they can be resumed after the next start.
    */
-  shutdown(): void {
-    // Cancel all running operations
-    for (const [id, operation] of this.runningOperations.entries()) {
-      operation.controller.abort();
-      this.updateProgress(id, { status: OperationStatus.CANCELLED });
+  async shutdown(): Promise<void> {
+    const running = [...this.runningOperations.values()];
+    for (const operation of running) {
+      operation.controller.abort("shutdown" satisfies StopReason);
     }
-
-    this.operations.clear();
-    this.runningOperations.clear();
+    await Promise.all(running.map((operation) => operation.run));
 
     info("Bulk operations service shutdown complete");
   }
 }
+
+let sharedBulkOperationsService: BulkOperationsService | null = null;
+
+/**
+ * Shared instance used by the bulk operation tools
+ */
+export function getBulkOperationsService(): BulkOperationsService {
+  if (!sharedBulkOperationsService) {
+    sharedBulkOperationsService = new BulkOperationsService();
+  }
+  return sharedBulkOperationsService;
+}
@@ -11,8 +11,15 @@ import { info, error } from "../logger.js";
 // Import all services
 import { DiscordRateLimiter } from "./rateLimiter.js";
 import { SecurityService, SecurityEventType } from "./securityService.js";
-import { MonitoringService, MetricType } from "./monitoringService.js";
-import { ErrorHandlingService } from "./errorHandlingService.js";
+import {
+  getMonitoringService,
+  MonitoringService,
+  MetricType,
+} from "./monitoringService.js";
+import {
+  categorizeError,
+  ErrorHandlingService,
+} from "./errorHandlingService.js";
 import {
   AdvancedFeaturesService,
   AutoModerationRuleType,
@@ -38,7 +45,9 @@ interface EnterpriseConfig {
   security: {
     enabled: boolean;
     auditLogging: boolean;
+    auditLogPath?: string;
     ipWhitelisting: boolean;
+    ipWhitelist?: string[];
     adminUserIds: string[];
   };
 
@@ -52,6 +61,8 @@ interface EnterpriseConfig {
     enabled: boolean;
     enableRetry: boolean;
     enableCircuitBreaker: boolean;
+    // Calls running longer fail with "Operation timeout"
+    timeoutMs?: number;
   };
 
   advancedFeatures: {
@@ -69,6 +80,17 @@ interface EnterpriseConfig {
   };
 }
 
+/**
+ * Caller of a tool, as far as the transport knows it
+ */
+export interface ToolExecutionContext {
+  userId?: string;
+  guildId?: string;
+  channelId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 /**
  * Service health status
  */
@@ -96,6 +118,7 @@ export class EnterpriseIntegrationService extends EventEmitter {
 
   private healthStatus: Map<string, ServiceHealth> = new Map();
   private healthCheckInterval: NodeJS.Timeout | null = null;
+  private metricGaugeRemovers: (() => void)[] = [];
   private isInitialized = false;
 
   constructor(config: Partial<EnterpriseConfig> = {}) {
@@ -177,6 +200,12 @@ export class EnterpriseIntegrationService extends EventEmitter {
           enableAuditLogging: this.config.security.auditLogging,
           enableIpWhitelisting: this.config.security.ipWhitelisting,
           adminUserIds: this.config.security.adminUserIds,
+          ...(this.config.security.auditLogPath && {
+            auditLogPath: this.config.security.auditLogPath,
+          }),
+          ...(this.config.security.ipWhitelist && {
+            ipWhitelist: this.config.security.ipWhitelist,
+          }),
         });
 
         this.setupSecurityEvents();
@@ -185,10 +214,8 @@ export class EnterpriseIntegrationService extends EventEmitter {
 
       // Initialize Monitoring Service
       if (this.config.monitoring.enabled || this.config.enableAllFeatures) {
-        this.services.monitoring = new MonitoringService({
-          metricsRetention: this.config.monitoring.metricsRetention,
-          healthCheckInterval: this.config.monitoring.healthCheckInterval,
-        });
+        // The shared instance, so tool metrics reach /metrics
+        this.services.monitoring = getMonitoringService();
 
         this.setupMonitoringEvents();
         info("✓ Monitoring Service initialized");
@@ -199,6 +226,15 @@ export class EnterpriseIntegrationService extends EventEmitter {
         this.services.errorHandling = new ErrorHandlingService({
           enableRetry: this.config.errorHandling.enableRetry,
           enableCircuitBreaker: this.config.errorHandling.enableCircuitBreaker,
+          ...(this.config.errorHandling.timeoutMs && {
+            circuitBreakerConfig: {
+              failureThreshold: 5,
+              successThreshold: 3,
+              timeoutMs: this.config.errorHandling.timeoutMs,
+              resetTimeoutMs: 60000,
+              monitoringWindowMs: 300000,
+            },
+          }),
         });
 
         this.setupErrorHandlingEvents();
@@ -256,38 +292,22 @@ export class EnterpriseIntegrationService extends EventEmitter {
   }
 
   /**
-   * Execute tool with full enterprise features
+   * Execute tool with full enterprise features. Runs the enabled stages in
+   * order: audit log, IP allowlist, rate limiter, circuit breaker and retry,
+   * then records the call's metrics. Responses with `isError` count as
+   * failed calls in the metrics.
    */
   async executeToolWithEnterpriseFeatures<T>(
     toolName: string,
     parameters: Record<string, any>,
-    context: {
-      userId?: string;
-      guildId?: string;
-      channelId?: string;
-      ipAddress?: string;
-      userAgent?: string;
-    },
+    context: ToolExecutionContext,
     toolExecutor: () => Promise<T>,
   ): Promise<T> {
-    const operationId = `${toolName}_${Date.now()}`;
+    const startedAt = Date.now();
 
     try {
-      // Start monitoring
-      if (this.services.monitoring) {
-        this.services.monitoring.startTimer(operationId);
-        this.services.monitoring.recordToolUsage(
-          toolName,
-          context.userId,
-          context.guildId,
-          true,
-        );
-      }
-
-      // Security validation
-      if (this.services.security && context.userId && context.guildId) {
-        // This would include permission validation based on the tool requirements
-        // For now, we'll just log the access
+      // Audit log of every call
+      if (this.services.security && this.config.security.auditLogging) {
         await this.services.security.logSecurityEvent(
           SecurityEventType.ADMIN_ACTION,
           {
@@ -316,7 +336,7 @@ export class EnterpriseIntegrationService extends EventEmitter {
         }
       }
 
-      // Rate limiting with error handling
+      // Rate limiting with error handling; circuit breakers are per tool
       let result: T;
 
       if (this.services.rateLimiter && this.services.errorHandling) {
@@ -325,7 +345,7 @@ export class EnterpriseIntegrationService extends EventEmitter {
           "POST",
           async () => {
             return await this.services.errorHandling!.executeWithErrorHandling(
-              operationId,
+              toolName,
               toolExecutor,
               context,
             );
@@ -343,7 +363,7 @@ export class EnterpriseIntegrationService extends EventEmitter {
         );
       } else if (this.services.errorHandling) {
         result = await this.services.errorHandling.executeWithErrorHandling(
-          operationId,
+          toolName,
           toolExecutor,
           context,
         );
@@ -353,12 +373,12 @@ export class EnterpriseIntegrationService extends EventEmitter {
 
       // Record success metrics
       if (this.services.monitoring) {
-        this.services.monitoring.endTimer(operationId);
-        this.services.monitoring.recordMetric(
-          `${toolName}_success`,
-          MetricType.COUNTER,
-          1,
-          { tool: toolName },
+        this.services.monitoring.recordToolUsage(
+          toolName,
+          context.userId,
+          context.guildId,
+          !isErrorResult(result),
+          Date.now() - startedAt,
         );
       }
 
@@ -366,26 +386,21 @@ export class EnterpriseIntegrationService extends EventEmitter {
     } catch (err) {
       // Record failure metrics
       if (this.services.monitoring) {
-        this.services.monitoring.endTimer(operationId);
         this.services.monitoring.recordToolUsage(
           toolName,
           context.userId,
           context.guildId,
           false,
+          Date.now() - startedAt,
         );
-        this.services.monitoring.recordMetric(
-          `${toolName}_error`,
-          MetricType.COUNTER,
-          1,
-          {
-            tool: toolName,
-            error: err instanceof Error ? err.name : "Unknown",
-          },
+        this.services.monitoring.recordError(
+          categorizeError(err instanceof Error ? err : new Error(String(err)))
+            .category,
         );
       }
 
       // Security logging for failures
-      if (this.services.security) {
+      if (this.services.security && this.config.security.auditLogging) {
         await this.services.security.logSecurityEvent(
           SecurityEventType.SECURITY_VIOLATION,
           {
@@ -570,21 +585,25 @@ export class EnterpriseIntegrationService extends EventEmitter {
    * Setup cross-service integrations
    */
   private setupServiceIntegrations(): void {
-    // Rate limiter metrics to monitoring
+    // Rate limiter metrics to monitoring, sampled on every scrape
     if (this.services.rateLimiter && this.services.monitoring) {
-      setInterval(() => {
-        const metrics = this.services.rateLimiter!.getMetrics();
-        this.services.monitoring!.recordMetric(
-          "rate_limiter_queue_size",
-          MetricType.GAUGE,
-          metrics.queueSize,
-        );
-        this.services.monitoring!.recordMetric(
-          "rate_limiter_active_requests",
-          MetricType.GAUGE,
-          metrics.activeRequests,
-        );
-      }, 30000); // Every 30 seconds
+      const rateLimiter = this.services.rateLimiter;
+      this.metricGaugeRemovers.push(
+        this.services.monitoring.registerGauge({
+          name: "rate_limiter_queue_depth",
+          help: "Requests waiting in the enterprise rate limiter queue",
+          collect: () => [
+            { labels: {}, value: rateLimiter.getMetrics().queueSize },
+          ],
+        }),
+        this.services.monitoring.registerGauge({
+          name: "rate_limiter_active_requests",
+          help: "Requests the enterprise rate limiter is executing",
+          collect: () => [
+            { labels: {}, value: rateLimiter.getMetrics().activeRequests },
+          ],
+        }),
+      );
     }
 
     // Security events to monitoring
@@ -808,6 +827,13 @@ export class EnterpriseIntegrationService extends EventEmitter {
     };
   }
 
+  /**
+   * Get the rate limiter metrics, or null when rate limiting is disabled
+   */
+  getRateLimiterMetrics(): ReturnType<DiscordRateLimiter["getMetrics"]> | null {
+    return this.services.rateLimiter?.getMetrics() ?? null;
+  }
+
   /**
    * Shutdown all services
    */
@@ -832,11 +858,9 @@ export class EnterpriseIntegrationService extends EventEmitter {
       shutdownPromises.push(Promise.resolve(this.services.security.shutdown()));
     }
 
-    if (this.services.monitoring) {
-      shutdownPromises.push(
-        Promise.resolve(this.services.monitoring.shutdown()),
-      );
-    }
+    // The shared monitoring service outlives this service
+    this.metricGaugeRemovers.forEach((remove) => remove());
+    this.metricGaugeRemovers = [];
 
     if (this.services.errorHandling) {
       shutdownPromises.push(
@@ -865,3 +889,12 @@ export class EnterpriseIntegrationService extends EventEmitter {
     info("✅ Enterprise Integration Service shutdown complete");
   }
 }
+
+// Tool handlers report most failures as responses instead of throwing
+function isErrorResult(result: unknown): boolean {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    (result as { isError?: unknown }).isError === true
+  );
+}
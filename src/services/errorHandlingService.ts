@@ -263,108 +263,7 @@ export class ErrorHandlingService extends EventEmitter {
    * Categorize error based on type and characteristics
    */
   categorizeError(err: Error, context?: Record<string, any>): CategorizedError {
-    const errorMessage = err.message.toLowerCase();
-    const errorCode = (err as any).code;
-
-    let category = ErrorCategory.SYSTEM;
-    let severity = ErrorSeverity.MEDIUM;
-    let isRetryable = false;
-    let suggestedAction: string | undefined;
-
-    // Discord API specific errors
-    if (errorCode === 50001 || errorMessage.includes("missing access")) {
-      category = ErrorCategory.PERMISSION;
-      severity = ErrorSeverity.HIGH;
-      isRetryable = false;
-      suggestedAction = "Check bot permissions and server membership";
-    } else if (
-      errorCode === 50013 ||
-      errorMessage.includes("missing permissions")
-    ) {
-      category = ErrorCategory.PERMISSION;
-      severity = ErrorSeverity.HIGH;
-      isRetryable = false;
-      suggestedAction = "Grant required permissions to the bot";
-    } else if (errorCode === 10004 || errorMessage.includes("unknown guild")) {
-      category = ErrorCategory.UNKNOWN_RESOURCE;
-      severity = ErrorSeverity.HIGH;
-      isRetryable = false;
-      suggestedAction = "Verify guild ID and bot membership";
-    } else if (
-      errorCode === 10008 ||
-      errorMessage.includes("unknown message")
-    ) {
-      category = ErrorCategory.UNKNOWN_RESOURCE;
-      severity = ErrorSeverity.MEDIUM;
-      isRetryable = false;
-      suggestedAction = "Verify message ID and channel access";
-    } else if (errorCode === 429 || errorMessage.includes("rate limit")) {
-      category = ErrorCategory.RATE_LIMIT;
-      severity = ErrorSeverity.MEDIUM;
-      isRetryable = true;
-      suggestedAction = "Reduce request frequency";
-    } else if (errorCode === 401 || errorMessage.includes("unauthorized")) {
-      category = ErrorCategory.AUTHENTICATION;
-      severity = ErrorSeverity.CRITICAL;
-      isRetryable = false;
-      suggestedAction = "Check bot token validity";
-    } else if (errorCode === 403 || errorMessage.includes("forbidden")) {
-      category = ErrorCategory.PERMISSION;
-      severity = ErrorSeverity.HIGH;
-      isRetryable = false;
-      suggestedAction = "Review bot permissions and server settings";
-    }
-
-    // Network errors
-    else if (
-      errorMessage.includes("network") ||
-      errorMessage.includes("connection") ||
-      errorMessage.includes("timeout")
-    ) {
-      category = ErrorCategory.NETWORK;
-      severity = ErrorSeverity.MEDIUM;
-      isRetryable = true;
-      suggestedAction = "Check network connectivity";
-    }
-
-    // Server errors (5xx)
-    else if (
-      errorMessage.includes("server error") ||
-      errorMessage.includes("internal error")
-    ) {
-      category = ErrorCategory.SERVER_ERROR;
-      severity = ErrorSeverity.HIGH;
-      isRetryable = true;
-      suggestedAction = "Retry after a short delay";
-    }
-
-    // Validation errors
-    else if (
-      errorMessage.includes("invalid") ||
-      errorMessage.includes("validation")
-    ) {
-      category = ErrorCategory.VALIDATION;
-      severity = ErrorSeverity.MEDIUM;
-      isRetryable = false;
-      suggestedAction = "Check input parameters";
-    }
-
-    // Timeout errors
-    else if (errorMessage.includes("timeout")) {
-      category = ErrorCategory.TIMEOUT;
-      severity = ErrorSeverity.MEDIUM;
-      isRetryable = true;
-      suggestedAction = "Increase timeout or retry";
-    }
-
-    return {
-      original: err,
-      category,
-      severity,
-      isRetryable,
-      suggestedAction,
-      context,
-    };
+    return categorizeError(err, context);
   }
 
   /**
@@ -639,3 +538,122 @@ export class ErrorHandlingService extends EventEmitter {
     info("Error handling service shutdown complete");
   }
 }
+
+/**
+ * Categorize error based on type and characteristics
+ */
+export function categorizeError(
+  err: Error,
+  context?: Record<string, any>,
+): CategorizedError {
+  const errorMessage = err.message.toLowerCase();
+  const errorCode = (err as any).code;
+
+  let category = ErrorCategory.SYSTEM;
+  let severity = ErrorSeverity.MEDIUM;
+  let isRetryable = false;
+  let suggestedAction: string | undefined;
+
+  // Tool arguments rejected by their schema
+  if (err.name === "ZodError") {
+    category = ErrorCategory.VALIDATION;
+    severity = ErrorSeverity.LOW;
+    isRetryable = false;
+    suggestedAction = "Check input parameters";
+  }
+
+  // Discord API specific errors
+  else if (errorCode === 50001 || errorMessage.includes("missing access")) {
+    category = ErrorCategory.PERMISSION;
+    severity = ErrorSeverity.HIGH;
+    isRetryable = false;
+    suggestedAction = "Check bot permissions and server membership";
+  } else if (
+    errorCode === 50013 ||
+    errorMessage.includes("missing permissions")
+  ) {
+    category = ErrorCategory.PERMISSION;
+    severity = ErrorSeverity.HIGH;
+    isRetryable = false;
+    suggestedAction = "Grant required permissions to the bot";
+  } else if (errorCode === 10004 || errorMessage.includes("unknown guild")) {
+    category = ErrorCategory.UNKNOWN_RESOURCE;
+    severity = ErrorSeverity.HIGH;
+    isRetryable = false;
+    suggestedAction = "Verify guild ID and bot membership";
+  } else if (
+    errorCode === 10008 ||
+    errorMessage.includes("unknown message")
+  ) {
+    category = ErrorCategory.UNKNOWN_RESOURCE;
+    severity = ErrorSeverity.MEDIUM;
+    isRetryable = false;
+    suggestedAction = "Verify message ID and channel access";
+  } else if (errorCode === 429 || errorMessage.includes("rate limit")) {
+    category = ErrorCategory.RATE_LIMIT;
+    severity = ErrorSeverity.MEDIUM;
+    isRetryable = true;
+    suggestedAction = "Reduce request frequency";
+  } else if (errorCode === 401 || errorMessage.includes("unauthorized")) {
+    category = ErrorCategory.AUTHENTICATION;
+    severity = ErrorSeverity.CRITICAL;
+    isRetryable = false;
+    suggestedAction = "Check bot token validity";
+  } else if (errorCode === 403 || errorMessage.includes("forbidden")) {
+    category = ErrorCategory.PERMISSION;
+    severity = ErrorSeverity.HIGH;
+    isRetryable = false;
+    suggestedAction = "Review bot permissions and server settings";
+  }
+
+  // Network errors
+  else if (
+    errorMessage.includes("network") ||
+    errorMessage.includes("connection") ||
+    errorMessage.includes("timeout")
+  ) {
+    category = ErrorCategory.NETWORK;
+    severity = ErrorSeverity.MEDIUM;
+    isRetryable = true;
+    suggestedAction = "Check network connectivity";
+  }
+
+  // Server errors (5xx)
+  else if (
+    errorMessage.includes("server error") ||
+    errorMessage.includes("internal error")
+  ) {
+    category = ErrorCategory.SERVER_ERROR;
+    severity = ErrorSeverity.HIGH;
+    isRetryable = true;
+    suggestedAction = "Retry after a short delay";
+  }
+
+  // Validation errors
+  else if (
+    errorMessage.includes("invalid") ||
+    errorMessage.includes("validation")
+  ) {
+    category = ErrorCategory.VALIDATION;
+    severity = ErrorSeverity.MEDIUM;
+    isRetryable = false;
+    suggestedAction = "Check input parameters";
+  }
+
+  // Timeout errors
+  else if (errorMessage.includes("timeout")) {
+    category = ErrorCategory.TIMEOUT;
+    severity = ErrorSeverity.MEDIUM;
+    isRetryable = true;
+    suggestedAction = "Increase timeout or retry";
+  }
+
+  return {
+    original: err,
+    category,
+    severity,
+    isRetryable,
+    suggestedAction,
+    context,
+  };
+}
@@ -10,7 +10,7 @@
  * - Resource monitoring (memory, CPU, connections)
  * - Automated alerting and notification system
  * - Circuit breaker status monitoring
- * - Historical metrics storage and analysis
+ * - Historical metrics storage and analysis, in the shared MonitoringService
  *
  * @author MCP Discord Team
  * @version 1.0.0
@@ -20,6 +20,14 @@
 import { EventEmitter } from "events";
 import { Client } from "discord.js";
 import { info, error } from "../logger.js";
+import {
+  getMonitoringService,
+  Metric,
+  MetricType,
+  MonitoringService,
+} from "./monitoringService.js";
+
+export { MetricType };
 
 /**
  * Health status enumeration
@@ -31,16 +39,6 @@ export enum HealthStatus {
   UNKNOWN = "unknown",
 }
 
-/**
- * Metric types for different measurements
- */
-export enum MetricType {
-  COUNTER = "counter",
-  GAUGE = "gauge",
-  HISTOGRAM = "histogram",
-  TIMING = "timing",
-}
-
 /**
  * Alert severity levels
  */
@@ -102,13 +100,7 @@ export interface DiscordHealth {
 /**
  * Performance metric data point
  */
-interface MetricPoint {
-  name: string;
-  type: MetricType;
-  value: number;
-  timestamp: number;
-  labels?: Record<string, string>;
-}
+type MetricPoint = Metric;
 
 /**
  * Alert configuration
@@ -143,13 +135,15 @@ export class HealthMonitoringService extends EventEmitter {
   private client: Client | null = null;
   private isMonitoring: boolean = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
-  private metricsHistory: MetricPoint[] = [];
   private healthHistory: ServiceHealth[] = [];
   private alerts: AlertConfig[] = [];
   private alertCooldowns: Map<string, number> = new Map();
   private startTime: number = Date.now();
 
-  constructor(config?: Partial<HealthCheckConfig>) {
+  constructor(
+    config?: Partial<HealthCheckConfig>,
+    private monitoring: MonitoringService = getMonitoringService(),
+  ) {
     super();
 
     this.config = {
@@ -471,11 +465,12 @@ export class HealthMonitoringService extends EventEmitter {
     }
 
     // Store metrics
-    this.metricsHistory.unshift(...metrics);
-    if (this.metricsHistory.length > this.config.max_metric_history) {
-      this.metricsHistory = this.metricsHistory.slice(
-        0,
-        this.config.max_metric_history,
+    for (const metric of metrics) {
+      this.monitoring.recordMetric(
+        metric.name,
+        metric.type,
+        metric.value,
+        metric.labels,
       );
     }
 
@@ -565,8 +560,8 @@ export class HealthMonitoringService extends EventEmitter {
    */
   private async checkAlerts(healthChecks: ServiceHealth[]): Promise<void> {
     const currentTime = Date.now();
-    const recentMetrics = this.metricsHistory.filter(
-      (m) => currentTime - m.timestamp < 300000, // Last 5 minutes
+    const recentMetrics = this.monitoring.getMetricHistory(
+      currentTime - 300000, // Last 5 minutes
     );
 
     for (const alert of this.alerts) {
@@ -735,9 +730,7 @@ export class HealthMonitoringService extends EventEmitter {
     summary: Record<string, any>;
   } {
     const cutoff = Date.now() - timespan_minutes * 60 * 1000;
-    const recentMetrics = this.metricsHistory.filter(
-      (m) => m.timestamp > cutoff,
-    );
+    const recentMetrics = this.monitoring.getMetricHistory(cutoff);
 
     // Calculate summary statistics
     const summary: Record<string, any> = {};
@@ -833,14 +826,7 @@ export class HealthMonitoringService extends EventEmitter {
       labels,
     };
 
-    this.metricsHistory.unshift(metric);
-    if (this.metricsHistory.length > this.config.max_metric_history) {
-      this.metricsHistory = this.metricsHistory.slice(
-        0,
-        this.config.max_metric_history,
-      );
-    }
-
+    this.monitoring.recordMetric(name, type, value, labels);
     this.emit("metric_recorded", metric);
   }
 
@@ -848,7 +834,7 @@ export class HealthMonitoringService extends EventEmitter {
    * Clear metrics history
    */
   clearMetrics(): void {
-    this.metricsHistory = [];
+    this.monitoring.clearMetricHistory();
     this.healthHistory = [];
     info("Metrics history cleared");
   }
@@ -1,12 +1,15 @@
 /**
  * @fileoverview Comprehensive Monitoring & Analytics Service
  * @description Provides real-time monitoring, performance analytics, health checks,
- * and usage statistics for the Discord MCP Server
+ * and usage statistics for the Discord MCP Server. The shared instance from
+ * getMonitoringService() is the single metrics store of the process and is
+ * served in Prometheus text format at the HTTP transport's /metrics route.
  */
 
 import { EventEmitter } from "events";
 import { Client } from "discord.js";
-import { info, error } from "../logger.js";
+import { info, error, debug } from "../logger.js";
+import { ErrorCategory } from "./errorHandlingService.js";
 import fs from "fs/promises";
 import path from "path";
 
@@ -23,7 +26,7 @@ export enum MetricType {
 /**
  * Metric data structure
  */
-interface Metric {
+export interface Metric {
   name: string;
   type: MetricType;
   value: number;
@@ -63,6 +66,24 @@ interface UsageStats {
   responseTimesMs: Map<string, PerformanceSample[]>;
 }
 
+/**
+ * Cumulative latency histogram of one tool
+ */
+interface LatencyHistogram {
+  bucketCounts: number[];
+  sumSeconds: number;
+  count: number;
+}
+
+/**
+ * Gauge sampled when metrics are scraped, e.g. Discord gateway ping
+ */
+export interface GaugeCollector {
+  name: string;
+  help: string;
+  collect: () => { labels: Record<string, string>; value: number }[];
+}
+
 /**
  * Monitoring configuration
  */
@@ -82,6 +103,14 @@ interface MonitoringConfig {
   metricsPath: string;
 }
 
+// Upper bounds of the tool latency histogram buckets, in seconds
+const LATENCY_BUCKETS_SECONDS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// Prefix of every metric name in the Prometheus output
+const METRIC_PREFIX = "mcp_discord_";
+
 /**
  * Comprehensive Monitoring Service
  */
@@ -93,7 +122,11 @@ export class MonitoringService extends EventEmitter {
   private performanceTimers: Map<string, number> = new Map();
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private metricsCleanupInterval: NodeJS.Timeout | null = null;
+  private systemMetricsInterval: NodeJS.Timeout | null = null;
   private startTime: number = Date.now();
+  private toolLatency: Map<string, LatencyHistogram> = new Map();
+  private errorCategories: Map<ErrorCategory, number> = new Map();
+  private gaugeCollectors: Set<GaugeCollector> = new Set();
 
   constructor(config: Partial<MonitoringConfig> = {}) {
     super();
@@ -164,7 +197,7 @@ export class MonitoringService extends EventEmitter {
     // Emit alert if threshold exceeded
     this.checkAlertThresholds(name, value, type);
 
-    info(`Metric recorded: ${name}=${value}${unit ? unit : ""} (${type})`);
+    debug(`Metric recorded: ${name}=${value}${unit ? unit : ""} (${type})`);
   }
 
   /**
@@ -200,16 +233,22 @@ export class MonitoringService extends EventEmitter {
   }
 
   /**
-   * Record tool usage
+   * Record tool usage; the duration is added to the tool's latency histogram
    */
   recordToolUsage(
     toolName: string,
     userId?: string,
     guildId?: string,
     success: boolean = true,
+    durationMs?: number,
   ): void {
     if (!this.config.enableUsageStats) return;
 
+    if (durationMs !== undefined) {
+      this.observeToolLatency(toolName, durationMs);
+      this.recordResponseTime(toolName, durationMs);
+    }
+
     // Count tool calls
     const currentCount = this.usageStats.toolCalls.get(toolName) || 0;
     this.usageStats.toolCalls.set(toolName, currentCount + 1);
@@ -240,6 +279,59 @@ export class MonitoringService extends EventEmitter {
     });
   }
 
+  /**
+   * Count an error by category
+   */
+  recordError(category: ErrorCategory): void {
+    const count = this.errorCategories.get(category) || 0;
+    this.errorCategories.set(category, count + 1);
+  }
+
+  /**
+   * Register a gauge sampled on every scrape. Returns a function that
+   * removes it again.
+   */
+  registerGauge(collector: GaugeCollector): () => void {
+    this.gaugeCollectors.add(collector);
+    return () => this.gaugeCollectors.delete(collector);
+  }
+
+  /**
+   * Recorded metrics since the given time, newest first
+   */
+  getMetricHistory(since: number = 0): Metric[] {
+    return Array.from(this.metrics.values())
+      .flat()
+      .filter((metric) => metric.timestamp > since)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Drop the recorded metric history; counters and histograms are kept
+   */
+  clearMetricHistory(): void {
+    this.metrics.clear();
+  }
+
+  private observeToolLatency(toolName: string, durationMs: number): void {
+    let histogram = this.toolLatency.get(toolName);
+    if (!histogram) {
+      histogram = {
+        bucketCounts: LATENCY_BUCKETS_SECONDS.map(() => 0),
+        sumSeconds: 0,
+        count: 0,
+      };
+      this.toolLatency.set(toolName, histogram);
+    }
+
+    const seconds = durationMs / 1000;
+    LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+      if (seconds <= bound) histogram.bucketCounts[index]++;
+    });
+    histogram.sumSeconds += seconds;
+    histogram.count++;
+  }
+
   /**
    * Record response time for performance analysis
    */
@@ -584,6 +676,102 @@ export class MonitoringService extends EventEmitter {
     };
   }
 
+  /**
+   * Render the metrics in the Prometheus text exposition format
+   */
+  getPrometheusMetrics(): string {
+    const lines: string[] = [];
+    const families = new Set<string>();
+    const family = (name: string, type: string, help: string) => {
+      families.add(name);
+      lines.push(`# HELP ${METRIC_PREFIX}${name} ${help}`);
+      lines.push(`# TYPE ${METRIC_PREFIX}${name} ${type}`);
+    };
+    const sample = (
+      name: string,
+      labels: Record<string, string>,
+      value: number,
+    ) => {
+      lines.push(
+        `${METRIC_PREFIX}${name}${formatLabels(labels)} ${formatValue(value)}`,
+      );
+    };
+
+    family("tool_calls_total", "counter", "Tool calls by tool and outcome");
+    for (const [tool, calls] of this.usageStats.toolCalls) {
+      const errors = this.usageStats.errorRates.get(tool) || 0;
+      sample("tool_calls_total", { tool, status: "success" }, calls - errors);
+      sample("tool_calls_total", { tool, status: "error" }, errors);
+    }
+
+    family(
+      "tool_call_duration_seconds",
+      "histogram",
+      "Tool call latency in seconds",
+    );
+    for (const [tool, histogram] of this.toolLatency) {
+      LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+        sample(
+          "tool_call_duration_seconds_bucket",
+          { tool, le: String(bound) },
+          histogram.bucketCounts[index],
+        );
+      });
+      sample(
+        "tool_call_duration_seconds_bucket",
+        { tool, le: "+Inf" },
+        histogram.count,
+      );
+      sample("tool_call_duration_seconds_sum", { tool }, histogram.sumSeconds);
+      sample("tool_call_duration_seconds_count", { tool }, histogram.count);
+    }
+
+    family("errors_total", "counter", "Errors by ErrorCategory");
+    for (const [category, count] of this.errorCategories) {
+      sample("errors_total", { category }, count);
+    }
+
+    const memUsage = process.memoryUsage();
+    family("uptime_seconds", "gauge", "Seconds since the service started");
+    sample("uptime_seconds", {}, (Date.now() - this.startTime) / 1000);
+    family("memory_heap_used_bytes", "gauge", "V8 heap in use");
+    sample("memory_heap_used_bytes", {}, memUsage.heapUsed);
+    family("memory_rss_bytes", "gauge", "Resident set size");
+    sample("memory_rss_bytes", {}, memUsage.rss);
+
+    for (const collector of this.gaugeCollectors) {
+      try {
+        const samples = collector.collect();
+        family(collector.name, "gauge", collector.help);
+        for (const { labels, value } of samples) {
+          sample(collector.name, labels, value);
+        }
+      } catch (err) {
+        error(`Failed to collect gauge ${collector.name}: ${err}`);
+      }
+    }
+
+    // Latest value of every gauge recorded with recordMetric
+    for (const [name, values] of this.metrics) {
+      const latest = new Map<string, Metric>();
+      for (const metric of values) {
+        if (metric.type !== MetricType.GAUGE) continue;
+        latest.set(formatLabels(metric.labels ?? {}), metric);
+      }
+      if (latest.size === 0) continue;
+
+      const metricName = name.replace(/[^a-zA-Z0-9_]/g, "_");
+      // A family may only appear once, e.g. uptime_seconds
+      if (families.has(metricName)) continue;
+      family(metricName, "gauge", `Last recorded value of ${name}`);
+      for (const metric of latest.values()) {
+        sample(metricName, metric.labels ?? {}, metric.value);
+      }
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
   /**
    * Export metrics to file
    */
@@ -632,9 +820,10 @@ export class MonitoringService extends EventEmitter {
       },
       60 * 60 * 1000,
     ); // Every hour
+    this.metricsCleanupInterval.unref();
 
     // Record system metrics periodically
-    setInterval(() => {
+    this.systemMetricsInterval = setInterval(() => {
       const memUsage = process.memoryUsage();
       this.recordMetric(
         "memory_usage_mb",
@@ -651,6 +840,7 @@ export class MonitoringService extends EventEmitter {
         "MB",
       );
     }, 30000); // Every 30 seconds
+    this.systemMetricsInterval.unref();
 
     info("Monitoring service started");
   }
@@ -688,9 +878,53 @@ export class MonitoringService extends EventEmitter {
       this.metricsCleanupInterval = null;
     }
 
+    if (this.systemMetricsInterval) {
+      clearInterval(this.systemMetricsInterval);
+      this.systemMetricsInterval = null;
+    }
+
     // Export final metrics
     this.exportMetrics();
 
     info("Monitoring service shutdown complete");
   }
 }
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const formatted = entries.map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+  );
+  return `{${formatted.join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+  return String(value);
+}
+
+let sharedMonitoringService: MonitoringService | null = null;
+
+/**
+ * Shared instance that tool calls, health checks and the enterprise services
+ * record into
+ */
+export function getMonitoringService(): MonitoringService {
+  if (!sharedMonitoringService) {
+    sharedMonitoringService = new MonitoringService({
+      // Health checks run in HealthMonitoringService
+      enableHealthChecks: false,
+      exportMetrics: false,
+    });
+  }
+  return sharedMonitoringService;
+}
@@ -5,7 +5,8 @@
  */
 
 import { EventEmitter } from "events";
-import { info, error } from "../logger.js";
+import { AsyncResource } from "async_hooks";
+import { info, error, debug } from "../logger.js";
 
 /**
  * Rate limit bucket for Discord API endpoints
@@ -25,7 +26,7 @@ interface QueuedRequest {
   endpoint: string;
   method: string;
   priority: number;
-  resolve: (value: any) => void;
+  resolve: (value: any) => void | Promise<void>;
   reject: (error: Error) => void;
   data?: any;
   timestamp: number;
@@ -117,14 +118,16 @@ export class DiscordRateLimiter extends EventEmitter {
         endpoint,
         method,
         priority: this.config.priorityLevels[priority],
-        resolve: async () => {
+        // Runs from the queue processor; bound so the executor keeps the
+        // caller's async context (request ID and trace span)
+        resolve: AsyncResource.bind(async () => {
           try {
             const result = await executor();
             resolve(result);
           } catch (err) {
             reject(err);
           }
-        },
+        }),
         reject,
         data,
         timestamp: Date.now(),
@@ -147,7 +150,7 @@ export class DiscordRateLimiter extends EventEmitter {
       // Sort queue by priority (lower number = higher priority)
       this.requestQueue.sort((a, b) => a.priority - b.priority);
 
-      info(
+      debug(
         `Request ${requestId} queued for ${endpoint} with ${priority} priority`,
       );
       this.emit("requestQueued", { requestId, endpoint, priority });
@@ -247,8 +250,9 @@ export class DiscordRateLimiter extends EventEmitter {
    */
   private async executeRequest(request: QueuedRequest): Promise<void> {
     try {
-      info(`Executing request ${request.id} for ${request.endpoint}`);
-      request.resolve(null);
+      debug(`Executing request ${request.id} for ${request.endpoint}`);
+      // Stays in activeRequests until done, so maxConcurrentRequests applies
+      await request.resolve(null);
     } catch (err) {
       error(`Request ${request.id} failed: ${err}`);
       request.reject(err instanceof Error ? err : new Error(String(err)));
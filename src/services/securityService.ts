@@ -6,7 +6,7 @@
 
 import { EventEmitter } from "events";
 import { Client, PermissionsBitField } from "discord.js";
-import { info, error } from "../logger.js";
+import { info, error, debug } from "../logger.js";
 import fs from "fs/promises";
 import path from "path";
 
@@ -85,6 +85,7 @@ export class SecurityService extends EventEmitter {
   private trustedIPs: Set<string> = new Set();
   private suspiciousActivity: Map<string, number> = new Map();
   private logRotationInterval: NodeJS.Timeout | null = null;
+  private monitoringInterval: NodeJS.Timeout | null = null;
 
   constructor(config: Partial<SecurityConfig> = {}) {
     super();
@@ -355,7 +356,9 @@ export class SecurityService extends EventEmitter {
       this.emit("securityAlert", entry);
     }
 
-    info(
+    // Low severity events include the audit entry of every tool call
+    const log = severity === "low" ? debug : info;
+    log(
       `Security Event [${severity.toUpperCase()}]: ${eventType} - ${JSON.stringify(details)}`,
     );
   }
@@ -499,7 +502,7 @@ export class SecurityService extends EventEmitter {
   private startMonitoring(): void {
     if (!this.config.monitoringEnabled) return;
 
-    setInterval(() => {
+    this.monitoringInterval = setInterval(() => {
       this.analyzeSuspiciousActivity();
     }, 300000); // Analyze every 5 minutes
   }
@@ -601,6 +604,11 @@ export class SecurityService extends EventEmitter {
       this.logRotationInterval = null;
     }
 
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval);
+      this.monitoringInterval = null;
+    }
+
     info("Security service shutdown complete");
   }
 }
@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Resource subscriptions
+ * @description Implements resources/subscribe on top of the shared discord.js
+ * clients of the bot pool. Gateway events are mapped to the resource URIs they change and
+ * reported to the client as notifications/resources/updated. Notifications
+ * for a URI are coalesced so a busy channel sends at most one update per
+ * subscription interval, with at most one notification in flight per URI.
+ */
+
+import {
+  Client,
+  GatewayIntentBits,
+  GuildMember,
+  Message,
+  PartialMessage,
+  AnyThreadChannel,
+  ChannelType,
+} from "discord.js";
+import { z } from "zod";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext } from "./tools/types.js";
+import { enforceToolScope } from "./scopeGuard.js";
+import { matchResourceUri } from "./resources.js";
+import {
+  ResourceSubscriptionEventSchema,
+  ResourceSubscriptionFilterSchema,
+} from "./schemas.js";
+import { info, error } from "./logger.js";
+
+type ResourceSubscriptionEvent = z.infer<
+  typeof ResourceSubscriptionEventSchema
+>;
+type ResourceSubscriptionFilter = z.infer<
+  typeof ResourceSubscriptionFilterSchema
+>;
+
+// Resource templates that gateway events keep up to date
+const SUBSCRIBABLE_RESOURCES: Record<string, ResourceSubscriptionEvent[]> = {
+  guild: ["guildMemberAdd"],
+  "channel-messages": ["messageCreate", "messageUpdate"],
+  "forum-posts": ["messageCreate", "threadCreate"],
+};
+
+// Upper bound on concurrent subscriptions, and with it on pending timers
+const MAX_SUBSCRIPTIONS = 100;
+
+interface ResourceSubscription {
+  uri: string;
+  events: ResourceSubscriptionEvent[];
+  filter: ResourceSubscriptionFilter;
+  lastNotifiedAt: number;
+  timer: NodeJS.Timeout | null;
+  inFlight: boolean;
+  // An event arrived while a notification was in flight
+  dirty: boolean;
+}
+
+// What a gateway event tells filters about its origin
+interface ResourceEventDetails {
+  authorId: string | null;
+  isBot: boolean;
+  content: string | null;
+}
+
+export class ResourceSubscriptionManager {
+  private subscriptions = new Map<string, ResourceSubscription>();
+
+  constructor(
+    private context: ToolContext,
+    private notify: (uri: string) => Promise<void>,
+  ) {
+    // Every bot in the pool reports events, including bots that log in after
+    // the session opened
+    for (const { client } of context.bots.list()) {
+      this.attachListeners(client);
+    }
+  }
+
+  /**
+   * Subscribes to a resource URI, replacing any earlier subscription (and its
+   * filter) for the same URI. `context` carries the caller's access policy
+   * for the scope check.
+   */
+  async subscribe(
+    uri: string,
+    rawFilter: unknown,
+    context: ToolContext = this.context,
+  ): Promise<void> {
+    const match = matchResourceUri(uri, context.policy);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const supportedEvents = SUBSCRIBABLE_RESOURCES[match.name];
+    if (!supportedEvents) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} does not support subscriptions`,
+      );
+    }
+
+    const filter = ResourceSubscriptionFilterSchema.parse(rawFilter ?? {});
+
+    // Only subscribe to resources the caller would be allowed to read
+    const scopeViolation = await enforceToolScope(
+      "resources/subscribe",
+      match.variables,
+      context,
+    );
+    if (scopeViolation) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        scopeViolation.content[0].text,
+      );
+    }
+
+    if (
+      !this.subscriptions.has(uri) &&
+      this.subscriptions.size >= MAX_SUBSCRIPTIONS
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Subscription limit of ${MAX_SUBSCRIPTIONS} reached`,
+      );
+    }
+
+    const events = supportedEvents.filter(
+      (event) => !filter.events || filter.events.includes(event),
+    );
+    if (
+      events.includes("guildMemberAdd") &&
+      !this.context.bots
+        .list()
+        .some(({ client }) =>
+          client.options.intents.has(GatewayIntentBits.GuildMembers),
+        )
+    ) {
+      info(
+        `Subscription to ${uri} will not receive member events: set ENABLE_MEMBER_EVENTS=1 and restart to request the Server Members intent`,
+      );
+    }
+
+    this.unsubscribe(uri);
+    this.subscriptions.set(uri, {
+      uri,
+      events,
+      filter,
+      lastNotifiedAt: 0,
+      timer: null,
+      inFlight: false,
+      dirty: false,
+    });
+    info(`Subscribed to ${uri} (events: ${events.join(", ")})`);
+  }
+
+  unsubscribe(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) return;
+
+    if (subscription.timer) clearTimeout(subscription.timer);
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * Drops every subscription
+   */
+  clear(): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri);
+    }
+  }
+
+  /**
+   * Drops every subscription and detaches from the clients when the MCP
+   * session ends. The manager cannot be used afterwards.
+   */
+  close(): void {
+    this.clear();
+
+    for (const { client } of this.context.bots.list()) {
+      client.off("messageCreate", this.onMessageCreate);
+      client.off("messageUpdate", this.onMessageUpdate);
+      client.off("threadCreate", this.onThreadCreate);
+      client.off("guildMemberAdd", this.onGuildMemberAdd);
+      client.setMaxListeners(Math.max(0, client.getMaxListeners() - 1));
+    }
+  }
+
+  private onMessageCreate = (message: Message) =>
+    this.handleMessage("messageCreate", message);
+
+  private onMessageUpdate = (
+    _oldMessage: Message | PartialMessage,
+    newMessage: Message | PartialMessage,
+  ) => this.handleMessage("messageUpdate", newMessage);
+
+  private onThreadCreate = (
+    thread: AnyThreadChannel,
+    newlyCreated: boolean,
+  ) => {
+    if (newlyCreated) this.handleThreadCreate(thread);
+  };
+
+  private onGuildMemberAdd = (member: GuildMember) =>
+    this.handleMemberAdd(member);
+
+  private attachListeners(client: Client) {
+    // Every HTTP session has its own manager; raise the limit so many open
+    // sessions do not trigger MaxListenersExceededWarning
+    client.setMaxListeners(client.getMaxListeners() + 1);
+
+    client.on("messageCreate", this.onMessageCreate);
+    client.on("messageUpdate", this.onMessageUpdate);
+    client.on("threadCreate", this.onThreadCreate);
+    client.on("guildMemberAdd", this.onGuildMemberAdd);
+  }
+
+  private handleMessage(
+    event: ResourceSubscriptionEvent,
+    message: Message | PartialMessage,
+  ) {
+    const details: ResourceEventDetails = {
+      authorId: message.author?.id ?? null,
+      isBot: message.author?.bot ?? false,
+      content: message.content,
+    };
+
+    this.dispatch(
+      event,
+      `discord://channel/${message.channelId}/messages`,
+      details,
+    );
+
+    // A reply in a forum post changes the post's message count
+    const channel = message.channel;
+    if (
+      event === "messageCreate" &&
+      channel.isThread() &&
+      channel.parent?.type === ChannelType.GuildForum
+    ) {
+      this.dispatch(
+        event,
+        `discord://forum/${channel.parentId}/posts`,
+        details,
+      );
+    }
+  }
+
+  private handleThreadCreate(thread: AnyThreadChannel) {
+    if (thread.parent?.type !== ChannelType.GuildForum) return;
+
+    this.dispatch("threadCreate", `discord://forum/${thread.parentId}/posts`, {
+      authorId: thread.ownerId,
+      isBot: false,
+      content: null,
+    });
+  }
+
+  private handleMemberAdd(member: GuildMember) {
+    this.dispatch("guildMemberAdd", `discord://guild/${member.guild.id}`, {
+      authorId: member.id,
+      isBot: member.user.bot,
+      content: null,
+    });
+  }
+
+  private dispatch(
+    event: ResourceSubscriptionEvent,
+    uri: string,
+    details: ResourceEventDetails,
+  ) {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription || !subscription.events.includes(event)) return;
+    if (!this.matchesFilter(subscription.filter, details)) return;
+
+    this.schedule(subscription);
+  }
+
+  private matchesFilter(
+    filter: ResourceSubscriptionFilter,
+    details: ResourceEventDetails,
+  ): boolean {
+    if (filter.ignoreBots && details.isBot) return false;
+
+    if (
+      filter.authorIds &&
+      (!details.authorId || !filter.authorIds.includes(details.authorId))
+    ) {
+      return false;
+    }
+
+    if (filter.contentContains && details.content !== null) {
+      return details.content
+        .toLowerCase()
+        .includes(filter.contentContains.toLowerCase());
+    }
+
+    return true;
+  }
+
+  // Coalesce events into at most one notification per interval
+  private schedule(subscription: ResourceSubscription) {
+    if (subscription.inFlight) {
+      subscription.dirty = true;
+      return;
+    }
+    if (subscription.timer) return;
+
+    const nextAllowedAt =
+      subscription.lastNotifiedAt + subscription.filter.minIntervalMs;
+    const wait = Math.max(0, nextAllowedAt - Date.now());
+    subscription.timer = setTimeout(() => this.flush(subscription), wait);
+  }
+
+  private async flush(subscription: ResourceSubscription) {
+    subscription.timer = null;
+    // The subscription may have been replaced or removed meanwhile
+    if (this.subscriptions.get(subscription.uri) !== subscription) return;
+
+    subscription.inFlight = true;
+    subscription.lastNotifiedAt = Date.now();
+    try {
+      await this.notify(subscription.uri);
+    } catch (err) {
+      error(
+        `Failed to send resource update for ${subscription.uri}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } finally {
+      subscription.inFlight = false;
+    }
+
+    if (subscription.dirty) {
+      subscription.dirty = false;
+      this.schedule(subscription);
+    }
+  }
+}
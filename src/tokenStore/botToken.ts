@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Bot token lifecycle
+ * @description Connects the TOKEN_STORE backend to the rest of the server:
+ * loads the token at startup, saves tokens set through the login tools and
+ * re-reads the store for rotation. Every token seen is registered for
+ * redaction.
+ */
+
+import { configManager, ServerConfig } from "../config.js";
+import { registerSecret } from "../redact.js";
+import { info } from "../logger.js";
+import { TokenStore } from "./types.js";
+import { MemoryTokenStore } from "./memory.js";
+import { EncryptedFileTokenStore } from "./encryptedFile.js";
+import { CommandTokenStore } from "./command.js";
+
+let tokenStore: TokenStore | null = null;
+
+/**
+ * Creates the backend selected by TOKEN_STORE. Throws on incomplete
+ * configuration rather than falling back to a less secure backend.
+ */
+export function createTokenStore(config: ServerConfig): TokenStore {
+  switch (config.TOKEN_STORE) {
+    case "encryptedFile":
+      if (!config.TOKEN_STORE_FILE || !config.TOKEN_STORE_PASSPHRASE) {
+        throw new Error(
+          "TOKEN_STORE=encryptedFile requires TOKEN_STORE_FILE and TOKEN_STORE_PASSPHRASE",
+        );
+      }
+      return new EncryptedFileTokenStore(
+        config.TOKEN_STORE_FILE,
+        config.TOKEN_STORE_PASSPHRASE,
+      );
+
+    case "command":
+      if (!config.TOKEN_COMMAND) {
+        throw new Error("TOKEN_STORE=command requires TOKEN_COMMAND");
+      }
+      return new CommandTokenStore(config.TOKEN_COMMAND);
+
+    default:
+      return new MemoryTokenStore();
+  }
+}
+
+function getTokenStore(): TokenStore {
+  if (!tokenStore) {
+    const config = configManager.getConfig();
+    registerSecret(config.TOKEN_STORE_PASSPHRASE);
+    tokenStore = createTokenStore(config);
+  }
+  return tokenStore;
+}
+
+/**
+ * Reads the token currently held by the store
+ */
+export async function readStoredBotToken(): Promise<string | null> {
+  const token = await getTokenStore().load();
+  registerSecret(token);
+  return token;
+}
+
+/**
+ * Resolves the token to log in with at startup: the stored token, else
+ * DISCORD_TOKEN from the environment, config file or --config
+ */
+export async function loadBotToken(): Promise<string | null> {
+  registerSecret(configManager.getConfig().DISCORD_TOKEN);
+
+  const stored = await readStoredBotToken();
+  if (stored) {
+    configManager.updateToken(stored);
+    info(`Discord token loaded from the ${getTokenStore().name} token store`);
+  }
+  return configManager.getConfig().DISCORD_TOKEN;
+}
+
+/**
+ * Makes a token set through a tool the current one and saves it to the
+ * store. Returns whether it survives a restart, which is not the case for
+ * the memory store or the read-only command store.
+ */
+export async function saveBotToken(token: string): Promise<boolean> {
+  registerSecret(token);
+  const store = getTokenStore();
+  if (store.writable) {
+    await store.save(token);
+  }
+  configManager.updateToken(token);
+  return store.writable && store.name !== "memory";
+}
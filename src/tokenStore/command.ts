@@ -0,0 +1,45 @@
+import { exec } from "node:child_process";
+import { TokenStore } from "./types.js";
+
+// Secret tools may prompt for unlocking, but should not hang startup
+const COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Reads the token from the output of TOKEN_COMMAND, e.g.
+ * `pass show discord/bot-token` or `op read op://vault/discord/token`.
+ * Tokens are managed in the external tool, so this store is read-only.
+ */
+export class CommandTokenStore implements TokenStore {
+  readonly name = "command";
+  readonly writable = false;
+
+  constructor(private command: string) {}
+
+  load(): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      exec(
+        this.command,
+        { timeout: COMMAND_TIMEOUT_MS, windowsHide: true },
+        (err, stdout) => {
+          if (err) {
+            // stderr may echo the secret, so only the exit status is reported
+            reject(
+              new Error(
+                `TOKEN_COMMAND failed (${err.killed ? "timed out" : `exit code ${err.code}`})`,
+              ),
+            );
+            return;
+          }
+          // Only the first line, as tools like `pass` append metadata lines
+          resolve(stdout.split(/\r?\n/)[0].trim() || null);
+        },
+      );
+    });
+  }
+
+  async save(): Promise<void> {
+    throw new Error(
+      "TOKEN_STORE=command is read-only: update the token in your secret tool, then call discord_rotate_token",
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+  ScryptOptions,
+} from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { z } from "zod";
+import { EncryptedTokenFileSchema } from "../schemas.js";
+import { TokenStore } from "./types.js";
+
+// scrypt cost parameters, stored in the file so they can be raised later
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+type EncryptedTokenFile = z.infer<typeof EncryptedTokenFileSchema>;
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: ScryptOptions,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      KEY_LENGTH,
+      { ...params, maxmem: 64 * 1024 * 1024 },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+}
+
+/**
+ * Stores the token in a file encrypted with AES-256-GCM under a key derived
+ * from TOKEN_STORE_PASSPHRASE with scrypt. A wrong passphrase or a modified
+ * file fails authentication instead of yielding a garbled token.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  readonly name = "encryptedFile";
+  readonly writable = true;
+
+  constructor(
+    private path: string,
+    private passphrase: string,
+  ) {}
+
+  async load(): Promise<string | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (err) {
+      // Nothing stored yet
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+
+    const file = EncryptedTokenFileSchema.parse(JSON.parse(raw));
+    const key = await deriveKey(
+      this.passphrase,
+      Buffer.from(file.salt, "base64"),
+      { N: file.kdf.N, r: file.kdf.r, p: file.kdf.p },
+    );
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(file.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(file.ciphertext, "base64")),
+        decipher.final(),
+      ]).toString("utf8");
+    } catch {
+      throw new Error(
+        `Cannot decrypt ${this.path}: wrong TOKEN_STORE_PASSPHRASE or corrupted file`,
+      );
+    }
+  }
+
+  async save(token: string): Promise<void> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await deriveKey(this.passphrase, salt, SCRYPT_PARAMS);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(token, "utf8"),
+      cipher.final(),
+    ]);
+
+    const file: EncryptedTokenFile = {
+      version: 1,
+      kdf: { name: "scrypt", ...SCRYPT_PARAMS },
+      cipher: "aes-256-gcm",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64"),
+    };
+
+    // Write then rename so a crash never leaves a half-written file
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,19 @@
+import { TokenStore } from "./types.js";
+
+/**
+ * Keeps the token for the lifetime of the process only. The token set at
+ * startup through DISCORD_TOKEN or --config is used until a tool replaces it.
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly name = "memory";
+  readonly writable = true;
+  private token: string | null = null;
+
+  async load(): Promise<string | null> {
+    return this.token;
+  }
+
+  async save(token: string): Promise<void> {
+    this.token = token;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Where the Discord bot token is kept between restarts. Implementations only
+ * move the token in and out of their backend; caching, redaction and
+ * re-login are handled by botToken.ts.
+ */
+export interface TokenStore {
+  // Name used in logs and error messages
+  readonly name: string;
+  // False for backends the server can only read from
+  readonly writable: boolean;
+  load(): Promise<string | null>;
+  save(token: string): Promise<void>;
+}
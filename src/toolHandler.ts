@@ -1,201 +1,189 @@
-import { info, error } from "./logger.js";
-
-// Import all tool handlers
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ToolContext, ToolResponse } from "./tools/tools.js";
+import { enforceToolScope } from "./scopeGuard.js";
+import { redactValue } from "./redact.js";
+import { selectBot } from "./botPool.js";
+import { withSpan } from "./tracing.js";
+import { getRequestScope, runInToolCall } from "./requestContext.js";
 import {
-  createToolContext,
-  loginHandler,
-  setTokenHandler,
-  validateTokenHandler,
-  loginStatusHandler,
-  logoutHandler,
-  updateConfigHandler,
-  healthCheckHandler,
-  listServersHandler,
-  sendMessageHandler,
-  getForumChannelsHandler,
-  createForumPostHandler,
-  getForumPostHandler,
-  replyToForumHandler,
-  deleteForumPostHandler,
-  createTextChannelHandler,
-  deleteChannelHandler,
-  readMessagesHandler,
-  getServerInfoHandler,
-  addReactionHandler,
-  addMultipleReactionsHandler,
-  removeReactionHandler,
-  deleteMessageHandler,
-  createWebhookHandler,
-  sendWebhookMessageHandler,
-  editWebhookHandler,
-  deleteWebhookHandler,
-  editCategoryHandler,
-  createCategoryHandler,
-  deleteCategoryHandler,
-  getUserInfoHandler,
-  getGuildMemberHandler,
-  listGuildMembersHandler,
-  addRoleToMemberHandler,
-  removeRoleFromMemberHandler,
-  kickMemberHandler,
-  banMemberHandler,
-  unbanMemberHandler,
-  timeoutMemberHandler,
-  createRoleHandler,
-  editRoleHandler,
-  deleteRoleHandler,
-  listRolesHandler,
-  getRolePermissionsHandler,
-  sendDirectMessageHandler,
-  getDirectMessagesHandler,
-  updateServerSettingsHandler,
-  updateServerEngagementHandler,
-  updateWelcomeScreenHandler,
-  createEmojiHandler,
-  deleteEmojiHandler,
-  listEmojisHandler,
-  createStickerHandler,
-  deleteStickerHandler,
-  listStickersHandler,
-  createInviteHandler,
-  deleteInviteHandler,
-  listInvitesHandler,
-  listIntegrationsHandler,
-  deleteIntegrationHandler,
-  createSoundboardSoundHandler,
-  deleteSoundboardSoundHandler,
-  listSoundboardSoundsHandler,
-  createVoiceChannelHandler,
-  deleteVoiceChannelHandler,
-  editVoiceChannelHandler,
-  listVoiceChannelsHandler,
-  getVoiceChannelInfoHandler,
-  createForumChannelHandler,
-  createChannelUnderCategoryHandler,
-  moveChannelToCategoryHandler,
-  editChannelHandler,
-  listWebhooksHandler,
-} from "./tools/tools.js";
-
-// Create a mapping of tool names to their handlers
-const toolHandlerMap: Record<string, Function> = {
-  // Authentication tools
-  "discord_login": loginHandler,
-  "discord_set_token": setTokenHandler,
-  "discord_validate_token": validateTokenHandler,
-  "discord_login_status": loginStatusHandler,
-  "discord_logout": logoutHandler,
-  "discord_update_config": updateConfigHandler,
-  "discord_health_check": healthCheckHandler,
-  
-  // Server tools
-  "discord_list_servers": listServersHandler,
-  "discord_get_server_info": getServerInfoHandler,
-  "discord_update_server_settings": updateServerSettingsHandler,
-  "discord_update_server_engagement": updateServerEngagementHandler,
-  "discord_update_welcome_screen": updateWelcomeScreenHandler,
-  
-  // Channel tools
-  "discord_send": sendMessageHandler,
-  "discord_create_text_channel": createTextChannelHandler,
-  "discord_create_forum_channel": createForumChannelHandler,
-  "discord_edit_channel": editChannelHandler,
-  "discord_delete_channel": deleteChannelHandler,
-  "discord_create_channel_under_category": createChannelUnderCategoryHandler,
-  "discord_move_channel_to_category": moveChannelToCategoryHandler,
-  
-  // Forum tools
-  "discord_get_forum_channels": getForumChannelsHandler,
-  "discord_create_forum_post": createForumPostHandler,
-  "discord_get_forum_post": getForumPostHandler,
-  "discord_reply_to_forum": replyToForumHandler,
-  "discord_delete_forum_post": deleteForumPostHandler,
-  
-  // Message tools
-  "discord_read_messages": readMessagesHandler,
-  "discord_delete_message": deleteMessageHandler,
-  
-  // Reaction tools
-  "discord_add_reaction": addReactionHandler,
-  "discord_add_multiple_reactions": addMultipleReactionsHandler,
-  "discord_remove_reaction": removeReactionHandler,
-  
-  // Webhook tools
-  "discord_create_webhook": createWebhookHandler,
-  "discord_send_webhook_message": sendWebhookMessageHandler,
-  "discord_edit_webhook": editWebhookHandler,
-  "discord_delete_webhook": deleteWebhookHandler,
-  "discord_list_webhooks": listWebhooksHandler,
-  
-  // Category tools
-  "discord_create_category": createCategoryHandler,
-  "discord_edit_category": editCategoryHandler,
-  "discord_delete_category": deleteCategoryHandler,
-  
-  // User management tools
-  "discord_get_user_info": getUserInfoHandler,
-  "discord_get_guild_member": getGuildMemberHandler,
-  "discord_list_guild_members": listGuildMembersHandler,
-  "discord_add_role_to_member": addRoleToMemberHandler,
-  "discord_remove_role_from_member": removeRoleFromMemberHandler,
-  "discord_kick_member": kickMemberHandler,
-  "discord_ban_member": banMemberHandler,
-  "discord_unban_member": unbanMemberHandler,
-  "discord_timeout_member": timeoutMemberHandler,
-  
-  // Role management tools
-  "discord_create_role": createRoleHandler,
-  "discord_edit_role": editRoleHandler,
-  "discord_delete_role": deleteRoleHandler,
-  "discord_list_roles": listRolesHandler,
-  "discord_get_role_permissions": getRolePermissionsHandler,
-  
-  // Direct message tools
-  "discord_send_direct_message": sendDirectMessageHandler,
-  "discord_get_direct_messages": getDirectMessagesHandler,
-  
-  // Emoji and sticker tools
-  "discord_create_emoji": createEmojiHandler,
-  "discord_delete_emoji": deleteEmojiHandler,
-  "discord_list_emojis": listEmojisHandler,
-  "discord_create_sticker": createStickerHandler,
-  "discord_delete_sticker": deleteStickerHandler,
-  "discord_list_stickers": listStickersHandler,
-  
-  // Invite and integration tools
-  "discord_create_invite": createInviteHandler,
-  "discord_delete_invite": deleteInviteHandler,
-  "discord_list_invites": listInvitesHandler,
-  "discord_list_integrations": listIntegrationsHandler,
-  "discord_delete_integration": deleteIntegrationHandler,
-  
-  // Soundboard tools
-  "discord_create_soundboard_sound": createSoundboardSoundHandler,
-  "discord_delete_soundboard_sound": deleteSoundboardSoundHandler,
-  "discord_list_soundboard_sounds": listSoundboardSoundsHandler,
-  
-  // Voice channel tools
-  "discord_create_voice_channel": createVoiceChannelHandler,
-  "discord_delete_voice_channel": deleteVoiceChannelHandler,
-  "discord_edit_voice_channel": editVoiceChannelHandler,
-  "discord_list_voice_channels": listVoiceChannelsHandler,
-  "discord_get_voice_channel_info": getVoiceChannelInfoHandler,
-};
+  getToolEntry,
+  getToolGroupFlag,
+  isToolEnabled,
+  isToolEnabledForGuild,
+  isToolPermitted,
+  ToolRegistryEntry,
+} from "./toolRegistry.js";
 
-// Unified tool handler that eliminates duplication
+// Unified tool dispatch shared by the stdio and HTTP transports. Validation,
+// the handler and response formatting each run in a trace span.
 export async function handleToolCall(
   toolName: string,
   params: any,
-  toolContext: ReturnType<typeof createToolContext>
+  requestContext: ToolContext,
 ) {
+  const validated = await withSpan(
+    "validation",
+    { "mcp.tool.name": toolName },
+    () => validateToolCall(toolName, params, requestContext),
+  );
+  if ("response" in validated) {
+    return validated.response;
+  }
+  const { entry, args, toolContext } = validated;
+
+  // Call the registered handler
+  const response = await withSpan(
+    "handler",
+    { "mcp.tool.name": toolName, "discord.bot": toolContext.bot },
+    () => entry.handler(args, toolContext),
+  );
+
+  return withSpan("formatting", { "mcp.tool.name": toolName }, async () => {
+    // Tools that declare an outputSchema must return matching
+    // structuredContent
+    if (entry.outputSchema && !response.isError) {
+      const result = entry.outputSchema.safeParse(response.structuredContent);
+      if (!result.success) {
+        throw new Error(
+          `Tool ${toolName} returned structured content that does not match its output schema: ${result.error.errors
+            .map((e) => `${e.path.join(".")}: ${e.message}`)
+            .join(", ")}`,
+        );
+      }
+    }
+
+    // Never echo the bot token or other registered secrets back to a client
+    return redactValue(response);
+  });
+}
+
+// Resolves the tool and checks the call; a scope violation is returned as the
+// response to send instead of running the handler
+async function validateToolCall(
+  toolName: string,
+  params: any,
+  requestContext: ToolContext,
+): Promise<
+  | { entry: ToolRegistryEntry; args: unknown; toolContext: ToolContext }
+  | { response: ToolResponse }
+> {
   // Check if tool exists
-  if (!toolHandlerMap[toolName]) {
+  const entry = getToolEntry(toolName);
+  if (!entry) {
     throw new Error(`Unknown tool: ${toolName}`);
   }
-  
-  // Call the appropriate handler
-  return await toolHandlerMap[toolName](params, toolContext);
+
+  // Tools in a disabled feature-flag group are not callable
+  if (!isToolEnabled(entry)) {
+    const flag = getToolGroupFlag(entry.group);
+    throw new Error(`Tool ${toolName} is disabled. Enable it with ${flag}=1`);
+  }
+
+  // Every tool takes an optional `bot` argument naming the client to use
+  const { bot, ...toolParams } = params ?? {};
+  const toolContext = selectBot(requestContext, bot);
+
+  // The caller's access policy may exclude the group or allow only reads
+  if (!isToolPermitted(entry, toolContext.policy)) {
+    const groupAllowed = isToolPermitted(entry, {
+      ...toolContext.policy,
+      readOnly: false,
+    });
+    const reason = groupAllowed ? " (read-only access)" : "";
+    throw new Error(
+      `Tool ${toolName} is not permitted for this credential${reason}`,
+    );
+  }
+
+  // Validate arguments against the registered schema (throws ZodError)
+  const args = entry.schema.parse(toolParams);
+
+  // Reject calls that target guilds or channels outside the allow-lists, or
+  // guilds whose override disables the tool's group
+  const scopeViolation = await enforceToolScope(
+    toolName,
+    args,
+    toolContext,
+    {
+      isEnabledForGuild: (guildId) => isToolEnabledForGuild(entry, guildId),
+      global: entry.global,
+    },
+  );
+  if (scopeViolation) {
+    return { response: scopeViolation };
+  }
+
+  return { entry, args, toolContext };
 }
 
-// Export the tool handler map for use in other modules
-export { toolHandlerMap };
\ No newline at end of file
+/**
+ * Runs a registered tool on behalf of the tool call in progress, such as the
+ * steps of discord_apply_guild_spec. The step goes through the same tool
+ * pipeline (audit log, rate limiter, metrics) as the call, for the same
+ * caller. Outside a tool call it is handled directly.
+ */
+export async function handleNestedToolCall(
+  toolName: string,
+  params: Record<string, unknown>,
+  requestContext: ToolContext,
+): Promise<ToolResponse> {
+  const toolCall = getRequestScope()?.toolCall;
+  if (!toolCall) {
+    return handleToolCall(toolName, params, requestContext);
+  }
+
+  const executionContext = {
+    userId: toolCall.userId,
+    guildId:
+      typeof params.guildId === "string" ? params.guildId : toolCall.guildId,
+    channelId:
+      typeof params.channelId === "string"
+        ? params.channelId
+        : toolCall.channelId,
+    ipAddress: toolCall.ipAddress,
+    userAgent: toolCall.userAgent,
+  };
+  return runInToolCall({ ...toolCall, ...executionContext, toolName }, () =>
+    toolCall.enterpriseService.executeToolWithEnterpriseFeatures(
+      toolName,
+      params,
+      executionContext,
+      () => handleToolCall(toolName, params, requestContext),
+    ),
+  );
+}
+
+/**
+ * Checks a call of a registered tool without running it: the feature flags,
+ * the caller's access policy, the arguments and the allow-lists. For work
+ * done through discord.js directly that needs the same permission as a tool.
+ * @returns The error response of a call out of scope, otherwise null. Other
+ * refusals throw, as they do in handleToolCall.
+ */
+export async function checkToolCall(
+  toolName: string,
+  params: Record<string, unknown>,
+  requestContext: ToolContext,
+): Promise<ToolResponse | null> {
+  const validated = await validateToolCall(toolName, params, requestContext);
+  return "response" in validated ? validated.response : null;
+}
+
+/**
+ * Runs a registered read tool and returns its structured output. Tool errors
+ * (scope violations, unknown IDs, Discord API failures) become MCP errors.
+ */
+export async function readToolOutput(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<Record<string, unknown>> {
+  const response = await handleToolCall(toolName, args, context);
+  if (response.isError || !response.structuredContent) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      response.content.map((item) => item.text).join(" "),
+    );
+  }
+  return response.structuredContent;
+}
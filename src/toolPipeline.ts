@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Middleware chain of every tool call
+ * @description Both transports run each tool call through
+ * EnterpriseIntegrationService.executeToolWithEnterpriseFeatures. TOOL_PIPELINE
+ * selects its stages:
+ *
+ * - rateLimit: queue calls behind the enterprise rate limiter
+ * - circuitBreaker: reject calls to a tool that keeps failing
+ * - retry: retry calls that failed with a retryable error. Off by default,
+ *   as most tools are not idempotent.
+ * - audit: append every call to AUDIT_LOG_FILE
+ * - metrics: record calls, latency and errors for /metrics
+ * - ipAllowlist: reject HTTP callers whose address is not in IP_ALLOWLIST
+ *
+ * With circuitBreaker or retry, calls that run longer than TOOL_TIMEOUT_MS
+ * fail. The stages are chosen at startup; changes apply after a restart.
+ */
+
+import { configManager, ServerConfig } from "./config.js";
+import { EnterpriseIntegrationService } from "./services/enterpriseIntegrationService.js";
+
+export function createToolPipeline(
+  config: ServerConfig = configManager.getConfig(),
+): EnterpriseIntegrationService {
+  const stages = new Set(config.TOOL_PIPELINE);
+
+  return new EnterpriseIntegrationService({
+    // Only the selected stages; auto-moderation and the developer tools
+    // are not part of the tool pipeline
+    enableAllFeatures: false,
+    rateLimiting: {
+      enabled: stages.has("rateLimit"),
+      maxConcurrentRequests: 50,
+      maxQueueSize: 1000,
+    },
+    security: {
+      enabled: stages.has("audit") || stages.has("ipAllowlist"),
+      auditLogging: stages.has("audit"),
+      auditLogPath: config.AUDIT_LOG_FILE,
+      ipWhitelisting: stages.has("ipAllowlist"),
+      ipWhitelist: config.IP_ALLOWLIST,
+      adminUserIds: [],
+    },
+    monitoring: {
+      enabled: stages.has("metrics"),
+      metricsRetention: 7,
+      healthCheckInterval: 30,
+    },
+    errorHandling: {
+      enabled: stages.has("circuitBreaker") || stages.has("retry"),
+      enableRetry: stages.has("retry"),
+      enableCircuitBreaker: stages.has("circuitBreaker"),
+      timeoutMs: config.TOOL_TIMEOUT_MS,
+    },
+    advancedFeatures: {
+      enabled: false,
+      autoModeration: false,
+      messageAnalytics: false,
+      scheduledEvents: false,
+    },
+    developer: {
+      enabled: false,
+      generateDocs: false,
+      interactiveTesting: false,
+      devMode: false,
+    },
+  });
+}
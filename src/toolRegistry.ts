@@ -0,0 +1,1459 @@
+/**
+ * @fileoverview Declarative tool registry
+ * @description Single source of truth for every MCP tool the server exposes.
+ * Each entry ties a tool name to its Zod input schema, handler, feature-flag
+ * group and display metadata. The tool list, dispatch on both transports and
+ * feature-flag filtering are all derived from this registry.
+ */
+
+import { z } from "zod";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { configManager, FeatureFlag, ServerConfig } from "./config.js";
+import { AccessPolicy } from "./auth/policy.js";
+import * as toolModule from "./tools/tools.js";
+import {
+  loginHandler,
+  setTokenHandler,
+  rotateTokenHandler,
+  validateTokenHandler,
+  loginStatusHandler,
+  logoutHandler,
+  updateConfigHandler,
+  healthCheckHandler,
+  sendMessageHandler,
+  readMessagesHandler,
+  deleteMessageHandler,
+  pinMessageHandler,
+  unpinMessageHandler,
+  listPinsHandler,
+  editBotMessageHandler,
+  bulkDeleteMessagesHandler,
+  searchMessagesHandler,
+  getForumChannelsHandler,
+  createForumPostHandler,
+  getForumPostHandler,
+  replyToForumHandler,
+  deleteForumPostHandler,
+  createTextChannelHandler,
+  createForumChannelHandler,
+  editChannelHandler,
+  deleteChannelHandler,
+  createChannelUnderCategoryHandler,
+  moveChannelToCategoryHandler,
+  createCategoryHandler,
+  editCategoryHandler,
+  deleteCategoryHandler,
+  getServerInfoHandler,
+  listServersHandler,
+  updateServerSettingsHandler,
+  updateServerEngagementHandler,
+  updateWelcomeScreenHandler,
+  addReactionHandler,
+  addMultipleReactionsHandler,
+  removeReactionHandler,
+  createWebhookHandler,
+  sendWebhookMessageHandler,
+  editWebhookHandler,
+  deleteWebhookHandler,
+  listWebhooksHandler,
+  getUserInfoHandler,
+  getGuildMemberHandler,
+  listGuildMembersHandler,
+  addRoleToMemberHandler,
+  removeRoleFromMemberHandler,
+  kickMemberHandler,
+  banMemberHandler,
+  unbanMemberHandler,
+  timeoutMemberHandler,
+  createRoleHandler,
+  editRoleHandler,
+  deleteRoleHandler,
+  listRolesHandler,
+  getRolePermissionsHandler,
+  sendDirectMessageHandler,
+  getDirectMessagesHandler,
+  createEmojiHandler,
+  deleteEmojiHandler,
+  listEmojisHandler,
+  createStickerHandler,
+  deleteStickerHandler,
+  listStickersHandler,
+  createInviteHandler,
+  deleteInviteHandler,
+  listInvitesHandler,
+  listIntegrationsHandler,
+  deleteIntegrationHandler,
+  createSoundboardSoundHandler,
+  deleteSoundboardSoundHandler,
+  listSoundboardSoundsHandler,
+  createVoiceChannelHandler,
+  deleteVoiceChannelHandler,
+  editVoiceChannelHandler,
+  listVoiceChannelsHandler,
+  getVoiceChannelInfoHandler,
+  moveUserToVoiceChannelHandler,
+  serverHealthCheckHandler,
+  getAnalyticsHandler,
+  addAutoModerationRuleHandler,
+  getRateLimiterStatusHandler,
+  startBulkOperationHandler,
+  getBulkOperationHandler,
+  cancelBulkOperationHandler,
+  pauseBulkOperationHandler,
+  resumeBulkOperationHandler,
+  listBulkOperationsHandler,
+  backupGuildHandler,
+  listBackupsHandler,
+  diffBackupHandler,
+  restoreBackupHandler,
+  exportGuildSpecHandler,
+  planGuildSpecHandler,
+  applyGuildSpecHandler,
+  ToolHandler,
+} from "./tools/tools.js";
+import {
+  ToolGroupSchema,
+  DiscordLoginSchema,
+  SetTokenSchema,
+  RotateTokenSchema,
+  ValidateTokenSchema,
+  LoginStatusSchema,
+  LogoutSchema,
+  UpdateConfigSchema,
+  HealthCheckSchema,
+  SendMessageSchema,
+  ReadMessagesSchema,
+  DeleteMessageSchema,
+  PinMessageSchema,
+  UnpinMessageSchema,
+  ListPinsSchema,
+  EditMessageSchema,
+  BulkDeleteMessagesSchema,
+  SearchMessagesSchema,
+  GetForumChannelsSchema,
+  CreateForumPostSchema,
+  GetForumPostSchema,
+  ReplyToForumSchema,
+  DeleteForumPostSchema,
+  CreateTextChannelSchema,
+  CreateForumChannelSchema,
+  EditChannelSchema,
+  DeleteChannelSchema,
+  CreateChannelUnderCategorySchema,
+  MoveChannelToCategorySchema,
+  CreateCategorySchema,
+  EditCategorySchema,
+  DeleteCategorySchema,
+  GetServerInfoSchema,
+  ListServersSchema,
+  UpdateServerSettingsSchema,
+  UpdateServerEngagementSchema,
+  UpdateWelcomeScreenSchema,
+  AddReactionSchema,
+  AddMultipleReactionsSchema,
+  RemoveReactionSchema,
+  CreateWebhookSchema,
+  SendWebhookMessageSchema,
+  EditWebhookSchema,
+  DeleteWebhookSchema,
+  ListWebhooksSchema,
+  GetUserInfoSchema,
+  GetGuildMemberSchema,
+  ListGuildMembersSchema,
+  AddRoleToMemberSchema,
+  RemoveRoleFromMemberSchema,
+  KickMemberSchema,
+  BanMemberSchema,
+  UnbanMemberSchema,
+  TimeoutMemberSchema,
+  CreateRoleSchema,
+  EditRoleSchema,
+  DeleteRoleSchema,
+  ListRolesSchema,
+  GetRolePermissionsSchema,
+  SendDirectMessageSchema,
+  GetDirectMessagesSchema,
+  CreateEmojiSchema,
+  DeleteEmojiSchema,
+  ListEmojisSchema,
+  CreateStickerSchema,
+  DeleteStickerSchema,
+  ListStickersSchema,
+  CreateInviteSchema,
+  DeleteInviteSchema,
+  ListInvitesSchema,
+  ListIntegrationsSchema,
+  DeleteIntegrationSchema,
+  CreateSoundboardSoundSchema,
+  DeleteSoundboardSoundSchema,
+  ListSoundboardSoundsSchema,
+  CreateVoiceChannelSchema,
+  DeleteVoiceChannelSchema,
+  EditVoiceChannelSchema,
+  ListVoiceChannelsSchema,
+  GetVoiceChannelInfoSchema,
+  MoveUserToVoiceChannelSchema,
+  StartBulkOperationSchema,
+  GetBulkOperationSchema,
+  CancelBulkOperationSchema,
+  PauseBulkOperationSchema,
+  ResumeBulkOperationSchema,
+  ListBulkOperationsSchema,
+  BackupGuildSchema,
+  ListBackupsSchema,
+  DiffBackupSchema,
+  RestoreBackupSchema,
+  ExportGuildSpecSchema,
+  PlanGuildSpecSchema,
+  ApplyGuildSpecSchema,
+  ReadMessagesOutputSchema,
+  ListPinsOutputSchema,
+  SearchMessagesOutputSchema,
+  GetForumChannelsOutputSchema,
+  GetForumPostOutputSchema,
+  GetServerInfoOutputSchema,
+  ListServersOutputSchema,
+  ListWebhooksOutputSchema,
+  GetUserInfoOutputSchema,
+  GetGuildMemberOutputSchema,
+  ListGuildMembersOutputSchema,
+  ListRolesOutputSchema,
+  GetRolePermissionsOutputSchema,
+  GetDirectMessagesOutputSchema,
+  ListEmojisOutputSchema,
+  ListStickersOutputSchema,
+  ListInvitesOutputSchema,
+  ListIntegrationsOutputSchema,
+  ListSoundboardSoundsOutputSchema,
+  ListVoiceChannelsOutputSchema,
+  GetVoiceChannelInfoOutputSchema,
+  LoginStatusOutputSchema,
+  HealthCheckOutputSchema,
+  EnterpriseHealthCheckOutputSchema,
+  GetAnalyticsOutputSchema,
+  RateLimiterStatusOutputSchema,
+  BulkOperationOutputSchema,
+  ListBulkOperationsOutputSchema,
+  BackupSummaryOutputSchema,
+  ListBackupsOutputSchema,
+  DiffBackupOutputSchema,
+  RestoreBackupOutputSchema,
+  ExportGuildSpecOutputSchema,
+  PlanGuildSpecOutputSchema,
+  ApplyGuildSpecOutputSchema,
+} from "./schemas.js";
+import {
+  serverHealthCheckSchema,
+  getAnalyticsSchema,
+  addAutoModerationRuleSchema,
+  getRateLimiterStatusSchema,
+} from "./tools/enterpriseTools.js";
+
+/**
+ * Feature-flag groups a tool can belong to. "core" and "admin" tools are
+ * always enabled, but an access policy only grants "admin" when it lists it.
+ */
+export type ToolGroup = z.infer<typeof ToolGroupSchema>;
+
+/**
+ * Configuration flag that enables each tool group
+ */
+export const TOOL_GROUP_FLAGS: Record<
+  Exclude<ToolGroup, "core" | "admin">,
+  FeatureFlag
+> = {
+  userManagement: "ENABLE_USER_MANAGEMENT",
+  voiceChannels: "ENABLE_VOICE_CHANNELS",
+  directMessages: "ENABLE_DIRECT_MESSAGES",
+  serverManagement: "ENABLE_SERVER_MANAGEMENT",
+  rbac: "ENABLE_RBAC",
+  contentManagement: "ENABLE_CONTENT_MANAGEMENT",
+};
+
+/**
+ * A single registered tool
+ */
+export interface ToolRegistryEntry {
+  name: string;
+  schema: z.ZodTypeAny;
+  // Shape of structuredContent, declared by tools that return structured output
+  outputSchema?: z.ZodTypeAny;
+  handler: ToolHandler;
+  group: ToolGroup;
+  description: string;
+  displayName: string;
+  annotations: ToolAnnotations;
+  // Targets no guild by design; allowed under policies limited to guilds
+  global?: boolean;
+}
+
+/**
+ * MCP behaviour hints shared by tools of the same kind. "local" presets are
+ * for tools that only touch this server's own state, never the Discord API.
+ */
+export const TOOL_ANNOTATIONS = {
+  readOnly: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  localReadOnly: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  create: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  localCreate: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  update: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  localUpdate: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  destructive: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  // Repeating the call removes further messages, so it is not idempotent
+  destructiveNonIdempotent: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+} satisfies Record<string, ToolAnnotations>;
+
+export const toolRegistry: ToolRegistryEntry[] = [
+  // Login & Authentication Tools
+  {
+    name: "discord_login",
+    schema: DiscordLoginSchema,
+    handler: loginHandler,
+    group: "admin",
+    description: "Logs in to Discord using the configured token",
+    displayName: "🔐 Discord Login",
+    annotations: TOOL_ANNOTATIONS.update,
+    global: true,
+  },
+  {
+    name: "discord_set_token",
+    schema: SetTokenSchema,
+    handler: setTokenHandler,
+    group: "admin",
+    description: "Sets and saves a Discord bot token for authentication",
+    displayName: "🔑 Set Discord Token",
+    annotations: TOOL_ANNOTATIONS.localUpdate,
+    global: true,
+  },
+  {
+    name: "discord_rotate_token",
+    schema: RotateTokenSchema,
+    handler: rotateTokenHandler,
+    group: "admin",
+    description:
+      "Switches the running session to a new bot token without a restart. Without a token, re-reads the configured token store",
+    displayName: "🔄 Rotate Discord Token",
+    annotations: TOOL_ANNOTATIONS.update,
+    global: true,
+  },
+  {
+    name: "discord_validate_token",
+    schema: ValidateTokenSchema,
+    handler: validateTokenHandler,
+    group: "core",
+    description: "Validates the format and basic structure of a Discord token",
+    displayName: "✅ Validate Token",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+  {
+    name: "discord_login_status",
+    schema: LoginStatusSchema,
+    outputSchema: LoginStatusOutputSchema,
+    handler: loginStatusHandler,
+    group: "core",
+    description:
+      "Shows current login status, configuration, and health information",
+    displayName: "📊 Login Status",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+  {
+    name: "discord_logout",
+    schema: LogoutSchema,
+    handler: logoutHandler,
+    group: "admin",
+    description: "Logs out from Discord and disconnects the client",
+    displayName: "🚪 Discord Logout",
+    annotations: TOOL_ANNOTATIONS.update,
+    global: true,
+  },
+  {
+    name: "discord_update_config",
+    schema: UpdateConfigSchema,
+    handler: updateConfigHandler,
+    group: "admin",
+    description: "Updates server configuration settings at runtime",
+    displayName: "⚙️ Update Config",
+    annotations: TOOL_ANNOTATIONS.localUpdate,
+    global: true,
+  },
+  {
+    name: "discord_health_check",
+    schema: HealthCheckSchema,
+    outputSchema: HealthCheckOutputSchema,
+    handler: healthCheckHandler,
+    group: "core",
+    description:
+      "Performs a comprehensive health check of the Discord MCP server",
+    displayName: "🩺 Health Check",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+
+  // Messaging Tools
+  {
+    name: "discord_send",
+    schema: SendMessageSchema,
+    handler: sendMessageHandler,
+    group: "core",
+    description: "Sends a message to a specified Discord text channel",
+    displayName: "💬 Send Message",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_read_messages",
+    schema: ReadMessagesSchema,
+    outputSchema: ReadMessagesOutputSchema,
+    handler: readMessagesHandler,
+    group: "contentManagement",
+    description:
+      "Retrieves messages from a Discord text channel with a configurable limit",
+    displayName: "📖 Read Messages",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_delete_message",
+    schema: DeleteMessageSchema,
+    handler: deleteMessageHandler,
+    group: "contentManagement",
+    description: "Deletes a specific message from a Discord text channel",
+    displayName: "🗑️ Delete Message",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_edit_message",
+    schema: EditMessageSchema,
+    handler: editBotMessageHandler,
+    group: "contentManagement",
+    description: "Edits the content of a message previously sent by the bot",
+    displayName: "✏️ Edit Message",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_pin_message",
+    schema: PinMessageSchema,
+    handler: pinMessageHandler,
+    group: "contentManagement",
+    description: "Pins a message in a Discord text channel",
+    displayName: "📌 Pin Message",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_unpin_message",
+    schema: UnpinMessageSchema,
+    handler: unpinMessageHandler,
+    group: "contentManagement",
+    description: "Unpins a pinned message in a Discord text channel",
+    displayName: "📌🚫 Unpin Message",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_list_pins",
+    schema: ListPinsSchema,
+    outputSchema: ListPinsOutputSchema,
+    handler: listPinsHandler,
+    group: "contentManagement",
+    description: "Lists the pinned messages in a Discord text channel",
+    displayName: "📌📋 List Pins",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_bulk_delete_messages",
+    schema: BulkDeleteMessagesSchema,
+    handler: bulkDeleteMessagesHandler,
+    group: "contentManagement",
+    description:
+      "Deletes up to 100 recent messages, optionally filtered by author, age or content",
+    displayName: "🗑️✨ Bulk Delete Messages",
+    annotations: TOOL_ANNOTATIONS.destructiveNonIdempotent,
+  },
+  {
+    name: "discord_search_messages",
+    schema: SearchMessagesSchema,
+    outputSchema: SearchMessagesOutputSchema,
+    handler: searchMessagesHandler,
+    group: "contentManagement",
+    description:
+      "Searches recent messages in a channel by text, author and date range",
+    displayName: "🔍 Search Messages",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+
+  // Forum Tools
+  {
+    name: "discord_get_forum_channels",
+    schema: GetForumChannelsSchema,
+    outputSchema: GetForumChannelsOutputSchema,
+    handler: getForumChannelsHandler,
+    group: "core",
+    description:
+      "Lists all forum channels in a specified Discord server (guild)",
+    displayName: "📋 List Forum Channels",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_create_forum_post",
+    schema: CreateForumPostSchema,
+    handler: createForumPostHandler,
+    group: "core",
+    description:
+      "Creates a new post in a Discord forum channel with optional tags",
+    displayName: "📝 Create Forum Post",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_get_forum_post",
+    schema: GetForumPostSchema,
+    outputSchema: GetForumPostOutputSchema,
+    handler: getForumPostHandler,
+    group: "core",
+    description: "Retrieves details about a forum post including its messages",
+    displayName: "📖 Get Forum Post",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_reply_to_forum",
+    schema: ReplyToForumSchema,
+    handler: replyToForumHandler,
+    group: "core",
+    description: "Adds a reply to an existing forum post or thread",
+    displayName: "💬 Reply to Forum",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_delete_forum_post",
+    schema: DeleteForumPostSchema,
+    handler: deleteForumPostHandler,
+    group: "core",
+    description: "Deletes a forum post or thread with an optional reason",
+    displayName: "🗑️ Delete Forum Post",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+
+  // Channel Management Tools
+  {
+    name: "discord_create_text_channel",
+    schema: CreateTextChannelSchema,
+    handler: createTextChannelHandler,
+    group: "core",
+    description:
+      "Creates a new text channel in a Discord server with an optional topic",
+    displayName: "💬 Create Text Channel",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_create_forum_channel",
+    schema: CreateForumChannelSchema,
+    handler: createForumChannelHandler,
+    group: "core",
+    description: "Creates a new forum channel in a Discord server",
+    displayName: "📋 Create Forum Channel",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_edit_channel",
+    schema: EditChannelSchema,
+    handler: editChannelHandler,
+    group: "core",
+    description: "Edits an existing Discord channel (name, topic, category)",
+    displayName: "✏️ Edit Channel",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_delete_channel",
+    schema: DeleteChannelSchema,
+    handler: deleteChannelHandler,
+    group: "core",
+    description: "Deletes a Discord channel with an optional reason",
+    displayName: "🗑️ Delete Channel",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_create_channel_under_category",
+    schema: CreateChannelUnderCategorySchema,
+    handler: createChannelUnderCategoryHandler,
+    group: "core",
+    description:
+      "Creates a new channel (text, voice, or forum) and places it under a specific category",
+    displayName: "📁➕ Create Channel in Category",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_move_channel_to_category",
+    schema: MoveChannelToCategorySchema,
+    handler: moveChannelToCategoryHandler,
+    group: "core",
+    description: "Moves an existing channel to a different category",
+    displayName: "📁↔️ Move Channel to Category",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+
+  // Category Tools
+  {
+    name: "discord_create_category",
+    schema: CreateCategorySchema,
+    handler: createCategoryHandler,
+    group: "core",
+    description: "Creates a new category in a Discord server",
+    displayName: "📁 Create Category",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_edit_category",
+    schema: EditCategorySchema,
+    handler: editCategoryHandler,
+    group: "core",
+    description: "Edits an existing Discord category (name and position)",
+    displayName: "✏️ Edit Category",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_delete_category",
+    schema: DeleteCategorySchema,
+    handler: deleteCategoryHandler,
+    group: "core",
+    description: "Deletes a Discord category by ID",
+    displayName: "🗑️ Delete Category",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+
+  // Server Management Tools
+  {
+    name: "discord_get_server_info",
+    schema: GetServerInfoSchema,
+    outputSchema: GetServerInfoOutputSchema,
+    handler: getServerInfoHandler,
+    group: "core",
+    description:
+      "Retrieves detailed information about a Discord server including channels and member count",
+    displayName: "🏰 Get Server Info",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_list_servers",
+    schema: ListServersSchema,
+    outputSchema: ListServersOutputSchema,
+    handler: listServersHandler,
+    group: "core",
+    description:
+      "Lists all Discord servers the bots have access to and which bot is in each",
+    displayName: "🏰 List Servers",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+    global: true,
+  },
+  {
+    name: "discord_update_server_settings",
+    schema: UpdateServerSettingsSchema,
+    handler: updateServerSettingsHandler,
+    group: "serverManagement",
+    description:
+      "Updates various server settings like name, description, icon, etc.",
+    displayName: "🏰⚙️ Update Server Settings",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_update_server_engagement",
+    schema: UpdateServerEngagementSchema,
+    handler: updateServerEngagementHandler,
+    group: "serverManagement",
+    description:
+      "Updates server engagement settings like system messages and rules",
+    displayName: "🏰🎯 Update Server Engagement",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_update_welcome_screen",
+    schema: UpdateWelcomeScreenSchema,
+    handler: updateWelcomeScreenHandler,
+    group: "serverManagement",
+    description: "Updates the server's welcome screen settings",
+    displayName: "🏰🎉 Update Welcome Screen",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+
+  // Reaction Tools
+  {
+    name: "discord_add_reaction",
+    schema: AddReactionSchema,
+    handler: addReactionHandler,
+    group: "contentManagement",
+    description: "Adds an emoji reaction to a specific Discord message",
+    displayName: "😀 Add Reaction",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_add_multiple_reactions",
+    schema: AddMultipleReactionsSchema,
+    handler: addMultipleReactionsHandler,
+    group: "contentManagement",
+    description: "Adds multiple emoji reactions to a Discord message at once",
+    displayName: "😀✨ Add Multiple Reactions",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_remove_reaction",
+    schema: RemoveReactionSchema,
+    handler: removeReactionHandler,
+    group: "contentManagement",
+    description: "Removes a specific emoji reaction from a Discord message",
+    displayName: "🚫 Remove Reaction",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+
+  // Webhook Tools
+  {
+    name: "discord_create_webhook",
+    schema: CreateWebhookSchema,
+    handler: createWebhookHandler,
+    group: "core",
+    description: "Creates a new webhook for a Discord channel",
+    displayName: "🪝 Create Webhook",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_send_webhook_message",
+    schema: SendWebhookMessageSchema,
+    handler: sendWebhookMessageHandler,
+    group: "core",
+    description: "Sends a message to a Discord channel using a webhook",
+    displayName: "🪝💬 Send Webhook Message",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_edit_webhook",
+    schema: EditWebhookSchema,
+    handler: editWebhookHandler,
+    group: "core",
+    description: "Edits an existing webhook for a Discord channel",
+    displayName: "🪝✏️ Edit Webhook",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_delete_webhook",
+    schema: DeleteWebhookSchema,
+    handler: deleteWebhookHandler,
+    group: "core",
+    description: "Deletes an existing webhook for a Discord channel",
+    displayName: "🪝🗑️ Delete Webhook",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_list_webhooks",
+    schema: ListWebhooksSchema,
+    outputSchema: ListWebhooksOutputSchema,
+    handler: listWebhooksHandler,
+    group: "core",
+    description: "Lists all webhooks for a Discord server or specific channel",
+    displayName: "🪝📋 List Webhooks",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+
+  // User Management Tools
+  {
+    name: "discord_get_user_info",
+    schema: GetUserInfoSchema,
+    outputSchema: GetUserInfoOutputSchema,
+    handler: getUserInfoHandler,
+    group: "userManagement",
+    description: "Retrieves information about a Discord user",
+    displayName: "👤 Get User Info",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_get_guild_member",
+    schema: GetGuildMemberSchema,
+    outputSchema: GetGuildMemberOutputSchema,
+    handler: getGuildMemberHandler,
+    group: "userManagement",
+    description:
+      "Retrieves information about a guild member including roles and permissions",
+    displayName: "👥 Get Guild Member",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_list_guild_members",
+    schema: ListGuildMembersSchema,
+    outputSchema: ListGuildMembersOutputSchema,
+    handler: listGuildMembersHandler,
+    group: "userManagement",
+    description: "Lists all members in a Discord server",
+    displayName: "👥📋 List Guild Members",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_add_role_to_member",
+    schema: AddRoleToMemberSchema,
+    handler: addRoleToMemberHandler,
+    group: "userManagement",
+    description: "Adds a role to a guild member",
+    displayName: "🏷️➕ Add Role to Member",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_remove_role_from_member",
+    schema: RemoveRoleFromMemberSchema,
+    handler: removeRoleFromMemberHandler,
+    group: "userManagement",
+    description: "Removes a role from a guild member",
+    displayName: "🏷️➖ Remove Role from Member",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_kick_member",
+    schema: KickMemberSchema,
+    handler: kickMemberHandler,
+    group: "userManagement",
+    description: "Kicks a member from the Discord server",
+    displayName: "👢 Kick Member",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_ban_member",
+    schema: BanMemberSchema,
+    handler: banMemberHandler,
+    group: "userManagement",
+    description: "Bans a member from the Discord server",
+    displayName: "🔨 Ban Member",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_unban_member",
+    schema: UnbanMemberSchema,
+    handler: unbanMemberHandler,
+    group: "userManagement",
+    description: "Unbans a user from the Discord server",
+    displayName: "🔓 Unban Member",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_timeout_member",
+    schema: TimeoutMemberSchema,
+    handler: timeoutMemberHandler,
+    group: "userManagement",
+    description: "Times out or removes timeout from a guild member",
+    displayName: "⏰ Timeout Member",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+
+  // Role Management Tools
+  {
+    name: "discord_create_role",
+    schema: CreateRoleSchema,
+    handler: createRoleHandler,
+    group: "rbac",
+    description:
+      "Creates a new role in a Discord server with specified permissions",
+    displayName: "🏷️ Create Role",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_edit_role",
+    schema: EditRoleSchema,
+    handler: editRoleHandler,
+    group: "rbac",
+    description: "Edits an existing role's properties and permissions",
+    displayName: "🏷️✏️ Edit Role",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_delete_role",
+    schema: DeleteRoleSchema,
+    handler: deleteRoleHandler,
+    group: "rbac",
+    description: "Deletes a role from the Discord server",
+    displayName: "🏷️🗑️ Delete Role",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_list_roles",
+    schema: ListRolesSchema,
+    outputSchema: ListRolesOutputSchema,
+    handler: listRolesHandler,
+    group: "rbac",
+    description: "Lists all roles in a Discord server with their properties",
+    displayName: "🏷️📋 List Roles",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_get_role_permissions",
+    schema: GetRolePermissionsSchema,
+    outputSchema: GetRolePermissionsOutputSchema,
+    handler: getRolePermissionsHandler,
+    group: "rbac",
+    description: "Gets the permissions for a specific role",
+    displayName: "🏷️🔍 Get Role Permissions",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+
+  // Direct Message Tools
+  {
+    name: "discord_send_direct_message",
+    schema: SendDirectMessageSchema,
+    handler: sendDirectMessageHandler,
+    group: "directMessages",
+    description: "Sends a direct message to a Discord user",
+    displayName: "📧 Send Direct Message",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_get_direct_messages",
+    schema: GetDirectMessagesSchema,
+    outputSchema: GetDirectMessagesOutputSchema,
+    handler: getDirectMessagesHandler,
+    group: "directMessages",
+    description: "Retrieves direct message history with a specific user",
+    displayName: "📧📖 Get Direct Messages",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+
+  // Emoji & Sticker Tools
+  {
+    name: "discord_create_emoji",
+    schema: CreateEmojiSchema,
+    handler: createEmojiHandler,
+    group: "serverManagement",
+    description: "Creates a new emoji for the server",
+    displayName: "😀➕ Create Emoji",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_delete_emoji",
+    schema: DeleteEmojiSchema,
+    handler: deleteEmojiHandler,
+    group: "serverManagement",
+    description: "Deletes an emoji from the server",
+    displayName: "😀🗑️ Delete Emoji",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_list_emojis",
+    schema: ListEmojisSchema,
+    outputSchema: ListEmojisOutputSchema,
+    handler: listEmojisHandler,
+    group: "serverManagement",
+    description: "Lists all emojis in the server",
+    displayName: "😀📋 List Emojis",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_create_sticker",
+    schema: CreateStickerSchema,
+    handler: createStickerHandler,
+    group: "serverManagement",
+    description: "Creates a new sticker for the server",
+    displayName: "🏷️➕ Create Sticker",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_delete_sticker",
+    schema: DeleteStickerSchema,
+    handler: deleteStickerHandler,
+    group: "serverManagement",
+    description: "Deletes a sticker from the server",
+    displayName: "🏷️🗑️ Delete Sticker",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_list_stickers",
+    schema: ListStickersSchema,
+    outputSchema: ListStickersOutputSchema,
+    handler: listStickersHandler,
+    group: "serverManagement",
+    description: "Lists all stickers in the server",
+    displayName: "🏷️📋 List Stickers",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+
+  // Invite & Integration Tools
+  {
+    name: "discord_create_invite",
+    schema: CreateInviteSchema,
+    handler: createInviteHandler,
+    group: "serverManagement",
+    description: "Creates an invite for a channel",
+    displayName: "🔗 Create Invite",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_delete_invite",
+    schema: DeleteInviteSchema,
+    handler: deleteInviteHandler,
+    group: "serverManagement",
+    description: "Deletes an invite by code",
+    displayName: "🔗🗑️ Delete Invite",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_list_invites",
+    schema: ListInvitesSchema,
+    outputSchema: ListInvitesOutputSchema,
+    handler: listInvitesHandler,
+    group: "serverManagement",
+    description: "Lists all invites for the server",
+    displayName: "🔗📋 List Invites",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_list_integrations",
+    schema: ListIntegrationsSchema,
+    outputSchema: ListIntegrationsOutputSchema,
+    handler: listIntegrationsHandler,
+    group: "serverManagement",
+    description: "Lists all integrations for the server",
+    displayName: "🔌📋 List Integrations",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_delete_integration",
+    schema: DeleteIntegrationSchema,
+    handler: deleteIntegrationHandler,
+    group: "serverManagement",
+    description: "Deletes an integration from the server",
+    displayName: "🔌🗑️ Delete Integration",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+
+  // Soundboard Tools
+  {
+    name: "discord_create_soundboard_sound",
+    schema: CreateSoundboardSoundSchema,
+    handler: createSoundboardSoundHandler,
+    group: "serverManagement",
+    description: "Creates a soundboard sound (not yet supported by Discord.js)",
+    displayName: "🔊➕ Create Soundboard Sound",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_delete_soundboard_sound",
+    schema: DeleteSoundboardSoundSchema,
+    handler: deleteSoundboardSoundHandler,
+    group: "serverManagement",
+    description: "Deletes a soundboard sound (not yet supported by Discord.js)",
+    displayName: "🔊🗑️ Delete Soundboard Sound",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_list_soundboard_sounds",
+    schema: ListSoundboardSoundsSchema,
+    outputSchema: ListSoundboardSoundsOutputSchema,
+    handler: listSoundboardSoundsHandler,
+    group: "serverManagement",
+    description: "Lists all soundboard sounds of the server",
+    displayName: "🔊📋 List Soundboard Sounds",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+
+  // Voice Channel Tools
+  {
+    name: "discord_create_voice_channel",
+    schema: CreateVoiceChannelSchema,
+    handler: createVoiceChannelHandler,
+    group: "voiceChannels",
+    description: "Creates a new voice channel in a Discord server",
+    displayName: "🎤➕ Create Voice Channel",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_delete_voice_channel",
+    schema: DeleteVoiceChannelSchema,
+    handler: deleteVoiceChannelHandler,
+    group: "voiceChannels",
+    description: "Deletes a voice channel from the Discord server",
+    displayName: "🎤🗑️ Delete Voice Channel",
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+  {
+    name: "discord_edit_voice_channel",
+    schema: EditVoiceChannelSchema,
+    handler: editVoiceChannelHandler,
+    group: "voiceChannels",
+    description: "Edits an existing voice channel's properties",
+    displayName: "🎤✏️ Edit Voice Channel",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+  {
+    name: "discord_list_voice_channels",
+    schema: ListVoiceChannelsSchema,
+    outputSchema: ListVoiceChannelsOutputSchema,
+    handler: listVoiceChannelsHandler,
+    group: "voiceChannels",
+    description: "Lists all voice channels in a Discord server",
+    displayName: "🎤📋 List Voice Channels",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_get_voice_channel_info",
+    schema: GetVoiceChannelInfoSchema,
+    outputSchema: GetVoiceChannelInfoOutputSchema,
+    handler: getVoiceChannelInfoHandler,
+    group: "voiceChannels",
+    description: "Gets detailed information about a specific voice channel",
+    displayName: "🎤ℹ️ Get Voice Channel Info",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_move_user_to_voice_channel",
+    schema: MoveUserToVoiceChannelSchema,
+    handler: moveUserToVoiceChannelHandler,
+    group: "voiceChannels",
+    description: "Moves a user to a different voice channel",
+    displayName: "🎤↔️ Move User to Voice Channel",
+    annotations: TOOL_ANNOTATIONS.update,
+  },
+
+  // Enterprise Tools
+  {
+    name: "discord_enterprise_health_check",
+    schema: serverHealthCheckSchema,
+    outputSchema: EnterpriseHealthCheckOutputSchema,
+    handler: serverHealthCheckHandler,
+    group: "serverManagement",
+    description:
+      "Reports service health from the enterprise monitoring services",
+    displayName: "🏥🏢 Enterprise Health Check",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+  {
+    name: "discord_get_analytics",
+    schema: getAnalyticsSchema,
+    outputSchema: GetAnalyticsOutputSchema,
+    handler: getAnalyticsHandler,
+    group: "serverManagement",
+    description:
+      "Retrieves performance, security, usage, error or moderation analytics",
+    displayName: "📊 Get Analytics",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+  },
+  {
+    name: "discord_add_auto_moderation_rule",
+    schema: addAutoModerationRuleSchema,
+    handler: addAutoModerationRuleHandler,
+    group: "serverManagement",
+    description: "Adds an automated moderation rule to the moderation service",
+    displayName: "🛡️ Add Auto-Moderation Rule",
+    annotations: TOOL_ANNOTATIONS.localCreate,
+  },
+  {
+    name: "discord_get_rate_limiter_status",
+    schema: getRateLimiterStatusSchema,
+    outputSchema: RateLimiterStatusOutputSchema,
+    handler: getRateLimiterStatusHandler,
+    group: "serverManagement",
+    description: "Shows queue depth and metrics of the Discord rate limiter",
+    displayName: "⏱️ Rate Limiter Status",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+
+  // Bulk Operation Tools
+  {
+    name: "discord_start_bulk_operation",
+    schema: StartBulkOperationSchema,
+    outputSchema: BulkOperationOutputSchema,
+    handler: startBulkOperationHandler,
+    group: "serverManagement",
+    description:
+      "Deletes messages, kicks or bans members, adds or removes a role, or sends DMs in batches. Reports progress until done; cancelling the call cancels the operation. A dry run lists the affected IDs without changing anything",
+    displayName: "📦 Start Bulk Operation",
+    annotations: TOOL_ANNOTATIONS.destructiveNonIdempotent,
+  },
+  {
+    name: "discord_get_bulk_operation",
+    schema: GetBulkOperationSchema,
+    outputSchema: BulkOperationOutputSchema,
+    handler: getBulkOperationHandler,
+    group: "serverManagement",
+    description: "Shows the progress and errors of a bulk operation",
+    displayName: "📦🔍 Get Bulk Operation",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+  {
+    name: "discord_cancel_bulk_operation",
+    schema: CancelBulkOperationSchema,
+    outputSchema: BulkOperationOutputSchema,
+    handler: cancelBulkOperationHandler,
+    group: "serverManagement",
+    description:
+      "Cancels a running or paused bulk operation after its current batch. Processed items are not undone",
+    displayName: "📦⏹️ Cancel Bulk Operation",
+    annotations: TOOL_ANNOTATIONS.localUpdate,
+    global: true,
+  },
+  {
+    name: "discord_pause_bulk_operation",
+    schema: PauseBulkOperationSchema,
+    outputSchema: BulkOperationOutputSchema,
+    handler: pauseBulkOperationHandler,
+    group: "serverManagement",
+    description: "Pauses a running bulk operation after its current batch",
+    displayName: "📦⏸️ Pause Bulk Operation",
+    annotations: TOOL_ANNOTATIONS.localUpdate,
+    global: true,
+  },
+  {
+    name: "discord_resume_bulk_operation",
+    schema: ResumeBulkOperationSchema,
+    outputSchema: BulkOperationOutputSchema,
+    handler: resumeBulkOperationHandler,
+    group: "serverManagement",
+    description:
+      "Resumes a paused bulk operation, including operations interrupted by a restart, after its last completed batch. Reports progress like discord_start_bulk_operation",
+    displayName: "📦▶️ Resume Bulk Operation",
+    annotations: TOOL_ANNOTATIONS.destructiveNonIdempotent,
+    global: true,
+  },
+  {
+    name: "discord_list_bulk_operations",
+    schema: ListBulkOperationsSchema,
+    outputSchema: ListBulkOperationsOutputSchema,
+    handler: listBulkOperationsHandler,
+    group: "serverManagement",
+    description: "Lists bulk operations, newest first",
+    displayName: "📦📋 List Bulk Operations",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+
+  // Guild Backup Tools
+  {
+    name: "discord_backup_guild",
+    schema: BackupGuildSchema,
+    outputSchema: BackupSummaryOutputSchema,
+    handler: backupGuildHandler,
+    group: "serverManagement",
+    description:
+      "Saves the settings, roles, channels with permission overwrites and forum tags, emojis, stickers, webhooks and welcome screen of a server to a backup file",
+    displayName: "💾 Backup Server",
+    annotations: TOOL_ANNOTATIONS.create,
+  },
+  {
+    name: "discord_list_backups",
+    schema: ListBackupsSchema,
+    outputSchema: ListBackupsOutputSchema,
+    handler: listBackupsHandler,
+    group: "serverManagement",
+    description: "Lists server backups, newest first",
+    displayName: "💾📋 List Backups",
+    annotations: TOOL_ANNOTATIONS.localReadOnly,
+    global: true,
+  },
+  {
+    name: "discord_diff_backup",
+    schema: DiffBackupSchema,
+    outputSchema: DiffBackupOutputSchema,
+    handler: diffBackupHandler,
+    group: "serverManagement",
+    description:
+      "Compares a backup with its server: settings, roles, channels, emojis, stickers and webhooks added, removed or changed since, and whether the welcome screen changed",
+    displayName: "💾🔍 Diff Backup",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+    global: true,
+  },
+  {
+    name: "discord_restore_backup",
+    schema: RestoreBackupSchema,
+    outputSchema: RestoreBackupOutputSchema,
+    handler: restoreBackupHandler,
+    group: "serverManagement",
+    description:
+      "Recreates the roles, channels, emojis, stickers, webhooks and forum tags a server lost since a backup and restores its welcome screen, remapping old IDs to new ones. Existing items are not changed. A dry run lists the steps without changing anything",
+    displayName: "💾♻️ Restore Backup",
+    annotations: TOOL_ANNOTATIONS.create,
+    global: true,
+  },
+
+  // Guild Spec Tools
+  {
+    name: "discord_export_guild_spec",
+    schema: ExportGuildSpecSchema,
+    outputSchema: ExportGuildSpecOutputSchema,
+    handler: exportGuildSpecHandler,
+    group: "serverManagement",
+    description:
+      "Describes the roles, categories, text, voice and forum channels, permission overwrites, forum tags and welcome screen of a server as a guild spec",
+    displayName: "📐 Export Server Spec",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_plan_guild_spec",
+    schema: PlanGuildSpecSchema,
+    outputSchema: PlanGuildSpecOutputSchema,
+    handler: planGuildSpecHandler,
+    group: "serverManagement",
+    description:
+      "Lists the changes that would make a server match a guild spec, without making them. Pass the spec as an object in spec or as YAML text in specYaml",
+    displayName: "📐🔍 Plan Server Spec",
+    annotations: TOOL_ANNOTATIONS.readOnly,
+  },
+  {
+    name: "discord_apply_guild_spec",
+    schema: ApplyGuildSpecSchema,
+    outputSchema: ApplyGuildSpecOutputSchema,
+    handler: applyGuildSpecHandler,
+    group: "serverManagement",
+    description:
+      "Creates and updates roles, channels, permission overwrites, forum tags and the welcome screen until a server matches a guild spec. Nothing the spec does not mention is changed or deleted. Pass the spec as an object in spec or as YAML text in specYaml",
+    displayName: "📐✅ Apply Server Spec",
+    // Replaces overwrites and forum tags, and can clear permissions and topics
+    annotations: TOOL_ANNOTATIONS.destructive,
+  },
+];
+
+const toolRegistryByName = new Map(
+  toolRegistry.map((entry) => [entry.name, entry]),
+);
+
+/**
+ * Looks up a registered tool by name
+ */
+export function getToolEntry(name: string): ToolRegistryEntry | undefined {
+  return toolRegistryByName.get(name);
+}
+
+/**
+ * Returns the flag that enables a tool group, or null for groups that are
+ * always enabled
+ */
+export function getToolGroupFlag(group: ToolGroup): FeatureFlag | null {
+  return group === "core" || group === "admin" ? null : TOOL_GROUP_FLAGS[group];
+}
+
+/**
+ * Returns whether a tool's feature-flag group is enabled in the given config,
+ * globally or by the override of at least one guild
+ */
+export function isToolEnabled(
+  entry: ToolRegistryEntry,
+  config: ServerConfig = configManager.getConfig(),
+): boolean {
+  const flag = getToolGroupFlag(entry.group);
+  if (!flag) return true;
+  return (
+    config[flag] === true ||
+    Object.values(config.GUILD_OVERRIDES).some(
+      (override) => override[flag] === true,
+    )
+  );
+}
+
+/**
+ * Returns whether a tool's group is enabled for a call that targets the given
+ * guild, or no guild when guildId is null. A guild override replaces the
+ * global flag.
+ */
+export function isToolEnabledForGuild(
+  entry: ToolRegistryEntry,
+  guildId: string | null,
+  config: ServerConfig = configManager.getConfig(),
+): boolean {
+  const flag = getToolGroupFlag(entry.group);
+  if (!flag) return true;
+  const override = guildId ? config.GUILD_OVERRIDES[guildId] : undefined;
+  return (override?.[flag] ?? config[flag]) === true;
+}
+
+/**
+ * Returns whether a caller's access policy lets it use a tool. Without a
+ * policy (stdio, or HTTP without policies) every enabled tool is permitted.
+ * The "admin" group, which can change the token and configuration, must be
+ * listed in the policy's toolGroups.
+ */
+export function isToolPermitted(
+  entry: ToolRegistryEntry,
+  policy: AccessPolicy | undefined,
+): boolean {
+  if (!policy) return true;
+  const groupAllowed = policy.toolGroups
+    ? policy.toolGroups.includes(entry.group)
+    : entry.group !== "admin";
+  if (!groupAllowed) return false;
+  return !policy.readOnly || entry.annotations.readOnlyHint === true;
+}
+
+/**
+ * Returns the registered tools enabled by the given config
+ */
+export function getEnabledToolEntries(
+  config: ServerConfig = configManager.getConfig(),
+): ToolRegistryEntry[] {
+  return toolRegistry.filter((entry) => isToolEnabled(entry, config));
+}
+
+/**
+ * Startup consistency check. Fails when a tool name is registered twice or
+ * when a handler exported from tools/tools.ts is not reachable through any
+ * registry entry.
+ */
+export function validateToolRegistry(): void {
+  const problems: string[] = [];
+
+  const seen = new Set<string>();
+  for (const entry of toolRegistry) {
+    if (seen.has(entry.name)) {
+      problems.push(`Duplicate tool name: ${entry.name}`);
+    }
+    seen.add(entry.name);
+  }
+
+  const registeredHandlers = new Set<unknown>(
+    toolRegistry.map((entry) => entry.handler),
+  );
+  const orphaned = Object.entries(toolModule)
+    .filter(
+      ([exportName, value]) =>
+        exportName.endsWith("Handler") &&
+        typeof value === "function" &&
+        !registeredHandlers.has(value),
+    )
+    .map(([exportName]) => exportName);
+  if (orphaned.length > 0) {
+    problems.push(`Handlers not registered as tools: ${orphaned.join(", ")}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Tool registry validation failed:\n${problems.join("\n")}`);
+  }
+}
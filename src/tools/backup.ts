@@ -0,0 +1,197 @@
+import { ToolContext, ToolResponse } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
+import { callTimeBudgetMs } from "./timeBudget.js";
+import {
+  BackupGuildSchema,
+  ListBackupsSchema,
+  DiffBackupSchema,
+  RestoreBackupSchema,
+} from "../schemas.js";
+import { handleDiscordError } from "../errorHandler.js";
+import { isChannelInScope, isGuildInScope } from "../scopeGuard.js";
+import { checkToolCall } from "../toolHandler.js";
+import { configManager } from "../config.js";
+import {
+  diffGuildBackup,
+  gatherGuildBackup,
+  GuildBackup,
+  listGuildBackups,
+  loadGuildBackup,
+  restoreGuildBackup,
+  saveGuildBackup,
+  summarizeBackup,
+} from "../guildBackup.js";
+
+function errorResponse(text: string): ToolResponse {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+function backupDir(): string {
+  return configManager.getConfig().BACKUP_DIR;
+}
+
+function inScope(guildId: string, context: ToolContext): boolean {
+  return isGuildInScope(guildId, {
+    bot: context.bot,
+    policy: context.policy,
+  });
+}
+
+// Leaves out the channels outside the caller's scope, with their webhooks and
+// welcome screen entries
+function scopeBackup(backup: GuildBackup, context: ToolContext): GuildBackup {
+  const channels = backup.channels.filter((channel) =>
+    isChannelInScope(
+      { ...channel, guildId: backup.guildId },
+      { bot: context.bot, policy: context.policy },
+    ),
+  );
+  const channelIds = new Set(channels.map((channel) => channel.id));
+  return {
+    ...backup,
+    channels,
+    webhooks: backup.webhooks?.filter((webhook) =>
+      channelIds.has(webhook.channelId),
+    ),
+    welcomeScreen: backup.welcomeScreen && {
+      ...backup.welcomeScreen,
+      welcomeChannels: backup.welcomeScreen.welcomeChannels.filter((channel) =>
+        channelIds.has(channel.channelId),
+      ),
+    },
+  };
+}
+
+// Throws when a call of the tool would be refused, so each restore step needs
+// what the tool making the same change needs
+async function checkTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<void> {
+  const refusal = await checkToolCall(toolName, args, context);
+  if (refusal) {
+    throw new Error(refusal.content.map((block) => block.text).join("\n"));
+  }
+}
+
+// Backups of guilds outside the caller's scope are reported as not found
+async function findBackup(
+  backupId: string,
+  context: ToolContext,
+): Promise<GuildBackup | undefined> {
+  let backup: GuildBackup;
+  try {
+    backup = await loadGuildBackup(backupDir(), backupId);
+  } catch {
+    return undefined;
+  }
+  return inScope(backup.guildId, context) ? backup : undefined;
+}
+
+// Backup guild handler
+export async function backupGuildHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { guildId } = BackupGuildSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const guild = await context.client.guilds.fetch(guildId);
+    const backup = scopeBackup(await gatherGuildBackup(guild), context);
+    const backupId = await saveGuildBackup(backupDir(), backup);
+    return structuredResponse({ ...summarizeBackup(backupId, backup) });
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
+
+// List backups handler
+export async function listBackupsHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { guildId } = ListBackupsSchema.parse(args);
+  const backups = (await listGuildBackups(backupDir())).filter(
+    (backup) =>
+      (!guildId || backup.guildId === guildId) &&
+      inScope(backup.guildId, context),
+  );
+  return structuredResponse({ backupCount: backups.length, backups });
+}
+
+// Diff backup handler
+export async function diffBackupHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { backupId } = DiffBackupSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const backup = await findBackup(backupId, context);
+    if (!backup) {
+      return errorResponse(`Backup not found: ${backupId}`);
+    }
+    const guild = await context.client.guilds.fetch(backup.guildId);
+    const diff = diffGuildBackup(
+      scopeBackup(backup, context),
+      scopeBackup(await gatherGuildBackup(guild), context),
+    );
+    return structuredResponse({ backupId, guildId: guild.id, ...diff });
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
+
+// Restore backup handler
+export async function restoreBackupHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { backupId, reason, dryRun } = RestoreBackupSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const backup = await findBackup(backupId, context);
+    if (!backup) {
+      return errorResponse(`Backup not found: ${backupId}`);
+    }
+    const guild = await context.client.guilds.fetch(backup.guildId);
+    const result = await restoreGuildBackup(guild, backupDir(), backupId, {
+      dryRun,
+      reason,
+      checkTool: (toolName, toolArgs) => checkTool(toolName, toolArgs, context),
+      deadline: Date.now() + callTimeBudgetMs(),
+      onStep: (done, total) => {
+        context.reportProgress?.(done, total).catch(() => {
+          // The client may have gone away; the restore continues
+        });
+      },
+    });
+    return structuredResponse({
+      backupId,
+      guildId: guild.id,
+      dryRun: result.dryRun,
+      steps: result.steps.map((step) => ({
+        action: step.action,
+        name: step.name,
+        oldId: step.oldId,
+        newId: step.newId ?? null,
+        error: step.error ?? null,
+      })),
+      failedSteps: result.steps.filter((step) => step.error).length,
+      remainingSteps: result.remainingSteps,
+      idMap: result.idMap,
+    });
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
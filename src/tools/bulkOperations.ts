@@ -0,0 +1,486 @@
+import { ToolContext, ToolResponse } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
+import { callTimeBudgetMs } from "./timeBudget.js";
+import {
+  StartBulkOperationSchema,
+  GetBulkOperationSchema,
+  CancelBulkOperationSchema,
+  PauseBulkOperationSchema,
+  ResumeBulkOperationSchema,
+  ListBulkOperationsSchema,
+} from "../schemas.js";
+import { handleDiscordError } from "../errorHandler.js";
+import { isGuildInScope } from "../scopeGuard.js";
+import {
+  getToolEntry,
+  getToolGroupFlag,
+  isToolEnabledForGuild,
+  isToolPermitted,
+} from "../toolRegistry.js";
+import {
+  BulkOperationType,
+  BulkOperationsService,
+  getBulkOperationsService,
+  MemberFilter,
+  MessageFilter,
+  OperationProgress,
+  OperationStatus,
+} from "../services/bulkOperationsService.js";
+
+// Statuses at which an operation stops running
+const STOPPED_STATUSES = [
+  OperationStatus.COMPLETED,
+  OperationStatus.FAILED,
+  OperationStatus.CANCELLED,
+  OperationStatus.PAUSED,
+];
+
+type StartOperation = ReturnType<
+  typeof StartBulkOperationSchema.parse
+>["operation"];
+
+const START_OPERATION_TYPES: Record<StartOperation, BulkOperationType> = {
+  delete_messages: BulkOperationType.DELETE_MESSAGES,
+  kick_members: BulkOperationType.KICK_MEMBERS,
+  ban_members: BulkOperationType.BAN_MEMBERS,
+  add_role: BulkOperationType.ADD_ROLES,
+  remove_role: BulkOperationType.REMOVE_ROLES,
+  send_dms: BulkOperationType.SEND_DMS,
+};
+
+// The single-item tool each operation repeats. Its group must be enabled for
+// the guild and permitted by the caller's policy.
+const OPERATION_TOOLS: Partial<Record<BulkOperationType, string>> = {
+  [BulkOperationType.DELETE_MESSAGES]: "discord_bulk_delete_messages",
+  [BulkOperationType.KICK_MEMBERS]: "discord_kick_member",
+  [BulkOperationType.BAN_MEMBERS]: "discord_ban_member",
+  [BulkOperationType.ADD_ROLES]: "discord_add_role_to_member",
+  [BulkOperationType.REMOVE_ROLES]: "discord_remove_role_from_member",
+  [BulkOperationType.SEND_DMS]: "discord_send_direct_message",
+};
+
+function errorResponse(text: string): ToolResponse {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+// Rejects operations whose single-item tool the call could not use itself
+function checkOperationAllowed(
+  type: BulkOperationType,
+  guildId: string,
+  context: ToolContext,
+): ToolResponse | null {
+  const toolName = OPERATION_TOOLS[type];
+  const entry = toolName && getToolEntry(toolName);
+  if (!entry) {
+    return errorResponse(`Unsupported bulk operation: ${type}`);
+  }
+  if (!isToolEnabledForGuild(entry, guildId)) {
+    return errorResponse(
+      `This bulk operation repeats ${entry.name}, which is disabled for this server. Enable it with ${getToolGroupFlag(entry.group)}=1`,
+    );
+  }
+  if (!isToolPermitted(entry, context.policy)) {
+    return errorResponse(
+      `This bulk operation repeats ${entry.name}, which is not permitted for this credential`,
+    );
+  }
+  return null;
+}
+
+function toOperationSummary(progress: OperationProgress) {
+  return {
+    operationId: progress.operation_id,
+    type: progress.type,
+    guildId: progress.guild_id,
+    bot: progress.bot,
+    dryRun: progress.dry_run,
+    status: progress.status,
+    totalItems: progress.total_items,
+    processedItems: progress.processed_items,
+    successfulItems: progress.successful_items,
+    failedItems: progress.failed_items,
+    currentBatch: progress.current_batch,
+    totalBatches: progress.total_batches,
+    startedAt: progress.started_at.toISOString(),
+    updatedAt: progress.updated_at.toISOString(),
+    estimatedCompletion: progress.estimated_completion?.toISOString() ?? null,
+  };
+}
+
+function toOperationOutput(progress: OperationProgress) {
+  return {
+    ...toOperationSummary(progress),
+    errors: progress.errors.map((entry) => ({
+      itemId: entry.item_id,
+      error: entry.error,
+      timestamp: entry.timestamp.toISOString(),
+    })),
+    affectedIds: progress.affected_ids ?? null,
+  };
+}
+
+// Whether the caller may see an operation: its guild must be in scope and the
+// caller's policy must permit the single-item tool it repeats
+function isOperationVisible(
+  progress: OperationProgress,
+  context: ToolContext,
+): boolean {
+  const toolName = OPERATION_TOOLS[progress.type];
+  const entry = toolName && getToolEntry(toolName);
+  return (
+    !!entry &&
+    isToolPermitted(entry, context.policy) &&
+    isGuildInScope(progress.guild_id, {
+      bot: progress.bot,
+      policy: context.policy,
+    })
+  );
+}
+
+// Operations the caller may not see are reported as not found
+function findOperation(
+  operationId: string,
+  context: ToolContext,
+): OperationProgress | undefined {
+  const progress = getBulkOperationsService().getOperation(operationId);
+  if (!progress || !isOperationVisible(progress, context)) {
+    return undefined;
+  }
+  return progress;
+}
+
+/**
+ * Waits until the operation stops, forwarding its progress to the client.
+ * Cancelling the tool call cancels the operation. Returns early with the
+ * current progress once maxWaitMs has passed.
+ */
+function followOperation(
+  service: BulkOperationsService,
+  operationId: string,
+  context: ToolContext,
+  maxWaitMs: number,
+): Promise<OperationProgress> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let reportedItems = -1;
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      service.off("progress_updated", onProgress);
+      context.signal?.removeEventListener("abort", onAbort);
+      resolve(service.getOperation(operationId)!);
+    };
+    const onProgress = (progress: OperationProgress) => {
+      if (progress.operation_id !== operationId) return;
+      if (progress.processed_items !== reportedItems) {
+        reportedItems = progress.processed_items;
+        context
+          .reportProgress?.(
+            progress.processed_items,
+            progress.total_items || undefined,
+            `${progress.processed_items}/${progress.total_items} items, batch ${progress.current_batch}/${progress.total_batches}`,
+          )
+          .catch(() => {
+            // The client may have gone away; the operation continues
+          });
+      }
+      if (STOPPED_STATUSES.includes(progress.status)) finish();
+    };
+    const onAbort = () => {
+      service.cancelOperation(operationId);
+      finish();
+    };
+
+    const timer = setTimeout(finish, maxWaitMs);
+    service.on("progress_updated", onProgress);
+    context.signal?.addEventListener("abort", onAbort, { once: true });
+
+    // The operation may have stopped before the listener was added
+    if (context.signal?.aborted) {
+      onAbort();
+    } else if (
+      STOPPED_STATUSES.includes(service.getOperation(operationId)!.status)
+    ) {
+      finish();
+    }
+  });
+}
+
+// Progress of a started or resumed operation, once it stops when waiting
+function reportOperation(
+  operationId: string,
+  context: ToolContext,
+  wait: boolean,
+): Promise<OperationProgress> {
+  const service = getBulkOperationsService();
+  if (!wait) {
+    return Promise.resolve(service.getOperation(operationId)!);
+  }
+  return followOperation(service, operationId, context, callTimeBudgetMs());
+}
+
+function toMessageFilter(
+  filter: ReturnType<typeof StartBulkOperationSchema.parse>["messageFilter"],
+): MessageFilter | undefined {
+  return (
+    filter && {
+      user_id: filter.authorId,
+      before: filter.before,
+      after: filter.after,
+      content_contains: filter.contentContains,
+      has_attachments: filter.hasAttachments,
+      has_embeds: filter.hasEmbeds,
+      older_than_days: filter.olderThanDays,
+      is_bot: filter.isBot,
+      is_pinned: filter.isPinned,
+    }
+  );
+}
+
+function toMemberFilter(
+  filter: ReturnType<typeof StartBulkOperationSchema.parse>["memberFilter"],
+): MemberFilter | undefined {
+  return (
+    filter && {
+      joined_before: filter.joinedBefore
+        ? new Date(filter.joinedBefore)
+        : undefined,
+      joined_after: filter.joinedAfter
+        ? new Date(filter.joinedAfter)
+        : undefined,
+      has_roles: filter.hasRoles,
+      missing_roles: filter.missingRoles,
+      is_bot: filter.isBot,
+      username_contains: filter.usernameContains,
+      no_avatar: filter.noAvatar,
+    }
+  );
+}
+
+// Start bulk operation handler
+export async function startBulkOperationHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const {
+    guildId,
+    operation,
+    channelId,
+    roleId,
+    message,
+    memberIds,
+    memberFilter,
+    messageFilter,
+    reason,
+    deleteMessageDays,
+    batchSize,
+    delayMs,
+    dryRun,
+    wait,
+  } = StartBulkOperationSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const notAllowed = checkOperationAllowed(
+      START_OPERATION_TYPES[operation],
+      guildId,
+      context,
+    );
+    if (notAllowed) return notAllowed;
+
+    // Without either, member operations would act on every member
+    if (
+      operation !== "delete_messages" &&
+      !memberIds?.length &&
+      !memberFilter
+    ) {
+      return errorResponse(
+        `${operation} requires memberIds or memberFilter to select members`,
+      );
+    }
+
+    const service = getBulkOperationsService();
+    const options = {
+      batch_size: batchSize,
+      delay_ms: delayMs,
+      dry_run: dryRun,
+      bot: context.bot,
+    };
+    let operationId: string;
+    switch (operation) {
+      case "delete_messages":
+        if (!channelId) {
+          return errorResponse("delete_messages requires channelId");
+        }
+        operationId = await service.bulkDeleteMessages(
+          guildId,
+          channelId,
+          toMessageFilter(messageFilter),
+          options,
+        );
+        break;
+      case "kick_members":
+      case "ban_members":
+        operationId = await service.bulkMemberAction(
+          guildId,
+          operation === "kick_members" ? "kick" : "ban",
+          memberIds,
+          toMemberFilter(memberFilter),
+          { ...options, reason, delete_message_days: deleteMessageDays },
+        );
+        break;
+      case "add_role":
+      case "remove_role":
+        if (!roleId) {
+          return errorResponse(`${operation} requires roleId`);
+        }
+        operationId = await service.bulkRoleOperation(
+          guildId,
+          operation === "add_role" ? "add" : "remove",
+          roleId,
+          memberIds,
+          toMemberFilter(memberFilter),
+          { ...options, reason },
+        );
+        break;
+      case "send_dms":
+        if (!message) {
+          return errorResponse("send_dms requires message");
+        }
+        operationId = await service.bulkSendDMs(
+          guildId,
+          message,
+          memberIds,
+          toMemberFilter(memberFilter),
+          options,
+        );
+        break;
+    }
+
+    return structuredResponse(
+      toOperationOutput(await reportOperation(operationId, context, wait)),
+    );
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
+
+// Get bulk operation handler
+export async function getBulkOperationHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { operationId } = GetBulkOperationSchema.parse(args);
+  const progress = findOperation(operationId, context);
+  if (!progress) {
+    return errorResponse(`Bulk operation not found: ${operationId}`);
+  }
+  return structuredResponse(toOperationOutput(progress));
+}
+
+// Cancel bulk operation handler
+export async function cancelBulkOperationHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { operationId } = CancelBulkOperationSchema.parse(args);
+  const progress = findOperation(operationId, context);
+  if (!progress) {
+    return errorResponse(`Bulk operation not found: ${operationId}`);
+  }
+  const notAllowed = checkOperationAllowed(
+    progress.type,
+    progress.guild_id,
+    context,
+  );
+  if (notAllowed) return notAllowed;
+  if (!getBulkOperationsService().cancelOperation(operationId)) {
+    return errorResponse(
+      `Bulk operation ${operationId} is not running (status: ${progress.status})`,
+    );
+  }
+  return structuredResponse(toOperationOutput(progress));
+}
+
+// Pause bulk operation handler
+export async function pauseBulkOperationHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { operationId } = PauseBulkOperationSchema.parse(args);
+  const progress = findOperation(operationId, context);
+  if (!progress) {
+    return errorResponse(`Bulk operation not found: ${operationId}`);
+  }
+  const notAllowed = checkOperationAllowed(
+    progress.type,
+    progress.guild_id,
+    context,
+  );
+  if (notAllowed) return notAllowed;
+  if (!(await getBulkOperationsService().pauseOperation(operationId))) {
+    return errorResponse(
+      `Bulk operation ${operationId} cannot be paused (status: ${progress.status}${progress.dry_run ? ", dry run" : ""})`,
+    );
+  }
+  return structuredResponse(toOperationOutput(progress));
+}
+
+// Resume bulk operation handler
+export async function resumeBulkOperationHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { operationId, wait } = ResumeBulkOperationSchema.parse(args);
+  try {
+    const progress = findOperation(operationId, context);
+    if (!progress) {
+      return errorResponse(`Bulk operation not found: ${operationId}`);
+    }
+    if (!context.bots.get(progress.bot).client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+    const notAllowed = checkOperationAllowed(
+      progress.type,
+      progress.guild_id,
+      context,
+    );
+    if (notAllowed) return notAllowed;
+    if (!getBulkOperationsService().resumeOperation(operationId)) {
+      return errorResponse(
+        `Bulk operation ${operationId} is not paused (status: ${progress.status})`,
+      );
+    }
+    return structuredResponse(
+      toOperationOutput(await reportOperation(operationId, context, wait)),
+    );
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
+
+// List bulk operations handler
+export async function listBulkOperationsHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { guildId, status } = ListBulkOperationsSchema.parse(args);
+  const operations = getBulkOperationsService()
+    .getAllOperations()
+    .filter(
+      (progress) =>
+        (!guildId || progress.guild_id === guildId) &&
+        (!status || progress.status === status) &&
+        isOperationVisible(progress, context),
+    )
+    .sort((a, b) => b.started_at.getTime() - a.started_at.getTime())
+    .map(toOperationSummary);
+  return structuredResponse({
+    operationCount: operations.length,
+    operations,
+  });
+}
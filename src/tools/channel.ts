@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ChannelType } from "discord.js";
 import { ToolContext, ToolResponse } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import {
   CreateTextChannelSchema,
   CreateForumChannelSchema,
@@ -33,6 +34,7 @@ import {
   ListSoundboardSoundsSchema,
 } from "../schemas.js";
 import { handleDiscordError } from "../errorHandler.js";
+import { isChannelInScope, isGuildInScope } from "../scopeGuard.js";
 
 // Category creation handler
 export async function createCategoryHandler(
@@ -394,14 +396,9 @@ export async function readMessagesHandler(
     // Fetch messages
     const messages = await channel.messages.fetch({ limit });
 
-    if (messages.size === 0) {
-      return {
-        content: [{ type: "text", text: `No messages found in channel` }],
-      };
-    }
-
     // Format messages
     const formattedMessages = messages
+      .sort((a, b) => a.createdTimestamp - b.createdTimestamp)
       .map((msg) => ({
         id: msg.id,
         content: msg.content,
@@ -410,29 +407,17 @@ export async function readMessagesHandler(
           username: msg.author.username,
           bot: msg.author.bot,
         },
-        timestamp: msg.createdAt,
+        timestamp: msg.createdAt.toISOString(),
         attachments: msg.attachments.size,
         embeds: msg.embeds.length,
-        replyTo: msg.reference ? msg.reference.messageId : null,
-      }))
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        replyTo: msg.reference?.messageId ?? null,
+      }));
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              channelId,
-              messageCount: formattedMessages.length,
-              messages: formattedMessages,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return structuredResponse({
+      channelId,
+      messageCount: formattedMessages.length,
+      messages: formattedMessages,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -465,8 +450,10 @@ export async function getServerInfoHandler(
     // Fetch additional server data
     await guild.fetch();
 
-    // Fetch channel information
-    const channels = await guild.channels.fetch();
+    // Fetch channel information, hiding channels outside the allowed scope
+    const channels = (await guild.channels.fetch()).filter(
+      (c) => !!c && isChannelInScope(c, context),
+    );
 
     // Categorize channels by type
     const channelsByType = {
@@ -491,7 +478,7 @@ export async function getServerInfoHandler(
         return {
           id: channel.id,
           name: channel.name,
-          type: ChannelType[channel.type] || channel.type,
+          type: ChannelType[channel.type] || String(channel.type),
           categoryId: channel.parentId,
           position: channel.position,
           // Only add topic for text channels
@@ -503,40 +490,28 @@ export async function getServerInfoHandler(
     // Group channels by type
     const groupedChannels = {
       text: channelDetails.filter(
-        (c) =>
-          c.type === ChannelType[ChannelType.GuildText] ||
-          c.type === ChannelType.GuildText,
+        (c) => c.type === ChannelType[ChannelType.GuildText],
       ),
       voice: channelDetails.filter(
-        (c) =>
-          c.type === ChannelType[ChannelType.GuildVoice] ||
-          c.type === ChannelType.GuildVoice,
+        (c) => c.type === ChannelType[ChannelType.GuildVoice],
       ),
       category: channelDetails.filter(
-        (c) =>
-          c.type === ChannelType[ChannelType.GuildCategory] ||
-          c.type === ChannelType.GuildCategory,
+        (c) => c.type === ChannelType[ChannelType.GuildCategory],
       ),
       forum: channelDetails.filter(
-        (c) =>
-          c.type === ChannelType[ChannelType.GuildForum] ||
-          c.type === ChannelType.GuildForum,
+        (c) => c.type === ChannelType[ChannelType.GuildForum],
       ),
       announcement: channelDetails.filter(
-        (c) =>
-          c.type === ChannelType[ChannelType.GuildAnnouncement] ||
-          c.type === ChannelType.GuildAnnouncement,
+        (c) => c.type === ChannelType[ChannelType.GuildAnnouncement],
       ),
       stage: channelDetails.filter(
-        (c) =>
-          c.type === ChannelType[ChannelType.GuildStageVoice] ||
-          c.type === ChannelType.GuildStageVoice,
+        (c) => c.type === ChannelType[ChannelType.GuildStageVoice],
       ),
       all: channelDetails,
     };
 
     // Get member count
-    const approximateMemberCount = guild.approximateMemberCount || "unknown";
+    const approximateMemberCount = guild.approximateMemberCount ?? null;
 
     // Format guild information
     const guildInfo = {
@@ -545,7 +520,7 @@ export async function getServerInfoHandler(
       description: guild.description,
       icon: guild.iconURL(),
       owner: guild.ownerId,
-      createdAt: guild.createdAt,
+      createdAt: guild.createdAt.toISOString(),
       memberCount: approximateMemberCount,
       channels: {
         count: channelsByType,
@@ -558,9 +533,7 @@ export async function getServerInfoHandler(
       },
     };
 
-    return {
-      content: [{ type: "text", text: JSON.stringify(guildInfo, null, 2) }],
-    };
+    return structuredResponse(guildInfo);
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -573,49 +546,43 @@ export async function listServersHandler(
 ): Promise<ToolResponse> {
   const {} = ListServersSchema.parse(args);
   try {
-    if (!context.client.isReady()) {
+    // Without a `bot` argument, the servers of every logged-in bot are listed
+    const bots = (
+      context.bot ? [context.bots.get(context.bot)] : context.bots.list()
+    ).filter((bot) => bot.client.isReady());
+    if (bots.length === 0) {
       return {
         content: [{ type: "text", text: "Discord client not logged in." }],
         isError: true,
       };
     }
 
-    const guilds = context.client.guilds.cache;
-
-    if (guilds.size === 0) {
-      return {
-        content: [
-          { type: "text", text: "Bot is not a member of any servers." },
-        ],
-      };
+    // Format server information, noting which bots see each server
+    const servers = new Map<string, Record<string, any>>();
+    for (const { name, client } of bots) {
+      for (const guild of client.guilds.cache.values()) {
+        if (!isGuildInScope(guild.id, { bot: name, policy: context.policy })) {
+          continue;
+        }
+        const server = servers.get(guild.id) ?? {
+          id: guild.id,
+          name: guild.name,
+          memberCount: guild.memberCount,
+          ownerId: guild.ownerId,
+          createdAt: guild.createdAt.toISOString(),
+          features: guild.features,
+          icon: guild.iconURL() || null,
+          bots: [],
+        };
+        server.bots.push(name);
+        servers.set(guild.id, server);
+      }
     }
 
-    // Format server information
-    const servers = guilds.map((guild) => ({
-      id: guild.id,
-      name: guild.name,
-      memberCount: guild.memberCount || "unknown",
-      ownerId: guild.ownerId,
-      createdAt: guild.createdAt.toISOString(),
-      features: guild.features,
-      icon: guild.iconURL() || null,
-    }));
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              serverCount: servers.length,
-              servers: servers,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return structuredResponse({
+      serverCount: servers.size,
+      servers: [...servers.values()],
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -956,7 +923,7 @@ export async function updateWelcomeScreenHandler(
       {
         method: "PATCH",
         headers: {
-          Authorization: `Bot ${process.env.DISCORD_TOKEN}`,
+          Authorization: `Bot ${context.client.token}`,
           "Content-Type": "application/json",
         },
         body: JSON.stringify(welcomeScreenData),
@@ -1122,22 +1089,11 @@ export async function listEmojisHandler(
       url: emoji.url,
     }));
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              guildName: guild.name,
-              emojiCount: emojis.length,
-              emojis: emojis,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return structuredResponse({
+      guildName: guild.name,
+      emojiCount: emojis.length,
+      emojis: emojis,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -1277,22 +1233,11 @@ export async function listStickersHandler(
       url: sticker.url,
     }));
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              guildName: guild.name,
-              stickerCount: stickers.length,
-              stickers: stickers,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return structuredResponse({
+      guildName: guild.name,
+      stickerCount: stickers.length,
+      stickers: stickers,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -1421,7 +1366,12 @@ export async function listInvitesHandler(
       };
     }
 
-    const invites = await guild.invites.fetch();
+    const invites = (await guild.invites.fetch()).filter(
+      (invite) =>
+        !invite.channel ||
+        (!invite.channel.isDMBased() &&
+          isChannelInScope(invite.channel, context)),
+    );
     const inviteList = invites.map((invite) => ({
       code: invite.code,
       url: invite.url,
@@ -1435,22 +1385,11 @@ export async function listInvitesHandler(
       expiresAt: invite.expiresAt?.toISOString() || null,
     }));
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              guildName: guild.name,
-              inviteCount: inviteList.length,
-              invites: inviteList,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return structuredResponse({
+      guildName: guild.name,
+      inviteCount: inviteList.length,
+      invites: inviteList,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -1481,16 +1420,30 @@ export async function listIntegrationsHandler(
       };
     }
 
-    // Note: Integration fetching is not directly supported in Discord.js yet
-    return {
-      content: [
-        {
-          type: "text",
-          text: "Integration listing is not yet fully supported by Discord.js. This feature will be available when Discord.js adds integration support.",
-        },
-      ],
-      isError: true,
-    };
+    const integrations = await guild.fetchIntegrations();
+    const integrationList = integrations.map((integration) => ({
+      id: integration.id,
+      name: integration.name,
+      type: integration.type,
+      enabled: integration.enabled,
+      account: {
+        id: integration.account.id,
+        name: integration.account.name,
+      },
+      applicationId: integration.application?.id ?? null,
+      roleId: integration.role?.id ?? null,
+      user: integration.user
+        ? { id: integration.user.id, username: integration.user.username }
+        : null,
+      syncing: integration.syncing,
+      syncedAt: integration.syncedAt?.toISOString() ?? null,
+    }));
+
+    return structuredResponse({
+      guildName: guild.name,
+      integrationCount: integrationList.length,
+      integrations: integrationList,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -1643,16 +1596,26 @@ export async function listSoundboardSoundsHandler(
       };
     }
 
-    // Note: Discord.js doesn't have soundboard support yet, so this is a placeholder
-    return {
-      content: [
-        {
-          type: "text",
-          text: "Soundboard functionality is not yet supported by Discord.js. This feature will be available when Discord.js adds soundboard support.",
-        },
-      ],
-      isError: true,
-    };
+    const sounds = await guild.soundboardSounds.fetch();
+    const soundList = sounds.map((sound) => ({
+      id: sound.soundId,
+      name: sound.name,
+      volume: sound.volume,
+      emojiId: sound.emoji?.id ?? null,
+      emojiName: sound.emoji?.name ?? null,
+      available: sound.available,
+      user: sound.user
+        ? { id: sound.user.id, username: sound.user.username }
+        : null,
+      createdAt: sound.createdAt.toISOString(),
+      url: sound.url,
+    }));
+
+    return structuredResponse({
+      guildName: guild.name,
+      soundCount: soundList.length,
+      sounds: soundList,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -1,4 +1,5 @@
 import { ToolHandler } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import { handleDiscordError } from "../errorHandler.js";
 import { info, error } from "../logger.js";
 
@@ -50,24 +51,22 @@ export const getDirectMessagesHandler: ToolHandler = async (args, context) => {
       limit: args.limit || 50,
     });
 
+    // Oldest first, like a conversation transcript
     const messageList = messages
-      .map((msg) => {
-        const timestamp = msg.createdAt.toISOString();
-        const author = msg.author.username;
-        const content = msg.content || "[No text content]";
-        return `[${timestamp}] ${author}: ${content}`;
-      })
-      .reverse()
-      .join("\n");
+      .map((msg) => ({
+        id: msg.id,
+        content: msg.content,
+        author: { id: msg.author.id, username: msg.author.username },
+        createdAt: msg.createdAt.toISOString(),
+      }))
+      .reverse();
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Direct Messages with ${user.username}#${user.discriminator}:\n${messageList}`,
-        },
-      ],
-    };
+    return structuredResponse({
+      userId: user.id,
+      username: user.username,
+      messageCount: messageList.length,
+      messages: messageList,
+    });
   } catch (err) {
     error(
       `Error getting direct messages: ${err instanceof Error ? err.message : String(err)}`,
@@ -6,6 +6,7 @@
 import { z } from "zod";
 import { Client } from "discord.js";
 import { ToolResponse } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import { handleDiscordError } from "../errorHandler.js";
 import { EnterpriseIntegrationService } from "../services/enterpriseIntegrationService.js";
 import {
@@ -34,97 +35,45 @@ export async function serverHealthCheckHandler(
   context: EnterpriseToolContext,
 ): Promise<ToolResponse> {
   try {
+    const discord = {
+      connected: context.client.isReady(),
+      guildCount: context.client.guilds.cache.size,
+      // NaN until the first heartbeat
+      pingMs: Number.isFinite(context.client.ws.ping)
+        ? context.client.ws.ping
+        : null,
+      uptimeSeconds: Math.floor((context.client.uptime || 0) / 1000),
+    };
+
     if (!context.enterpriseService) {
       // Basic health check without enterprise features
-      return {
-        content: [
-          {
-            type: "text",
-            text: `🏥 **Basic Health Check**
-
-**Discord Client**: ${context.client.isReady() ? "✅ Connected" : "❌ Disconnected"}
-**Guilds**: ${context.client.guilds.cache.size} servers
-**Uptime**: ${Math.floor(context.client.uptime || 0 / 1000)}s
-
-*Note: Enterprise monitoring not available. Enable enterprise services for comprehensive health monitoring.*`,
-          },
-        ],
-        isError: false,
-      };
+      return structuredResponse({
+        enterpriseEnabled: false,
+        overall: null,
+        discord,
+        summary: null,
+        services: null,
+      });
     }
 
     // Perform comprehensive health check with enterprise services
     const systemStatus = context.enterpriseService.getSystemStatus();
-    const analytics = context.enterpriseService.getAnalytics();
-
-    let healthReport = `🏥 **Enterprise Health Check**
-
-**Overall Status**: ${getStatusEmoji(systemStatus.overall)} ${systemStatus.overall.toUpperCase()}
-
-**Service Summary**:
-- Total Services: ${systemStatus.summary.totalServices}
-- Healthy: ${systemStatus.summary.healthyServices} ✅
-- Warning: ${systemStatus.summary.warningServices} ⚠️
-- Critical: ${systemStatus.summary.criticalServices} ❌
-
-**Discord Connection**:
-- Status: ${context.client.isReady() ? "✅ Connected" : "❌ Disconnected"}
-- Guilds: ${context.client.guilds.cache.size}
-- Ping: ${context.client.ws.ping}ms
-- Uptime: ${formatUptime(context.client.uptime || 0)}`;
-
-    if (args.detailed) {
-      healthReport += `\n\n**Detailed Service Status**:`;
-
-      for (const [serviceName, health] of Object.entries(
-        systemStatus.services,
-      )) {
-        healthReport += `\n- **${serviceName}**: ${getStatusEmoji(health.status)} ${health.status}`;
-        if (health.errors && health.errors.length > 0) {
-          healthReport += ` (${health.errors[0]})`;
-        }
-      }
-
-      if (analytics.performance) {
-        healthReport += `\n\n**Performance Metrics**:`;
-        healthReport += `\n- Memory Usage: ${analytics.performance.memory?.heapUsedMB || "N/A"}MB`;
-        healthReport += `\n- Tool Usage: ${Object.keys(analytics.performance.toolUsage || {}).length} tools used`;
-
-        if (analytics.performance.averageResponseTimes) {
-          const avgTimes = Object.entries(
-            analytics.performance.averageResponseTimes,
-          );
-          if (avgTimes.length > 0) {
-            const [slowestOp, slowestTime] = avgTimes.reduce((a, b) =>
-              (a[1] as number) > (b[1] as number) ? a : b,
-            );
-            healthReport += `\n- Slowest Operation: ${slowestOp} (${Math.round(slowestTime as number)}ms)`;
-          }
-        }
-      }
-
-      if (analytics.security) {
-        healthReport += `\n\n**Security Summary**:`;
-        healthReport += `\n- Total Audit Logs: ${analytics.security.totalAuditLogs || 0}`;
-        healthReport += `\n- Recent Events (24h): ${analytics.security.last24Hours?.total || 0}`;
-
-        if (analytics.security.last24Hours?.bySeverity) {
-          const criticalEvents =
-            analytics.security.last24Hours.bySeverity.critical || 0;
-          if (criticalEvents > 0) {
-            healthReport += `\n- ⚠️ Critical Security Events: ${criticalEvents}`;
-          }
-        }
-      }
-    }
+    const services = args.detailed
+      ? Object.entries(systemStatus.services).map(([name, health]) => ({
+          name,
+          status: health.status,
+          error: health.errors?.[0] ?? null,
+        }))
+      : null;
 
     return {
-      content: [
-        {
-          type: "text",
-          text: healthReport,
-        },
-      ],
+      ...structuredResponse({
+        enterpriseEnabled: true,
+        overall: systemStatus.overall,
+        discord,
+        summary: systemStatus.summary,
+        services,
+      }),
       isError: systemStatus.overall === "critical",
     };
   } catch (err) {
@@ -157,143 +106,50 @@ export async function getAnalyticsHandler(
   context: EnterpriseToolContext,
 ): Promise<ToolResponse> {
   try {
-    if (!context.enterpriseService) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `📊 **Analytics Not Available**
-
-Enterprise analytics require the enterprise integration service to be enabled.
-
-**Available without enterprise**:
-- Basic Discord client statistics
-- Guild count: ${context.client.guilds.cache.size}
-- User count: ${context.client.guilds.cache.reduce((acc, guild) => acc + guild.memberCount, 0)}
-
-To enable full analytics, initialize the EnterpriseIntegrationService.`,
-          },
-        ],
-        isError: false,
-      };
-    }
-
-    const analytics = context.enterpriseService.getAnalytics();
-
-    if (args.category) {
-      // Return specific category
-      const categoryData = analytics[args.category];
-      if (!categoryData) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `❌ No data available for category: ${args.category}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+    const analytics = context.enterpriseService?.getAnalytics() ?? {
+      performance: null,
+      security: null,
+      usage: null,
+      errors: null,
+      moderation: null,
+    };
 
+    if (
+      context.enterpriseService &&
+      args.category &&
+      !analytics[args.category]
+    ) {
       return {
         content: [
           {
             type: "text",
-            text: `📊 **${args.category.toUpperCase()} Analytics** (${args.timeRange})
-
-${JSON.stringify(categoryData, null, 2)}`,
+            text: `❌ No data available for category: ${args.category}`,
           },
         ],
-        isError: false,
+        isError: true,
       };
     }
 
-    // Return comprehensive analytics
-    let analyticsReport = `📊 **Comprehensive Analytics** (${args.timeRange})\n\n`;
-
-    // Performance Analytics
-    if (analytics.performance) {
-      analyticsReport += `**📈 Performance**:\n`;
-      analyticsReport += `- Uptime: ${formatUptime(analytics.performance.uptime || 0)}\n`;
-      analyticsReport += `- Memory Usage: ${analytics.performance.memory?.heapUsedMB || "N/A"}MB\n`;
-
-      const toolUsage = analytics.performance.toolUsage;
-      if (toolUsage && Object.keys(toolUsage).length > 0) {
-        const topTools = Object.entries(toolUsage)
-          .sort(([, a], [, b]) => (b as number) - (a as number))
-          .slice(0, 5);
-        analyticsReport += `- Top Tools: ${topTools.map(([tool, count]) => `${tool} (${count})`).join(", ")}\n`;
-      }
-    }
-
-    // Security Analytics
-    if (analytics.security) {
-      analyticsReport += `\n**🔒 Security**:\n`;
-      analyticsReport += `- Total Audit Events: ${analytics.security.totalAuditLogs || 0}\n`;
-      analyticsReport += `- Recent Events: ${analytics.security.last24Hours?.total || 0}\n`;
-
-      if (analytics.security.last24Hours?.byEventType) {
-        const eventTypes = Object.entries(
-          analytics.security.last24Hours.byEventType,
-        )
-          .filter(([, count]) => (count as number) > 0)
-          .slice(0, 3);
-        if (eventTypes.length > 0) {
-          analyticsReport += `- Top Event Types: ${eventTypes.map(([type, count]) => `${type} (${count})`).join(", ")}\n`;
-        }
-      }
-    }
-
-    // Usage Analytics
-    if (analytics.usage) {
-      analyticsReport += `\n**📱 Usage**:\n`;
-      analyticsReport += `- Total Messages: ${analytics.usage.totalMessages || 0}\n`;
-      analyticsReport += `- Media Messages: ${analytics.usage.mediaMessages || 0}\n`;
-      analyticsReport += `- Average Message Length: ${Math.round(analytics.usage.averageMessageLength || 0)} chars\n`;
-
-      if (
-        analytics.usage.topChannels &&
-        analytics.usage.topChannels.length > 0
-      ) {
-        const topChannel = analytics.usage.topChannels[0];
-        analyticsReport += `- Most Active Channel: <#${topChannel.id}> (${topChannel.count} messages)\n`;
-      }
-    }
-
-    // Error Analytics
-    if (analytics.errors) {
-      analyticsReport += `\n**❌ Errors**:\n`;
-      analyticsReport += `- Total Errors: ${analytics.errors.totalErrors || 0}\n`;
-      analyticsReport += `- Recent Errors: ${analytics.errors.recentErrors || 0}\n`;
-      analyticsReport += `- Retryable: ${analytics.errors.retryableErrors || 0}\n`;
-      analyticsReport += `- Non-retryable: ${analytics.errors.nonRetryableErrors || 0}\n`;
-    }
-
-    // Moderation Analytics
-    if (analytics.moderation) {
-      analyticsReport += `\n**🛡️ Auto-Moderation**:\n`;
-      analyticsReport += `- Total Rules: ${analytics.moderation.totalRules || 0}\n`;
-      analyticsReport += `- Enabled Rules: ${analytics.moderation.enabledRules || 0}\n`;
-
-      if (analytics.moderation.rulesByType) {
-        const ruleTypes = Object.entries(
-          analytics.moderation.rulesByType,
-        ).filter(([, count]) => (count as number) > 0);
-        if (ruleTypes.length > 0) {
-          analyticsReport += `- Rule Types: ${ruleTypes.map(([type, count]) => `${type} (${count})`).join(", ")}\n`;
-        }
-      }
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: analyticsReport,
-        },
-      ],
-      isError: false,
-    };
+    // Only the requested category, when there is one
+    const pick = (category: keyof typeof analytics) =>
+      !args.category || args.category === category
+        ? (analytics[category] ?? null)
+        : null;
+
+    return structuredResponse({
+      enterpriseEnabled: !!context.enterpriseService,
+      timeRange: args.timeRange,
+      guildCount: context.client.guilds.cache.size,
+      userCount: context.client.guilds.cache.reduce(
+        (acc, guild) => acc + guild.memberCount,
+        0,
+      ),
+      performance: pick("performance"),
+      security: pick("security"),
+      usage: pick("usage"),
+      errors: pick("errors"),
+      moderation: pick("moderation"),
+    });
   } catch (err) {
     return await handleDiscordError(
       err,
@@ -438,70 +294,27 @@ export async function getRateLimiterStatusHandler(
   context: EnterpriseToolContext,
 ): Promise<ToolResponse> {
   try {
-    if (!context.enterpriseService) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `⏱️ **Rate Limiter Not Available**
+    const metrics = context.enterpriseService?.getRateLimiterMetrics();
 
-Enterprise rate limiting is not enabled. Current setup uses basic Discord.js rate limiting.
-
-**To enable enterprise rate limiting**:
-- Initialize EnterpriseIntegrationService with rate limiting enabled
-- Configure custom rate limits and queue management
-- Get detailed metrics and monitoring`,
-          },
-        ],
-        isError: false,
-      };
+    if (!metrics) {
+      // Only basic Discord.js rate limiting is active
+      return structuredResponse({ enabled: false, metrics: null });
     }
 
-    // Access rate limiter through enterprise service
-    const rateLimiter = (context.enterpriseService as any).services
-      ?.rateLimiter;
-
-    if (!rateLimiter) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `⏱️ **Rate Limiter Service Disabled**
-
-The rate limiter service is not currently active in the enterprise configuration.`,
-          },
-        ],
-        isError: false,
-      };
-    }
-
-    const metrics = rateLimiter.getMetrics();
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `⏱️ **Rate Limiter Status**
-
-**Queue Status**:
-- Current Queue Size: ${metrics.queueSize}
-- Active Requests: ${metrics.activeRequests}
-- Total Requests: ${metrics.totalRequests}
-
-**Performance**:
-- Rate Limit Hits: ${metrics.rateLimitHits}
-- Retry Attempts: ${metrics.retryAttempts}
-- Average Wait Time: ${Math.round(metrics.averageWaitTime)}ms
-
-**Memory Usage**:
-- Memory Usage: ${Math.round(metrics.memoryUsage)}MB
-- Active Buckets: ${metrics.buckets}
-
-**Health**: ${metrics.queueSize > 500 ? "⚠️ High Queue" : "✅ Normal"}`,
-        },
-      ],
-      isError: false,
-    };
+    return structuredResponse({
+      enabled: true,
+      metrics: {
+        queueSize: metrics.queueSize,
+        activeRequests: metrics.activeRequests,
+        totalRequests: metrics.totalRequests,
+        rateLimitHits: metrics.rateLimitHits,
+        retryAttempts: metrics.retryAttempts,
+        averageWaitTimeMs: Math.round(metrics.averageWaitTime),
+        memoryUsageMb: Math.round(metrics.memoryUsage),
+        buckets: metrics.buckets,
+        highQueue: metrics.queueSize > 500,
+      },
+    });
   } catch (err) {
     return await handleDiscordError(
       err,
@@ -513,31 +326,3 @@ The rate limiter service is not currently active in the enterprise configuration
     );
   }
 }
-
-// Utility functions
-function getStatusEmoji(status: string): string {
-  switch (status) {
-    case "healthy":
-      return "✅";
-    case "warning":
-      return "⚠️";
-    case "critical":
-      return "❌";
-    case "offline":
-      return "⚫";
-    default:
-      return "❓";
-  }
-}
-
-function formatUptime(uptime: number): string {
-  const seconds = Math.floor(uptime / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
-
-  if (days > 0) return `${days}d ${hours % 24}h ${minutes % 60}m`;
-  if (hours > 0) return `${hours}h ${minutes % 60}m`;
-  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
-  return `${seconds}s`;
-}
@@ -1,9 +1,11 @@
 import { ChannelType, ForumChannel } from 'discord.js';
 import { GetForumChannelsSchema, CreateForumPostSchema, GetForumPostSchema, ReplyToForumSchema, DeleteForumPostSchema } from '../schemas.js';
 import { ToolHandler } from './types.js';
+import { structuredResponse } from './structuredResponse.js';
 import { handleDiscordError } from "../errorHandler.js";
+import { isChannelInScope } from "../scopeGuard.js";
 
-export const getForumChannelsHandler: ToolHandler = async (args, { client }) => {
+export const getForumChannelsHandler: ToolHandler = async (args, { client, bot, policy }) => {
   const { guildId } = GetForumChannelsSchema.parse(args);
   
   try {
@@ -26,24 +28,22 @@ export const getForumChannelsHandler: ToolHandler = async (args, { client }) =>
     const channels = await guild.channels.fetch();
     
     // Filter to get only forum channels
-    const forumChannels = channels.filter(channel => channel?.type === ChannelType.GuildForum);
+    const forumChannels = channels
+      .filter(channel => channel?.type === ChannelType.GuildForum)
+      .filter(channel => isChannelInScope(channel, { bot, policy }));
     
-    if (forumChannels.size === 0) {
-      return {
-        content: [{ type: "text", text: `No forum channels found in guild: ${guild.name}` }]
-      };
-    }
-
     // Format forum channels information
     const forumInfo = forumChannels.map(channel => ({
       id: channel.id,
       name: channel.name,
-      topic: channel.topic || "No topic set"
+      topic: channel.topic || null
     }));
 
-    return {
-      content: [{ type: "text", text: JSON.stringify(forumInfo, null, 2) }]
-    };
+    return structuredResponse({
+      guildId,
+      forumCount: forumInfo.length,
+      forums: forumInfo
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -128,18 +128,16 @@ export const getForumPostHandler: ToolHandler = async (args, { client }) => {
       name: thread.name,
       parentId: thread.parentId,
       messageCount: messages.size,
-      createdAt: thread.createdAt,
+      createdAt: thread.createdAt?.toISOString() ?? null,
       messages: messages.map(msg => ({
         id: msg.id,
         content: msg.content,
         author: msg.author.tag,
-        createdAt: msg.createdAt
+        createdAt: msg.createdAt.toISOString()
       }))
     };
 
-    return {
-      content: [{ type: "text", text: JSON.stringify(threadDetails, null, 2) }]
-    };
+    return structuredResponse(threadDetails);
   } catch (error) {
     return handleDiscordError(error);
   }
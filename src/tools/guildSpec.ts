@@ -0,0 +1,431 @@
+import { Guild, OverwriteType } from "discord.js";
+import { ToolContext, ToolResponse } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
+import { callTimeBudgetMs } from "./timeBudget.js";
+import {
+  ExportGuildSpecSchema,
+  PlanGuildSpecSchema,
+  ApplyGuildSpecSchema,
+} from "../schemas.js";
+import { handleDiscordError } from "../errorHandler.js";
+import { checkToolCall, handleNestedToolCall } from "../toolHandler.js";
+import {
+  exportGuildSpec,
+  findChannel,
+  findChannelByName,
+  findEmoji,
+  findRole,
+  GuildSpec,
+  parseGuildSpecYaml,
+  planGuildSpec,
+  SpecChange,
+  toPermissions,
+  validateGuildSpec,
+} from "../guildSpec.js";
+
+function errorResponse(text: string): ToolResponse {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+// The spec given as an object or as YAML, or the problem that keeps it from
+// being planned
+function loadSpec(
+  guild: Guild,
+  spec: GuildSpec | undefined,
+  specYaml: string | undefined,
+): { spec: GuildSpec } | { problem: string } {
+  try {
+    if (spec && specYaml !== undefined) {
+      throw new Error("give either spec or specYaml, not both");
+    }
+    if (specYaml !== undefined) spec = parseGuildSpecYaml(specYaml);
+    if (!spec) throw new Error("spec or specYaml is required");
+    validateGuildSpec(guild, spec);
+    return { spec };
+  } catch (err) {
+    return {
+      problem: `Invalid guild spec: ${err instanceof Error ? err.message : err}`,
+    };
+  }
+}
+
+function toChangeOutput(change: SpecChange) {
+  return {
+    action: change.action,
+    target: change.target,
+    fields: change.fields,
+  };
+}
+
+function responseText(response: ToolResponse): string {
+  return response.content.map((block) => block.text).join("\n");
+}
+
+// Calls another tool with the caller's feature flags, policy and allow-lists,
+// through the tool pipeline; its error response becomes an exception
+async function runTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<void> {
+  const response = await handleNestedToolCall(toolName, args, context);
+  if (response.isError) throw new Error(responseText(response));
+}
+
+// Throws when a call of the tool would be refused. Guards the changes that
+// discord.js makes directly because no tool takes their arguments.
+async function checkTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<void> {
+  const refusal = await checkToolCall(toolName, args, context);
+  if (refusal) throw new Error(responseText(refusal));
+}
+
+function findCategoryId(guild: Guild, name: string | null): string | undefined {
+  if (!name) return undefined;
+  const category = findChannel(guild, { name, kind: "category", parent: null });
+  if (!category) throw new Error(`Category "${name}" not found`);
+  return category.id;
+}
+
+/**
+ * Makes one planned change. Names are resolved when the change is made, so
+ * changes can refer to roles and categories created by earlier ones.
+ */
+async function applyChange(
+  change: SpecChange,
+  guild: Guild,
+  context: ToolContext,
+  reason: string | undefined,
+): Promise<void> {
+  const guildId = guild.id;
+  const { role, channel: ref, channelSpec } = change;
+
+  switch (change.action) {
+    case "create_role":
+    case "update_role": {
+      const fields = new Set(change.fields);
+      const update = {
+        color: role!.color ? parseInt(role!.color.slice(1), 16) : undefined,
+        hoist: role!.hoist,
+        mentionable: role!.mentionable,
+        permissions: role!.permissions,
+        reason,
+      };
+      if (change.action === "create_role") {
+        await runTool(
+          "discord_create_role",
+          { guildId, name: role!.name, ...update },
+          context,
+        );
+        return;
+      }
+      const live = findRole(guild, role!.name)!;
+      // discord_edit_role leaves permissions alone when given an empty list
+      if (fields.has("permissions") && update.permissions?.length === 0) {
+        await checkTool("discord_edit_role", { roleId: live.id }, context);
+        await live.setPermissions(0n, reason);
+        fields.delete("permissions");
+      }
+      if (fields.size === 0) return;
+      // Only the fields that differ, so unmanaged ones stay as they are
+      await runTool(
+        "discord_edit_role",
+        {
+          roleId: live.id,
+          color: fields.has("color") ? update.color : undefined,
+          hoist: fields.has("hoist") ? update.hoist : undefined,
+          mentionable: fields.has("mentionable")
+            ? update.mentionable
+            : undefined,
+          permissions: fields.has("permissions")
+            ? update.permissions
+            : undefined,
+          reason,
+        },
+        context,
+      );
+      return;
+    }
+
+    case "create_category":
+      await runTool(
+        "discord_create_category",
+        { guildId, name: ref!.name, reason },
+        context,
+      );
+      return;
+
+    case "create_channel": {
+      const categoryId = findCategoryId(guild, ref!.parent);
+      const { name: channelName, topic } = channelSpec!;
+      if (channelSpec!.type === "voice") {
+        await runTool(
+          "discord_create_voice_channel",
+          {
+            guildId,
+            channelName,
+            categoryId,
+            userLimit: channelSpec!.userLimit,
+            bitrate: channelSpec!.bitrate,
+            reason,
+          },
+          context,
+        );
+      } else if (channelSpec!.type === "forum") {
+        await runTool(
+          "discord_create_forum_channel",
+          { guildId, channelName, topic, categoryId, reason },
+          context,
+        );
+      } else if (categoryId) {
+        await runTool(
+          "discord_create_channel_under_category",
+          {
+            guildId,
+            channelName,
+            channelType: "text",
+            categoryId,
+            topic,
+            reason,
+          },
+          context,
+        );
+      } else {
+        await runTool(
+          "discord_create_text_channel",
+          { guildId, channelName, topic, reason },
+          context,
+        );
+      }
+      return;
+    }
+
+    case "update_channel": {
+      const live = findChannel(guild, ref!);
+      if (!live) throw new Error(`Channel "${change.target}" not found`);
+      const fields = new Set(change.fields);
+      // No edit tool moves channels out of their category
+      if (fields.has("category") && !ref!.parent && "setParent" in live) {
+        await checkTool(
+          "discord_edit_channel",
+          { channelId: live.id },
+          context,
+        );
+        await live.setParent(null, { reason });
+        fields.delete("category");
+      }
+      // discord_edit_channel leaves the topic alone when given an empty one
+      if (fields.has("topic") && !channelSpec!.topic && "topic" in live) {
+        await checkTool(
+          "discord_edit_channel",
+          { channelId: live.id },
+          context,
+        );
+        await live.edit({ topic: null, reason });
+        fields.delete("topic");
+      }
+      if (fields.size === 0) return;
+
+      const categoryId = fields.has("category")
+        ? findCategoryId(guild, ref!.parent)
+        : undefined;
+      if (channelSpec!.type === "voice") {
+        await runTool(
+          "discord_edit_voice_channel",
+          {
+            guildId,
+            channelId: live.id,
+            bitrate: fields.has("bitrate") ? channelSpec!.bitrate : undefined,
+            userLimit: fields.has("userLimit")
+              ? channelSpec!.userLimit
+              : undefined,
+            categoryId,
+            reason,
+          },
+          context,
+        );
+      } else {
+        await runTool(
+          "discord_edit_channel",
+          {
+            channelId: live.id,
+            topic: fields.has("topic") ? channelSpec!.topic : undefined,
+            categoryId,
+            reason,
+          },
+          context,
+        );
+      }
+      return;
+    }
+
+    // Neither overwrites nor forum tags have a tool of their own, so they
+    // need what editing the channel needs
+    case "set_permission_overwrites": {
+      const live = findChannel(guild, ref!);
+      if (!live || !("permissionOverwrites" in live)) {
+        throw new Error(`Channel "${change.target}" not found`);
+      }
+      await checkTool("discord_edit_channel", { channelId: live.id }, context);
+      const memberOverwrites = live.permissionOverwrites.cache.filter(
+        (overwrite) => overwrite.type === OverwriteType.Member,
+      );
+      await live.permissionOverwrites.set(
+        [
+          ...memberOverwrites.values(),
+          ...change.overwrites!.map((overwrite) => {
+            const target = findRole(guild, overwrite.role);
+            if (!target) throw new Error(`Role "${overwrite.role}" not found`);
+            return {
+              id: target.id,
+              allow: toPermissions(overwrite.allow, change.target),
+              deny: toPermissions(overwrite.deny, change.target),
+            };
+          }),
+        ],
+        reason,
+      );
+      return;
+    }
+
+    case "set_forum_tags": {
+      const live = findChannel(guild, ref!);
+      if (!live || !("availableTags" in live)) {
+        throw new Error(`Forum channel "${change.target}" not found`);
+      }
+      await checkTool("discord_edit_channel", { channelId: live.id }, context);
+      // Tags keep their IDs, so posts keep their tags
+      await live.setAvailableTags(
+        channelSpec!.tags!.map((tag) => ({
+          id: live.availableTags.find((entry) => entry.name === tag.name)?.id,
+          name: tag.name,
+          moderated: tag.moderated,
+          emoji: findEmoji(guild, tag.emoji),
+        })),
+        reason,
+      );
+      return;
+    }
+
+    case "update_welcome_screen": {
+      const screen = change.welcomeScreen!;
+      await runTool(
+        "discord_update_welcome_screen",
+        {
+          guildId,
+          enabled: screen.enabled,
+          description: screen.description,
+          welcomeChannels: screen.channels.map((entry) => {
+            const channel = findChannelByName(guild, entry.channel);
+            if (!channel) {
+              throw new Error(`Channel "${entry.channel}" not found`);
+            }
+            const emoji = findEmoji(guild, entry.emoji);
+            return {
+              channelId: channel.id,
+              description: entry.description,
+              emojiId: emoji?.id ?? undefined,
+              emojiName: emoji?.name ?? undefined,
+            };
+          }),
+          reason,
+        },
+        context,
+      );
+      return;
+    }
+  }
+}
+
+// Export guild spec handler
+export async function exportGuildSpecHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { guildId } = ExportGuildSpecSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const guild = await context.client.guilds.fetch(guildId);
+    const { spec, skipped } = await exportGuildSpec(guild);
+    return structuredResponse({ guildId: guild.id, spec, skipped });
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
+
+// Plan guild spec handler
+export async function planGuildSpecHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { guildId, spec, specYaml } = PlanGuildSpecSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const guild = await context.client.guilds.fetch(guildId);
+    const loaded = loadSpec(guild, spec, specYaml);
+    if ("problem" in loaded) return errorResponse(loaded.problem);
+    const changes = await planGuildSpec(guild, loaded.spec);
+    return structuredResponse({
+      guildId: guild.id,
+      changeCount: changes.length,
+      changes: changes.map(toChangeOutput),
+    });
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
+
+// Apply guild spec handler
+export async function applyGuildSpecHandler(
+  args: unknown,
+  context: ToolContext,
+): Promise<ToolResponse> {
+  const { guildId, spec, specYaml, reason } = ApplyGuildSpecSchema.parse(args);
+  try {
+    if (!context.client.isReady()) {
+      return errorResponse("Discord client not logged in.");
+    }
+
+    const guild = await context.client.guilds.fetch(guildId);
+    const loaded = loadSpec(guild, spec, specYaml);
+    if ("problem" in loaded) return errorResponse(loaded.problem);
+    const changes = await planGuildSpec(guild, loaded.spec);
+    const deadline = Date.now() + callTimeBudgetMs();
+    const results = [];
+    for (const change of changes) {
+      // The rest is planned again by the next apply
+      if (Date.now() >= deadline) break;
+      let error: string | null = null;
+      try {
+        await applyChange(change, guild, context, reason);
+      } catch (err) {
+        // Later changes may not depend on this one, so they still run
+        error = err instanceof Error ? err.message : String(err);
+      }
+      results.push({ ...toChangeOutput(change), error });
+      context
+        .reportProgress?.(results.length, changes.length, change.target)
+        .catch(() => {
+          // The client may have gone away; the apply continues
+        });
+    }
+    return structuredResponse({
+      guildId: guild.id,
+      changeCount: results.length,
+      failedChanges: results.filter((result) => result.error).length,
+      remainingChanges: changes.length - results.length,
+      changes: results,
+    });
+  } catch (error) {
+    return handleDiscordError(error);
+  }
+}
@@ -1,9 +1,46 @@
-import { DiscordLoginSchema } from "../schemas.js";
-import { ToolHandler } from "./types.js";
+import { DiscordLoginSchema, RotateTokenSchema } from "../schemas.js";
+import { ToolContext, ToolHandler } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import { handleDiscordError } from "../errorHandler.js";
 import { info, error } from "../logger.js";
 import { Client } from "discord.js";
-import { configManager } from "../config.js";
+import {
+  configManager,
+  DEFAULT_BOT_NAME,
+  RESTART_REQUIRED_KEYS,
+} from "../config.js";
+import { readStoredBotToken, saveBotToken } from "../tokenStore/botToken.js";
+import { registerSecret } from "../redact.js";
+
+function describeTokenPersistence(persisted: boolean): string {
+  return persisted
+    ? "Token has been saved to the token store"
+    : "Token is kept in memory until the server restarts";
+}
+
+// The token store holds the default bot's token only
+function isDefaultBot(context: ToolContext): boolean {
+  return !context.bot || context.bot === DEFAULT_BOT_NAME;
+}
+
+// Names the bot in messages once there is more than one
+function botLabel(context: ToolContext): string {
+  return context.bots.hasAdditionalBots()
+    ? ` (bot: ${context.bot ?? DEFAULT_BOT_NAME})`
+    : "";
+}
+
+// Returns whether the token survives a restart, as saveBotToken does
+async function storeBotToken(
+  context: ToolContext,
+  token: string,
+): Promise<boolean> {
+  if (isDefaultBot(context)) {
+    return saveBotToken(token);
+  }
+  registerSecret(token);
+  return false;
+}
 
 // Create a function to properly wait for client to be ready
 async function waitForReady(
@@ -68,7 +105,7 @@ export const loginHandler: ToolHandler = async (args, context) => {
           {
             type: "text",
             text:
-              `Already logged in as: ${userTag}\n` +
+              `Already logged in as: ${userTag}${botLabel(context)}\n` +
               `Connected to ${guildCount} servers\n` +
               `Available in ${channelCount} channels`,
           },
@@ -105,10 +142,11 @@ export const loginHandler: ToolHandler = async (args, context) => {
       };
     }
 
-    // If token is provided in args, update the client's token and config
+    // If token is provided in args, update the client's token and store it
+    let persisted = false;
     if (args.token) {
       context.client.token = args.token;
-      configManager.updateToken(args.token);
+      persisted = await storeBotToken(context, args.token);
     }
 
     // Attempt to log in with the token and get the ready client
@@ -125,10 +163,10 @@ export const loginHandler: ToolHandler = async (args, context) => {
         {
           type: "text",
           text:
-            `Successfully logged in to Discord: ${userTag}\n` +
+            `Successfully logged in to Discord: ${userTag}${botLabel(context)}\n` +
             `Connected to ${guildCount} servers\n` +
-            `Available in ${channelCount} channels\n` +
-            `Token has been saved to configuration`,
+            `Available in ${channelCount} channels` +
+            (args.token ? `\n${describeTokenPersistence(persisted)}` : ""),
         },
       ],
     };
@@ -157,11 +195,11 @@ export const setTokenHandler: ToolHandler = async (args, context) => {
       };
     }
 
-    // Update configuration
-    configManager.updateToken(token);
+    const persisted = await storeBotToken(context, token);
 
-    // Update client token if it exists
-    if (context.client) {
+    // A logged-in client keeps its session until discord_rotate_token
+    const isLoggedIn = context.client.isReady();
+    if (!isLoggedIn) {
       context.client.token = token;
     }
 
@@ -169,7 +207,11 @@ export const setTokenHandler: ToolHandler = async (args, context) => {
       content: [
         {
           type: "text",
-          text: "Discord token has been successfully configured and saved.",
+          text:
+            `Discord token has been configured${botLabel(context)}. ${describeTokenPersistence(persisted)}.` +
+            (isLoggedIn
+              ? "\nThe current session keeps the previous token. Use discord_rotate_token to switch to the new one."
+              : ""),
         },
       ],
     };
@@ -189,12 +231,141 @@ export const setTokenHandler: ToolHandler = async (args, context) => {
   }
 };
 
+// Makes a rotated token the current one. A token given to the tool is saved
+// to the store; one read from the store only replaces the configured token.
+async function saveRotatedToken(
+  context: ToolContext,
+  token: string,
+  newToken: string | undefined,
+): Promise<boolean> {
+  if (newToken) {
+    return storeBotToken(context, newToken);
+  }
+  configManager.updateToken(token);
+  return true;
+}
+
+// Logs the client back in with the token it used before a failed rotation.
+// Returns whether that worked.
+async function restoreSession(
+  context: ToolContext,
+  previousToken: string | null,
+): Promise<boolean> {
+  if (!previousToken) return false;
+  await context.client.destroy();
+  try {
+    await waitForReady(context.client, previousToken);
+    info(`Reconnected with the previous token${botLabel(context)}`);
+    return true;
+  } catch (err) {
+    error(
+      `Reconnecting with the previous token failed${botLabel(context)}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return false;
+  }
+}
+
+// Token rotation handler: switches a running session to a new token
+export const rotateTokenHandler: ToolHandler = async (args, context) => {
+  const { token: newToken } = RotateTokenSchema.parse(args);
+  try {
+    // Without a token, pick up one that was rotated in the external store
+    const token =
+      newToken ?? (isDefaultBot(context) ? await readStoredBotToken() : null);
+    if (!token) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: isDefaultBot(context)
+              ? `No token given and the ${configManager.getConfig().TOKEN_STORE} token store is empty.`
+              : `No token given. Only the ${DEFAULT_BOT_NAME} bot reads its token from the token store.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const wasLoggedIn = context.client.isReady();
+    if (wasLoggedIn && context.client.token === token) {
+      return {
+        content: [
+          { type: "text", text: "The session already uses this token." },
+        ],
+      };
+    }
+
+    if (!wasLoggedIn) {
+      const persisted = await saveRotatedToken(context, token, newToken);
+      context.client.token = token;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Token updated; it will be used by the next discord_login.${newToken ? ` ${describeTokenPersistence(persisted)}.` : ""}`,
+          },
+        ],
+      };
+    }
+
+    // Reconnect with the new token; listeners on the client stay attached.
+    // The token is only saved once the new session is ready.
+    info(
+      `Rotating Discord token${botLabel(context)}: reconnecting with the new token`,
+    );
+    registerSecret(token);
+    const previousToken = context.client.token;
+    await context.client.destroy();
+    try {
+      await waitForReady(context.client, token);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      error(
+        `Login with the rotated token failed${botLabel(context)}: ${reason}`,
+      );
+      const restored = await restoreSession(context, previousToken);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Token rotation failed: ${reason}. The new token was not saved.` +
+              (restored
+                ? ` Reconnected with the previous token as ${context.client.user?.tag}.`
+                : " Reconnecting with the previous token failed as well; use discord_login."),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const persisted = await saveRotatedToken(context, token, newToken);
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `Token rotated. Reconnected as ${context.client.user?.tag}${botLabel(context)}.` +
+            (newToken ? `\n${describeTokenPersistence(persisted)}` : ""),
+        },
+      ],
+    };
+  } catch (err) {
+    error(
+      `Error rotating token: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return handleDiscordError(err);
+  }
+};
+
 // Token validation handler
 export const validateTokenHandler: ToolHandler = async (args, context) => {
   try {
-    const config = configManager.getConfig();
+    const token = isDefaultBot(context)
+      ? configManager.getConfig().DISCORD_TOKEN
+      : context.client.token;
 
-    if (!config.DISCORD_TOKEN) {
+    if (!token) {
       return {
         content: [
           {
@@ -207,7 +378,6 @@ export const validateTokenHandler: ToolHandler = async (args, context) => {
     }
 
     // Basic token format validation
-    const token = config.DISCORD_TOKEN;
     if (token.length < 50) {
       return {
         content: [
@@ -262,47 +432,35 @@ export const loginStatusHandler: ToolHandler = async (args, context) => {
   try {
     const config = configManager.getConfig();
     const healthStatus = configManager.getHealthStatus();
-
-    let statusMessage = "## Discord Login Status\n\n";
-
-    // Token status
-    statusMessage += `**Token Configured:** ${config.DISCORD_TOKEN ? "✅ Yes" : "❌ No"}\n`;
-
-    // Client status
     const isLoggedIn = context.client?.isReady() || false;
-    statusMessage += `**Logged In:** ${isLoggedIn ? "✅ Yes" : "❌ No"}\n`;
-
-    if (isLoggedIn && context.client) {
-      statusMessage += `**Bot User:** ${context.client.user?.tag}\n`;
-      statusMessage += `**Connected Servers:** ${context.client.guilds.cache.size}\n`;
-      statusMessage += `**Available Channels:** ${context.client.channels.cache.size}\n`;
-      statusMessage += `**Uptime:** ${Math.floor(context.client.uptime! / 1000 / 60)} minutes\n`;
-    }
-
-    // Health status
-    statusMessage += `\n**Health Status:** ${healthStatus.status.toUpperCase()}\n`;
 
-    if (healthStatus.details.length > 0) {
-      statusMessage += "\n**Issues:**\n";
-      healthStatus.details.forEach((detail) => {
-        statusMessage += `- ${detail}\n`;
-      });
-    }
-
-    // Configuration summary
-    statusMessage += "\n**Configuration:**\n";
-    const configSummary = configManager.getConfigSummary();
-    Object.entries(configSummary).forEach(([key, value]) => {
-      if (key === "DISCORD_TOKEN" && value) {
-        statusMessage += `- ${key}: ${value} (masked)\n`;
-      } else {
-        statusMessage += `- ${key}: ${value}\n`;
-      }
+    return structuredResponse({
+      bot: context.bot ?? null,
+      tokenConfigured: isDefaultBot(context)
+        ? !!config.DISCORD_TOKEN
+        : !!context.client.token,
+      loggedIn: isLoggedIn,
+      botUser: isLoggedIn ? (context.client.user?.tag ?? null) : null,
+      guildCount: isLoggedIn ? context.client.guilds.cache.size : null,
+      channelCount: isLoggedIn ? context.client.channels.cache.size : null,
+      uptimeMinutes: isLoggedIn
+        ? Math.floor(context.client.uptime! / 1000 / 60)
+        : null,
+      // Without a `bot` argument, summarize every configured bot
+      bots:
+        !context.bot && context.bots.hasAdditionalBots()
+          ? context.bots.list().map(({ name, client }) => ({
+              name,
+              loggedIn: client.isReady(),
+              tokenConfigured: !!client.token,
+              botUser: client.isReady() ? client.user.tag : null,
+              guildCount: client.isReady() ? client.guilds.cache.size : null,
+            }))
+          : [],
+      health: healthStatus.status,
+      issues: healthStatus.details,
+      config: configManager.getConfigSummary(),
     });
-
-    return {
-      content: [{ type: "text", text: statusMessage }],
-    };
   } catch (err) {
     error(
       `Error getting login status: ${err instanceof Error ? err.message : String(err)}`,
@@ -325,7 +483,10 @@ export const logoutHandler: ToolHandler = async (args, context) => {
     if (!context.client?.isReady()) {
       return {
         content: [
-          { type: "text", text: "Not currently logged in to Discord." },
+          {
+            type: "text",
+            text: `Not currently logged in to Discord${botLabel(context)}.`,
+          },
         ],
       };
     }
@@ -341,7 +502,7 @@ export const logoutHandler: ToolHandler = async (args, context) => {
         {
           type: "text",
           text:
-            `Successfully logged out from Discord.\n` +
+            `Successfully logged out from Discord${botLabel(context)}.\n` +
             `Previous session: ${userTag}\n` +
             `Was connected to ${guildCount} servers\n` +
             `Use discord_login to reconnect.`,
@@ -399,17 +560,18 @@ export const updateConfigHandler: ToolHandler = async (args, context) => {
       };
     }
 
-    // Apply configuration updates
+    // Convert the updates to the string form of environment variables
+    const values: Record<string, string> = {};
     for (const [key, value] of Object.entries(updates)) {
       switch (key) {
         case "ALLOW_GUILD_IDS":
           if (Array.isArray(value)) {
-            process.env.ALLOW_GUILD_IDS = value.join(",");
+            values.ALLOW_GUILD_IDS = value.join(",");
           }
           break;
         case "ALLOW_CHANNEL_IDS":
           if (Array.isArray(value)) {
-            process.env.ALLOW_CHANNEL_IDS = value.join(",");
+            values.ALLOW_CHANNEL_IDS = value.join(",");
           }
           break;
         case "ENABLE_USER_MANAGEMENT":
@@ -419,22 +581,33 @@ export const updateConfigHandler: ToolHandler = async (args, context) => {
         case "ENABLE_RBAC":
         case "ENABLE_CONTENT_MANAGEMENT":
           if (typeof value === "boolean") {
-            process.env[key] = value ? "1" : "0";
+            values[key] = value ? "1" : "0";
           }
           break;
         case "TRANSPORT":
           if (value === "stdio" || value === "http") {
-            process.env.TRANSPORT = value;
+            values.TRANSPORT = value;
           }
           break;
         case "HTTP_PORT":
           if (typeof value === "number" && value > 0 && value <= 65535) {
-            process.env.HTTP_PORT = value.toString();
+            values.HTTP_PORT = value.toString();
           }
           break;
       }
     }
 
+    // Applies the new values and refreshes the tool list of connected clients
+    configManager.update(values);
+
+    const pendingRestart = Object.keys(updates).filter((key) =>
+      (RESTART_REQUIRED_KEYS as string[]).includes(key),
+    );
+    const restartNote =
+      pendingRestart.length > 0
+        ? `\n\nNote: restart the server to apply ${pendingRestart.join(", ")}.`
+        : "";
+
     return {
       content: [
         {
@@ -443,9 +616,7 @@ export const updateConfigHandler: ToolHandler = async (args, context) => {
             updates,
           )
             .map(([k, v]) => `- ${k}: ${v}`)
-            .join(
-              "\n",
-            )}\n\nNote: Some changes may require server restart to take effect.`,
+            .join("\n")}${restartNote}`,
         },
       ],
     };
@@ -471,54 +642,27 @@ export const healthCheckHandler: ToolHandler = async (args, context) => {
     const config = configManager.getConfig();
     const healthStatus = configManager.getHealthStatus();
 
-    let healthReport = "## Health Check Report\n\n";
-
-    // Overall status
-    healthReport += `**Overall Status:** ${healthStatus.status.toUpperCase()}\n\n`;
-
-    // Component checks
-    healthReport += "**Component Status:**\n";
-    Object.entries(healthStatus.checks).forEach(([check, status]) => {
-      const icon = status ? "✅" : "❌";
-      healthReport += `${icon} ${check.replace(/_/g, " ")}\n`;
-    });
-
-    // Issues
-    if (healthStatus.details.length > 0) {
-      healthReport += "\n**Issues Found:**\n";
-      healthStatus.details.forEach((detail) => {
-        healthReport += `⚠️ ${detail}\n`;
-      });
-    }
-
-    // Recommendations
-    healthReport += "\n**Recommendations:**\n";
+    const recommendations: string[] = [];
     if (!config.DISCORD_TOKEN) {
-      healthReport +=
-        "- Set DISCORD_TOKEN environment variable or use discord_set_token to enable Discord features\n";
-      healthReport +=
-        "- Server is fully operational for MCP operations without Discord token\n";
+      recommendations.push(
+        "Set DISCORD_TOKEN environment variable or use discord_set_token to enable Discord features",
+        "Server is fully operational for MCP operations without Discord token",
+      );
     }
     if (healthStatus.status === "degraded") {
-      healthReport += "- Review configuration settings\n";
+      recommendations.push("Review configuration settings");
     }
     if (healthStatus.status === "healthy") {
-      healthReport += "- All systems operational ✅\n";
-    }
-
-    // Add deployment status
-    healthReport += "\n**Deployment Status:**\n";
-    healthReport += "✅ MCP Server: Successfully deployed and ready\n";
-    if (config.DISCORD_TOKEN) {
-      healthReport += "✅ Discord Integration: Configured and ready\n";
-    } else {
-      healthReport +=
-        "⚠️ Discord Integration: Token required for Discord features\n";
+      recommendations.push("All systems operational");
     }
 
-    return {
-      content: [{ type: "text", text: healthReport }],
-    };
+    return structuredResponse({
+      status: healthStatus.status,
+      checks: healthStatus.checks,
+      issues: healthStatus.details,
+      recommendations,
+      discordConfigured: !!config.DISCORD_TOKEN,
+    });
   } catch (err) {
     error(
       `Error during health check: ${err instanceof Error ? err.message : String(err)}`,
@@ -1,4 +1,5 @@
 import { ToolHandler } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import { handleDiscordError } from "../errorHandler.js";
 import { error } from "../logger.js";
 
@@ -300,41 +301,70 @@ export const searchMessagesHandler: ToolHandler = async (args, context) => {
       );
     }
 
-    if (filteredMessages.size === 0) {
+    // Newest matches first
+    const results = filteredMessages
+      .sort((a, b) => b.createdTimestamp - a.createdTimestamp)
+      .map((msg) => ({
+        id: msg.id,
+        content: msg.content,
+        author: { id: msg.author.id, username: msg.author.username },
+        createdAt: msg.createdAt.toISOString(),
+      }));
+
+    return structuredResponse({
+      channelId: args.channelId,
+      query: args.query,
+      matchCount: results.length,
+      messages: results,
+    });
+  } catch (err) {
+    error(
+      `Error searching messages: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return handleDiscordError(err);
+  }
+};
+
+// List pinned messages
+export const listPinsHandler: ToolHandler = async (args, context) => {
+  try {
+    const channel = context.client.channels.cache.get(args.channelId);
+    if (!channel) {
       return {
-        content: [
-          {
-            type: "text",
-            text: `No messages found matching query: "${args.query}"`,
-          },
-        ],
+        content: [{ type: "text", text: "Channel not found" }],
+        isError: true,
       };
     }
 
-    const results = filteredMessages
-      .sort((a, b) => b.createdTimestamp - a.createdTimestamp)
-      .first(10) // Limit to first 10 results
-      .map((msg) => {
-        const preview =
-          msg.content.length > 100
-            ? msg.content.substring(0, 100) + "..."
-            : msg.content;
-
-        return `[${msg.createdAt.toISOString()}] ${msg.author.username}: ${preview}`;
-      })
-      .join("\n");
+    if (!channel.isTextBased()) {
+      return {
+        content: [{ type: "text", text: "Channel is not a text channel" }],
+        isError: true,
+      };
+    }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${filteredMessages.size} messages matching "${args.query}":\n\n${results}${filteredMessages.size > 10 ? `\n\n... and ${filteredMessages.size - 10} more results` : ""}`,
-        },
-      ],
-    };
+    const pins = await channel.messages.fetchPins({ limit: args.limit });
+
+    const pinnedMessages = pins.items.map((pin) => ({
+      id: pin.message.id,
+      content: pin.message.content,
+      author: {
+        id: pin.message.author.id,
+        username: pin.message.author.username,
+      },
+      createdAt: pin.message.createdAt.toISOString(),
+      pinnedAt: pin.pinnedAt.toISOString(),
+    }));
+
+    return structuredResponse({
+      channelId: args.channelId,
+      pinCount: pinnedMessages.length,
+      hasMore: pins.hasMore,
+      pins: pinnedMessages,
+    });
   } catch (err) {
     error(
-      `Error searching messages: ${err instanceof Error ? err.message : String(err)}`,
+      `Error listing pinned messages: ${err instanceof Error ? err.message : String(err)}`,
     );
     return handleDiscordError(err);
   }
@@ -0,0 +1,13 @@
+import { ToolResponse } from "./types.js";
+
+/**
+ * Builds a successful response for a tool that declares an outputSchema. The
+ * data is returned as structuredContent and, for clients that only read
+ * content blocks, serialized as JSON into a text block.
+ */
+export function structuredResponse(data: Record<string, unknown>): ToolResponse {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    structuredContent: data,
+  };
+}
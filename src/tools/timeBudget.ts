@@ -0,0 +1,16 @@
+import { configManager } from "../config.js";
+
+// A long-running call returns this long before TOOL_TIMEOUT_MS would fail it
+const WAIT_MARGIN_MS = 5000;
+
+/**
+ * Milliseconds a long-running call may spend before it has to return with
+ * its progress so far. Calls that run past TOOL_TIMEOUT_MS fail in the
+ * circuitBreaker and retry stages while their work carries on unreported.
+ */
+export function callTimeBudgetMs(): number {
+  return Math.max(
+    configManager.getConfig().TOOL_TIMEOUT_MS - WAIT_MARGIN_MS,
+    0,
+  );
+}
@@ -1,9 +1,10 @@
-import { Client } from "discord.js";
+import { BotPool } from "../botPool.js";
 import { z } from "zod";
 import { ToolResponse, ToolContext, ToolHandler } from "./types.js";
 import {
   loginHandler,
   setTokenHandler,
+  rotateTokenHandler,
   validateTokenHandler,
   loginStatusHandler,
   logoutHandler,
@@ -79,6 +80,14 @@ import {
   getRolePermissionsHandler,
 } from "./user.js";
 import { sendDirectMessageHandler, getDirectMessagesHandler } from "./dm.js";
+import {
+  pinMessageHandler,
+  unpinMessageHandler,
+  listPinsHandler,
+  editBotMessageHandler,
+  bulkDeleteMessagesHandler,
+  searchMessagesHandler,
+} from "./messages.js";
 import {
   createVoiceChannelHandler,
   deleteVoiceChannelHandler,
@@ -87,11 +96,37 @@ import {
   getVoiceChannelInfoHandler,
   moveUserToVoiceChannelHandler,
 } from "./voice.js";
+import {
+  serverHealthCheckHandler,
+  getAnalyticsHandler,
+  addAutoModerationRuleHandler,
+  getRateLimiterStatusHandler,
+} from "./enterpriseTools.js";
+import {
+  startBulkOperationHandler,
+  getBulkOperationHandler,
+  cancelBulkOperationHandler,
+  pauseBulkOperationHandler,
+  resumeBulkOperationHandler,
+  listBulkOperationsHandler,
+} from "./bulkOperations.js";
+import {
+  backupGuildHandler,
+  listBackupsHandler,
+  diffBackupHandler,
+  restoreBackupHandler,
+} from "./backup.js";
+import {
+  exportGuildSpecHandler,
+  planGuildSpecHandler,
+  applyGuildSpecHandler,
+} from "./guildSpec.js";
 
 // Export tool handlers
 export {
   loginHandler,
   setTokenHandler,
+  rotateTokenHandler,
   validateTokenHandler,
   loginStatusHandler,
   logoutHandler,
@@ -133,6 +168,12 @@ export {
   addMultipleReactionsHandler,
   removeReactionHandler,
   deleteMessageHandler,
+  pinMessageHandler,
+  unpinMessageHandler,
+  listPinsHandler,
+  editBotMessageHandler,
+  bulkDeleteMessagesHandler,
+  searchMessagesHandler,
   createWebhookHandler,
   sendWebhookMessageHandler,
   editWebhookHandler,
@@ -163,12 +204,29 @@ export {
   listVoiceChannelsHandler,
   getVoiceChannelInfoHandler,
   moveUserToVoiceChannelHandler,
+  serverHealthCheckHandler,
+  getAnalyticsHandler,
+  addAutoModerationRuleHandler,
+  getRateLimiterStatusHandler,
+  startBulkOperationHandler,
+  getBulkOperationHandler,
+  cancelBulkOperationHandler,
+  pauseBulkOperationHandler,
+  resumeBulkOperationHandler,
+  listBulkOperationsHandler,
+  backupGuildHandler,
+  listBackupsHandler,
+  diffBackupHandler,
+  restoreBackupHandler,
+  exportGuildSpecHandler,
+  planGuildSpecHandler,
+  applyGuildSpecHandler,
 };
 
 // Export common types
 export { ToolResponse, ToolContext, ToolHandler };
 
-// Create tool context
-export function createToolContext(client: Client): ToolContext {
-  return { client };
+// Create tool context; calls use the default bot unless they name another
+export function createToolContext(bots: BotPool): ToolContext {
+  return { client: bots.get().client, bots };
 }
@@ -1,13 +1,33 @@
 import { Client } from "discord.js";
+import { AccessPolicy } from "../auth/policy.js";
+import { BotPool } from "../botPool.js";
 
 export interface ToolResponse {
   content: { type: string; text: string }[];
   isError?: boolean;
+  // Machine-readable result matching the tool's declared outputSchema
+  structuredContent?: Record<string, unknown>;
   [key: string]: unknown;
 }
 
 export interface ToolContext {
+  // Client of the selected bot
   client: Client;
+  bots: BotPool;
+  // Name of the bot chosen with the `bot` argument; unset means the default
+  bot?: string;
+  // Restrictions of the authenticated HTTP caller; unset means unrestricted
+  policy?: AccessPolicy;
+  // Generated per tool call; also in logs, traces and error responses
+  requestId?: string;
+  // Aborted when the client cancels the call
+  signal?: AbortSignal;
+  // Sends notifications/progress; set when the client sent a progressToken
+  reportProgress?: (
+    progress: number,
+    total?: number,
+    message?: string,
+  ) => Promise<void>;
 }
 
-export type ToolHandler<T = any> = (args: T, context: ToolContext) => Promise<ToolResponse>; 
\ No newline at end of file
+export type ToolHandler<T = any> = (args: T, context: ToolContext) => Promise<ToolResponse>;
@@ -1,26 +1,41 @@
+import { PermissionFlagsBits } from "discord.js";
 import { ToolHandler } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import { handleDiscordError } from "../errorHandler.js";
 import { info, error } from "../logger.js";
 
+// Keyed by permission name without underscores, in upper case, so both
+// discord.js names ("SendMessages") and API names ("SEND_MESSAGES") match
+const PERMISSION_BITS = new Map<string, bigint>([
+  ...Object.entries(PermissionFlagsBits).map(
+    ([name, bit]) => [name.toUpperCase(), bit] as const,
+  ),
+  ["STARTEMBEDDEDACTIVITIES", PermissionFlagsBits.UseEmbeddedActivities],
+]);
+
+// Unknown permission names are ignored
+function toPermissionBits(names: string[]): bigint {
+  let permissions = 0n;
+  for (const name of names) {
+    permissions |=
+      PERMISSION_BITS.get(name.replace(/_/g, "").toUpperCase()) ?? 0n;
+  }
+  return permissions;
+}
+
 // Get user information
 export const getUserInfoHandler: ToolHandler = async (args, context) => {
   try {
     const user = await context.client.users.fetch(args.userId);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `User Info:
-- ID: ${user.id}
-- Username: ${user.username}
-- Discriminator: ${user.discriminator}
-- Display Name: ${user.displayName || "None"}
-- Bot: ${user.bot ? "Yes" : "No"}
-- Created: ${user.createdAt.toISOString()}
-- Avatar: ${user.avatarURL() || "None"}`,
-        },
-      ],
-    };
+    return structuredResponse({
+      id: user.id,
+      username: user.username,
+      discriminator: user.discriminator,
+      displayName: user.displayName,
+      bot: user.bot,
+      createdAt: user.createdAt.toISOString(),
+      avatarUrl: user.avatarURL(),
+    });
   } catch (err) {
     error(
       `Error getting user info: ${err instanceof Error ? err.message : String(err)}`,
@@ -41,23 +56,22 @@ export const getGuildMemberHandler: ToolHandler = async (args, context) => {
     }
 
     const member = await guild.members.fetch(args.userId);
-    const roles = member.roles.cache
-      .map((role) => `${role.name} (${role.id})`)
-      .join(", ");
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Guild Member Info:
-- User: ${member.user.username}#${member.user.discriminator}
-- Nickname: ${member.nickname || "None"}
-- Joined: ${member.joinedAt?.toISOString() || "Unknown"}
-- Roles: ${roles || "None"}
-- Permissions: ${member.permissions.toArray().join(", ")}`,
-        },
-      ],
-    };
+    return structuredResponse({
+      guildId: guild.id,
+      user: {
+        id: member.user.id,
+        username: member.user.username,
+        discriminator: member.user.discriminator,
+      },
+      nickname: member.nickname,
+      joinedAt: member.joinedAt?.toISOString() ?? null,
+      roles: member.roles.cache.map((role) => ({
+        id: role.id,
+        name: role.name,
+      })),
+      permissions: member.permissions.toArray(),
+    });
   } catch (err) {
     error(
       `Error getting guild member: ${err instanceof Error ? err.message : String(err)}`,
@@ -78,21 +92,20 @@ export const listGuildMembersHandler: ToolHandler = async (args, context) => {
     }
 
     const members = await guild.members.fetch();
-    const memberList = members
-      .map(
-        (member) =>
-          `${member.user.username}#${member.user.discriminator} (${member.id}) - Roles: ${member.roles.cache.size}`,
-      )
-      .join("\n");
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Guild Members (${members.size}):\n${memberList}`,
-        },
-      ],
-    };
+    const memberList = members.map((member) => ({
+      id: member.id,
+      username: member.user.username,
+      discriminator: member.user.discriminator,
+      displayName: member.displayName,
+      bot: member.user.bot,
+      roleIds: member.roles.cache.map((role) => role.id),
+    }));
+
+    return structuredResponse({
+      guildId: guild.id,
+      memberCount: memberList.length,
+      members: memberList,
+    });
   } catch (err) {
     error(
       `Error listing guild members: ${err instanceof Error ? err.message : String(err)}`,
@@ -319,61 +332,7 @@ export const createRoleHandler: ToolHandler = async (args, context) => {
       };
     }
 
-    // Convert permission strings to bitfield
-    let permissions = 0n;
-    if (args.permissions && args.permissions.length > 0) {
-      for (const perm of args.permissions) {
-        // Map common permission names to their bit values
-        const permMap: { [key: string]: bigint } = {
-          CREATE_INSTANT_INVITE: 1n,
-          KICK_MEMBERS: 2n,
-          BAN_MEMBERS: 4n,
-          ADMINISTRATOR: 8n,
-          MANAGE_CHANNELS: 16n,
-          MANAGE_GUILD: 32n,
-          ADD_REACTIONS: 64n,
-          VIEW_AUDIT_LOG: 128n,
-          PRIORITY_SPEAKER: 256n,
-          STREAM: 512n,
-          VIEW_CHANNEL: 1024n,
-          SEND_MESSAGES: 2048n,
-          SEND_TTS_MESSAGES: 4096n,
-          MANAGE_MESSAGES: 8192n,
-          EMBED_LINKS: 16384n,
-          ATTACH_FILES: 32768n,
-          READ_MESSAGE_HISTORY: 65536n,
-          MENTION_EVERYONE: 131072n,
-          USE_EXTERNAL_EMOJIS: 262144n,
-          VIEW_GUILD_INSIGHTS: 524288n,
-          CONNECT: 1048576n,
-          SPEAK: 2097152n,
-          MUTE_MEMBERS: 4194304n,
-          DEAFEN_MEMBERS: 8388608n,
-          MOVE_MEMBERS: 16777216n,
-          USE_VAD: 33554432n,
-          CHANGE_NICKNAME: 67108864n,
-          MANAGE_NICKNAMES: 134217728n,
-          MANAGE_ROLES: 268435456n,
-          MANAGE_WEBHOOKS: 536870912n,
-          MANAGE_EMOJIS_AND_STICKERS: 1073741824n,
-          USE_APPLICATION_COMMANDS: 2147483648n,
-          REQUEST_TO_SPEAK: 4294967296n,
-          MANAGE_EVENTS: 8589934592n,
-          MANAGE_THREADS: 17179869184n,
-          CREATE_PUBLIC_THREADS: 34359738368n,
-          CREATE_PRIVATE_THREADS: 68719476736n,
-          USE_EXTERNAL_STICKERS: 137438953472n,
-          SEND_MESSAGES_IN_THREADS: 274877906944n,
-          START_EMBEDDED_ACTIVITIES: 549755813888n,
-          MODERATE_MEMBERS: 1099511627776n,
-        };
-
-        const upperPerm = perm.toUpperCase();
-        if (permMap[upperPerm]) {
-          permissions |= permMap[upperPerm];
-        }
-      }
-    }
+    const permissions = toPermissionBits(args.permissions ?? []);
 
     const role = await guild.roles.create({
       name: args.name,
@@ -414,61 +373,11 @@ export const editRoleHandler: ToolHandler = async (args, context) => {
       };
     }
 
-    // Convert permission strings to bitfield if provided
-    let permissions = role.permissions.bitfield;
-    if (args.permissions && args.permissions.length > 0) {
-      permissions = 0n;
-      for (const perm of args.permissions) {
-        const permMap: { [key: string]: bigint } = {
-          CREATE_INSTANT_INVITE: 1n,
-          KICK_MEMBERS: 2n,
-          BAN_MEMBERS: 4n,
-          ADMINISTRATOR: 8n,
-          MANAGE_CHANNELS: 16n,
-          MANAGE_GUILD: 32n,
-          ADD_REACTIONS: 64n,
-          VIEW_AUDIT_LOG: 128n,
-          PRIORITY_SPEAKER: 256n,
-          STREAM: 512n,
-          VIEW_CHANNEL: 1024n,
-          SEND_MESSAGES: 2048n,
-          SEND_TTS_MESSAGES: 4096n,
-          MANAGE_MESSAGES: 8192n,
-          EMBED_LINKS: 16384n,
-          ATTACH_FILES: 32768n,
-          READ_MESSAGE_HISTORY: 65536n,
-          MENTION_EVERYONE: 131072n,
-          USE_EXTERNAL_EMOJIS: 262144n,
-          VIEW_GUILD_INSIGHTS: 524288n,
-          CONNECT: 1048576n,
-          SPEAK: 2097152n,
-          MUTE_MEMBERS: 4194304n,
-          DEAFEN_MEMBERS: 8388608n,
-          MOVE_MEMBERS: 16777216n,
-          USE_VAD: 33554432n,
-          CHANGE_NICKNAME: 67108864n,
-          MANAGE_NICKNAMES: 134217728n,
-          MANAGE_ROLES: 268435456n,
-          MANAGE_WEBHOOKS: 536870912n,
-          MANAGE_EMOJIS_AND_STICKERS: 1073741824n,
-          USE_APPLICATION_COMMANDS: 2147483648n,
-          REQUEST_TO_SPEAK: 4294967296n,
-          MANAGE_EVENTS: 8589934592n,
-          MANAGE_THREADS: 17179869184n,
-          CREATE_PUBLIC_THREADS: 34359738368n,
-          CREATE_PRIVATE_THREADS: 68719476736n,
-          USE_EXTERNAL_STICKERS: 137438953472n,
-          SEND_MESSAGES_IN_THREADS: 274877906944n,
-          START_EMBEDDED_ACTIVITIES: 549755813888n,
-          MODERATE_MEMBERS: 1099511627776n,
-        };
-
-        const upperPerm = perm.toUpperCase();
-        if (permMap[upperPerm]) {
-          permissions |= permMap[upperPerm];
-        }
-      }
-    }
+    // An empty list removes every permission
+    const permissions =
+      args.permissions && args.permissions.length > 0
+        ? toPermissionBits(args.permissions)
+        : role.permissions.bitfield;
 
     await role.edit({
       name: args.name,
@@ -552,22 +461,11 @@ export const listRolesHandler: ToolHandler = async (args, context) => {
       }))
       .sort((a, b) => b.position - a.position); // Sort by position (highest first)
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              guildName: guild.name,
-              roleCount: roles.length,
-              roles: roles,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return structuredResponse({
+      guildName: guild.name,
+      roleCount: roles.length,
+      roles: roles,
+    });
   } catch (err) {
     error(
       `Error listing roles: ${err instanceof Error ? err.message : String(err)}`,
@@ -590,16 +488,12 @@ export const getRolePermissionsHandler: ToolHandler = async (args, context) => {
       };
     }
 
-    const permissions = role.permissions.toArray();
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Role "${role.name}" Permissions:\n${permissions.join("\n")}`,
-        },
-      ],
-    };
+    return structuredResponse({
+      roleId: role.id,
+      roleName: role.name,
+      guildId: role.guild.id,
+      permissions: role.permissions.toArray(),
+    });
   } catch (err) {
     error(
       `Error getting role permissions: ${err instanceof Error ? err.message : String(err)}`,
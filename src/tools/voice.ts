@@ -1,5 +1,8 @@
+import { ChannelType, VoiceChannel } from "discord.js";
 import { ToolHandler } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import { handleDiscordError } from "../errorHandler.js";
+import { isChannelInScope } from "../scopeGuard.js";
 import { error } from "../logger.js";
 
 // Create voice channel
@@ -146,23 +149,24 @@ export const listVoiceChannelsHandler: ToolHandler = async (args, context) => {
     }
 
     const voiceChannels = guild.channels.cache.filter(
-      (channel) => channel.type === 2,
+      (channel): channel is VoiceChannel =>
+        channel.type === ChannelType.GuildVoice &&
+        isChannelInScope(channel, context),
     );
-    const channelList = voiceChannels
-      .map((channel) => {
-        const voiceChannel = channel as any; // Type assertion for voice channel properties
-        return `${channel.name} (${channel.id}) - Users: ${voiceChannel.members?.size || 0}/${voiceChannel.userLimit || "∞"} - Bitrate: ${voiceChannel.bitrate}bps`;
-      })
-      .join("\n");
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Voice Channels in ${guild.name}:\n${channelList || "No voice channels found"}`,
-        },
-      ],
-    };
+    const channelList = voiceChannels.map((channel) => ({
+      id: channel.id,
+      name: channel.name,
+      connectedUsers: channel.members.size,
+      userLimit: channel.userLimit,
+      bitrate: channel.bitrate,
+    }));
+
+    return structuredResponse({
+      guildId: guild.id,
+      guildName: guild.name,
+      channelCount: channelList.length,
+      channels: channelList,
+    });
   } catch (err) {
     error(
       `Error listing voice channels: ${err instanceof Error ? err.message : String(err)}`,
@@ -193,7 +197,7 @@ export const getVoiceChannelInfoHandler: ToolHandler = async (
       };
     }
 
-    if (channel.type !== 2) {
+    if (channel.type !== ChannelType.GuildVoice) {
       // Not a voice channel
       return {
         content: [{ type: "text", text: "Channel is not a voice channel" }],
@@ -201,30 +205,21 @@ export const getVoiceChannelInfoHandler: ToolHandler = async (
       };
     }
 
-    const voiceChannel = channel as any; // Type assertion for voice channel properties
-    const members =
-      voiceChannel.members
-        ?.map(
-          (member: any) =>
-            `${member.user.username}#${member.user.discriminator}`,
-        )
-        .join(", ") || "None";
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Voice Channel Info:
-- Name: ${channel.name}
-- ID: ${channel.id}
-- User Limit: ${voiceChannel.userLimit || "No limit"}
-- Bitrate: ${voiceChannel.bitrate}bps
-- Position: ${channel.position}
-- Category: ${channel.parent?.name || "None"}
-- Connected Users: ${members}`,
-        },
-      ],
-    };
+    const members = channel.members.map((member) => ({
+      id: member.user.id,
+      username: member.user.username,
+    }));
+
+    return structuredResponse({
+      id: channel.id,
+      name: channel.name,
+      userLimit: channel.userLimit,
+      bitrate: channel.bitrate,
+      position: channel.position,
+      categoryId: channel.parentId,
+      categoryName: channel.parent?.name ?? null,
+      connectedUsers: members,
+    });
   } catch (err) {
     error(
       `Error getting voice channel info: ${err instanceof Error ? err.message : String(err)}`,
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ToolContext, ToolResponse } from "./types.js";
+import { structuredResponse } from "./structuredResponse.js";
 import {
   CreateWebhookSchema,
   SendWebhookMessageSchema,
@@ -8,6 +9,7 @@ import {
   ListWebhooksSchema,
 } from "../schemas.js";
 import { handleDiscordError } from "../errorHandler.js";
+import { isChannelInScope } from "../scopeGuard.js";
 
 // Create webhook handler
 export async function createWebhookHandler(
@@ -260,6 +262,18 @@ export async function listWebhooksHandler(
       webhooks = await guild.fetchWebhooks();
     }
 
+    // Hide webhooks that post into channels outside the allowed scope
+    webhooks = webhooks.filter((webhook) =>
+      isChannelInScope(
+        {
+          id: webhook.channelId,
+          guildId: webhook.guildId,
+          parentId: guild.channels.cache.get(webhook.channelId)?.parentId,
+        },
+        context,
+      ),
+    );
+
     const webhookList = webhooks.map((webhook) => ({
       id: webhook.id,
       name: webhook.name,
@@ -275,27 +289,16 @@ export async function listWebhooksHandler(
             discriminator: webhook.owner.discriminator,
           }
         : null,
-      createdAt: webhook.createdAt?.toISOString(),
+      createdAt: webhook.createdAt.toISOString(),
       url: webhook.url,
     }));
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${webhookList.length} webhook(s)${channelId ? ` in channel ${channelId}` : ` in guild ${guildId}`}:\n\n${webhookList
-            .map(
-              (webhook, index) =>
-                `${index + 1}. **${webhook.name}** (ID: ${webhook.id})\n` +
-                `   - Channel: ${webhook.channelName} (${webhook.channelId})\n` +
-                `   - Created: ${webhook.createdAt || "Unknown"}\n` +
-                `   - Owner: ${webhook.user ? `${webhook.user.username}#${webhook.user.discriminator}` : "Unknown"}\n` +
-                `   - URL: ${webhook.url}\n`,
-            )
-            .join("\n")}`,
-        },
-      ],
-    };
+    return structuredResponse({
+      guildId,
+      channelId: channelId ?? null,
+      webhookCount: webhookList.length,
+      webhooks: webhookList,
+    });
   } catch (error) {
     return handleDiscordError(error);
   }
@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Tool call tracing
+ * @description Records spans in the OpenTelemetry data model: one trace per
+ * tool call with child spans for validation, the handler, every Discord REST
+ * request and response formatting. Finished spans are batched and exported as
+ * OTLP/JSON, either posted to a collector (TRACE_EXPORTER=otlp) or appended
+ * to TRACE_FILE as one ExportTraceServiceRequest per line (TRACE_EXPORTER=
+ * file), which the collector's otlpjsonfile receiver can read.
+ */
+
+import { randomBytes } from "node:crypto";
+import { appendFile } from "node:fs/promises";
+import { REST } from "discord.js";
+import { getRequestScope, runInRequestScope } from "./requestContext.js";
+import { warn } from "./logger.js";
+
+export type TraceExporter = "none" | "otlp" | "file";
+
+export interface TracingOptions {
+  exporter: TraceExporter;
+  // Base URL of an OTLP/HTTP collector; spans go to <endpoint>/v1/traces
+  otlpEndpoint: string;
+  file: string | null;
+  serviceName: string;
+}
+
+type AttributeValue = string | number | boolean;
+
+// OTLP span kinds
+const SPAN_KIND = { internal: 1, server: 2, client: 3 } as const;
+
+// Finished spans are exported in batches of this size or on this interval
+const MAX_BATCH_SIZE = 512;
+const EXPORT_INTERVAL_MS = 5000;
+
+let options: TracingOptions = {
+  exporter: "none",
+  otlpEndpoint: "http://localhost:4318",
+  file: null,
+  serviceName: "mcp-discord",
+};
+
+let pendingSpans: Span[] = [];
+let exportTimer: NodeJS.Timeout | null = null;
+
+function nowUnixNano(): bigint {
+  return BigInt(Date.now()) * 1_000_000n;
+}
+
+export class Span {
+  readonly spanId = randomBytes(8).toString("hex");
+  private readonly startTime = nowUnixNano();
+  private endTime: bigint | null = null;
+  private attributes: Record<string, AttributeValue> = {};
+  private status: { code: 0 | 1 | 2; message?: string } = { code: 0 };
+
+  constructor(
+    readonly name: string,
+    readonly traceId: string,
+    readonly parentSpanId: string | null,
+    private readonly kind: keyof typeof SPAN_KIND,
+  ) {}
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+  }
+
+  setError(err: unknown): void {
+    this.status = {
+      code: 2,
+      message: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  end(): void {
+    if (this.endTime !== null) return;
+    this.endTime = nowUnixNano();
+    queueForExport(this);
+  }
+
+  toOtlp() {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+      name: this.name,
+      kind: SPAN_KIND[this.kind],
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: (this.endTime ?? nowUnixNano()).toString(),
+      attributes: Object.entries(this.attributes).map(([key, value]) => ({
+        key,
+        value: toOtlpValue(value),
+      })),
+      status: this.status,
+    };
+  }
+}
+
+function toOtlpValue(value: AttributeValue) {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+/**
+ * Applies the TRACE_* settings; called by ConfigManager on load and reload
+ */
+export function configureTracing(next: TracingOptions): void {
+  if (next.exporter === "file" && !next.file) {
+    warn("TRACE_EXPORTER=file requires TRACE_FILE; spans are not exported");
+  }
+  options = { ...next };
+}
+
+/**
+ * Starts the root span of a request with a new trace and runs `fn` inside
+ * it. The request ID is available to everything `fn` awaits through
+ * getRequestScope.
+ */
+export function traceRequest<T>(
+  name: string,
+  requestId: string,
+  attributes: Record<string, AttributeValue | undefined>,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  const scope = {
+    requestId,
+    traceId: randomBytes(16).toString("hex"),
+    spanId: null,
+  };
+  return runInRequestScope(scope, () =>
+    withSpan(
+      name,
+      { "mcp.request.id": requestId, ...attributes },
+      fn,
+      "server",
+    ),
+  );
+}
+
+/**
+ * Runs `fn` in a child span of the current span. The span ends when `fn`
+ * settles and records the error if it throws. Outside a request, `fn` runs
+ * in a trace of its own.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Record<string, AttributeValue | undefined>,
+  fn: (span: Span) => Promise<T>,
+  kind: keyof typeof SPAN_KIND = "internal",
+): Promise<T> {
+  const parent = getRequestScope();
+  const span = new Span(
+    name,
+    parent?.traceId ?? randomBytes(16).toString("hex"),
+    parent?.spanId ?? null,
+    kind,
+  );
+  span.setAttributes(attributes);
+
+  const scope = {
+    ...parent,
+    requestId: parent?.requestId ?? "",
+    traceId: span.traceId,
+    spanId: span.spanId,
+  };
+  return runInRequestScope(scope, async () => {
+    try {
+      return await fn(span);
+    } catch (err) {
+      span.setError(err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Route of a REST request without IDs and webhook tokens
+function toRouteTemplate(fullRoute: string): string {
+  return fullRoute
+    .replace(/\/(webhooks|interactions)\/(\d+)\/[^/?]+/, "/$1/$2/:token")
+    .replace(/\d{16,20}/g, ":id");
+}
+
+/**
+ * Records a client span for every REST request the Discord client makes
+ */
+export function instrumentDiscordRest(rest: REST, botName: string): void {
+  const queueRequest = rest.queueRequest.bind(rest);
+  rest.queueRequest = (request) => {
+    const route = toRouteTemplate(request.fullRoute);
+    return withSpan(
+      `Discord REST ${request.method} ${route}`,
+      {
+        "http.request.method": request.method,
+        "url.template": route,
+        "discord.bot": botName,
+      },
+      async (span) => {
+        const response = await queueRequest(request);
+        span.setAttributes({ "http.response.status_code": response.status });
+        return response;
+      },
+      "client",
+    );
+  };
+}
+
+function queueForExport(span: Span): void {
+  if (options.exporter === "none") return;
+
+  pendingSpans.push(span);
+  if (pendingSpans.length >= MAX_BATCH_SIZE) {
+    flushSpans();
+  } else if (!exportTimer) {
+    exportTimer = setTimeout(flushSpans, EXPORT_INTERVAL_MS);
+    exportTimer.unref();
+  }
+}
+
+/**
+ * Exports the finished spans that are still buffered
+ */
+export async function flushSpans(): Promise<void> {
+  if (exportTimer) {
+    clearTimeout(exportTimer);
+    exportTimer = null;
+  }
+  if (pendingSpans.length === 0) return;
+
+  const spans = pendingSpans;
+  pendingSpans = [];
+  const payload = JSON.stringify({
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [
+            {
+              key: "service.name",
+              value: { stringValue: options.serviceName },
+            },
+          ],
+        },
+        scopeSpans: [
+          {
+            scope: { name: "mcp-discord" },
+            spans: spans.map((span) => span.toOtlp()),
+          },
+        ],
+      },
+    ],
+  });
+
+  try {
+    if (options.exporter === "file" && options.file) {
+      await appendFile(options.file, payload + "\n");
+    } else if (options.exporter === "otlp") {
+      const url = `${options.otlpEndpoint.replace(/\/$/, "")}/v1/traces`;
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: payload,
+        signal: AbortSignal.timeout(10000),
+      });
+      if (!response.ok) {
+        throw new Error(`POST ${url} returned ${response.status}`);
+      }
+    }
+  } catch (err) {
+    // Spans are dropped rather than buffered without bound
+    warn(`Failed to export ${spans.length} span(s)`, { error: err });
+  }
+}
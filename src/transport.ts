@@ -1,49 +1,88 @@
+import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express, { Request, Response } from "express";
-import { toolList } from "./toolList.js";
-import { createToolContext } from "./tools/tools.js";
-import { Client, GatewayIntentBits } from "discord.js";
 import { info, error } from "./logger.js";
 import { configManager } from "./config.js";
-import { handleToolCall } from "./toolHandler.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { createHttpAuth, HttpAuth } from "./auth/httpAuth.js";
+import { getMonitoringService } from "./services/monitoringService.js";
+
+/**
+ * Request header carrying the HTTP client's address to the MCP handlers. It
+ * is always set by the transport, so clients cannot supply their own.
+ */
+export const CLIENT_IP_HEADER = "x-mcp-client-ip";
+
+/**
+ * Creates a fully configured MCP server for one client session
+ */
+export type McpServerFactory = () => Server;
 
 export interface MCPTransport {
-  start(server: Server): Promise<void>;
+  start(createServer: McpServerFactory): Promise<void>;
   stop(): Promise<void>;
 }
 
 export class StdioTransport implements MCPTransport {
-  private transport: StdioServerTransport | null = null;
+  private server: Server | null = null;
 
-  async start(server: Server): Promise<void> {
-    this.transport = new StdioServerTransport();
-    await server.connect(this.transport);
+  async start(createServer: McpServerFactory): Promise<void> {
+    this.server = createServer();
+    await this.server.connect(new StdioServerTransport());
   }
 
   async stop(): Promise<void> {
-    if (this.transport) {
-      await this.transport.close();
-      this.transport = null;
+    if (this.server) {
+      // Also closes the underlying stdio transport
+      await this.server.close();
+      this.server = null;
     }
   }
 }
 
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  // Credential that opened the session; null while auth is off
+  clientId: string | null;
+  lastActivityAt: number;
+  // Requests still being answered, including open SSE streams
+  openRequests: number;
+}
+
+// How often sessions are checked against HTTP_SESSION_TIMEOUT_MS
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Streamable HTTP transport with one MCP session per `Mcp-Session-Id`.
+ * POST carries client messages (an initialize request without a session ID
+ * opens a new session), GET opens an SSE stream for server-initiated
+ * notifications that can be resumed with `Last-Event-ID`, and DELETE ends the
+ * session. Only the credential that opened a session may use it. Sessions
+ * without open requests expire after HTTP_SESSION_TIMEOUT_MS.
+ */
 export class StreamableHttpTransport implements MCPTransport {
   private app: express.Application;
-  private server: Server | null = null;
   private httpServer: any = null;
-  private transport: StreamableHTTPServerTransport | null = null;
-  private toolContext: ReturnType<typeof createToolContext> | null = null;
-  private sessionId: string = "";
+  private createServer: McpServerFactory | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private sessionSweepInterval: NodeJS.Timeout | null = null;
+  private auth: HttpAuth;
 
   constructor(private port: number = 8080) {
+    this.auth = createHttpAuth(configManager.getConfig());
     this.app = express();
     this.app.use(express.json());
+    this.app.use(this.auth.metadataRouter);
+    // Health probes and the OAuth metadata stay public
+    this.app.use(
+      ["/mcp", "/config", "/status", "/metrics"],
+      this.auth.requireAuth,
+    );
     this.setupEndpoints();
-    this.sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-    info(`Created HTTP transport with session ID: ${this.sessionId}`);
   }
 
   private setupEndpoints() {
@@ -138,7 +177,7 @@ export class StreamableHttpTransport implements MCPTransport {
           configured: isConfigured,
           transport: "http",
           port: this.port,
-          session_id: this.sessionId,
+          active_sessions: this.sessions.size,
           timestamp: new Date().toISOString(),
           health_checks: healthStatus.checks,
           config_summary: configSummary,
@@ -154,474 +193,232 @@ export class StreamableHttpTransport implements MCPTransport {
       }
     });
 
-    // Handler for POST requests
+    // Prometheus scrape endpoint
+    this.app.get("/metrics", (_req: Request, res: Response) => {
+      try {
+        res
+          .type("text/plain; version=0.0.4; charset=utf-8")
+          .send(getMonitoringService().getPrometheusMetrics());
+      } catch (err) {
+        error("Metrics endpoint error: " + String(err));
+        res.status(500).type("text/plain").send("Metrics collection failed\n");
+      }
+    });
+
+    // Client messages; an initialize request without a session opens one
     this.app.post("/mcp", (req: Request, res: Response) => {
-      info("Received MCP request: " + JSON.stringify(req.body));
-      this.handleMcpRequest(req, res).catch((error) => {
-        error("Unhandled error in MCP request: " + String(error));
-      });
+      this.handlePost(req, res).catch((err) =>
+        this.handleUnexpectedError(res, err),
+      );
     });
 
-    // Handler for non-POST methods
-    this.app.all("/mcp", (req: Request, res: Response) => {
-      if (req.method !== "POST") {
-        res.status(405).json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32000,
-            message: "Method not allowed. Use POST.",
-          },
-          id: null,
-        });
-      }
+    // SSE stream for server-initiated messages
+    this.app.get("/mcp", (req: Request, res: Response) => {
+      this.handleSessionRequest(req, res).catch((err) =>
+        this.handleUnexpectedError(res, err),
+      );
+    });
+
+    // Session termination
+    this.app.delete("/mcp", (req: Request, res: Response) => {
+      this.handleSessionRequest(req, res).catch((err) =>
+        this.handleUnexpectedError(res, err),
+      );
+    });
+
+    this.app.all("/mcp", (_req: Request, res: Response) => {
+      res.setHeader("Allow", "GET, POST, DELETE");
+      this.sendJsonRpcError(res, 405, -32000, "Method not allowed.");
     });
   }
 
-  private async handleMcpRequest(req: Request, res: Response) {
-    try {
-      if (!this.server) {
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message: "Server not initialized",
-          },
-          id: req.body?.id || null,
-        });
-      }
+  private async handlePost(req: Request, res: Response) {
+    if (req.header("mcp-session-id")) {
+      return this.handleSessionRequest(req, res);
+    }
 
-      info(
-        `Request body (session ${this.sessionId}): ${JSON.stringify(req.body)}`,
+    if (!isInitializeRequest(req.body)) {
+      return this.sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: Mcp-Session-Id header is required",
       );
+    }
 
-      // Handle all tool requests in a generic way
-      if (!req.body.method) {
-        return res.status(400).json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32600,
-            message: "Invalid Request: No method specified",
-          },
-          id: req.body?.id || null,
-        });
-      }
+    const { HTTP_MAX_SESSIONS } = configManager.getConfig();
+    if (this.sessions.size >= HTTP_MAX_SESSIONS) {
+      return this.sendJsonRpcError(
+        res,
+        503,
+        -32000,
+        `Session limit of ${HTTP_MAX_SESSIONS} reached. Close an existing session and retry.`,
+      );
+    }
 
-      // Handle all tools directly with proper error handling
-      try {
-        const method = req.body.method;
-        const params = req.body.params || {};
-
-        // Make sure toolContext is available for tool methods
-        if (
-          !this.toolContext &&
-          method !== "list_tools" &&
-          method !== "initialize"
-        ) {
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32603,
-              message:
-                "Tool context not initialized. Service may need to be restarted.",
-            },
-            id: req.body?.id || null,
-          });
-        }
+    const session = await this.openSession(req.auth?.clientId ?? null);
+    await this.forwardRequest(session, req, res);
 
-        let result;
-
-        // Handle each tool method directly
-        switch (method) {
-          case "initialize":
-            result = {
-              protocolVersion: "2025-03-26",
-              capabilities: {
-                tools: {
-                  listChanged: false,
-                },
-              },
-              serverInfo: {
-                name: "MCP-Discord",
-                version: "1.2.0",
-              },
-            };
-            break;
-
-          case "notifications/initialized":
-            // Client indicates it's ready to begin normal operation
-            info("Client initialized. Starting normal operations.");
-            // No result needed for notifications
-            return res.json({
-              jsonrpc: "2.0",
-              result: null,
-              id: req.body.id,
-            });
-
-          case "tools/list":
-            result = { tools: toolList };
-            break;
-
-          case "list_tools":
-            // Legacy method name for backward compatibility
-            result = { tools: toolList };
-            break;
-
-          case "tools/call":
-            // Handle new tools/call method format
-            const toolName = params.name;
-            const toolArgs = params.arguments || {};
-
-            // Check if Discord client is logged in for Discord API tools
-            if (
-              toolName !== "discord_login" &&
-              toolName.startsWith("discord_") &&
-              !this.toolContext!.client.isReady()
-            ) {
-              return this.handleDiscordClientNotReady(res, toolName);
-            }
-
-            try {
-              result = await handleToolCall(toolName, toolArgs, this.toolContext!);
-            } catch (toolError) {
-              return this.handleToolError(res, toolError, req.body?.id || null);
-            }
-            break;
-
-          case "discord_login":
-          case "discord_login_status":
-          case "discord_set_token":
-          case "discord_validate_token":
-          case "discord_logout":
-          case "discord_update_config":
-          case "discord_health_check":
-          case "discord_list_servers":
-          case "discord_send":
-          case "discord_get_forum_channels":
-          case "discord_create_forum_post":
-          case "discord_get_forum_post":
-          case "discord_reply_to_forum":
-          case "discord_delete_forum_post":
-          case "discord_create_text_channel":
-          case "discord_delete_channel":
-          case "discord_read_messages":
-          case "discord_get_server_info":
-          case "discord_add_reaction":
-          case "discord_add_multiple_reactions":
-          case "discord_remove_reaction":
-          case "discord_delete_message":
-          case "discord_create_webhook":
-          case "discord_send_webhook_message":
-          case "discord_edit_webhook":
-          case "discord_delete_webhook":
-          case "discord_create_category":
-          case "discord_edit_category":
-          case "discord_delete_category":
-            // Handle legacy direct method calls
-            const toolNameLegacy = method;
-            const toolArgsLegacy = params;
-
-            // Check if Discord client is logged in for Discord API tools
-            if (
-              toolNameLegacy !== "discord_login" &&
-              toolNameLegacy.startsWith("discord_") &&
-              !this.toolContext!.client.isReady()
-            ) {
-              return this.handleDiscordClientNotReady(res, toolNameLegacy);
-            }
-
-            try {
-              result = await handleToolCall(toolNameLegacy, toolArgsLegacy, this.toolContext!);
-            } catch (toolError) {
-              return this.handleToolError(res, toolError, req.body?.id || null);
-            }
-            break;
-
-          default:
-            // For method 'ping' and other non-critical methods, just return an empty result
-            // This ensures MCP compatibility for health checks and probes
-            if (method === "ping") {
-              info(`Returning empty response for ping request`);
-              result = {};
-            } else {
-              // For other unknown methods, return method not found error
-              return res.status(400).json({
-                jsonrpc: "2.0",
-                error: {
-                  code: -32601,
-                  message: `Method not found: ${method}`,
-                },
-                id: req.body?.id || null,
-              });
-            }
-        }
+    // A rejected initialize request never registers its session
+    if (!session.transport.sessionId) {
+      await session.transport.close();
+    }
+  }
 
-        info(`Request for ${method} handled successfully`);
-
-        // Handle the case where tool handlers return { content, isError }
-        if (result && typeof result === "object" && "content" in result) {
-          // If it's an error from the tool handler
-          if ("isError" in result && result.isError) {
-            error(`Tool error response: ${JSON.stringify(result)}`);
-            return res.json({
-              jsonrpc: "2.0",
-              id: req.body.id,
-              error: {
-                code: -32603,
-                message: Array.isArray(result.content)
-                  ? result.content.map((item: any) => item.text).join(" ")
-                  : "Tool execution error",
-              },
-            });
-          }
-
-          // Return success result but maintain same format as other RPC methods
-          const finalResponse = {
-            jsonrpc: "2.0",
-            id: req.body.id,
-            result: result,
-          };
-          info(
-            `Sending response (session ${this.sessionId}): ${JSON.stringify(finalResponse)}`,
-          );
-          return res.json(finalResponse);
-        }
+  private async handleSessionRequest(req: Request, res: Response) {
+    const sessionId = req.header("mcp-session-id");
+    if (!sessionId) {
+      return this.sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: Mcp-Session-Id header is required",
+      );
+    }
 
-        // Standard result format
-        const finalResponse = {
-          jsonrpc: "2.0",
-          id: req.body.id,
-          result: result,
-        };
-        info(
-          `Sending response (session ${this.sessionId}): ${JSON.stringify(finalResponse)}`,
-        );
-        return res.json(finalResponse);
-      } catch (err) {
-        error("Error processing tool request: " + String(err));
-        // Handle validation errors
-        if (
-          err &&
-          typeof err === "object" &&
-          "name" in err &&
-          err.name === "ZodError"
-        ) {
-          return res.json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32602,
-              message: `Invalid parameters: ${err && typeof err === "object" && "message" in err ? String((err as any).message) : "Unknown validation error"}`,
-            },
-            id: req.body?.id || null,
-          });
-        }
-        // Handle all other errors
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message: err instanceof Error ? err.message : "Unknown error",
-          },
-          id: req.body?.id || null,
-        });
-      }
-    } catch (err) {
-      error("Error handling MCP request: " + String(err));
-      if (!res.headersSent) {
-        res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message:
-              err instanceof Error ? err.message : "Internal server error",
-          },
-          id: req.body?.id || null,
-        });
-      }
+    // Clients start a new session when they receive 404
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return this.sendJsonRpcError(
+        res,
+        404,
+        -32001,
+        "Session not found. It may have expired; initialize a new session.",
+      );
     }
-  }
 
-  private async handleDiscordClientNotReady(res: Response, toolName: string) {
-    error(
-      `Client not ready for tool ${toolName}, client state: ${JSON.stringify(
-        {
-          isReady: this.toolContext!.client.isReady(),
-          hasToken: !!this.toolContext!.client.token,
-          user: this.toolContext!.client.user
-            ? {
-                id: this.toolContext!.client.user.id,
-                tag: this.toolContext!.client.user.tag,
-              }
-            : null,
-        },
-      )}`,
-    );
+    // Another credential must not read the session's stream or act in it
+    if (session.clientId !== (req.auth?.clientId ?? null)) {
+      return this.sendJsonRpcError(
+        res,
+        403,
+        -32000,
+        "Forbidden: the session belongs to another client",
+      );
+    }
 
-    // Check if we have a token but not ready - try to force reconnect
-    if (this.toolContext!.client.token) {
-      info("Has token but not ready - attempting to force reconnect");
-      try {
-        // Attempt to force login with existing token
-        await this.toolContext!.client.login(
-          this.toolContext!.client.token,
-        );
-        info(
-          `Force reconnect successful: ${this.toolContext!.client.isReady()}`,
-        );
-
-        // If still not ready after reconnect, return error
-        if (!this.toolContext!.client.isReady()) {
-          return res.json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32603,
-              message:
-                "Discord client reconnect failed. Please use discord_login tool first.",
-            },
-            id: null,
-          });
-        }
+    await this.forwardRequest(session, req, res);
+  }
 
-        // Continue with original request as now logged in
-        info(
-          "Reconnected successfully, continuing with original request",
-        );
-        // Return null to indicate we should continue processing
-        return null;
-      } catch (reconnectError) {
-        error(
-          `Reconnect failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-        );
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message:
-              "Discord client reconnect failed. Please use discord_login tool first.",
-          },
-          id: null,
-        });
-      }
+  private async forwardRequest(
+    session: HttpSession,
+    req: Request,
+    res: Response,
+  ) {
+    session.openRequests++;
+    session.lastActivityAt = Date.now();
+    res.on("close", () => {
+      session.openRequests--;
+      session.lastActivityAt = Date.now();
+    });
+
+    if (req.ip) {
+      req.headers[CLIENT_IP_HEADER] = req.ip;
     } else {
-      return res.json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32603,
-          message:
-            "Discord client not logged in. Please use discord_login tool first.",
-        },
-        id: null,
-      });
+      delete req.headers[CLIENT_IP_HEADER];
     }
+    await session.transport.handleRequest(req, res, req.body);
   }
 
-  private handleToolError(res: Response, toolError: any, id: any) {
-    error("Tool execution error: " + String(toolError));
-    if (
-      toolError &&
-      typeof toolError === "object" &&
-      "name" in toolError &&
-      toolError.name === "ZodError"
-    ) {
-      return res.json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32602,
-          message: `Invalid parameters: ${toolError && typeof toolError === "object" && "message" in toolError ? String((toolError as any).message) : "Unknown validation error"}`,
-        },
-        id: id,
-      });
-    }
-    // Handle all other errors
-    return res.json({
-      jsonrpc: "2.0",
-      error: {
-        code: -32603,
-        message: toolError instanceof Error ? toolError.message : "Unknown error",
+  private async openSession(clientId: string | null): Promise<HttpSession> {
+    const server = this.createServer!();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, session);
+        info(`HTTP session ${sessionId} opened (${this.sessions.size} active)`);
       },
-      id: id,
     });
-  }
-
-  async start(server: Server): Promise<void> {
-    this.server = server;
-    info("Starting HTTP transport with server: " + String(!!this.server));
+    const session: HttpSession = {
+      server,
+      transport,
+      clientId,
+      lastActivityAt: Date.now(),
+      openRequests: 0,
+    };
+
+    // Runs on DELETE, expiry and shutdown. Set before connect() so the server
+    // chains its own close handling (subscription cleanup) onto it.
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        info(`HTTP session ${sessionId} closed`);
+      }
+    };
 
-    // Try to get client from the DiscordMCPServer instance
-    // First, check if the server is passed from DiscordMCPServer
-    if (server) {
-      // Try to access client directly from server._context
-      const anyServer = server as any;
-      let client: Client | undefined;
+    await server.connect(transport);
+    return session;
+  }
 
-      if (anyServer._context?.client) {
-        client = anyServer._context.client;
-        info("Found client in server._context");
-      }
-      // Also check if the server object has client directly
-      else if (anyServer.client instanceof Client) {
-        client = anyServer.client;
-        info("Found client directly on server object");
-      }
-      // Look in parent object if available
-      else if (anyServer._parent?.client instanceof Client) {
-        client = anyServer._parent.client;
-        info("Found client in server._parent");
-      }
+  private async expireIdleSessions() {
+    const { HTTP_SESSION_TIMEOUT_MS } = configManager.getConfig();
+    const idleSince = Date.now() - HTTP_SESSION_TIMEOUT_MS;
 
-      if (client) {
-        this.toolContext = createToolContext(client);
-        info("Tool context initialized with Discord client");
-      } else {
-        // Create a real Discord client instead of a dummy
-        info("Creating new Discord client for transport");
-        const newClient = new Client({
-          intents: [
-            GatewayIntentBits.Guilds,
-            GatewayIntentBits.GuildMessages,
-            GatewayIntentBits.MessageContent,
-            GatewayIntentBits.GuildMessageReactions,
-          ],
-        });
-        this.toolContext = createToolContext(newClient);
-        info("Tool context initialized with new Discord client");
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openRequests === 0 && session.lastActivityAt < idleSince) {
+        info(`HTTP session ${sessionId} expired`);
+        await session.transport.close();
       }
     }
+  }
 
-    // Create a stateless transport
-    this.transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined, // set to undefined for stateless servers
+  private sendJsonRpcError(
+    res: Response,
+    status: number,
+    code: number,
+    message: string,
+  ) {
+    res.status(status).json({
+      jsonrpc: "2.0",
+      error: { code, message },
+      id: null,
     });
+  }
 
-    // Connect the transport
-    await this.server.connect(this.transport);
-    info("Transport connected");
+  private handleUnexpectedError(res: Response, err: unknown) {
+    error("Error handling MCP request: " + String(err));
+    if (!res.headersSent) {
+      this.sendJsonRpcError(res, 500, -32603, "Internal server error");
+    }
+  }
 
-    return new Promise((resolve) => {
-      this.httpServer = this.app.listen(this.port, "0.0.0.0", () => {
-        info(`MCP Server listening on 0.0.0.0:${this.port}`);
-        info("Server is ready to accept requests");
-        resolve();
-      });
+  async start(createServer: McpServerFactory): Promise<void> {
+    this.createServer = createServer;
+
+    this.sessionSweepInterval = setInterval(() => {
+      this.expireIdleSessions().catch((err) =>
+        error("Failed to expire idle sessions: " + String(err)),
+      );
+    }, SESSION_SWEEP_INTERVAL_MS);
+    this.sessionSweepInterval.unref();
 
+    return new Promise((resolve) => {
       // Also resolve after a short delay to ensure we don't hang
-      setTimeout(() => {
+      const startupFallback = setTimeout(() => {
         if (!this.httpServer?.listening) {
           info("Server startup timeout fallback triggered");
           resolve();
         }
       }, 5000);
+
+      this.httpServer = this.app.listen(this.port, "0.0.0.0", () => {
+        clearTimeout(startupFallback);
+        info(`MCP Server listening on 0.0.0.0:${this.port}`);
+        info("Server is ready to accept requests");
+        resolve();
+      });
     });
   }
 
   async stop(): Promise<void> {
-    if (this.transport) {
-      await this.transport.close();
-      this.transport = null;
+    if (this.sessionSweepInterval) {
+      clearInterval(this.sessionSweepInterval);
+      this.sessionSweepInterval = null;
     }
 
-    if (this.server) {
-      await this.server.close();
-      this.server = null;
+    for (const session of [...this.sessions.values()]) {
+      await session.transport.close();
     }
 
     if (this.httpServer) {
@@ -634,4 +431,4 @@ export class StreamableHttpTransport implements MCPTransport {
       });
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,384 @@
+/**
+ * @fileoverview Zod to JSON Schema conversion
+ * @description Converts the Zod schemas of registered tools into the JSON
+ * Schema (draft-07) documents MCP clients receive as inputSchema and
+ * outputSchema. Descriptions, numeric and string bounds, enums, defaults,
+ * nullability, records, tuples and unions are preserved so clients can
+ * validate arguments before calling a tool.
+ */
+
+import { z } from "zod";
+import { warn } from "./logger.js";
+
+export type JsonSchema = { [key: string]: any };
+
+// Lazy schemas currently being expanded, used to stop on recursive types
+const expandingLazySchemas = new WeakSet<z.ZodTypeAny>();
+
+/**
+ * Converts a Zod schema to JSON Schema. Types without a JSON Schema
+ * equivalent (functions, promises, maps) become an unconstrained schema.
+ */
+export function convertZodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const jsonSchema = convertType(schema);
+
+  // .describe() can sit on any wrapper, so apply it after unwrapping
+  if (schema.description) {
+    jsonSchema.description = schema.description;
+  }
+
+  return jsonSchema;
+}
+
+function convertType(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject);
+
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(def as z.ZodStringDef);
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(def as z.ZodNumberDef);
+
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: "integer", format: "int64" };
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return convertLiteral(def.value);
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...def.values] };
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TypeScript enums carry a reverse mapping; keep only values
+      const values = Object.entries(def.values as Record<string, unknown>)
+        .filter(([key]) => typeof def.values[def.values[key]] !== "number")
+        .map(([, value]) => value);
+      const types = [...new Set(values.map((value) => typeof value))];
+      return {
+        type: types.length === 1 ? types[0] : types,
+        enum: values,
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const arraySchema: JsonSchema = {
+        type: "array",
+        items: convertZodToJsonSchema(def.type),
+      };
+      if (def.exactLength) {
+        arraySchema.minItems = def.exactLength.value;
+        arraySchema.maxItems = def.exactLength.value;
+      }
+      if (def.minLength) arraySchema.minItems = def.minLength.value;
+      if (def.maxLength) arraySchema.maxItems = def.maxLength.value;
+      return arraySchema;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodSet: {
+      const setSchema: JsonSchema = {
+        type: "array",
+        uniqueItems: true,
+        items: convertZodToJsonSchema(def.valueType),
+      };
+      if (def.minSize) setSchema.minItems = def.minSize.value;
+      if (def.maxSize) setSchema.maxItems = def.maxSize.value;
+      return setSchema;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const items = (def.items as z.ZodTypeAny[]).map(convertZodToJsonSchema);
+      const tupleSchema: JsonSchema = {
+        type: "array",
+        items,
+        minItems: items.length,
+      };
+      if (def.rest) {
+        tupleSchema.additionalItems = convertZodToJsonSchema(def.rest);
+      } else {
+        tupleSchema.maxItems = items.length;
+      }
+      return tupleSchema;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord: {
+      const recordSchema: JsonSchema = {
+        type: "object",
+        additionalProperties: convertZodToJsonSchema(def.valueType),
+      };
+      // Keys are always strings; keep only their constraints
+      const keyConstraints = convertZodToJsonSchema(def.keyType);
+      delete keyConstraints.type;
+      if (Object.keys(keyConstraints).length > 0) {
+        recordSchema.propertyNames = keyConstraints;
+      }
+      return recordSchema;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return convertUnion(def.options as z.ZodTypeAny[]);
+
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return {
+        anyOf: (def.options as z.ZodTypeAny[]).map(convertZodToJsonSchema),
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return {
+        allOf: [
+          convertZodToJsonSchema(def.left),
+          convertZodToJsonSchema(def.right),
+        ],
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      // Optionality is expressed by the parent object's required list
+      return convertZodToJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return convertNullable(convertZodToJsonSchema(def.innerType));
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return {
+        ...convertZodToJsonSchema(def.innerType),
+        default: def.defaultValue(),
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // refine, transform and preprocess validate against the inner schema
+      return convertZodToJsonSchema(def.schema);
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      // Callers send data matching the input side of the pipeline
+      return convertZodToJsonSchema(def.in);
+
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return convertZodToJsonSchema(def.type);
+
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return convertZodToJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodLazy: {
+      if (expandingLazySchemas.has(schema)) {
+        return {};
+      }
+      expandingLazySchemas.add(schema);
+      try {
+        return convertZodToJsonSchema(def.getter());
+      } finally {
+        expandingLazySchemas.delete(schema);
+      }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodAny:
+    case z.ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+
+    case z.ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+
+    default:
+      warn(
+        `Zod type ${def.typeName} has no JSON Schema equivalent, leaving it unconstrained`,
+      );
+      return {};
+  }
+}
+
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    const propertySchema = value as z.ZodTypeAny;
+    properties[key] = convertZodToJsonSchema(propertySchema);
+
+    // Optional and defaulted properties may be omitted by the caller
+    if (!propertySchema.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const objectSchema: JsonSchema = { type: "object", properties };
+  if (required.length > 0) {
+    objectSchema.required = required;
+  }
+
+  const { catchall, unknownKeys } = schema._def;
+  if (
+    catchall &&
+    catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever
+  ) {
+    objectSchema.additionalProperties = convertZodToJsonSchema(catchall);
+  } else if (unknownKeys === "passthrough") {
+    objectSchema.additionalProperties = true;
+  } else if (unknownKeys === "strict") {
+    objectSchema.additionalProperties = false;
+  }
+
+  return objectSchema;
+}
+
+function convertString(def: z.ZodStringDef): JsonSchema {
+  const stringSchema: JsonSchema = { type: "string" };
+  const patterns: string[] = [];
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "min":
+        stringSchema.minLength = check.value;
+        break;
+      case "max":
+        stringSchema.maxLength = check.value;
+        break;
+      case "length":
+        stringSchema.minLength = check.value;
+        stringSchema.maxLength = check.value;
+        break;
+      case "regex":
+        patterns.push(check.regex.source);
+        break;
+      case "startsWith":
+        patterns.push(`^${escapeRegExp(check.value)}`);
+        break;
+      case "endsWith":
+        patterns.push(`${escapeRegExp(check.value)}$`);
+        break;
+      case "includes":
+        patterns.push(escapeRegExp(check.value));
+        break;
+      case "email":
+        stringSchema.format = "email";
+        break;
+      case "url":
+        stringSchema.format = "uri";
+        break;
+      case "uuid":
+        stringSchema.format = "uuid";
+        break;
+      case "datetime":
+        stringSchema.format = "date-time";
+        break;
+      case "date":
+        stringSchema.format = "date";
+        break;
+      case "time":
+        stringSchema.format = "time";
+        break;
+      case "ip":
+        stringSchema.format = check.version === "v6" ? "ipv6" : "ipv4";
+        break;
+    }
+  }
+
+  // JSON Schema allows a single pattern; extra ones are combined with allOf
+  if (patterns.length > 0) {
+    stringSchema.pattern = patterns[0];
+  }
+  if (patterns.length > 1) {
+    stringSchema.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+  }
+
+  return stringSchema;
+}
+
+function convertNumber(def: z.ZodNumberDef): JsonSchema {
+  const numberSchema: JsonSchema = { type: "number" };
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "int":
+        numberSchema.type = "integer";
+        break;
+      case "min":
+        if (check.inclusive) {
+          numberSchema.minimum = check.value;
+        } else {
+          numberSchema.exclusiveMinimum = check.value;
+        }
+        break;
+      case "max":
+        if (check.inclusive) {
+          numberSchema.maximum = check.value;
+        } else {
+          numberSchema.exclusiveMaximum = check.value;
+        }
+        break;
+      case "multipleOf":
+        numberSchema.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return numberSchema;
+}
+
+function convertLiteral(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: "null" };
+  }
+  if (value === undefined) {
+    return {};
+  }
+  return {
+    type: typeof value === "bigint" ? "integer" : typeof value,
+    const: value,
+  };
+}
+
+function convertUnion(options: z.ZodTypeAny[]): JsonSchema {
+  const converted = options.map(convertZodToJsonSchema);
+
+  // A union of literals reads better as a single enum
+  const allLiterals = converted.every(
+    (option) => "const" in option && Object.keys(option).length === 2,
+  );
+  if (allLiterals) {
+    const types = [...new Set(converted.map((option) => option.type))];
+    return {
+      type: types.length === 1 ? types[0] : types,
+      enum: converted.map((option) => option.const),
+    };
+  }
+
+  // Unconstrained primitives collapse into a type list, e.g. string | number
+  const allBareTypes = converted.every(
+    (option) =>
+      typeof option.type === "string" && Object.keys(option).length === 1,
+  );
+  if (allBareTypes) {
+    const types = [...new Set(converted.map((option) => option.type))];
+    return { type: types.length === 1 ? types[0] : types };
+  }
+
+  return { anyOf: converted };
+}
+
+function convertNullable(inner: JsonSchema): JsonSchema {
+  // Plain typed schemas just gain "null" as an allowed type
+  const constrainsValues = "enum" in inner || "const" in inner;
+  if (typeof inner.type === "string" && !constrainsValues) {
+    return { ...inner, type: [inner.type, "null"] };
+  }
+  if (Array.isArray(inner.type) && !constrainsValues) {
+    return { ...inner, type: [...new Set([...inner.type, "null"])] };
+  }
+  return { anyOf: [inner, { type: "null" }] };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}